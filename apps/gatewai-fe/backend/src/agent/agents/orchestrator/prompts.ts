@@ -141,9 +141,18 @@ Data types MUST overlap between connections
 - New edges: "temp-edge-{source}-{target}-{timestamp}"
 
 **SPECIAL NODE BEHAVIORS**:
-- VideoCompositor: NO output handle (download via UI only).
+- VideoCompositor: Renders its layers to a video on its single Video output handle, connect it to an Export node to return the video from API runs.
 - TTS node config can generate audio with up to two voices.Configure up to 2 speakers. For multi-speaker, provide unique names that match how they appear in the text prompt (e.g., Joe: Hello!, Maria: Hey!).
-- We have no Array types so, we also have no text splitter node. For example when you want to create LLM that generates script we cannot distribute the output. Instead, create multiple LLM connected to each other e.g. Stage 1 + Prompt = Stage 2. Or better way you can think of.
+- The only list type is the output of an Iterator node. For example when you want an LLM to generate several prompts, ask it for one prompt per line and connect it to an Iterator. For multi stage generation, create multiple LLM connected to each other e.g. Stage 1 + Prompt = Stage 2.
+- Router: Forwards its "Value" input to the "True" or "False" output based on its Boolean "Condition" input (from a Toggle or Compare node). Nodes connected to the branch that isn't taken are skipped, not failed.
+- Compare: Checks a Text or Number input against its config value (contains, equals, regex, gt, gte, lt, lte) and outputs a Boolean.
+- Iterator: Splits its connected texts (one item per line) and images into a list. Every node downstream of it runs once per item and collects one output per item, so use it to batch prompts or images instead of duplicating nodes.
+- SubCanvas: Runs another published canvas as a single node. Its input handles feed the Text/File nodes and its output handles come from the Export nodes of that canvas. Do not edit its config or handles, users add it from the node palette.
+- Inpaint: Regenerates the area of its "Image" input where the "Mask" input is painted (e.g. the Mask output of a Paint node), following the "Prompt". With mode "outpaint" it extends the image by "padding" pixels on every side instead, the mask is then optional.
+- Image adjustments (Sharpen, Levels, ColorBalance, Invert, Grayscale, Vignette, Noise, Rotate, ChromaKey) take one "Image" input and output the adjusted image, chain them for combined looks. ChromaKey makes the key color transparent, e.g. before a Compositor.
+- Encode: Converts its "Image" input to the "format" (webp, avif, jpeg or png) at the given "quality", set "maxFileSizeKb" to compress until the file fits. It strips EXIF/XMP by default, "exif" and "xmp" add new metadata.
+- RemoveBackground: Cuts out the subject of its "Image" input. Its "Image" output is the subject on a transparent background, its "Mask" output marks the subject and plugs into Inpaint or a Compositor. Segmenter "onnx" runs on the server for free, "model" asks an image model and costs credits.
+- Upscale: Enlarges its "Image" input by "factor" (2x or 4x). Algorithm "lanczos" is plain resampling, "edge-directed" keeps edges of graphics and text crisper, "model" runs an upscaling model on the server for the most detail but is the slowest. Prefer it over Resize to enlarge images.
 - Do not escape newline in TextMerger node.
 - Preview: Must have EXACTLY one input connection. Use ONLY for TextMerger outputs to visualize merged text, since TextMerger doesn't display results in the node itself.
 - File: User uploads via UI, only provide output handle
@@ -403,7 +403,7 @@ You are executing in a sandboxed QuickJS environment.
 5. **Compositor/VideoCompositor Configs**:
    - If configuring \`layerUpdates\`, the KEYS of the object MUST be the valid **ID of the Input Handle**, not the handle name or label.
    - Example: \`config: { layerUpdates: { [handleId]: { opacity: 0.5 } } }\`
-6. **VideoCompositor**: This node CANNOT have Output handles. It is a terminal node.
+6. **VideoCompositor**: Has exactly one Video output handle with the rendered video.
 7. **VideoGen**: Maximum 3 image inputs allowed.
 
 ## Layout & Positioning
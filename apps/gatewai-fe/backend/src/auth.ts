@@ -1,10 +1,12 @@
 import { prisma } from "@gatewai/db";
+import { type ApiKeyScope, parseApiKeyScopes } from "@gatewai/types";
 import { betterAuth } from "better-auth";
 import { prismaAdapter } from "better-auth/adapters/prisma";
 import { apiKey } from "better-auth/plugins";
 import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
 import { ENV_CONFIG } from "./config.js";
+import { linkCanvasInvitations } from "./data-ops/canvas-members.js";
 import { logger } from "./logger.js";
 
 export const auth = betterAuth({
@@ -31,6 +33,9 @@ export const auth = betterAuth({
 		user: {
 			create: {
 				after: async (user) => {
+					// Canvases shared with the email before the user signed up
+					await linkCanvasInvitations(user);
+
 					// Auto-generate a default API token for the new user
 					const key = `gte_${crypto.randomUUID().replace(/-/g, "")}`;
 					await prisma.apiKey.create({
@@ -48,6 +53,9 @@ export const auth = betterAuth({
 	},
 }) as ReturnType<typeof betterAuth>;
 
+// lastUsedAt is written at most once per interval, not on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
 export const authMiddleware = createMiddleware(async (c, next) => {
 	const session = c.get("session");
 	if (!session) {
@@ -61,6 +69,13 @@ export const authMiddleware = createMiddleware(async (c, next) => {
 				include: { user: true },
 			});
 
+			if (keyRecord?.expiresAt && keyRecord.expiresAt <= new Date()) {
+				const errorResponse = new Response("Unauthorized - API Key expired", {
+					status: 401,
+				});
+				throw new HTTPException(401, { res: errorResponse });
+			}
+
 			if (keyRecord) {
 				// 2. Set User Context from API Key
 				c.set("user", keyRecord.user);
@@ -75,12 +90,24 @@ export const authMiddleware = createMiddleware(async (c, next) => {
 					userAgent: c.req.header("user-agent") || null,
 				});
 				c.set("isApiKeyAuth", true);
+				c.set("apiKeyId", keyRecord.id);
+				c.set("apiKeyScopes", parseApiKeyScopes(keyRecord.permissions));
 
 				// 3. Update Last Used (Fire and forget)
-				await prisma.apiKey.update({
-					where: { id: keyRecord.id },
-					data: { lastUsedAt: new Date() },
-				});
+				if (
+					!keyRecord.lastUsedAt ||
+					Date.now() - keyRecord.lastUsedAt.getTime() >
+						LAST_USED_UPDATE_INTERVAL_MS
+				) {
+					prisma.apiKey
+						.update({
+							where: { id: keyRecord.id },
+							data: { lastUsedAt: new Date() },
+						})
+						.catch((err) => {
+							logger.warn({ err }, "Failed to update API key last use");
+						});
+				}
 
 				await next();
 				return;
@@ -111,12 +138,17 @@ export type AuthHonoTypes = {
 	user: typeof auth.$Infer.Session.user | null;
 	session: typeof auth.$Infer.Session.session | null;
 	isApiKeyAuth?: boolean;
+	apiKeyId?: string;
+	// Null when the API key has full access
+	apiKeyScopes?: ApiKeyScope[] | null;
 };
 
 export type AuthorizedHonoTypes = {
 	user: typeof auth.$Infer.Session.user;
 	session: typeof auth.$Infer.Session.session;
 	isApiKeyAuth?: boolean;
+	apiKeyId?: string;
+	apiKeyScopes?: ApiKeyScope[] | null;
 };
 
 // Union type for auth helpers to work with both contexts
@@ -10,6 +10,21 @@ const envSchema = z.object({
 	REDIS_PORT: z.coerce.number(), // Changed to number for easier use with Redis clients
 	REDIS_PASSWORD: z.string().optional(),
 	GEMINI_API_KEY: z.string().min(1),
+	// Registers the OpenAI model provider
+	OPENAI_API_KEY: z.string().min(1).optional(),
+	/**
+	 * JSON array of OpenAI-compatible servers to register as model providers, e.g.
+	 * [{"id":"ollama","label":"Ollama","baseUrl":"http://localhost:11434/v1"}]
+	 */
+	OPENAI_COMPATIBLE_PROVIDERS: z.string().optional(),
+	/**
+	 * ONNX model of the onnx background segmenter, with a 1x3xSxS input normalized
+	 * like RMBG-1.4 and a matte output, e.g. briaai/RMBG-1.4
+	 */
+	BACKGROUND_REMOVAL_MODEL_PATH: z.string().min(1).optional(),
+	BACKGROUND_REMOVAL_MODEL_SIZE: z.coerce.number().int().min(1).default(1024),
+	// ONNX model of the model upscaler with RGB input and output in 0-1, e.g. Real-ESRGAN x4
+	UPSCALE_MODEL_PATH: z.string().min(1).optional(),
 	GCS_ASSETS_BUCKET: z.string().min(1),
 	GOOGLE_APPLICATION_CREDENTIALS_PATH: z.string().min(1).optional(),
 	GOOGLE_CLIENT_ID: z.string().min(1),
@@ -28,6 +43,33 @@ const envSchema = z.object({
 		.default("false"),
 	MAX_CONCURRENT_ASSISTANT_JOBS: z.coerce.number().default(5),
 	MAX_CONCURRENT_WORKFLOW_JOBS: z.coerce.number().default(5),
+	// Items an Iterator may fan out to, each one runs every downstream node once
+	MAX_ITERATOR_ITEMS: z.coerce.number().int().min(1).default(100),
+	// Days canvases of API runs are kept, unless the user or API key sets its own. 0 keeps them.
+	API_RUN_RETENTION_DAYS: z.coerce.number().int().min(0).default(7),
+	// Unreferenced objects under temp/ are deleted after this, signed URLs of temp objects last ~2 days.
+	// Must outlast the day cached results are reused for, they may point to temp objects.
+	TEMP_MEDIA_RETENTION_HOURS: z.coerce.number().gt(24).default(48),
+	// When the garbage collection sweep runs, in UTC
+	GC_CRON: z.string().default("0 3 * * *"),
+	// Monthly credits a user can spend on AI nodes unless they have their own quota, unset is unlimited
+	DEFAULT_USAGE_QUOTA: z.coerce.number().min(0).optional(),
+	// Where media is stored, GCS_ASSETS_BUCKET is the bucket name for every driver
+	STORAGE_DRIVER: z.enum(["gcs", "local", "s3"]).default("gcs"),
+	// Root directory of the local driver, buckets are its subdirectories
+	LOCAL_STORAGE_PATH: z.string().default("./storage"),
+	// Signs URLs of the local driver, which are served by the backend. Required by it.
+	STORAGE_SIGNING_SECRET: z.string().min(16).optional(),
+	// Leave the endpoint empty for AWS, set it for MinIO, R2 etc.
+	S3_ENDPOINT: z.string().url().optional(),
+	S3_REGION: z.string().default("us-east-1"),
+	S3_ACCESS_KEY_ID: z.string().optional(),
+	S3_SECRET_ACCESS_KEY: z.string().optional(),
+	S3_FORCE_PATH_STYLE: z
+		.string()
+		.toLowerCase()
+		.transform((val) => val === "true")
+		.default("false"),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -0,0 +1,289 @@
+import path from "node:path";
+import { type FileAsset, prisma } from "@gatewai/db";
+import {
+	CANVAS_EXPORT_FORMAT,
+	CANVAS_EXPORT_VERSION,
+	type CanvasExport,
+	type CanvasExportAsset,
+} from "@gatewai/types";
+import { HTTPException } from "hono/http-exception";
+import { ENV_CONFIG } from "../config.js";
+import { sanitizeFilename } from "../utils/file-utils.js";
+import { generateId } from "../utils/misc.js";
+import {
+	generateSignedUrl,
+	getFromStorage,
+	uploadToStorage,
+} from "../utils/storage.js";
+import { GetCanvasEntities } from "./canvas.js";
+import { remapLayerUpdates, remapOutputHandleIds } from "./duplicate-canvas.js";
+import {
+	collectMediaReferences,
+	type MediaReferences,
+} from "./garbage-collection.js";
+
+/**
+ * Exports a canvas as a portable document, see `canvasExportSchema`.
+ * With includeAssets, the file assets its nodes reference are embedded.
+ */
+async function exportCanvas(canvasId: string, includeAssets = false) {
+	const { canvas, nodes, edges, handles } = await GetCanvasEntities(canvasId);
+
+	const templateHandleIds = handles
+		.map((handle) => handle.templateHandleId)
+		.filter(Boolean) as string[];
+	const templateHandles = await prisma.nodeTemplateHandle.findMany({
+		where: { id: { in: templateHandleIds } },
+		select: { id: true, label: true },
+	});
+	const templateHandleLabels = new Map(
+		templateHandles.map((th) => [th.id, th.label]),
+	);
+
+	const document = {
+		format: CANVAS_EXPORT_FORMAT,
+		version: CANVAS_EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		canvas: { name: canvas.name, description: canvas.description },
+		graph: {
+			nodes: nodes.map((node) => ({
+				id: node.id,
+				name: node.name,
+				type: node.type,
+				position: node.position as { x: number; y: number },
+				width: node.width ?? undefined,
+				height: node.height,
+				config: node.config as Record<string, unknown> | null,
+				result: node.result as Record<string, unknown> | null,
+				templateId: node.type,
+			})),
+			handles: handles.map((handle) => ({
+				id: handle.id,
+				nodeId: handle.nodeId,
+				type: handle.type,
+				label: handle.label,
+				order: handle.order,
+				required: handle.required,
+				dataTypes: handle.dataTypes,
+				templateHandleId: handle.templateHandleId
+					? (templateHandleLabels.get(handle.templateHandleId) ?? null)
+					: null,
+			})),
+			edges: edges.map((edge) => ({
+				id: edge.id,
+				source: edge.source,
+				target: edge.target,
+				sourceHandleId: edge.sourceHandleId,
+				targetHandleId: edge.targetHandleId,
+			})),
+		},
+		assets: undefined as CanvasExportAsset[] | undefined,
+	};
+
+	if (includeAssets) {
+		const refs: MediaReferences = { assetIds: new Set(), tempKeys: new Set() };
+		for (const node of nodes) {
+			collectMediaReferences(node.config, refs);
+			collectMediaReferences(node.result, refs);
+		}
+		const assets = await prisma.fileAsset.findMany({
+			where: { id: { in: [...refs.assetIds] } },
+		});
+
+		// One at a time, assets can be large
+		document.assets = [];
+		for (const asset of assets) {
+			const buffer = await getFromStorage(asset.key, asset.bucket);
+			document.assets.push({
+				id: asset.id,
+				name: asset.name,
+				mimeType: asset.mimeType,
+				width: asset.width,
+				height: asset.height,
+				duration: asset.duration,
+				fps: asset.fps,
+				data: buffer.toString("base64"),
+			});
+		}
+	}
+
+	return document;
+}
+
+/**
+ * Uploads the embedded assets as new assets of the user, keyed by their exported ID.
+ */
+async function importAssets(
+	assets: CanvasExportAsset[],
+	userId: string | null,
+) {
+	const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
+	const expiresIn = 3600 * 24 * 6.9; // A bit less than a week
+	const importedAssets = new Map<string, FileAsset>();
+
+	for (const asset of assets) {
+		const buffer = Buffer.from(asset.data, "base64");
+		// Names come from the document, only their extension is used in the key
+		const key = `assets/${generateId()}${path.extname(sanitizeFilename(asset.name))}`;
+		await uploadToStorage(buffer, key, asset.mimeType, bucket);
+
+		const imported = await prisma.fileAsset.create({
+			data: {
+				name: asset.name,
+				userId,
+				bucket,
+				key,
+				isUploaded: true,
+				size: buffer.length,
+				signedUrl: await generateSignedUrl(key, bucket, expiresIn),
+				signedUrlExp: new Date(Date.now() + expiresIn * 1000),
+				width: asset.width,
+				height: asset.height,
+				duration: asset.duration,
+				fps: asset.fps,
+				mimeType: asset.mimeType,
+			},
+		});
+		importedAssets.set(asset.id, imported);
+	}
+
+	return importedAssets;
+}
+
+/**
+ * Points FileData entities of exported assets to their imported copies.
+ */
+function replaceAssetEntities(
+	value: unknown,
+	importedAssets: Map<string, FileAsset>,
+): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => replaceAssetEntities(item, importedAssets));
+	}
+	if (!value || typeof value !== "object") return value;
+
+	const replaced: Record<string, unknown> = {};
+	for (const [key, child] of Object.entries(value)) {
+		const assetId = (child as { id?: string } | null)?.id;
+		replaced[key] =
+			key === "entity" && assetId && importedAssets.has(assetId)
+				? JSON.parse(JSON.stringify(importedAssets.get(assetId)))
+				: replaceAssetEntities(child, importedAssets);
+	}
+	return replaced;
+}
+
+/**
+ * Creates a canvas from an exported document. Like duplicated canvases it gets new
+ * node, handle and edge IDs, and handle IDs in configs and results are remapped.
+ * Templates are looked up by NodeType and template handle label.
+ */
+async function importCanvas(document: CanvasExport, userId: string | null) {
+	const { nodes = [], handles = [], edges = [] } = document.graph;
+
+	const templates = await prisma.nodeTemplate.findMany({
+		where: { type: { in: [...new Set(nodes.map((node) => node.type))] } },
+		include: { templateHandles: true },
+	});
+	const templatesByType = new Map(templates.map((t) => [t.type, t]));
+	for (const node of nodes) {
+		if (!templatesByType.has(node.type)) {
+			throw new HTTPException(400, {
+				message: `Node type ${node.type} is not available`,
+			});
+		}
+	}
+
+	const importedAssets = await importAssets(document.assets ?? [], userId);
+
+	const oldToNewNodeId: { [oldId: string]: string } = {};
+	const oldToNewHandleId: { [oldId: string]: string } = {};
+	for (const node of nodes) {
+		oldToNewNodeId[node.id as string] = generateId();
+	}
+	for (const handle of handles) {
+		oldToNewHandleId[handle.id as string] = generateId();
+	}
+	const templateHandlesByNodeId = new Map(
+		nodes.map((node) => [
+			node.id,
+			templatesByType.get(node.type)?.templateHandles ?? [],
+		]),
+	);
+
+	return prisma.$transaction(async (tx) => {
+		const canvas = await tx.canvas.create({
+			data: {
+				name: document.canvas.name,
+				description: document.canvas.description,
+				userId,
+			},
+		});
+
+		await tx.node.createMany({
+			data: nodes.map((node) => {
+				const config = remapLayerUpdates(
+					(node.config as Record<string, unknown> | null) ?? null,
+					oldToNewHandleId,
+				);
+				const result =
+					remapOutputHandleIds(node.result ?? null, oldToNewHandleId) ??
+					node.result;
+				return {
+					id: oldToNewNodeId[node.id as string],
+					canvasId: canvas.id,
+					name: node.name,
+					type: node.type,
+					position: node.position,
+					width: node.width,
+					height: node.height,
+					config:
+						(replaceAssetEntities(config, importedAssets) as object) ??
+						undefined,
+					result:
+						(replaceAssetEntities(result, importedAssets) as object) ??
+						undefined,
+					templateId: templatesByType.get(node.type)?.id as string,
+				};
+			}),
+		});
+
+		await tx.handle.createMany({
+			data: handles.map((handle) => {
+				const templateHandle = handle.templateHandleId
+					? templateHandlesByNodeId
+							.get(handle.nodeId)
+							?.find(
+								(th) =>
+									th.type === handle.type &&
+									th.label === handle.templateHandleId,
+							)
+					: undefined;
+				return {
+					id: oldToNewHandleId[handle.id as string],
+					nodeId: oldToNewNodeId[handle.nodeId],
+					type: handle.type,
+					label: handle.label,
+					order: handle.order,
+					required: handle.required,
+					dataTypes: handle.dataTypes,
+					templateHandleId: templateHandle?.id ?? null,
+				};
+			}),
+		});
+
+		await tx.edge.createMany({
+			data: edges.map((edge) => ({
+				id: generateId(),
+				source: oldToNewNodeId[edge.source],
+				target: oldToNewNodeId[edge.target],
+				sourceHandleId: oldToNewHandleId[edge.sourceHandleId as string],
+				targetHandleId: oldToNewHandleId[edge.targetHandleId as string],
+			})),
+		});
+
+		return canvas;
+	});
+}
+
+export { exportCanvas, importCanvas };
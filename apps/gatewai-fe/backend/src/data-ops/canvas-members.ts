@@ -0,0 +1,172 @@
+import {
+	type Canvas,
+	type CanvasMember,
+	type CanvasRole,
+	prisma,
+	type User,
+} from "@gatewai/db";
+import { HTTPException } from "hono/http-exception";
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Owner and members of a canvas, members without an account are pending invitations.
+ */
+async function getCanvasMembers(canvasId: Canvas["id"]) {
+	const canvas = await prisma.canvas.findUniqueOrThrow({
+		where: { id: canvasId },
+		select: {
+			user: { select: { id: true, name: true, email: true } },
+			members: {
+				orderBy: { createdAt: "asc" },
+				select: {
+					id: true,
+					email: true,
+					role: true,
+					createdAt: true,
+					user: { select: { id: true, name: true } },
+				},
+			},
+		},
+	});
+	return { owner: canvas.user, members: canvas.members };
+}
+
+/**
+ * Shares the canvas with an email, or changes the role of an existing member.
+ */
+async function inviteCanvasMember(
+	canvas: Pick<Canvas, "id" | "userId">,
+	email: string,
+	role: CanvasRole,
+) {
+	const normalizedEmail = normalizeEmail(email);
+	const user = await prisma.user.findFirst({
+		where: { email: { equals: normalizedEmail, mode: "insensitive" } },
+		select: { id: true },
+	});
+	if (user && user.id === canvas.userId) {
+		throw new HTTPException(400, {
+			message: "The owner already has access to this canvas",
+		});
+	}
+
+	return prisma.canvasMember.upsert({
+		where: {
+			canvasId_email: { canvasId: canvas.id, email: normalizedEmail },
+		},
+		create: {
+			canvasId: canvas.id,
+			email: normalizedEmail,
+			userId: user?.id,
+			role,
+		},
+		update: { role },
+	});
+}
+
+async function updateCanvasMember(
+	canvasId: Canvas["id"],
+	memberId: CanvasMember["id"],
+	role: CanvasRole,
+) {
+	const { count } = await prisma.canvasMember.updateMany({
+		where: { id: memberId, canvasId },
+		data: { role },
+	});
+	if (count === 0) {
+		throw new HTTPException(404, { message: "Member not found" });
+	}
+}
+
+/**
+ * Removes a member, owners can remove anyone and members can leave.
+ */
+async function removeCanvasMember(
+	canvas: Pick<Canvas, "id" | "userId">,
+	memberId: CanvasMember["id"],
+	userId: User["id"],
+) {
+	const { count } = await prisma.canvasMember.deleteMany({
+		where: {
+			id: memberId,
+			canvasId: canvas.id,
+			...(canvas.userId === userId ? {} : { userId }),
+		},
+	});
+	if (count === 0) {
+		throw new HTTPException(404, { message: "Member not found" });
+	}
+}
+
+/**
+ * Role of the user on the canvas, owners are editors.
+ */
+async function getCanvasRole(
+	canvas: Pick<Canvas, "id" | "userId">,
+	userId: User["id"],
+): Promise<CanvasRole | null> {
+	if (canvas.userId === userId) {
+		return "EDITOR";
+	}
+	const member = await prisma.canvasMember.findFirst({
+		where: { canvasId: canvas.id, userId },
+		select: { role: true },
+	});
+	return member?.role ?? null;
+}
+
+/**
+ * Links invitations made before the user signed up.
+ */
+async function linkCanvasInvitations(user: Pick<User, "id" | "email">) {
+	await prisma.canvasMember.updateMany({
+		where: { email: normalizeEmail(user.email), userId: null },
+		data: { userId: user.id },
+	});
+}
+
+/**
+ * Canvases shared with the user, with their role and the owner.
+ */
+async function getSharedCanvases(userId: User["id"], q?: string) {
+	const memberships = await prisma.canvasMember.findMany({
+		where: {
+			userId,
+			canvas: {
+				isAPICanvas: false,
+				...(q ? { name: { contains: q, mode: "insensitive" } } : {}),
+			},
+		},
+		orderBy: { canvas: { updatedAt: "desc" } },
+		select: {
+			role: true,
+			canvas: {
+				select: {
+					id: true,
+					name: true,
+					createdAt: true,
+					updatedAt: true,
+					user: { select: { name: true } },
+					_count: { select: { nodes: true } },
+				},
+			},
+		},
+	});
+
+	return memberships.map(({ role, canvas: { user, ...canvas } }) => ({
+		...canvas,
+		role,
+		ownerName: user?.name ?? null,
+	}));
+}
+
+export {
+	getCanvasMembers,
+	getCanvasRole,
+	getSharedCanvases,
+	inviteCanvasMember,
+	linkCanvasInvitations,
+	removeCanvasMember,
+	updateCanvasMember,
+};
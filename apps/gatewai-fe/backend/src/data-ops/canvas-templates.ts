@@ -0,0 +1,159 @@
+import { type CanvasTemplate, type Prisma, prisma } from "@gatewai/db";
+import { HTTPException } from "hono/http-exception";
+import { duplicateCanvas } from "./duplicate-canvas.js";
+
+const templateSelect = {
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+	title: true,
+	description: true,
+	tags: true,
+	isPublished: true,
+	useCount: true,
+	sourceCanvasId: true,
+	coverAsset: { select: { id: true, mimeType: true } },
+	author: { select: { id: true, name: true } },
+	versions: {
+		orderBy: { version: "desc" },
+		take: 1,
+		select: { version: true, createdAt: true, notes: true },
+	},
+} satisfies Prisma.CanvasTemplateSelect;
+
+/**
+ * Published templates matching the search, most used first.
+ */
+async function getTemplateGallery({ q, tag }: { q?: string; tag?: string }) {
+	return prisma.canvasTemplate.findMany({
+		where: {
+			isPublished: true,
+			versions: { some: {} },
+			...(tag ? { tags: { has: tag } } : {}),
+			...(q
+				? {
+						OR: [
+							{ title: { contains: q, mode: "insensitive" } },
+							{ description: { contains: q, mode: "insensitive" } },
+						],
+					}
+				: {}),
+		},
+		orderBy: [{ useCount: "desc" }, { updatedAt: "desc" }],
+		select: templateSelect,
+	});
+}
+
+/**
+ * Templates of the author, unpublished ones included.
+ */
+async function getAuthorTemplates(authorId: string) {
+	return prisma.canvasTemplate.findMany({
+		where: { authorId },
+		orderBy: { updatedAt: "desc" },
+		select: templateSelect,
+	});
+}
+
+/**
+ * Copies the source canvas of the template as its next version.
+ */
+async function publishTemplateVersion(
+	template: Pick<CanvasTemplate, "id" | "sourceCanvasId">,
+	notes?: string | null,
+) {
+	if (!template.sourceCanvasId) {
+		throw new HTTPException(400, {
+			message: "The canvas of this template was deleted",
+		});
+	}
+
+	const latest = await prisma.canvasTemplateVersion.findFirst({
+		where: { templateId: template.id },
+		orderBy: { version: "desc" },
+		select: { version: true },
+	});
+	// Results are kept so the gallery can show what the template makes
+	const canvas = await duplicateCanvas(
+		template.sourceCanvasId,
+		false,
+		true,
+		null,
+	);
+
+	return prisma.canvasTemplateVersion.create({
+		data: {
+			templateId: template.id,
+			version: (latest?.version ?? 0) + 1,
+			notes,
+			canvasId: canvas.id,
+		},
+	});
+}
+
+/**
+ * Deletes the template with the canvas copies of its versions.
+ */
+async function deleteTemplate(templateId: string) {
+	const versions = await prisma.canvasTemplateVersion.findMany({
+		where: { templateId },
+		select: { canvasId: true },
+	});
+	await prisma.$transaction([
+		prisma.canvasTemplate.delete({ where: { id: templateId } }),
+		prisma.canvas.deleteMany({
+			where: { id: { in: versions.map((v) => v.canvasId) } },
+		}),
+	]);
+}
+
+/**
+ * Starts a canvas for the user from the latest version of a published template.
+ */
+async function cloneTemplate(
+	templateId: string,
+	userId: string | null,
+	keepResults: boolean,
+) {
+	const template = await prisma.canvasTemplate.findFirst({
+		where: { id: templateId, isPublished: true },
+		select: {
+			title: true,
+			versions: {
+				orderBy: { version: "desc" },
+				take: 1,
+				select: { canvasId: true },
+			},
+		},
+	});
+	const latest = template?.versions[0];
+	if (!template || !latest) {
+		throw new HTTPException(404, { message: "Template not found" });
+	}
+
+	const canvas = await duplicateCanvas(
+		latest.canvasId,
+		false,
+		keepResults,
+		userId,
+	);
+	const [renamed] = await prisma.$transaction([
+		prisma.canvas.update({
+			where: { id: canvas.id },
+			data: { name: template.title },
+		}),
+		prisma.canvasTemplate.update({
+			where: { id: templateId },
+			data: { useCount: { increment: 1 } },
+		}),
+	]);
+	return renamed;
+}
+
+export {
+	cloneTemplate,
+	deleteTemplate,
+	getAuthorTemplates,
+	getTemplateGallery,
+	publishTemplateVersion,
+};
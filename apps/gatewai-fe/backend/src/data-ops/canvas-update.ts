@@ -1,11 +1,27 @@
-import type { NodeUpdateInput } from "@gatewai/db";
+import type { CanvasVersionReason, NodeUpdateInput, Prisma } from "@gatewai/db";
 import { prisma } from "@gatewai/db";
-import type { BulkUpdatePayload, NodeResult } from "@gatewai/types";
+import {
+	type BulkUpdatePayload,
+	type CanvasOp,
+	coalesceCanvasOps,
+	edgeSchema,
+	handleSchema,
+	mergeCanvasOpFields,
+	type NodeResult,
+	nodeSchema,
+} from "@gatewai/types";
+import { z } from "zod";
+import { logger } from "../logger.js";
 import { generateId } from "../utils/misc.js";
+import { recordCanvasVersion } from "./canvas-versions.js";
+
+// Auto saves of collaboration ops are snapshotted at most this often
+const OPS_VERSION_INTERVAL_MS = 10 * 60 * 1000;
 
 export async function applyCanvasUpdate(
 	canvasId: string,
 	validated: BulkUpdatePayload,
+	options: { reason?: CanvasVersionReason; userId?: string | null } = {},
 ) {
 	// 1. Verify Canvas Existence
 	const existingCanvas = await prisma.canvas.findFirst({
@@ -17,6 +33,9 @@ export async function applyCanvasUpdate(
 		throw new Error("Canvas not found");
 	}
 
+	// Keep what gets replaced, e.g. ops saved since the last version
+	await recordCanvasVersion(canvasId, { reason: "SAVE" });
+
 	// --- PHASE 1: Fetch Current State (Snapshoting) ---
 	const [nodesInDB, edgesInDB, handlesInDB] = await Promise.all([
 		prisma.node.findMany({ where: { canvasId }, select: { id: true } }),
@@ -389,4 +408,249 @@ export async function applyCanvasUpdate(
 	);
 
 	await prisma.$transaction(transactionSteps);
+
+	await recordCanvasVersion(canvasId, {
+		reason: options.reason ?? "SAVE",
+		userId: options.userId,
+	});
+}
+
+// Fields an op can update, `config` and `result` only carry the changed keys
+const nodeFieldsSchema = nodeSchema
+	.pick({ name: true, position: true, width: true, height: true })
+	.extend({
+		config: z.record(z.unknown()).nullable(),
+		result: z.record(z.unknown()).nullable(),
+	})
+	.partial();
+const handleFieldsSchema = handleSchema
+	.omit({ id: true, nodeId: true })
+	.partial();
+const edgeFieldsSchema = edgeSchema.omit({ id: true }).partial();
+
+/**
+ * Applies collaboration ops. Entities are updated field by field, so concurrent
+ * edits of other entities or fields are kept, and nothing missing from the ops is deleted.
+ * Creates referencing entities deleted in the meantime are skipped.
+ */
+export async function applyCanvasOps(
+	canvasId: string,
+	ops: CanvasOp[],
+	userId?: string | null,
+) {
+	const upserts = {
+		node: new Map<string, Record<string, unknown>>(),
+		handle: new Map<string, Record<string, unknown>>(),
+		edge: new Map<string, Record<string, unknown>>(),
+	};
+	const deletes = {
+		node: new Set<string>(),
+		handle: new Set<string>(),
+		edge: new Set<string>(),
+	};
+	for (const op of coalesceCanvasOps(ops)) {
+		if (op.op === "upsert") {
+			upserts[op.entity].set(op.id, op.fields);
+		} else {
+			deletes[op.entity].add(op.id);
+		}
+	}
+
+	// --- PHASE 1: Fetch Current State ---
+	const [nodesInDB, handlesInDB, edgesInDB] = await Promise.all([
+		prisma.node.findMany({
+			where: { canvasId },
+			select: {
+				id: true,
+				config: true,
+				result: true,
+				template: { select: { isTerminalNode: true } },
+			},
+		}),
+		prisma.handle.findMany({
+			where: { node: { canvasId } },
+			select: { id: true },
+		}),
+		prisma.edge.findMany({
+			where: { sourceNode: { canvasId } },
+			select: { id: true },
+		}),
+	]);
+
+	const nodesById = new Map(nodesInDB.map((n) => [n.id, n]));
+	// Entities that exist once the ops are applied
+	const nodeIds = new Set(
+		nodesInDB.map((n) => n.id).filter((id) => !deletes.node.has(id)),
+	);
+	const handleIds = new Set(
+		handlesInDB.map((h) => h.id).filter((id) => !deletes.handle.has(id)),
+	);
+	const edgeIds = new Set(edgesInDB.map((e) => e.id));
+
+	// --- PHASE 2: Build Creates and Updates ---
+	const creates = {
+		nodes: [] as Prisma.NodeCreateManyInput[],
+		handles: [] as Prisma.HandleCreateManyInput[],
+		edges: [] as Prisma.EdgeCreateManyInput[],
+	};
+	const updates: Prisma.PrismaPromise<unknown>[] = [];
+
+	// A. Process Nodes
+	for (const [id, fields] of upserts.node) {
+		if (deletes.node.has(id)) continue;
+		const existing = nodesById.get(id);
+
+		if (!existing) {
+			const parsed = nodeSchema.safeParse({ ...fields, id });
+			if (!parsed.success) {
+				logger.warn(`[Ops] Skipping Node ${id}: ${parsed.error.message}`);
+				continue;
+			}
+			const n = parsed.data;
+			creates.nodes.push({
+				id,
+				canvasId,
+				name: n.name,
+				type: n.type,
+				position: n.position,
+				width: n.width,
+				height: n.height,
+				templateId: n.templateId,
+				config: (n.config ?? undefined) as Prisma.InputJsonValue | undefined,
+				result: (n.result ?? undefined) as Prisma.InputJsonValue | undefined,
+			});
+			nodeIds.add(id);
+			continue;
+		}
+
+		const parsed = nodeFieldsSchema.safeParse(fields);
+		if (!parsed.success) {
+			logger.warn(`[Ops] Skipping Node ${id}: ${parsed.error.message}`);
+			continue;
+		}
+		const { config, result, ...rest } = parsed.data;
+		const data: NodeUpdateInput = rest;
+		if (config !== undefined) {
+			data.config = mergeCanvasOpFields({ config: existing.config }, { config })
+				.config as Prisma.InputJsonValue;
+		}
+		if (result) {
+			// Terminal node results are written by tasks, only update outputIndex
+			data.result = mergeCanvasOpFields(
+				{ result: existing.result },
+				{
+					result: existing.template.isTerminalNode
+						? { selectedOutputIndex: result.selectedOutputIndex }
+						: result,
+				},
+			).result as Prisma.InputJsonValue;
+		}
+		updates.push(prisma.node.update({ where: { id }, data }));
+	}
+
+	// B. Process Handles
+	for (const [id, fields] of upserts.handle) {
+		if (deletes.handle.has(id)) continue;
+
+		if (!handleIds.has(id)) {
+			const parsed = handleSchema.safeParse({ ...fields, id });
+			if (!parsed.success || !nodeIds.has(parsed.data.nodeId)) {
+				logger.warn(`[Ops] Skipping Handle ${id}: Unresolved node.`);
+				continue;
+			}
+			const { id: _id, ...h } = parsed.data;
+			creates.handles.push({ ...h, id });
+			handleIds.add(id);
+			continue;
+		}
+
+		const parsed = handleFieldsSchema.safeParse(fields);
+		if (!parsed.success) {
+			logger.warn(`[Ops] Skipping Handle ${id}: ${parsed.error.message}`);
+			continue;
+		}
+		updates.push(prisma.handle.update({ where: { id }, data: parsed.data }));
+	}
+
+	// C. Process Edges
+	for (const [id, fields] of upserts.edge) {
+		if (deletes.edge.has(id)) continue;
+		const parsed = edgeIds.has(id)
+			? edgeFieldsSchema.safeParse(fields)
+			: edgeSchema.required().safeParse({ ...fields, id });
+		if (!parsed.success) {
+			logger.warn(`[Ops] Skipping Edge ${id}: ${parsed.error.message}`);
+			continue;
+		}
+		const e = parsed.data;
+		const isResolved =
+			(!e.source || nodeIds.has(e.source)) &&
+			(!e.target || nodeIds.has(e.target)) &&
+			(!e.sourceHandleId || handleIds.has(e.sourceHandleId)) &&
+			(!e.targetHandleId || handleIds.has(e.targetHandleId));
+		if (!isResolved) {
+			logger.warn(`[Ops] Skipping Edge ${id}: Unresolved reference.`);
+			continue;
+		}
+
+		if (edgeIds.has(id)) {
+			updates.push(prisma.edge.update({ where: { id }, data: e }));
+		} else {
+			creates.edges.push(e as Prisma.EdgeCreateManyInput);
+		}
+	}
+
+	// --- PHASE 3: Transaction ---
+	const transactionSteps: Prisma.PrismaPromise<unknown>[] = [];
+
+	if (deletes.edge.size) {
+		transactionSteps.push(
+			prisma.edge.deleteMany({
+				where: { id: { in: [...deletes.edge] }, sourceNode: { canvasId } },
+			}),
+		);
+	}
+	if (deletes.handle.size) {
+		transactionSteps.push(
+			prisma.handle.deleteMany({
+				where: { id: { in: [...deletes.handle] }, node: { canvasId } },
+			}),
+		);
+	}
+	if (deletes.node.size) {
+		transactionSteps.push(
+			prisma.node.deleteMany({
+				where: { id: { in: [...deletes.node] }, canvasId },
+			}),
+		);
+	}
+	if (creates.nodes.length) {
+		transactionSteps.push(prisma.node.createMany({ data: creates.nodes }));
+	}
+	if (creates.handles.length) {
+		transactionSteps.push(prisma.handle.createMany({ data: creates.handles }));
+	}
+	if (creates.edges.length) {
+		transactionSteps.push(
+			prisma.edge.createMany({ data: creates.edges, skipDuplicates: true }),
+		);
+	}
+	transactionSteps.push(...updates);
+
+	transactionSteps.push(
+		prisma.canvas.update({
+			where: { id: canvasId },
+			data: {
+				version: { increment: 1 },
+			},
+		}),
+	);
+
+	await prisma.$transaction(transactionSteps);
+
+	await recordCanvasVersion(canvasId, {
+		reason: "SAVE",
+		userId,
+		minIntervalMs: OPS_VERSION_INTERVAL_MS,
+	});
 }
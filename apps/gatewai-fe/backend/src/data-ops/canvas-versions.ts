@@ -0,0 +1,111 @@
+import { type CanvasVersionReason, prisma } from "@gatewai/db";
+import { GetCanvasEntities } from "./canvas.js";
+
+// Versions kept per canvas, older ones are deleted
+const MAX_CANVAS_VERSIONS = 100;
+
+interface RecordCanvasVersionOptions {
+	reason: CanvasVersionReason;
+	userId?: string | null;
+	// Skip when the latest version is younger, e.g. for frequent auto saves
+	minIntervalMs?: number;
+}
+
+/**
+ * Snapshots the nodes, edges and handles of a canvas in the bulk update format,
+ * unless the latest version already has its current state.
+ */
+async function recordCanvasVersion(
+	canvasId: string,
+	{ reason, userId = null, minIntervalMs }: RecordCanvasVersionOptions,
+) {
+	const latest = await prisma.canvasVersion.findFirst({
+		where: { canvasId },
+		orderBy: { createdAt: "desc" },
+		select: { version: true, createdAt: true },
+	});
+	if (
+		minIntervalMs &&
+		latest &&
+		Date.now() - latest.createdAt.getTime() < minIntervalMs
+	) {
+		return;
+	}
+
+	const { canvas, nodes, edges, handles } = await GetCanvasEntities(canvasId);
+	// API run copies aren't edited
+	if (canvas.isAPICanvas || latest?.version === canvas.version) {
+		return;
+	}
+
+	const snapshot = {
+		nodes: nodes.map((node) => ({
+			id: node.id,
+			name: node.name,
+			type: node.type,
+			position: node.position,
+			width: node.width,
+			height: node.height,
+			config: node.config,
+			result: node.result,
+			templateId: node.templateId,
+		})),
+		edges: edges.map((edge) => ({
+			id: edge.id,
+			source: edge.source,
+			target: edge.target,
+			sourceHandleId: edge.sourceHandleId,
+			targetHandleId: edge.targetHandleId,
+		})),
+		handles: handles.map((handle) => ({
+			id: handle.id,
+			nodeId: handle.nodeId,
+			type: handle.type,
+			label: handle.label,
+			order: handle.order,
+			required: handle.required,
+			dataTypes: handle.dataTypes,
+			templateHandleId: handle.templateHandleId,
+		})),
+	};
+
+	await prisma.canvasVersion.create({
+		data: {
+			canvasId,
+			version: canvas.version,
+			reason,
+			snapshot: snapshot as object,
+			nodeCount: nodes.length,
+			userId,
+		},
+	});
+
+	const expired = await prisma.canvasVersion.findMany({
+		where: { canvasId },
+		orderBy: { createdAt: "desc" },
+		skip: MAX_CANVAS_VERSIONS,
+		select: { id: true },
+	});
+	if (expired.length) {
+		await prisma.canvasVersion.deleteMany({
+			where: { id: { in: expired.map((v) => v.id) } },
+		});
+	}
+}
+
+async function getCanvasVersions(canvasId: string) {
+	return prisma.canvasVersion.findMany({
+		where: { canvasId },
+		orderBy: { createdAt: "desc" },
+		select: {
+			id: true,
+			createdAt: true,
+			version: true,
+			reason: true,
+			nodeCount: true,
+			user: { select: { name: true } },
+		},
+	});
+}
+
+export { getCanvasVersions, recordCanvasVersion };
@@ -49,6 +49,10 @@ export type CanvasCtxDataWithTasks = CanvasCtxData & {
 	task?: Task;
 	// The API key of the user executing the task
 	apiKey?: string;
+	// Nodes whose outputs[] hold one output per list item (Iterators and their downstream)
+	listNodeIds?: string[];
+	// Index of the list item being processed, set while a node runs once per item
+	iteration?: number;
 };
 
 export { GetCanvasEntities };
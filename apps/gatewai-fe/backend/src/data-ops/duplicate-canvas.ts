@@ -1,5 +1,82 @@
 import { type Canvas, prisma } from "@gatewai/db";
 
+type HandleIdMap = { [oldId: string]: string };
+
+/**
+ * Remaps the handle IDs of layerUpdates in ImageCompositor and VideoCompositor configs.
+ * Returns the config itself when it has none.
+ */
+function remapLayerUpdates(
+	config: Record<string, unknown> | null,
+	oldToNewHandleId: HandleIdMap,
+) {
+	if (
+		!config ||
+		!("layerUpdates" in config) ||
+		typeof config.layerUpdates !== "object" ||
+		config.layerUpdates === null
+	) {
+		return config;
+	}
+
+	const layerUpdates = config.layerUpdates as Record<string, unknown>;
+	const remappedLayerUpdates: Record<string, unknown> = {};
+
+	for (const [oldHandleId, layerConfig] of Object.entries(layerUpdates)) {
+		const newHandleId = oldToNewHandleId[oldHandleId];
+		if (newHandleId) {
+			// Also remap inputHandleId inside the layer config
+			const layer = layerConfig as Record<string, unknown>;
+			remappedLayerUpdates[newHandleId] = {
+				...layer,
+				inputHandleId: newHandleId,
+			};
+		} else {
+			// Keep original if not found (shouldn't happen for valid configs)
+			remappedLayerUpdates[oldHandleId] = layerConfig;
+		}
+	}
+
+	return {
+		...config,
+		layerUpdates: remappedLayerUpdates,
+	};
+}
+
+/**
+ * Remaps outputHandleId of the output items in a node result, null when it has no outputs.
+ */
+function remapOutputHandleIds(
+	result: Record<string, unknown> | null,
+	oldToNewHandleId: HandleIdMap,
+) {
+	if (!result || !("outputs" in result) || !Array.isArray(result.outputs)) {
+		return null;
+	}
+
+	const outputs = result.outputs as Array<{
+		items: Array<Record<string, unknown>>;
+	}>;
+	const remappedOutputs = outputs.map((output) => ({
+		...output,
+		items: output.items.map((item) => {
+			if (item.outputHandleId && typeof item.outputHandleId === "string") {
+				const newHandleId = oldToNewHandleId[item.outputHandleId];
+				return {
+					...item,
+					outputHandleId: newHandleId || item.outputHandleId,
+				};
+			}
+			return item;
+		}),
+	}));
+
+	return {
+		...result,
+		outputs: remappedOutputs,
+	};
+}
+
 /**
  * Duplicates a canvas, including its nodes, handles, and edges.
  * Preserves mapping from duplicated nodes back to their originals for API data passing.
@@ -7,7 +84,8 @@ import { type Canvas, prisma } from "@gatewai/db";
  * @param canvasId - The ID of the canvas to duplicate.
  * @param isAPICanvas - Whether or not duplicated canvas will be used for API request.
  * @param keepResults - Whether to keep the results of the nodes in the duplicate.
- * @param userId - The user ID to assign ownership of the duplicated canvas. If not provided, inherits from original.
+ * @param userId - The user ID to assign ownership of the duplicated canvas. If not provided, inherits from original, null leaves it without an owner.
+ * @param apiKeyId - API key of the run the duplicate is for, its retention decides when the duplicate is swept.
  * @returns The newly created duplicated canvas.
  * @throws Error if the original canvas is not found.
  */
@@ -15,7 +93,8 @@ async function duplicateCanvas(
 	canvasId: string,
 	isAPICanvas = false,
 	keepResults = false,
-	userId?: string,
+	userId?: string | null,
+	apiKeyId?: string,
 ): Promise<Canvas> {
 	const originalCanvas = await prisma.canvas.findUniqueOrThrow({
 		where: { id: canvasId },
@@ -43,7 +122,8 @@ async function duplicateCanvas(
 				name: `${originalCanvas.name} (copy)`,
 				isAPICanvas: isAPICanvas,
 				originalCanvasId: originalCanvas.id,
-				userId: userId ?? originalCanvas.userId,
+				userId: userId === undefined ? originalCanvas.userId : userId,
+				apiKeyId,
 			},
 		});
 
@@ -96,75 +176,11 @@ async function duplicateCanvas(
 			const config = originalNode.config as Record<string, unknown> | null;
 			const result = originalNode.result as Record<string, unknown> | null;
 
-			let needsUpdate = false;
-			let updatedConfig = config;
-			let updatedResult: Record<string, unknown> | undefined;
-
-			// Remap layerUpdates in ImageCompositor and VideoCompositor configs
-			if (
-				config &&
-				"layerUpdates" in config &&
-				typeof config.layerUpdates === "object" &&
-				config.layerUpdates !== null
-			) {
-				const layerUpdates = config.layerUpdates as Record<string, unknown>;
-				const remappedLayerUpdates: Record<string, unknown> = {};
-
-				for (const [oldHandleId, layerConfig] of Object.entries(layerUpdates)) {
-					const newHandleId = oldToNewHandleId[oldHandleId];
-					if (newHandleId) {
-						// Also remap inputHandleId inside the layer config
-						const layer = layerConfig as Record<string, unknown>;
-						remappedLayerUpdates[newHandleId] = {
-							...layer,
-							inputHandleId: newHandleId,
-						};
-					} else {
-						// Keep original if not found (shouldn't happen for valid configs)
-						remappedLayerUpdates[oldHandleId] = layerConfig;
-					}
-				}
-
-				updatedConfig = {
-					...config,
-					layerUpdates: remappedLayerUpdates,
-				};
-				needsUpdate = true;
-			}
-
-			// Remap outputHandleId in results if keepResults is true
-			if (
-				keepResults &&
-				result &&
-				"outputs" in result &&
-				Array.isArray(result.outputs)
-			) {
-				const outputs = result.outputs as Array<{
-					items: Array<Record<string, unknown>>;
-				}>;
-				const remappedOutputs = outputs.map((output) => ({
-					...output,
-					items: output.items.map((item) => {
-						if (
-							item.outputHandleId &&
-							typeof item.outputHandleId === "string"
-						) {
-							const newHandleId = oldToNewHandleId[item.outputHandleId];
-							return {
-								...item,
-								outputHandleId: newHandleId || item.outputHandleId,
-							};
-						}
-						return item;
-					}),
-				}));
-
-				updatedResult = {
-					...result,
-					outputs: remappedOutputs,
-				};
-				needsUpdate = true;
-			}
+			const updatedConfig = remapLayerUpdates(config, oldToNewHandleId);
+			const updatedResult = keepResults
+				? remapOutputHandleIds(result, oldToNewHandleId)
+				: null;
+			const needsUpdate = updatedConfig !== config || !!updatedResult;
 
 			if (needsUpdate) {
 				await tx.node.update({
@@ -199,4 +215,4 @@ async function duplicateCanvas(
 	});
 }
 
-export { duplicateCanvas };
+export { duplicateCanvas, remapLayerUpdates, remapOutputHandleIds };
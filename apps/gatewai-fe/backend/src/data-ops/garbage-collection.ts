@@ -0,0 +1,269 @@
+import { type Canvas, type FileAsset, prisma } from "@gatewai/db";
+import { ENV_CONFIG } from "../config.js";
+import { logger } from "../logger.js";
+import { assertIsError } from "../utils/misc.js";
+import {
+	deleteFromStorage,
+	getObjectMetadata,
+	listFromStorage,
+} from "../utils/storage.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CANVAS_PAGE_SIZE = 100;
+const TEMP_PREFIX = "temp/";
+
+export interface GarbageCollectionReport {
+	canvasesDeleted: number;
+	assetsDeleted: number;
+	tempObjectsDeleted: number;
+	bytesReclaimed: number;
+}
+
+interface MediaReferences {
+	assetIds: Set<FileAsset["id"]>;
+	tempKeys: Set<string>;
+}
+
+/**
+ * Days an API canvas is kept, the API key's retention overrides the user's.
+ * 0 keeps it forever.
+ */
+function getRetentionDays(canvas: {
+	apiKey: { apiRunRetentionDays: number | null } | null;
+	user: { apiRunRetentionDays: number | null } | null;
+}) {
+	return (
+		canvas.apiKey?.apiRunRetentionDays ??
+		canvas.user?.apiRunRetentionDays ??
+		ENV_CONFIG.API_RUN_RETENTION_DAYS
+	);
+}
+
+/**
+ * Collects storage entities and temp keys of file data found anywhere in node configs and results.
+ */
+function collectMediaReferences(value: unknown, refs: MediaReferences) {
+	if (Array.isArray(value)) {
+		for (const item of value) collectMediaReferences(item, refs);
+		return;
+	}
+	if (!value || typeof value !== "object") return;
+
+	const fileData = value as {
+		entity?: { id?: string; key?: string };
+		processData?: { tempKey?: string };
+	};
+	if (fileData.entity?.id && fileData.entity.key) {
+		refs.assetIds.add(fileData.entity.id);
+	}
+	if (fileData.processData?.tempKey) {
+		refs.tempKeys.add(fileData.processData.tempKey);
+	}
+	for (const child of Object.values(value)) {
+		collectMediaReferences(child, refs);
+	}
+}
+
+/**
+ * Which of the given asset IDs and temp keys nodes, canvas versions or template covers still use,
+ * in a single pass over each table.
+ */
+async function getReferencedMedia(refs: MediaReferences) {
+	const values = [...refs.assetIds, ...refs.tempKeys];
+	if (values.length === 0) return new Set<string>();
+
+	const rows = await prisma.$queryRaw<{ value: string }[]>`
+		SELECT m[1] AS value
+		FROM "node", regexp_matches(coalesce(config::text, '') || coalesce(result::text, ''), '"(?:id|tempKey)":\\s*"([^"]+)"', 'g') AS m
+		WHERE m[1] = ANY(${values})
+		UNION
+		SELECT m[1] AS value
+		FROM "canvasVersion", regexp_matches(snapshot::text, '"(?:id|tempKey)":\\s*"([^"]+)"', 'g') AS m
+		WHERE m[1] = ANY(${values})
+		UNION
+		SELECT "coverAssetId" AS value
+		FROM "canvasTemplate"
+		WHERE "coverAssetId" = ANY(${values})
+	`;
+	return new Set(rows.map((row) => row.value));
+}
+
+/**
+ * Temp keys of every node and canvas version, in a single pass over each table.
+ */
+async function getReferencedTempKeys() {
+	const rows = await prisma.$queryRaw<{ tempKey: string }[]>`
+		SELECT m[1] AS "tempKey"
+		FROM "node", regexp_matches(coalesce(result::text, ''), '"tempKey":\\s*"([^"]+)"', 'g') AS m
+		UNION
+		SELECT m[1] AS "tempKey"
+		FROM "canvasVersion", regexp_matches(snapshot::text, '"tempKey":\\s*"([^"]+)"', 'g') AS m
+	`;
+	return new Set(rows.map((row) => row.tempKey));
+}
+
+async function deleteTempObject(key: string) {
+	const metadata = await getObjectMetadata(key).catch(() => null);
+	await deleteFromStorage(key, ENV_CONFIG.GCS_ASSETS_BUCKET);
+	return metadata?.size ?? 0;
+}
+
+/**
+ * Deletes an API canvas, then the assets its runs generated and its temp objects
+ * once no other node, canvas version or template uses them.
+ */
+async function deleteApiCanvas(
+	canvas: Pick<Canvas, "id" | "createdAt">,
+	report: GarbageCollectionReport,
+) {
+	const nodes = await prisma.node.findMany({
+		where: { canvasId: canvas.id },
+		select: { config: true, result: true },
+	});
+	const refs: MediaReferences = { assetIds: new Set(), tempKeys: new Set() };
+	for (const node of nodes) {
+		collectMediaReferences(node.config, refs);
+		collectMediaReferences(node.result, refs);
+	}
+
+	// Cascades to nodes, handles, edges, batches and tasks
+	await prisma.canvas.delete({ where: { id: canvas.id } });
+	report.canvasesDeleted++;
+
+	const referenced = await getReferencedMedia(refs);
+
+	// Assets created before the copy, e.g. passed to the run by ID, belong to the user
+	const assets = await prisma.fileAsset.findMany({
+		where: {
+			id: { in: [...refs.assetIds] },
+			createdAt: { gte: canvas.createdAt },
+		},
+	});
+	for (const asset of assets) {
+		if (referenced.has(asset.id)) continue;
+		await deleteFromStorage(asset.key, asset.bucket).catch((err) => {
+			logger.warn({ err }, `Failed to delete ${asset.key} from storage`);
+		});
+		await prisma.fileAsset.delete({ where: { id: asset.id } });
+		report.assetsDeleted++;
+		report.bytesReclaimed += asset.size;
+	}
+
+	for (const key of refs.tempKeys) {
+		if (referenced.has(key)) continue;
+		try {
+			report.bytesReclaimed += await deleteTempObject(key);
+			report.tempObjectsDeleted++;
+		} catch (err) {
+			logger.warn({ err }, `Failed to delete temp object ${key}`);
+		}
+	}
+}
+
+/**
+ * Deletes API canvases older than their retention, skipping ones with runs still in progress.
+ */
+async function sweepExpiredApiCanvases(report: GarbageCollectionReport) {
+	const now = Date.now();
+	let cursor: Canvas["id"] | undefined;
+
+	while (true) {
+		const canvases = await prisma.canvas.findMany({
+			where: {
+				...(cursor ? { id: { gt: cursor } } : {}),
+				isAPICanvas: true,
+				// Retention is at least a day
+				createdAt: { lt: new Date(now - DAY_MS) },
+				taskBatches: { none: { finishedAt: null } },
+			},
+			select: {
+				id: true,
+				createdAt: true,
+				apiKey: { select: { apiRunRetentionDays: true } },
+				user: { select: { apiRunRetentionDays: true } },
+			},
+			orderBy: { id: "asc" },
+			take: CANVAS_PAGE_SIZE,
+		});
+		if (canvases.length === 0) break;
+		cursor = canvases[canvases.length - 1].id;
+
+		for (const canvas of canvases) {
+			const retentionDays = getRetentionDays(canvas);
+			if (retentionDays === 0) continue;
+			if (canvas.createdAt.getTime() > now - retentionDays * DAY_MS) continue;
+
+			try {
+				await deleteApiCanvas(canvas, report);
+			} catch (err) {
+				assertIsError(err);
+				logger.error(
+					`Failed to delete API canvas ${canvas.id}: ${err.message}`,
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Deletes objects under temp/ that no node or canvas version uses anymore, e.g. outputs of re-run nodes.
+ */
+async function sweepTemporaryMedia(report: GarbageCollectionReport) {
+	const cutoff =
+		Date.now() - ENV_CONFIG.TEMP_MEDIA_RETENTION_HOURS * 60 * 60 * 1000;
+	const keys = await listFromStorage(TEMP_PREFIX, ENV_CONFIG.GCS_ASSETS_BUCKET);
+	const referenced = await getReferencedTempKeys();
+
+	for (const key of keys) {
+		if (referenced.has(key)) continue;
+		try {
+			const metadata = await getObjectMetadata(key);
+			if (!metadata.updatedAt || metadata.updatedAt.getTime() > cutoff) {
+				continue;
+			}
+			await deleteFromStorage(key, ENV_CONFIG.GCS_ASSETS_BUCKET);
+			report.tempObjectsDeleted++;
+			report.bytesReclaimed += metadata.size ?? 0;
+		} catch (err) {
+			logger.warn({ err }, `Failed to delete temp object ${key}`);
+		}
+	}
+}
+
+/**
+ * Deletes expired API-run canvases with their unreferenced media, then stale temp objects.
+ * Each sweep is recorded as a GarbageCollectionRun.
+ */
+async function collectGarbage(): Promise<GarbageCollectionReport> {
+	const run = await prisma.garbageCollectionRun.create({ data: {} });
+	const report: GarbageCollectionReport = {
+		canvasesDeleted: 0,
+		assetsDeleted: 0,
+		tempObjectsDeleted: 0,
+		bytesReclaimed: 0,
+	};
+
+	let error: string | undefined;
+	try {
+		await sweepExpiredApiCanvases(report);
+		await sweepTemporaryMedia(report);
+	} catch (err) {
+		assertIsError(err);
+		error = err.message;
+		throw err;
+	} finally {
+		await prisma.garbageCollectionRun.update({
+			where: { id: run.id },
+			data: {
+				...report,
+				bytesReclaimed: BigInt(report.bytesReclaimed),
+				finishedAt: new Date(),
+				error,
+			},
+		});
+	}
+
+	return report;
+}
+
+export { collectGarbage, collectMediaReferences, type MediaReferences };
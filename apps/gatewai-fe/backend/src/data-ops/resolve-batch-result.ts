@@ -3,7 +3,7 @@ import { type Node, prisma, type TaskBatch } from "@gatewai/db";
 import type { ExportResult, FileData } from "@gatewai/types";
 import { ENV_CONFIG } from "../config.js";
 import { bufferToDataUrl } from "../utils/image.js";
-import { getFromGCS } from "../utils/storage.js";
+import { getFromStorage } from "../utils/storage.js";
 import type { APIRunResponse } from "./schemas.js";
 
 type BatchResult = APIRunResponse["result"];
@@ -19,7 +19,7 @@ async function overrideFileResult(data: FileData) {
 		return data.processData.dataUrl;
 	}
 	if (data.entity) {
-		const buffer = await getFromGCS(
+		const buffer = await getFromStorage(
 			data.entity.id,
 			ENV_CONFIG.GCS_ASSETS_BUCKET,
 		);
@@ -0,0 +1,271 @@
+import assert from "node:assert";
+import { type Canvas, prisma, type TaskBatch } from "@gatewai/db";
+import type { TextNodeConfig } from "@gatewai/types";
+import { NodeWFProcessor } from "../graph-engine/canvas-workflow-processor.js";
+import { uploadToImportNode } from "../node-fns/import-media.js";
+import { generateId } from "../utils/misc.js";
+import { duplicateCanvas } from "./duplicate-canvas.js";
+import type { APIRunRequest, NodeInput } from "./schemas.js";
+
+type RunCanvasOptions = Pick<
+	APIRunRequest,
+	"canvasId" | "payload" | "webhookUrl" | "webhookSecret"
+> & {
+	duplicate: boolean;
+	// Owner of the duplicate and of the API key used for the run
+	userId?: Canvas["userId"];
+	apiKey?: string;
+	scheduleId?: string;
+};
+
+/**
+ * Runs every node of a canvas with payload values set on its Text/File nodes.
+ * Used by API runs and scheduled runs.
+ */
+async function runCanvas({
+	canvasId,
+	payload,
+	duplicate,
+	userId,
+	apiKey,
+	scheduleId,
+	webhookUrl,
+	webhookSecret,
+}: RunCanvasOptions): Promise<TaskBatch> {
+	// The user's first key unless a key is given
+	const runApiKey = apiKey
+		? await prisma.apiKey.findUnique({
+				where: { key: apiKey },
+				select: { id: true, key: true },
+			})
+		: userId
+			? await prisma.apiKey.findFirst({
+					where: { userId },
+					orderBy: { createdAt: "asc" },
+					select: { id: true, key: true },
+				})
+			: null;
+
+	// Duplicate the canvas with user ownership, or use original if duplicate=false
+	const targetCanvas = duplicate
+		? await duplicateCanvas(
+				canvasId,
+				true,
+				false,
+				userId ?? undefined,
+				runApiKey?.id,
+			)
+		: { id: canvasId };
+
+	// Optimized Payload Processing
+	if (payload && Object.keys(payload).length > 0) {
+		const originalNodeIds = Object.keys(payload);
+
+		// Fetch both Text and File nodes that match the payload keys
+		const nodes = await prisma.node.findMany({
+			where: {
+				canvasId: targetCanvas.id,
+				// When duplicating, nodes have originalNodeId; when not, match by id directly
+				...(duplicate
+					? { originalNodeId: { in: originalNodeIds } }
+					: { id: { in: originalNodeIds } }),
+				type: { in: ["Text", "File"] },
+			},
+		});
+
+		// Update nodes in parallel
+		await Promise.all(
+			nodes.map(async (node) => {
+				// Get the key used in payload (originalNodeId when duplicated, else id)
+				const payloadKey = duplicate ? node.originalNodeId : node.id;
+				assert(payloadKey);
+				const inputData = payload[payloadKey];
+
+				if (node.type === "Text") {
+					// Text nodes only accept string values
+					const textValue =
+						typeof inputData === "string" ? inputData : String(inputData);
+					return prisma.node.update({
+						where: { id: node.id },
+						data: {
+							config: { content: textValue } as TextNodeConfig,
+						},
+					});
+				}
+
+				if (node.type === "File") {
+					await processFileInput(node.id, inputData);
+				}
+			}),
+		);
+	}
+
+	// 3. Trigger Workflow
+	const wfProcessor = new NodeWFProcessor(prisma);
+
+	// Webhook of the request, or of the canvas that was run
+	const webhook = webhookUrl
+		? { webhookUrl, webhookSecret: webhookSecret ?? null }
+		: await prisma.canvas.findUniqueOrThrow({
+				where: { id: canvasId },
+				select: { webhookUrl: true, webhookSecret: true },
+			});
+
+	return wfProcessor.processNodes(
+		targetCanvas.id,
+		undefined,
+		runApiKey?.key ?? apiKey,
+		{
+			scheduleId,
+			// Runs with the user's first key aren't made with a key
+			apiKeyId: apiKey ? runApiKey?.id : undefined,
+			webhookUrl: webhook.webhookUrl ?? undefined,
+			webhookSecret: webhook.webhookSecret ?? undefined,
+		},
+	);
+}
+
+/**
+ * Process file input in various formats
+ */
+async function processFileInput(nodeId: string, inputData: NodeInput) {
+	if (typeof inputData === "string") {
+		// Raw base64 or data URI string
+		await handleBase64Upload(nodeId, inputData);
+	} else if (inputData.type === "base64") {
+		// Structured base64 input
+		await handleBase64Upload(nodeId, inputData.data, inputData.mimeType);
+	} else if (inputData.type === "url") {
+		// URL input: fetch and upload
+		await handleUrlUpload(nodeId, inputData.url);
+	} else if (inputData.type === "assetId") {
+		// Asset reference: copy existing asset to node
+		await handleAssetCopy(nodeId, inputData.assetId);
+	}
+}
+
+/**
+ * Handle base64 file upload
+ */
+async function handleBase64Upload(
+	nodeId: string,
+	base64Data: string,
+	mimeType?: string,
+): Promise<void> {
+	// Strip 'data:image/xyz;base64,' prefix if present
+	const rawBase64 = base64Data.includes("base64,")
+		? base64Data.split("base64,")[1]
+		: base64Data;
+
+	const buffer = Buffer.from(rawBase64, "base64");
+	const filename = `api-upload-${generateId()}`;
+
+	await uploadToImportNode({
+		nodeId,
+		buffer,
+		filename,
+		mimeType,
+	});
+}
+
+/**
+ * Handle URL file upload - fetches from URL and uploads
+ */
+async function handleUrlUpload(nodeId: string, url: string): Promise<void> {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch file from URL: ${url}`);
+	}
+
+	const arrayBuffer = await response.arrayBuffer();
+	const buffer = Buffer.from(arrayBuffer);
+
+	// Extract filename from URL or generate one
+	const urlPath = new URL(url).pathname;
+	const filename = urlPath.split("/").pop() || `url-upload-${generateId()}`;
+
+	// Try to get mime type from response headers
+	const mimeType = response.headers.get("content-type");
+
+	assert(mimeType, "Failed to get mime type from URL");
+
+	await uploadToImportNode({
+		nodeId,
+		buffer,
+		filename,
+		mimeType,
+	});
+}
+
+/**
+ * Handle asset copy - copies existing asset to node result
+ */
+async function handleAssetCopy(nodeId: string, assetId: string): Promise<void> {
+	const asset = await prisma.fileAsset.findUnique({
+		where: { id: assetId },
+	});
+
+	if (!asset) {
+		throw new Error(`Asset with id ${assetId} not found`);
+	}
+
+	// Fetch the node and its output handle
+	const node = await prisma.node.findUnique({
+		where: { id: nodeId },
+		include: {
+			handles: {
+				where: { type: "Output" },
+				orderBy: { order: "asc" },
+			},
+		},
+	});
+
+	if (!node) {
+		throw new Error(`Node with id ${nodeId} not found`);
+	}
+
+	const outputHandle = node.handles[0];
+	if (!outputHandle) {
+		throw new Error("No output handle found for node");
+	}
+
+	// Determine data type from asset mime type
+	let dataType: "Image" | "Video" | "Audio";
+	if (asset.mimeType?.startsWith("image/")) {
+		dataType = "Image";
+	} else if (asset.mimeType?.startsWith("video/")) {
+		dataType = "Video";
+	} else if (asset.mimeType?.startsWith("audio/")) {
+		dataType = "Audio";
+	} else {
+		throw new Error(`Unsupported asset type: ${asset.mimeType}`);
+	}
+
+	// Build the result structure
+	const currentResult = (node.result as any) || { outputs: [] };
+	const outputs = currentResult.outputs || [];
+	const newIndex = outputs.length;
+
+	const newOutput = {
+		items: [
+			{
+				outputHandleId: outputHandle.id,
+				data: { entity: asset },
+				type: dataType,
+			},
+		],
+	};
+
+	const updatedResult = {
+		...currentResult,
+		selectedOutputIndex: newIndex,
+		outputs: [...outputs, newOutput],
+	};
+
+	await prisma.node.update({
+		where: { id: nodeId },
+		data: { result: updatedResult },
+	});
+}
+
+export { runCanvas };
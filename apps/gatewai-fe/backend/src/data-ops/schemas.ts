@@ -24,11 +24,22 @@ export const NodeInputSchema = z.union([z.string(), FileInputSchema]);
 
 export type NodeInput = z.infer<typeof NodeInputSchema>;
 
+export const WebhookUrlSchema = z
+	.string()
+	.url()
+	.refine((url) => ["http:", "https:"].includes(new URL(url).protocol), {
+		message: "Webhook URL must use http or https",
+	});
+
 export const APIRunRequestSchema = z.object({
 	canvasId: z.string(),
 	payload: z.record(z.string(), NodeInputSchema).optional(),
 	/** If true (default), duplicates the canvas before execution. Set to false to run on original canvas. */
 	duplicate: z.boolean().default(true),
+	/** Receives the result when the run finishes, instead of the canvas webhook. */
+	webhookUrl: WebhookUrlSchema.optional(),
+	/** Signs webhook requests, see `X-Gatewai-Signature`. */
+	webhookSecret: z.string().min(16).optional(),
 });
 
 export type APIRunRequest = z.infer<typeof APIRunRequestSchema>;
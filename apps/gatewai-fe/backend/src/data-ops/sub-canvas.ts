@@ -0,0 +1,65 @@
+import { type Canvas, HandleType, NodeType, prisma } from "@gatewai/db";
+import type { SubCanvasNodeConfig } from "@gatewai/types";
+
+/**
+ * Inputs and outputs a published canvas exposes when it's used as a SubCanvas node.
+ * Text/File nodes are inputs, Export nodes are outputs, both ordered by creation.
+ */
+async function getCanvasInterface(canvasId: Canvas["id"]) {
+	const nodes = await prisma.node.findMany({
+		where: {
+			canvasId,
+			type: { in: [NodeType.Text, NodeType.File, NodeType.Export] },
+		},
+		include: { handles: true },
+		orderBy: { createdAt: "asc" },
+	});
+
+	const toInterfaceHandle = (
+		node: (typeof nodes)[number],
+		handleType: HandleType,
+	) => ({
+		nodeId: node.id,
+		label: node.name,
+		dataTypes: node.handles.find((h) => h.type === handleType)?.dataTypes ?? [],
+	});
+
+	return {
+		inputs: nodes
+			.filter((n) => n.type !== NodeType.Export)
+			.map((n) => toInterfaceHandle(n, HandleType.Output)),
+		outputs: nodes
+			.filter((n) => n.type === NodeType.Export)
+			.map((n) => toInterfaceHandle(n, HandleType.Input)),
+	};
+}
+
+/**
+ * Whether running the canvas would run the target canvas again through its SubCanvas nodes,
+ * which would never finish.
+ */
+async function isSubCanvasCycle(
+	canvasId: Canvas["id"],
+	targetCanvasId: Canvas["id"],
+	visited = new Set<Canvas["id"]>(),
+): Promise<boolean> {
+	if (canvasId === targetCanvasId) return true;
+	if (visited.has(canvasId)) return false;
+	visited.add(canvasId);
+
+	const subCanvasNodes = await prisma.node.findMany({
+		where: { canvasId, type: NodeType.SubCanvas },
+		select: { config: true },
+	});
+
+	for (const node of subCanvasNodes) {
+		const config = node.config as unknown as SubCanvasNodeConfig | null;
+		if (!config?.canvasId) continue;
+		if (await isSubCanvasCycle(config.canvasId, targetCanvasId, visited)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+export { getCanvasInterface, isSubCanvasCycle };
@@ -0,0 +1,173 @@
+import {
+	type ApiKey,
+	type Prisma,
+	prisma,
+	type Task,
+	type UsageUnit,
+	type User,
+} from "@gatewai/db";
+import { HTTPException } from "hono/http-exception";
+import { ENV_CONFIG } from "../config.js";
+import type { NodeUsage } from "../graph-engine/processors/types.js";
+
+/**
+ * Quotas are monthly, they reset at the start of each month in UTC.
+ */
+function getQuotaPeriodStart(now = new Date()) {
+	return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+async function getSpend(where: Prisma.UsageRecordWhereInput) {
+	const { _sum } = await prisma.usageRecord.aggregate({
+		where: { ...where, createdAt: { gte: getQuotaPeriodStart() } },
+		_sum: { cost: true },
+	});
+	return _sum.cost ?? 0;
+}
+
+async function getUserQuota(userId: User["id"]) {
+	const user = await prisma.user.findUnique({
+		where: { id: userId },
+		select: { usageQuota: true },
+	});
+	return user?.usageQuota ?? ENV_CONFIG.DEFAULT_USAGE_QUOTA ?? null;
+}
+
+/**
+ * Records the billable units of an AI task for the user and API key of its batch.
+ * API-run copies record the canvas they were copied from.
+ */
+async function recordTaskUsage(taskId: Task["id"], usage: NodeUsage) {
+	if (usage.quantity <= 0) return;
+
+	const task = await prisma.task.findUniqueOrThrow({
+		where: { id: taskId },
+		select: {
+			node: {
+				select: { type: true, template: { select: { tokenPrice: true } } },
+			},
+			batch: {
+				select: {
+					apiKeyId: true,
+					canvas: {
+						select: { id: true, userId: true, originalCanvasId: true },
+					},
+				},
+			},
+		},
+	});
+	if (!task.node) return;
+
+	const { canvas } = task.batch;
+	await prisma.usageRecord.create({
+		data: {
+			userId: canvas.userId,
+			apiKeyId: task.batch.apiKeyId,
+			canvasId: canvas.originalCanvasId ?? canvas.id,
+			taskId,
+			nodeType: task.node.type,
+			unit: usage.unit,
+			quantity: usage.quantity,
+			cost: usage.quantity * (task.node.template.tokenPrice ?? 0),
+		},
+	});
+}
+
+/**
+ * Throws when the user, or the API key the run is made with, has spent its monthly quota.
+ */
+async function assertWithinUsageQuota(
+	userId: User["id"] | null,
+	apiKeyId?: ApiKey["id"],
+) {
+	if (userId) {
+		const quota = await getUserQuota(userId);
+		if (quota !== null && (await getSpend({ userId })) >= quota) {
+			throw new HTTPException(429, {
+				message: "Monthly usage quota exceeded",
+			});
+		}
+	}
+
+	if (apiKeyId) {
+		const apiKey = await prisma.apiKey.findUnique({
+			where: { id: apiKeyId },
+			select: { usageQuota: true },
+		});
+		if (
+			apiKey?.usageQuota != null &&
+			(await getSpend({ apiKeyId })) >= apiKey.usageQuota
+		) {
+			throw new HTTPException(429, {
+				message: "Monthly usage quota of this API key exceeded",
+			});
+		}
+	}
+}
+
+/**
+ * Spend of the user and their API keys this month, with usage per day and per canvas
+ * over the last `days` days.
+ */
+async function getUsageSummary(userId: User["id"], days: number) {
+	const now = new Date();
+	const since = new Date(
+		Date.UTC(
+			now.getUTCFullYear(),
+			now.getUTCMonth(),
+			now.getUTCDate() - days + 1,
+		),
+	);
+	const where = { userId, createdAt: { gte: since } };
+
+	const daily = await prisma.$queryRaw<
+		{ day: string; unit: UsageUnit; quantity: number; cost: number }[]
+	>`
+		SELECT to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS day,
+			unit, SUM(quantity) AS quantity, SUM(cost) AS cost
+		FROM "usageRecord"
+		WHERE "userId" = ${userId} AND "createdAt" >= ${since}
+		GROUP BY 1, 2
+		ORDER BY 1
+	`;
+
+	const perCanvas = await prisma.usageRecord.groupBy({
+		by: ["canvasId"],
+		where,
+		_sum: { cost: true },
+		_count: true,
+		orderBy: { _sum: { cost: "desc" } },
+	});
+	const canvases = await prisma.canvas.findMany({
+		where: { id: { in: perCanvas.map((c) => c.canvasId) } },
+		select: { id: true, name: true },
+	});
+
+	const apiKeys = await prisma.apiKey.findMany({
+		where: { userId },
+		orderBy: { createdAt: "asc" },
+		select: { id: true, name: true, usageQuota: true },
+	});
+
+	return {
+		periodStart: getQuotaPeriodStart(now),
+		spend: await getSpend({ userId }),
+		quota: await getUserQuota(userId),
+		apiKeys: await Promise.all(
+			apiKeys.map(async (apiKey) => ({
+				...apiKey,
+				spend: await getSpend({ apiKeyId: apiKey.id }),
+			})),
+		),
+		daily,
+		canvases: perCanvas.map((c) => ({
+			canvasId: c.canvasId,
+			// Null once the canvas is deleted
+			name: canvases.find((canvas) => canvas.id === c.canvasId)?.name ?? null,
+			tasks: c._count,
+			cost: c._sum.cost ?? 0,
+		})),
+	};
+}
+
+export { assertWithinUsageQuota, getUsageSummary, recordTaskUsage };
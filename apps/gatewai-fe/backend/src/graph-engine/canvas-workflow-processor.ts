@@ -1,13 +1,17 @@
 import {
 	type Canvas,
 	type Node,
+	NodeType,
 	type PrismaClient,
 	type Task,
 	type TaskBatch,
 	TaskStatus,
 } from "@gatewai/db";
 import { type CanvasCtxData, GetCanvasEntities } from "../data-ops/canvas.js";
-import { workflowQueue } from "./queue/workflow.queue.js";
+import { assertWithinUsageQuota } from "../data-ops/usage.js";
+import { publishBatchUpdate } from "./queue/workflow.events.js";
+import type { BatchDispatchPlan } from "./queue/workflow.queue.js";
+import { dispatchTasks, getRootTaskIds } from "./queue/workflow.scheduler.js";
 
 /**
  * Workflow processor for canvas - Dispatcher Layer
@@ -95,6 +99,25 @@ export class NodeWFProcessor {
 		return null;
 	}
 
+	// Iterators and every node downstream of them produce lists, one output per item.
+	public getListNodeIds(
+		topoOrder: Node["id"][],
+		revDepGraph: Map<Node["id"], Node["id"][]>,
+		data: CanvasCtxData,
+	): Node["id"][] {
+		const listNodeIds = new Set<Node["id"]>();
+		for (const nodeId of topoOrder) {
+			const node = data.nodes.find((n) => n.id === nodeId);
+			const hasListUpstream = (revDepGraph.get(nodeId) ?? []).some((up) =>
+				listNodeIds.has(up),
+			);
+			if (node?.type === NodeType.Iterator || hasListUpstream) {
+				listNodeIds.add(nodeId);
+			}
+		}
+		return Array.from(listNodeIds);
+	}
+
 	public async processNodes(
 		canvasId: Canvas["id"],
 		/**
@@ -102,24 +125,22 @@ export class NodeWFProcessor {
 		 */
 		nodeIds?: Node["id"][],
 		apiKey?: string,
+		options?: {
+			// Schedule that triggered the run
+			scheduleId?: string;
+			// Receives the result when the batch finishes
+			webhookUrl?: string;
+			webhookSecret?: string;
+			// Set when the run was requested with an API key, its quota applies too
+			apiKeyId?: string;
+			// SubCanvas task the run is for, it's resumed when the batch finishes
+			parentTaskId?: string;
+			parentIteration?: number;
+		},
 	): Promise<TaskBatch> {
 		// 1. Fetch current canvas state
 		const data = await GetCanvasEntities(canvasId);
 
-		// 2. Create the Batch Record
-		const batch = await this.prisma.taskBatch.create({
-			data: {
-				canvasId,
-			},
-			include: {
-				tasks: {
-					include: {
-						node: true,
-					},
-				},
-			},
-		});
-
 		const allNodeIds = data.nodes.map((n) => n.id);
 		const { revDepGraph: fullRevDepGraph } = this.buildDepGraphs(
 			allNodeIds,
@@ -128,7 +149,7 @@ export class NodeWFProcessor {
 
 		const nodeIdsToRun = nodeIds ?? allNodeIds;
 
-		// 3. Find all necessary nodes: selected + all upstream dependencies
+		// 2. Find all necessary nodes: selected + all upstream dependencies
 		const necessary = new Set<Node["id"]>();
 		const queue: Node["id"][] = [...nodeIdsToRun];
 		while (queue.length > 0) {
@@ -140,25 +161,43 @@ export class NodeWFProcessor {
 			queue.push(...ups);
 		}
 
-		// 4. (Step removed) - We do not filter out terminal nodes here.
+		// 3. (Step removed) - We do not filter out terminal nodes here.
 		// If a node is in the 'necessary' set, it is a dependency of the selection
 		// and must run, regardless of its type (Terminal/Transient/etc).
 		const necessaryIds = Array.from(necessary);
 
-		// 5. Build execution plan (Topological Sort)
+		// 4. Build execution plan (Topological Sort)
 		const { depGraph, revDepGraph } = this.buildDepGraphs(necessaryIds, data);
 		const topoOrder = this.topologicalSort(necessaryIds, depGraph, revDepGraph);
 		if (!topoOrder) {
 			throw new Error("Cycle detected in necessary nodes.");
 		}
 
-		// 6. Validate
+		// 5. Validate
 		const necessaryNodes = data.nodes.filter((n) => necessary.has(n.id));
 		if (necessaryNodes.length !== necessary.size) {
 			throw new Error("Some necessary nodes not found in canvas.");
 		}
 
-		// 7. Create Task records in DB
+		// 6. Enforce usage quotas before anything is created, only paid nodes count
+		if (necessaryNodes.some((n) => (n.template.tokenPrice ?? 0) > 0)) {
+			await assertWithinUsageQuota(data.canvas.userId, options?.apiKeyId);
+		}
+
+		// 7. Create the Batch Record
+		const batch = await this.prisma.taskBatch.create({
+			data: {
+				canvasId,
+				scheduleId: options?.scheduleId,
+				webhookUrl: options?.webhookUrl,
+				webhookSecret: options?.webhookSecret,
+				apiKeyId: options?.apiKeyId,
+				parentTaskId: options?.parentTaskId,
+				parentIteration: options?.parentIteration,
+			},
+		});
+
+		// 8. Create Task records in DB
 		const tasksMap = new Map<
 			Node["id"],
 			{ id: Task["id"]; nodeId: Node["id"] }
@@ -185,28 +224,28 @@ export class NodeWFProcessor {
 			selectionMap[task.id] = nodeIds ? nodeIds.includes(nodeId) : true;
 		}
 
-		// 8. Check if another batch is currently running for this canvas
-		// If so, store job data and defer dispatch until that batch finishes
+		// 9. Build the dispatch plan: every task waits only for its own upstream tasks,
+		// so independent branches can run concurrently.
+		// If another batch is currently running, store the plan and defer dispatch until it finishes
 		if (topoOrder.length > 0) {
-			const firstNodeId = topoOrder[0];
-			const firstTask = tasksMap.get(firstNodeId);
-
-			// Map nodeIds to taskIds for the chain sequence
-			const taskSequence = topoOrder.map((nid) => {
-				const task = tasksMap.get(nid);
-				if (!task) throw new Error(`Missing task for node ${nid}`);
-				return task.id;
-			});
-			const [firstTaskId, ...remainingTaskIds] = taskSequence;
+			const dependencies: BatchDispatchPlan["dependencies"] = {};
+			for (const nodeId of topoOrder) {
+				const task = tasksMap.get(nodeId);
+				if (!task) throw new Error(`Missing task for node ${nodeId}`);
+				dependencies[task.id] = (revDepGraph.get(nodeId) ?? []).map((up) => {
+					const upstreamTask = tasksMap.get(up);
+					if (!upstreamTask) throw new Error(`Missing task for node ${up}`);
+					return upstreamTask.id;
+				});
+			}
 
-			const jobData = {
-				taskId: firstTaskId,
+			const plan: BatchDispatchPlan = {
 				canvasId,
 				batchId: batch.id,
-				remainingTaskIds,
-				isExplicitlySelected: selectionMap[firstTaskId],
+				dependencies,
 				selectionMap,
 				apiKey,
+				listNodeIds: this.getListNodeIds(topoOrder, revDepGraph, data),
 			};
 
 			// Check for an active batch (started but not finished) on this canvas
@@ -220,18 +259,18 @@ export class NodeWFProcessor {
 			});
 
 			if (activeBatch) {
-				// Another batch is running - store job data for later dispatch
+				// Another batch is running - store the plan for later dispatch
 				await this.prisma.taskBatch.update({
 					where: { id: batch.id },
-					data: { pendingJobData: jobData },
+					data: { pendingJobData: { ...plan } },
 				});
-			} else if (firstTask) {
+			} else {
 				// No active batch - start this one immediately
 				await this.prisma.taskBatch.update({
 					where: { id: batch.id },
 					data: { startedAt: new Date() },
 				});
-				await workflowQueue.add("process-node", jobData);
+				await dispatchTasks(plan, getRootTaskIds(plan));
 			}
 		} else {
 			// Empty batch (rare, but possible if filters removed everything)
@@ -241,6 +280,9 @@ export class NodeWFProcessor {
 			});
 		}
 
+		// Let canvas subscribers know about the new batch
+		await publishBatchUpdate(batch.id);
+
 		// Return the batch (Client can poll this for updates)
 		return await this.prisma.taskBatch.findUniqueOrThrow({
 			where: { id: batch.id },
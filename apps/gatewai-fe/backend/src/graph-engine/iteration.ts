@@ -0,0 +1,90 @@
+import type { ListResult } from "@gatewai/types";
+import { ENV_CONFIG } from "../config.js";
+import type {
+	NodeProcessor,
+	NodeProcessorCtx,
+	NodeUsage,
+} from "./processors/types.js";
+import { resolveSourceValue } from "./resolvers.js";
+
+/**
+ * Runs a processor once per list item and collects the output of every run,
+ * so `outputs[i]` of the result belongs to item `i`.
+ * Items that are empty upstream, e.g. forwarded to the other branch of a Router, stay empty.
+ * Stops at the first failing item, usage of the items that ran is summed either way.
+ * Lists longer than MAX_ITERATOR_ITEMS fail before any item runs.
+ * If an item is deferred the others still run, so their batches run in parallel,
+ * and the whole list is deferred.
+ */
+export async function processIterations(
+	processor: NodeProcessor,
+	ctx: NodeProcessorCtx,
+	count: number,
+): ReturnType<NodeProcessor> {
+	if (count > ENV_CONFIG.MAX_ITERATOR_ITEMS) {
+		return {
+			success: false,
+			error: `List has ${count} items, nodes run for at most ${ENV_CONFIG.MAX_ITERATOR_ITEMS}`,
+		};
+	}
+
+	const outputs: ListResult["outputs"] = [];
+	// Nodes like Preview never return a result
+	let returnsResult = true;
+	let usage: NodeUsage | undefined;
+	let deferred = false;
+
+	const listEdges = ctx.data.edges.filter(
+		(e) => e.target === ctx.node.id && ctx.data.listNodeIds?.includes(e.source),
+	);
+
+	for (let iteration = 0; iteration < count; iteration++) {
+		if (ctx.signal.aborted) break;
+
+		const data = { ...ctx.data, iteration };
+		if (listEdges.some((edge) => resolveSourceValue(data, edge) === null)) {
+			outputs.push({ items: [] });
+			continue;
+		}
+
+		const result = await processor({
+			...ctx,
+			data,
+			// Progress of an item is a slice of the progress of the list
+			reportProgress: (progress) =>
+				ctx.reportProgress((iteration + progress) / count),
+		});
+		const { success, error, newResult } = result;
+		if (result.usage) {
+			usage = {
+				unit: result.usage.unit,
+				quantity: (usage?.quantity ?? 0) + result.usage.quantity,
+			};
+		}
+		if (!success) {
+			return {
+				success: false,
+				error: `Item ${iteration + 1} of ${count}: ${error ?? "Unknown error"}`,
+				usage,
+			};
+		}
+
+		if (result.deferred) {
+			deferred = true;
+			continue;
+		}
+
+		// Keep indexes aligned with the list even if an item has no output
+		const output = newResult?.outputs[newResult.selectedOutputIndex ?? 0] as
+			| ListResult["outputs"][number]
+			| undefined;
+		outputs.push(output ?? { items: [] });
+		returnsResult = !!newResult;
+	}
+
+	if (deferred) return { success: true, deferred, usage };
+	if (!returnsResult) return { success: true, usage };
+
+	const newResult: ListResult = { outputs, selectedOutputIndex: 0 };
+	return { success: true, newResult, usage };
+}
@@ -1,17 +1,21 @@
-import { DataType } from "@gatewai/db";
-import type {
-	OutputItem,
-	SpeechToTextNodeConfig,
-	SpeechToTextResult,
+import { DataType, UsageUnit } from "@gatewai/db";
+import {
+	type OutputItem,
+	SpeechToTextNodeConfigSchema,
+	type SpeechToTextResult,
 } from "@gatewai/types";
-import { createPartFromUri, createUserContent } from "@google/genai";
-import { genAI } from "../../genai.js";
 import { logger } from "../../logger.js";
-import { getFromGCS } from "../../utils/storage.js";
+import { getModelProvider } from "../../model-providers/registry.js";
+import type { MediaData } from "../../model-providers/types.js";
+import { getFromStorage } from "../../utils/storage.js";
 import { getInputValue } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
-const audioUnderstandingProcessor: NodeProcessor = async ({ node, data }) => {
+const audioUnderstandingProcessor: NodeProcessor = async ({
+	node,
+	data,
+	signal,
+}) => {
 	try {
 		const userPrompt = getInputValue(data, node.id, true, {
 			dataType: DataType.Text,
@@ -23,25 +27,22 @@ const audioUnderstandingProcessor: NodeProcessor = async ({ node, data }) => {
 			label: "Audio",
 		})?.data as OutputItem<"Audio">["data"];
 
-		const nodeConfig = node.config as SpeechToTextNodeConfig;
+		const nodeConfig = SpeechToTextNodeConfigSchema.parse(node.config);
 
-		let fileBlob: Blob;
-		let mimeType: string;
+		let audio: MediaData;
 		if (audioInput?.entity?.signedUrl) {
-			const buffer = await getFromGCS(
-				audioInput.entity.key,
-				audioInput.entity.bucket,
-			);
-			fileBlob = new Blob([new Uint8Array(buffer)], {
-				type: audioInput.entity.mimeType,
-			});
-			mimeType = audioInput.entity.mimeType;
+			audio = {
+				data: await getFromStorage(
+					audioInput.entity.key,
+					audioInput.entity.bucket,
+				),
+				mimeType: audioInput.entity.mimeType,
+			};
 		} else if (audioInput?.processData?.tempKey) {
-			const buffer = await getFromGCS(audioInput?.processData.tempKey);
-			fileBlob = new Blob([new Uint8Array(buffer)], {
-				type: audioInput?.processData.mimeType,
-			});
-			mimeType = audioInput?.processData.mimeType ?? "audio/wav";
+			audio = {
+				data: await getFromStorage(audioInput?.processData.tempKey),
+				mimeType: audioInput?.processData.mimeType ?? "audio/wav",
+			};
 		} else {
 			return {
 				success: false,
@@ -49,25 +50,18 @@ const audioUnderstandingProcessor: NodeProcessor = async ({ node, data }) => {
 			};
 		}
 
-		const audioFile = await genAI.files.upload({
-			file: fileBlob,
-			config: { mimeType },
-		});
-
-		if (!audioFile.uri || !audioFile.mimeType) {
-			return { success: false, error: "Uploaded audio data is corrupted." };
+		const provider = getModelProvider(nodeConfig.provider);
+		if (!provider.transcribe) {
+			throw new Error(`${provider.label} does not support transcription`);
 		}
 
-		const response = await genAI.models.generateContent({
+		const { text, totalTokens } = await provider.transcribe({
 			model: nodeConfig.model,
-			contents: createUserContent([
-				createPartFromUri(audioFile.uri, audioFile.mimeType),
-				userPrompt,
-			]),
+			prompt: userPrompt,
+			audio,
+			signal,
 		});
 
-		if (!response.text) return { success: false, error: "Response is empty." };
-
 		const outputHandle = data.handles.find(
 			(h) => h.nodeId === node.id && h.type === "Output",
 		);
@@ -85,17 +79,27 @@ const audioUnderstandingProcessor: NodeProcessor = async ({ node, data }) => {
 			items: [
 				{
 					type: DataType.Text,
-					data: response.text,
+					data: text,
 					outputHandleId: outputHandle.id,
 				},
 			],
 		});
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: { unit: UsageUnit.TOKENS, quantity: totalTokens ?? 0 },
+		};
 	} catch (err: unknown) {
 		logger.error(err instanceof Error ? err.message : "TTS Failed");
-		return { success: false, error: "AudioUnderstanding processing failed" };
+		return {
+			success: false,
+			error:
+				err instanceof Error
+					? err.message
+					: "AudioUnderstanding processing failed",
+		};
 	}
 };
 
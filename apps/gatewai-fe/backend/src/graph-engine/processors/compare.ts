@@ -0,0 +1,116 @@
+import { runInNewContext } from "node:vm";
+import { DataType } from "@gatewai/db";
+import {
+	type CompareNodeConfig,
+	CompareNodeConfigSchema,
+	type CompareResult,
+} from "@gatewai/types";
+import { getInputValue } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+// Patterns come from users and run on the shared worker,
+// catastrophic backtracking is cut off instead of blocking every canvas.
+const REGEX_TIMEOUT_MS = 100;
+const MAX_REGEX_PATTERN_LENGTH = 1_000;
+const MAX_REGEX_INPUT_LENGTH = 100_000;
+
+function testRegex(pattern: string, flags: string, input: string) {
+	if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+		throw new Error(
+			`Regex pattern is longer than ${MAX_REGEX_PATTERN_LENGTH} characters`,
+		);
+	}
+	if (input.length > MAX_REGEX_INPUT_LENGTH) {
+		throw new Error(
+			`Input is longer than ${MAX_REGEX_INPUT_LENGTH} characters, too long to match a regex`,
+		);
+	}
+
+	const regex = new RegExp(pattern, flags);
+	try {
+		return runInNewContext(
+			"regex.test(input)",
+			{ regex, input },
+			{ timeout: REGEX_TIMEOUT_MS },
+		) as boolean;
+	} catch (err) {
+		if ((err as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+			throw new Error(
+				`Regex took longer than ${REGEX_TIMEOUT_MS}ms to match, simplify the pattern`,
+			);
+		}
+		throw err;
+	}
+}
+
+function toNumber(value: unknown, name: string) {
+	const num = typeof value === "number" ? value : Number(String(value).trim());
+	if (String(value).trim() === "" || !Number.isFinite(num)) {
+		throw new Error(`${name} "${value}" is not a number`);
+	}
+	return num;
+}
+
+function compare(input: string | number, config: CompareNodeConfig): boolean {
+	const { operator, value, caseSensitive } = config;
+	const normalize = (str: string) => (caseSensitive ? str : str.toLowerCase());
+
+	switch (operator) {
+		case "contains":
+			return normalize(String(input)).includes(normalize(value));
+		case "equals":
+			if (typeof input === "number") {
+				return input === toNumber(value, "Compare value");
+			}
+			return normalize(input) === normalize(value);
+		case "regex":
+			return testRegex(value, caseSensitive ? "" : "i", String(input));
+		case "gt":
+			return toNumber(input, "Input") > toNumber(value, "Compare value");
+		case "gte":
+			return toNumber(input, "Input") >= toNumber(value, "Compare value");
+		case "lt":
+			return toNumber(input, "Input") < toNumber(value, "Compare value");
+		case "lte":
+			return toNumber(input, "Input") <= toNumber(value, "Compare value");
+	}
+}
+
+const compareProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const inputValue = getInputValue(data, node.id, true, {
+			label: "Input",
+		});
+		const nodeConfig = CompareNodeConfigSchema.parse(node.config);
+
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const newResult: CompareResult = {
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Boolean,
+							data: compare(inputValue?.data as string | number, nodeConfig),
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			return { success: false, error: err.message };
+		}
+		return { success: false, error: "Compare processing failed" };
+	}
+};
+
+export default compareProcessor;
@@ -1,6 +1,3 @@
-import * as fs from "node:fs/promises";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
 import { DataType } from "@gatewai/db";
 import type {
 	CompositorLayer,
@@ -12,45 +9,18 @@ import type {
 import { COMPOSITOR_DEFAULTS } from "@gatewai/types";
 import Konva from "konva";
 import "konva/canvas-backend";
-import { loadImage, registerFont } from "canvas";
+import { loadImage } from "canvas";
 import { ENV_CONFIG } from "../../config.js";
 import { logImage } from "../../media-logger.js";
+import { registerFontFamilies } from "../../utils/fonts.js";
 import { getImageBuffer, getImageDimensions } from "../../utils/image.js";
 import { assertIsError } from "../../utils/misc.js";
 import { uploadToTemporaryFolder } from "../../utils/storage.js";
 import { getAllInputValuesWithHandle } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 // Local defaults removed in favor of shared COMPOSITOR_DEFAULTS
 
-/**
- * Resolves local font files and registers them with the canvas backend.
- * Konva/Canvas-Backend requires fonts to be registered globally.
- */
-const setupFonts = async (layers: CompositorLayer[]) => {
-	const families = new Set(
-		layers
-			.filter((l) => l.type === "Text")
-			.map((l) => l.fontFamily ?? COMPOSITOR_DEFAULTS.FONT_FAMILY),
-	);
-
-	for (const family of families) {
-		try {
-			const fontDir = path.join(__dirname, "../../assets/fonts", family);
-			const files = await fs.readdir(fontDir);
-			const fontFile = files.find((f) => /\.(woff2|woff|ttf|otf)$/i.test(f));
-			if (fontFile) {
-				registerFont(path.join(fontDir, fontFile), { family });
-			}
-		} catch {
-			// Font directory or file not found; fallback to system sans-serif
-		}
-	}
-};
-
 const compositorProcessor: NodeProcessor = async ({ node, data }) => {
 	try {
 		const config = node.config as CompositorNodeConfig;
@@ -104,7 +74,11 @@ const compositorProcessor: NodeProcessor = async ({ node, data }) => {
 		const konvaLayer = new Konva.Layer();
 		stage.add(konvaLayer);
 
-		await setupFonts(allLayers);
+		await registerFontFamilies(
+			allLayers
+				.filter((l) => l.type === "Text")
+				.map((l) => l.fontFamily ?? COMPOSITOR_DEFAULTS.FONT_FAMILY),
+		);
 
 		// 3. Render Loop
 		for (const layerConfig of allLayers) {
@@ -0,0 +1,186 @@
+import { DataType } from "@gatewai/db";
+import {
+	type EncodeFormat,
+	type EncodeNodeConfig,
+	EncodeNodeConfigSchema,
+	type EncodeResult,
+	type FileData,
+} from "@gatewai/types";
+import sharp from "sharp";
+import { ENV_CONFIG } from "../../config.js";
+import { logger } from "../../logger.js";
+import { logImage } from "../../media-logger.js";
+import { uploadToTemporaryFolder } from "../../utils/storage.js";
+import { getInputValue, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+const FORMAT_FILES: Record<EncodeFormat, { mimeType: string; ext: string }> = {
+	webp: { mimeType: "image/webp", ext: "webp" },
+	avif: { mimeType: "image/avif", ext: "avif" },
+	jpeg: { mimeType: "image/jpeg", ext: "jpg" },
+	png: { mimeType: "image/png", ext: "png" },
+};
+
+async function encodeImage(
+	input: Buffer,
+	config: EncodeNodeConfig,
+	quality: number,
+) {
+	let image = sharp(input);
+
+	// sharp drops all metadata unless told otherwise
+	if (!config.stripMetadata) {
+		image = image.keepMetadata();
+	}
+	image =
+		config.colorProfile === "keep"
+			? image.keepIccProfile()
+			: image.withIccProfile(config.colorProfile);
+
+	const { artist, copyright, description } = config.exif;
+	const exif = Object.fromEntries(
+		Object.entries({
+			Artist: artist,
+			Copyright: copyright,
+			ImageDescription: description,
+		}).filter((entry): entry is [string, string] => !!entry[1]),
+	);
+	if (Object.keys(exif).length > 0) {
+		image = config.stripMetadata
+			? image.withExif({ IFD0: exif })
+			: image.withExifMerge({ IFD0: exif });
+	}
+	if (config.xmp) {
+		image = image.withXmp(config.xmp);
+	}
+
+	const chromaSubsampling = config.chromaSubsampling;
+	switch (config.format) {
+		case "webp":
+			// Lossy WebP is always 4:2:0, smart subsampling keeps sharper color edges
+			image = image.webp({
+				quality,
+				smartSubsample: chromaSubsampling === "4:4:4",
+			});
+			break;
+		case "avif":
+			image = image.avif({ quality, chromaSubsampling });
+			break;
+		case "jpeg":
+			// JPEG has no alpha, transparent areas become white instead of black
+			image = image
+				.flatten({ background: "#ffffff" })
+				.jpeg({ quality, chromaSubsampling, mozjpeg: true });
+			break;
+		case "png":
+			// PNG is lossless, below 100 the quality reduces the palette instead
+			image = image.png({
+				compressionLevel: 9,
+				palette: quality < 100,
+				quality,
+			});
+			break;
+	}
+
+	return image.toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Highest quality up to the configured one whose file fits the size limit,
+ * or the lowest quality when none does.
+ */
+async function encodeWithinSize(input: Buffer, config: EncodeNodeConfig) {
+	const best = await encodeImage(input, config, config.quality);
+	if (!config.maxFileSizeKb) return best;
+
+	const maxBytes = config.maxFileSizeKb * 1024;
+	if (best.info.size <= maxBytes) return best;
+
+	let low = 1;
+	let high = config.quality - 1;
+	let fitting: typeof best | null = null;
+	while (low <= high) {
+		const quality = Math.floor((low + high) / 2);
+		const encoded = await encodeImage(input, config, quality);
+		if (encoded.info.size <= maxBytes) {
+			fitting = encoded;
+			low = quality + 1;
+		} else {
+			high = quality - 1;
+		}
+	}
+	if (fitting) return fitting;
+
+	logger.warn(
+		`Encoded image does not fit in ${config.maxFileSizeKb} KB even at quality 1`,
+	);
+	return encodeImage(input, config, 1);
+}
+
+const encodeProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const imageInput = getInputValue(data, node.id, true, {
+			dataType: DataType.Image,
+			label: "Image",
+		})?.data as FileData | null;
+
+		if (!imageInput) {
+			return { success: false, error: "No image input provided" };
+		}
+
+		const config = EncodeNodeConfigSchema.parse(node.config);
+		const buffer = Buffer.from(await loadMediaBuffer(imageInput));
+		const { data: encoded, info } = await encodeWithinSize(buffer, config);
+		const { mimeType, ext } = FORMAT_FILES[config.format];
+
+		if (ENV_CONFIG.DEBUG_LOG_MEDIA) {
+			logImage(encoded, `.${ext}`, node.id);
+		}
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const key = `${node.id}/${Date.now()}.${ext}`;
+		const { signedUrl, key: tempKey } = await uploadToTemporaryFolder(
+			encoded,
+			mimeType,
+			key,
+		);
+
+		const newResult: EncodeResult = {
+			selectedOutputIndex: 0,
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Image,
+							data: {
+								processData: {
+									dataUrl: signedUrl,
+									tempKey,
+									mimeType,
+									width: info.width,
+									height: info.height,
+									size: info.size,
+								},
+							},
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+			inputSize: buffer.length,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		return {
+			success: false,
+			error: err instanceof Error ? err.message : "Encode processing failed",
+		};
+	}
+};
+
+export default encodeProcessor;
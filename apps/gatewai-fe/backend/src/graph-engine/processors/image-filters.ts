@@ -0,0 +1,216 @@
+import { DataType } from "@gatewai/db";
+import {
+	ChromaKeyNodeConfigSchema,
+	ColorBalanceNodeConfigSchema,
+	type FileData,
+	GrayscaleNodeConfigSchema,
+	LevelsNodeConfigSchema,
+	type NodeResult,
+	NoiseNodeConfigSchema,
+	RotateNodeConfigSchema,
+	SharpenNodeConfigSchema,
+	type SingleOutputGeneric,
+	VignetteNodeConfigSchema,
+} from "@gatewai/types";
+
+import { ENV_CONFIG } from "../../config.js";
+import { backendPixiService } from "../../media/pixi-service.js";
+import { logImage } from "../../media-logger.js";
+import { bufferToDataUrl } from "../../utils/image.js";
+import { uploadToTemporaryFolder } from "../../utils/storage.js";
+import { getInputValue, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor, NodeProcessorCtx } from "./types.js";
+
+type ImageFilter = (
+	imageUrl: string,
+	node: NodeProcessorCtx["node"],
+	apiKey?: string,
+) => Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+/**
+ * Processor of a node with one image input and one image output, rendered
+ * with the same pixi service the browser uses so both give the same pixels.
+ */
+const createImageFilterProcessor =
+	(name: string, filter: ImageFilter): NodeProcessor =>
+	async ({ node, data }) => {
+		try {
+			const imageInput = getInputValue(data, node.id, true, {
+				dataType: DataType.Image,
+				label: "Image",
+			})?.data as FileData | null;
+
+			if (!imageInput) {
+				return { success: false, error: "No image input provided" };
+			}
+
+			const arrayBuffer = await loadMediaBuffer(imageInput);
+			const buffer = Buffer.from(arrayBuffer);
+			const base64Data = bufferToDataUrl(buffer, "image/png");
+
+			const { dataUrl, ...dimensions } = await filter(
+				base64Data,
+				node,
+				data.apiKey,
+			);
+
+			const uploadBuffer = Buffer.from(await dataUrl.arrayBuffer());
+			const mimeType = dataUrl.type;
+
+			if (ENV_CONFIG.DEBUG_LOG_MEDIA) {
+				logImage(uploadBuffer, ".png", node.id);
+			}
+			const outputHandle = data.handles.find(
+				(h) => h.nodeId === node.id && h.type === "Output",
+			);
+			if (!outputHandle)
+				return { success: false, error: "Output handle is missing." };
+
+			const newResult: NodeResult = structuredClone(
+				node.result as NodeResult,
+			) ?? {
+				outputs: [],
+				selectedOutputIndex: 0,
+			};
+
+			const key = `${node.id}/${Date.now()}.png`;
+			const { signedUrl, key: tempKey } = await uploadToTemporaryFolder(
+				uploadBuffer,
+				mimeType,
+				key,
+			);
+
+			const newGeneration: SingleOutputGeneric<"Image">["outputs"][number] = {
+				items: [
+					{
+						type: DataType.Image,
+						data: {
+							processData: {
+								dataUrl: signedUrl,
+								tempKey,
+								mimeType,
+								...dimensions,
+							},
+						},
+						outputHandleId: outputHandle.id,
+					},
+				],
+			};
+
+			newResult.outputs = [newGeneration];
+			newResult.selectedOutputIndex = newResult.outputs.length - 1;
+
+			return { success: true, newResult };
+		} catch (err: unknown) {
+			return {
+				success: false,
+				error: err instanceof Error ? err.message : `${name} processing failed`,
+			};
+		}
+	};
+
+const sharpenProcessor = createImageFilterProcessor(
+	"Sharpen",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processSharpen(
+			imageUrl,
+			SharpenNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const levelsProcessor = createImageFilterProcessor(
+	"Levels",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processLevels(
+			imageUrl,
+			LevelsNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const colorBalanceProcessor = createImageFilterProcessor(
+	"Color Balance",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processColorBalance(
+			imageUrl,
+			ColorBalanceNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const invertProcessor = createImageFilterProcessor(
+	"Invert",
+	(imageUrl, _node, apiKey) =>
+		backendPixiService.processInvert(imageUrl, undefined, apiKey),
+);
+
+const grayscaleProcessor = createImageFilterProcessor(
+	"Grayscale",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processGrayscale(
+			imageUrl,
+			GrayscaleNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const vignetteProcessor = createImageFilterProcessor(
+	"Vignette",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processVignette(
+			imageUrl,
+			VignetteNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const noiseProcessor = createImageFilterProcessor(
+	"Noise",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processNoise(
+			imageUrl,
+			NoiseNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const rotateProcessor = createImageFilterProcessor(
+	"Rotate",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processRotate(
+			imageUrl,
+			RotateNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+const chromaKeyProcessor = createImageFilterProcessor(
+	"Chroma Key",
+	(imageUrl, node, apiKey) =>
+		backendPixiService.processChromaKey(
+			imageUrl,
+			ChromaKeyNodeConfigSchema.parse(node.config),
+			undefined,
+			apiKey,
+		),
+);
+
+export {
+	chromaKeyProcessor,
+	colorBalanceProcessor,
+	grayscaleProcessor,
+	invertProcessor,
+	levelsProcessor,
+	noiseProcessor,
+	rotateProcessor,
+	sharpenProcessor,
+	vignetteProcessor,
+};
@@ -1,25 +1,25 @@
 import assert from "node:assert";
-import { DataType, prisma } from "@gatewai/db";
+import { DataType, prisma, UsageUnit } from "@gatewai/db";
 import {
 	type FileData,
 	ImageGenNodeConfigSchema,
 	type ImageGenResult,
 } from "@gatewai/types";
-import type { Part } from "@google/genai";
 import { ENV_CONFIG } from "../../config.js";
-import { genAI } from "../../genai.js";
 import { logger } from "../../logger.js";
+import { getModelProvider } from "../../model-providers/registry.js";
+import type { MediaData } from "../../model-providers/types.js";
 import { getImageDimensions } from "../../utils/image.js";
 import { generateId } from "../../utils/misc.js";
 import {
 	generateSignedUrl,
-	getFromGCS,
-	uploadToGCS,
+	getFromStorage,
+	uploadToStorage,
 } from "../../utils/storage.js";
 import { getInputValue, getInputValuesByType } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
-const imageGenProcessor: NodeProcessor = async ({ node, data }) => {
+const imageGenProcessor: NodeProcessor = async ({ node, data, signal }) => {
 	try {
 		const userPrompt = getInputValue(data, node.id, true, {
 			dataType: DataType.Text,
@@ -30,17 +30,10 @@ const imageGenProcessor: NodeProcessor = async ({ node, data }) => {
 			dataType: DataType.Image,
 		}).map((m) => m?.data) as FileData[] | null;
 
-		// 1. Prepare Parts for the Model
-		const parts: Part[] = [];
-
 		logger.debug(`User prompt: ${userPrompt}`);
-		if (userPrompt) {
-			parts.push({ text: userPrompt });
-		}
-
 		logger.info(`Number of reference images: ${imageFileData?.length ?? 0}`);
 
-		// Convert reference images to inlineData for Google SDK
+		const referenceImages: MediaData[] = [];
 		for (const imgData of imageFileData || []) {
 			if (!imgData) {
 				continue;
@@ -66,68 +59,30 @@ const imageGenProcessor: NodeProcessor = async ({ node, data }) => {
 			assert(key, "Key must be defined for image retrieval");
 			assert(mimeType, "MimeType must be defined for image retrieval");
 
-			const arrayBuffer = await getFromGCS(key, bucket);
-			const buffer = Buffer.from(arrayBuffer);
-			const base64Data = buffer.toString("base64");
-
-			parts.push({
-				inlineData: { mimeType, data: base64Data },
-			});
+			const arrayBuffer = await getFromStorage(key, bucket);
+			referenceImages.push({ mimeType, data: Buffer.from(arrayBuffer) });
 		}
 
-		if (parts.length === 0) {
+		if (!userPrompt && referenceImages.length === 0) {
 			return { success: false, error: "No user prompt or image provided" };
 		}
 
 		const config = ImageGenNodeConfigSchema.parse(node.config);
+		const provider = getModelProvider(config.provider);
+		if (!provider.generateImage) {
+			throw new Error(`${provider.label} does not support image generation`);
+		}
 
-		// 2. Execute Image Generation using generateContent
-		const response = await genAI.models.generateContent({
+		const { data: buffer, mimeType } = await provider.generateImage({
 			model: config.model,
-			contents: [
-				{
-					role: "user",
-					parts: parts,
-				},
-			],
-
-			config: {
-				responseModalities: ["IMAGE"],
-				systemInstruction: [
-					"You are a image generator.",
-					"Your mission is to create an image whether prompt tells you to or not.",
-				],
-				imageConfig:
-					config.model === "gemini-3-pro-image-preview"
-						? {
-								aspectRatio: config.aspectRatio,
-								imageSize: config.imageSize,
-							}
-						: undefined,
-			},
+			prompt: userPrompt,
+			referenceImages,
+			aspectRatio: config.aspectRatio,
+			imageSize: config.imageSize,
+			seed: config.seed,
+			signal,
 		});
 
-		// 3. Process the Result
-		// We look for the first part containing inlineData (the generated image)
-		const candidate = response.candidates?.[0];
-		const contentParts = candidate?.content?.parts;
-		const imagePart = contentParts?.find((part) => part.inlineData);
-
-		if (!imagePart || !imagePart.inlineData || !imagePart.inlineData.data) {
-			// Check if there's a text refusal/error message in the response
-			const textPart = contentParts?.find((part) => part.text)?.text;
-			if (textPart) {
-				return {
-					success: false,
-					error: `Model returned text instead of image: ${textPart}`,
-				};
-			}
-			return { success: false, error: "No image generated" };
-		}
-
-		const mimeType = imagePart.inlineData.mimeType ?? "image/png";
-		const buffer = Buffer.from(imagePart.inlineData.data, "base64");
-
 		// Determine extension based on mimeType
 		let extension = "png";
 		if (mimeType.includes("jpeg") || mimeType.includes("jpg"))
@@ -142,7 +97,7 @@ const imageGenProcessor: NodeProcessor = async ({ node, data }) => {
 		const key = `assets/${fileName}`;
 		const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
 
-		await uploadToGCS(buffer, key, contentType, bucket);
+		await uploadToStorage(buffer, key, contentType, bucket);
 		const size = buffer.length;
 
 		const expiresIn = 3600 * 24 * 6.9;
@@ -189,7 +144,11 @@ const imageGenProcessor: NodeProcessor = async ({ node, data }) => {
 		newResult.outputs.push(newGeneration);
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: { unit: UsageUnit.IMAGES, quantity: 1 },
+		};
 	} catch (err: unknown) {
 		console.error(err);
 		if (err instanceof Error) {
@@ -1,23 +1,41 @@
 import { NodeType } from "@gatewai/db";
-import type {
-	FileResult,
-	NodeResult,
-	VideoCompositorResult,
-} from "@gatewai/types";
+import type { FileResult, NodeResult } from "@gatewai/types";
 import audioUnderstandingProcessor from "./audio-understanding.js";
 import blurProcessor from "./blur.js";
+import compareProcessor from "./compare.js";
 import compositorProcessor from "./compositor.js";
 import cropProcessor from "./crop.js";
+import encodeProcessor from "./encode.js";
 import exportProcessor from "./export.js";
+import {
+	chromaKeyProcessor,
+	colorBalanceProcessor,
+	grayscaleProcessor,
+	invertProcessor,
+	levelsProcessor,
+	noiseProcessor,
+	rotateProcessor,
+	sharpenProcessor,
+	vignetteProcessor,
+} from "./image-filters.js";
 import imageGenProcessor from "./image-gen.js";
+import inpaintProcessor from "./inpaint.js";
+import iteratorProcessor from "./iterator.js";
 import llmProcessor from "./llm.js";
 import modulateProcessor from "./modulate.js";
+import numberProcessor from "./number.js";
 import paintProcessor from "./paint.js";
+import removeBackgroundProcessor from "./remove-background.js";
 import resizeProcessor from "./resize.js";
+import routerProcessor from "./router.js";
+import subCanvasProcessor from "./sub-canvas.js";
 import textProcessor from "./text.js";
 import textMergerProcessor from "./text-merger.js";
 import textToSpeechProcessor from "./text-to-speech.js";
+import toggleProcessor from "./toggle.js";
 import type { NodeProcessor } from "./types.js";
+import upscaleProcessor from "./upscale.js";
+import videoCompositorProcessor from "./video-compositor.js";
 import videoGenProcessor from "./video-gen.js";
 import videoGenExtendProcessor from "./video-gen-extend.js";
 import videoGenFirstLastFrameProcessor from "./video-gen-first-last-frame.js";
@@ -27,13 +45,27 @@ const nodeProcessors: Partial<Record<NodeType, NodeProcessor>> = {
 	[NodeType.Resize]: resizeProcessor,
 	[NodeType.LLM]: llmProcessor,
 	[NodeType.ImageGen]: imageGenProcessor,
+	[NodeType.Inpaint]: inpaintProcessor,
 	[NodeType.Crop]: cropProcessor,
 	[NodeType.Paint]: paintProcessor,
 	[NodeType.Modulate]: modulateProcessor,
+	[NodeType.Sharpen]: sharpenProcessor,
+	[NodeType.Levels]: levelsProcessor,
+	[NodeType.ColorBalance]: colorBalanceProcessor,
+	[NodeType.Invert]: invertProcessor,
+	[NodeType.Grayscale]: grayscaleProcessor,
+	[NodeType.Vignette]: vignetteProcessor,
+	[NodeType.Noise]: noiseProcessor,
+	[NodeType.Rotate]: rotateProcessor,
+	[NodeType.ChromaKey]: chromaKeyProcessor,
+	[NodeType.Encode]: encodeProcessor,
+	[NodeType.RemoveBackground]: removeBackgroundProcessor,
+	[NodeType.Upscale]: upscaleProcessor,
 	[NodeType.Compositor]: compositorProcessor,
 	[NodeType.VideoGen]: videoGenProcessor,
 	// [NodeType.VideoGenExtend]: videoGenExtendProcessor,
 	[NodeType.VideoGenFirstLastFrame]: videoGenFirstLastFrameProcessor,
+	[NodeType.VideoCompositor]: videoCompositorProcessor,
 
 	[NodeType.TextToSpeech]: textToSpeechProcessor,
 	[NodeType.SpeechToText]: audioUnderstandingProcessor,
@@ -41,16 +73,15 @@ const nodeProcessors: Partial<Record<NodeType, NodeProcessor>> = {
 	[NodeType.Export]: exportProcessor,
 
 	[NodeType.Text]: textProcessor,
+	[NodeType.Number]: numberProcessor,
+	[NodeType.Toggle]: toggleProcessor,
+	[NodeType.Compare]: compareProcessor,
+	[NodeType.Router]: routerProcessor,
+	[NodeType.Iterator]: iteratorProcessor,
+	[NodeType.SubCanvas]: subCanvasProcessor,
 	[NodeType.File]: async ({ node }) => {
 		return { success: true, newResult: node.result as unknown as FileResult };
 	},
-	// No processing*(not really) needed for below node types
-	[NodeType.VideoCompositor]: async ({ node }) => {
-		return {
-			success: true,
-			newResult: node.result as unknown as VideoCompositorResult,
-		};
-	},
 	// Frontend-Process*(not really) only nodes
 	// We're adding them here so that they doesn't throw false-positive error for missing processors
 	[NodeType.Preview]: async () => {
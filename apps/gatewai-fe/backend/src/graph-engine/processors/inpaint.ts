@@ -0,0 +1,275 @@
+import { DataType, prisma, UsageUnit } from "@gatewai/db";
+import {
+	type FileData,
+	InpaintNodeConfigSchema,
+	type InpaintResult,
+} from "@gatewai/types";
+import sharp from "sharp";
+import { ENV_CONFIG } from "../../config.js";
+import { logger } from "../../logger.js";
+import { logImage } from "../../media-logger.js";
+import { getModelProvider } from "../../model-providers/registry.js";
+import { getClosestAspectRatio } from "../../utils/image.js";
+import { generateId } from "../../utils/misc.js";
+import { generateSignedUrl, uploadToStorage } from "../../utils/storage.js";
+import { getInputValue, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+// Mask values above this count as painted when looking for the masked region
+const MASK_THRESHOLD = 127;
+
+type Region = { left: number; top: number; width: number; height: number };
+
+/**
+ * Single channel mask of the given size, 255 where the image may change.
+ * Opaque masks are read by brightness, masks with transparency by their alpha
+ * like the ones the Paint node draws.
+ */
+async function loadMask(buffer: Buffer, width: number, height: number) {
+	const { isOpaque } = await sharp(buffer).stats();
+	const resized = sharp(buffer).resize(width, height, { fit: "fill" });
+	const channel = isOpaque
+		? resized.removeAlpha().toColourspace("b-w")
+		: resized.ensureAlpha().extractChannel("alpha");
+	return channel.raw().toBuffer();
+}
+
+/**
+ * Bounding box of the painted pixels, grown by a margin so the model sees
+ * some of the surroundings it has to blend into.
+ */
+function getMaskRegion(
+	mask: Buffer,
+	width: number,
+	height: number,
+): Region | null {
+	let minX = width;
+	let minY = height;
+	let maxX = -1;
+	let maxY = -1;
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (mask[y * width + x] > MASK_THRESHOLD) {
+				if (x < minX) minX = x;
+				if (x > maxX) maxX = x;
+				if (y < minY) minY = y;
+				if (y > maxY) maxY = y;
+			}
+		}
+	}
+	if (maxX < 0) return null;
+
+	const margin = Math.max(
+		32,
+		Math.round(Math.max(maxX - minX, maxY - minY) * 0.25),
+	);
+	const left = Math.max(0, minX - margin);
+	const top = Math.max(0, minY - margin);
+	return {
+		left,
+		top,
+		width: Math.min(width, maxX + margin + 1) - left,
+		height: Math.min(height, maxY + margin + 1) - top,
+	};
+}
+
+const inpaintProcessor: NodeProcessor = async ({ node, data, signal }) => {
+	try {
+		const prompt = getInputValue(data, node.id, true, {
+			dataType: DataType.Text,
+			label: "Prompt",
+		})?.data as string;
+		const imageInput = getInputValue(data, node.id, true, {
+			dataType: DataType.Image,
+			label: "Image",
+		})?.data as FileData | null;
+		const maskInput = getInputValue(data, node.id, false, {
+			dataType: DataType.Image,
+			label: "Mask",
+		})?.data as FileData | null;
+
+		if (!imageInput) {
+			return { success: false, error: "No image provided" };
+		}
+
+		const config = InpaintNodeConfigSchema.parse(node.config);
+		if (config.mode === "inpaint" && !maskInput) {
+			return { success: false, error: "Inpainting needs a mask" };
+		}
+
+		const provider = getModelProvider(config.provider);
+		if (!provider.generateImage) {
+			throw new Error(`${provider.label} does not support image generation`);
+		}
+
+		const imageBuffer = Buffer.from(await loadMediaBuffer(imageInput));
+		const { width: imageWidth, height: imageHeight } =
+			await sharp(imageBuffer).metadata();
+
+		const userMask = maskInput
+			? await loadMask(
+					Buffer.from(await loadMediaBuffer(maskInput)),
+					imageWidth,
+					imageHeight,
+				)
+			: null;
+
+		// Outpainting fills a border around the image, the user mask still
+		// applies inside it
+		let source = imageBuffer;
+		let width = imageWidth;
+		let height = imageHeight;
+		let mask = userMask ?? Buffer.alloc(width * height);
+		if (config.mode === "outpaint") {
+			const { padding } = config;
+			width = imageWidth + padding * 2;
+			height = imageHeight + padding * 2;
+			source = await sharp(imageBuffer)
+				.extend({
+					top: padding,
+					bottom: padding,
+					left: padding,
+					right: padding,
+					// Mirrored edges give the model colors to continue from
+					extendWith: "mirror",
+				})
+				.png()
+				.toBuffer();
+			mask = Buffer.alloc(width * height, 255);
+			for (let y = 0; y < imageHeight; y++) {
+				const row = (y + padding) * width + padding;
+				if (userMask) {
+					userMask.copy(mask, row, y * imageWidth, (y + 1) * imageWidth);
+				} else {
+					mask.fill(0, row, row + imageWidth);
+				}
+			}
+		}
+
+		const region = getMaskRegion(mask, width, height);
+		if (!region) {
+			return { success: false, error: "The mask is empty" };
+		}
+		const rawMask = { raw: { width, height, channels: 1 as const } };
+		const regionMask = await sharp(mask, rawMask)
+			.extract(region)
+			.raw()
+			.toBuffer();
+		const regionImage = await sharp(source)
+			.extract(region)
+			.removeAlpha()
+			.png()
+			.toBuffer();
+
+		// Models take the mask as the region with transparent pixels to change
+		const rawRegionMask = {
+			raw: { width: region.width, height: region.height, channels: 1 as const },
+		};
+		const modelMask = await sharp(regionImage)
+			.joinChannel(
+				Buffer.from(regionMask.map((value) => 255 - value)),
+				rawRegionMask,
+			)
+			.png()
+			.toBuffer();
+
+		const generated = await provider.generateImage({
+			model: config.model,
+			prompt,
+			referenceImages: [{ data: regionImage, mimeType: "image/png" }],
+			mask: { data: modelMask, mimeType: "image/png" },
+			aspectRatio: getClosestAspectRatio(region.width, region.height),
+			imageSize: config.imageSize,
+			seed: config.seed,
+			signal,
+		});
+
+		// Generated pixels only land where the (feathered) mask is set
+		let alpha = sharp(regionMask, rawRegionMask);
+		if (config.feather > 0) {
+			alpha = alpha.blur(config.feather);
+		}
+		const patch = await sharp(generated.data)
+			.resize(region.width, region.height, { fit: "fill" })
+			.removeAlpha()
+			.joinChannel(await alpha.raw().toBuffer(), rawRegionMask)
+			.png()
+			.toBuffer();
+		const buffer = await sharp(source)
+			.composite([{ input: patch, left: region.left, top: region.top }])
+			.png()
+			.toBuffer();
+
+		if (ENV_CONFIG.DEBUG_LOG_MEDIA) {
+			logImage(modelMask, ".png", `${node.id}_mask`);
+			logImage(buffer, ".png", node.id);
+		}
+
+		const contentType = "image/png";
+		const fileName = `${node.name}_${generateId()}.png`;
+		const key = `assets/${fileName}`;
+		const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
+
+		await uploadToStorage(buffer, key, contentType, bucket);
+
+		const expiresIn = 3600 * 24 * 6.9;
+		const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
+		const signedUrlExp = new Date(Date.now() + expiresIn * 1000);
+
+		const asset = await prisma.fileAsset.create({
+			data: {
+				name: fileName,
+				userId: data.canvas.userId,
+				bucket,
+				key,
+				size: buffer.length,
+				signedUrl,
+				signedUrlExp,
+				width,
+				height,
+				mimeType: contentType,
+			},
+		});
+
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const newResult = structuredClone(
+			node.result as unknown as InpaintResult,
+		) ?? {
+			outputs: [],
+			selectedOutputIndex: 0,
+		};
+
+		newResult.outputs.push({
+			items: [
+				{
+					type: DataType.Image,
+					data: { entity: asset },
+					outputHandleId: outputHandle.id,
+				},
+			],
+		});
+		newResult.selectedOutputIndex = newResult.outputs.length - 1;
+
+		return {
+			success: true,
+			newResult,
+			usage: { unit: UsageUnit.IMAGES, quantity: 1 },
+		};
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			logger.error(err.message);
+			return {
+				success: false,
+				error: err.message ?? "Inpaint processing failed",
+			};
+		}
+		return { success: false, error: "Inpaint processing failed" };
+	}
+};
+
+export default inpaintProcessor;
@@ -0,0 +1,65 @@
+import { DataType } from "@gatewai/db";
+import type { AnyOutputUnion, IteratorResult } from "@gatewai/types";
+import { ENV_CONFIG } from "../../config.js";
+import { getAllInputValueListsWithHandle } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+/**
+ * Splits connected texts into lines and collects every imported image,
+ * each item becomes one output of the list.
+ */
+const iteratorProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const items: AnyOutputUnion[] = [];
+		for (const { values } of getAllInputValueListsWithHandle(data, node.id)) {
+			for (const value of values) {
+				if (value.type === DataType.Text) {
+					const lines = String(value.data ?? "")
+						.split("\n")
+						.map((line) => line.trim())
+						.filter((line) => line.length > 0);
+					for (const line of lines) {
+						items.push({
+							type: DataType.Text,
+							data: line,
+							outputHandleId: outputHandle.id,
+						});
+					}
+				} else if (value.type === DataType.Image) {
+					items.push({
+						...value,
+						outputHandleId: outputHandle.id,
+					} as AnyOutputUnion);
+				}
+			}
+		}
+
+		// Every item runs the downstream nodes, which may be paid AI calls
+		if (items.length > ENV_CONFIG.MAX_ITERATOR_ITEMS) {
+			return {
+				success: false,
+				error: `List has ${items.length} items, Iterator runs at most ${ENV_CONFIG.MAX_ITERATOR_ITEMS}`,
+			};
+		}
+
+		const newResult: IteratorResult = {
+			outputs: items.map((item) => ({ items: [item] })),
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			return { success: false, error: err.message };
+		}
+		return { success: false, error: "Iterator processing failed" };
+	}
+};
+
+export default iteratorProcessor;
@@ -1,8 +1,12 @@
 import assert from "node:assert";
-import { DataType } from "@gatewai/db";
-import type { FileData, LLMNodeConfig, LLMResult } from "@gatewai/types";
-import type { Part } from "@google/genai";
-import { genAI } from "../../genai.js";
+import { DataType, UsageUnit } from "@gatewai/db";
+import {
+	type FileData,
+	LLMNodeConfigSchema,
+	type LLMResult,
+} from "@gatewai/types";
+import { getModelProvider } from "../../model-providers/registry.js";
+import type { MediaData } from "../../model-providers/types.js";
 import {
 	getFileDataMimeType,
 	getInputValue,
@@ -10,7 +14,7 @@ import {
 } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
-const llmProcessor: NodeProcessor = async ({ node, data }) => {
+const llmProcessor: NodeProcessor = async ({ node, data, signal }) => {
 	try {
 		const systemPrompt = getInputValue(data, node.id, false, {
 			dataType: DataType.Text,
@@ -27,58 +31,34 @@ const llmProcessor: NodeProcessor = async ({ node, data }) => {
 			label: "Image",
 		})?.data as FileData | null;
 
-		// 1. Prepare User Content Parts
-		const parts: Part[] = [];
-
-		if (userPrompt) {
-			parts.push({ text: userPrompt });
-		}
-
+		const images: MediaData[] = [];
 		if (imageFileData) {
 			const mimeType = await getFileDataMimeType(imageFileData);
 			assert(mimeType);
 			const arrayBuffer = await loadMediaBuffer(imageFileData);
-			const buffer = Buffer.from(arrayBuffer);
-			const base64Data = buffer.toString("base64");
-
-			parts.push({
-				inlineData: {
-					mimeType,
-					data: base64Data,
-				},
-			});
+			images.push({ mimeType, data: Buffer.from(arrayBuffer) });
 		}
 
-		if (parts.length === 0) {
+		if (!userPrompt && images.length === 0) {
 			return { success: false, error: "No user prompt or image provided" };
 		}
 
-		// 3. Generate Content
-		const nodeConfig = node.config as LLMNodeConfig;
+		const nodeConfig = LLMNodeConfigSchema.parse(node.config);
+		const provider = getModelProvider(nodeConfig.provider);
+		if (!provider.generateText) {
+			throw new Error(`${provider.label} does not support text generation`);
+		}
 
-		const response = await genAI.models.generateContent({
+		const { text: generatedText, totalTokens } = await provider.generateText({
 			model: nodeConfig.model,
-			contents: [
-				{
-					role: "user",
-					parts: parts,
-				},
-			],
-			config: {
-				// Map system prompt to systemInstruction
-				systemInstruction: systemPrompt
-					? { parts: [{ text: systemPrompt }] }
-					: undefined,
-			},
+			prompt: userPrompt ?? undefined,
+			systemPrompt: systemPrompt ?? undefined,
+			images,
+			temperature: nodeConfig.temperature,
+			seed: nodeConfig.seed,
+			signal,
 		});
 
-		// 4. Extract Result
-		const generatedText = response.text;
-
-		if (!generatedText) {
-			throw new Error("Unable to generate text");
-		}
-
 		const outputHandle = data.handles.find(
 			(h) => h.nodeId === node.id && h.type === "Output",
 		);
@@ -103,7 +83,11 @@ const llmProcessor: NodeProcessor = async ({ node, data }) => {
 		newResult.outputs.push(newGeneration);
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: { unit: UsageUnit.TOKENS, quantity: totalTokens ?? 0 },
+		};
 	} catch (err: unknown) {
 		if (err instanceof Error) {
 			return { success: false, error: err.message };
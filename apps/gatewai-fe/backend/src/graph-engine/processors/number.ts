@@ -0,0 +1,39 @@
+import { DataType } from "@gatewai/db";
+import { NumberNodeConfigSchema, type NumberResult } from "@gatewai/types";
+import type { NodeProcessor } from "./types.js";
+
+const numberProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const nodeConfig = NumberNodeConfigSchema.parse(node.config);
+
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const newResult: NumberResult = {
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Number,
+							data: nodeConfig.value,
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			return { success: false, error: err.message };
+		}
+		return { success: false, error: "Number processing failed" };
+	}
+};
+
+export default numberProcessor;
@@ -0,0 +1,153 @@
+import { DataType, UsageUnit } from "@gatewai/db";
+import {
+	type FileData,
+	RemoveBackgroundNodeConfigSchema,
+	type RemoveBackgroundResult,
+} from "@gatewai/types";
+import sharp from "sharp";
+import { ENV_CONFIG } from "../../config.js";
+import { logger } from "../../logger.js";
+import { segmentSubject } from "../../media/segmenters.js";
+import { logImage } from "../../media-logger.js";
+import { uploadToTemporaryFolder } from "../../utils/storage.js";
+import { getInputValue, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+const removeBackgroundProcessor: NodeProcessor = async ({
+	node,
+	data,
+	signal,
+}) => {
+	try {
+		const imageInput = getInputValue(data, node.id, true, {
+			dataType: DataType.Image,
+			label: "Image",
+		})?.data as FileData | null;
+
+		if (!imageInput) {
+			return { success: false, error: "No image input provided" };
+		}
+
+		const outputHandles = data.handles.filter(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		const imageOutputHandle = outputHandles.find((h) =>
+			h.label.includes("Image"),
+		);
+		const maskOutputHandle = outputHandles.find((h) =>
+			h.label.includes("Mask"),
+		);
+		if (!imageOutputHandle || !maskOutputHandle) {
+			return { success: false, error: "Missing required output handles" };
+		}
+
+		const config = RemoveBackgroundNodeConfigSchema.parse(node.config);
+		const image = Buffer.from(await loadMediaBuffer(imageInput));
+		const { width, height } = await sharp(image).metadata();
+
+		const matte = await segmentSubject({
+			image,
+			width,
+			height,
+			config,
+			signal,
+		});
+		if (config.threshold > 0) {
+			const cutoff = config.threshold * 255;
+			for (let i = 0; i < matte.length; i++) {
+				if (matte[i] < cutoff) matte[i] = 0;
+			}
+		}
+
+		// The mask is white with the matte as alpha, like the ones Paint draws,
+		// so it works with mask-aware nodes and Compositor blend modes alike
+		const rawMatte = { raw: { width, height, channels: 1 as const } };
+		const imageBuffer = await sharp(image)
+			.removeAlpha()
+			.joinChannel(matte, rawMatte)
+			.png()
+			.toBuffer();
+		const maskBuffer = await sharp({
+			create: { width, height, channels: 3, background: "#ffffff" },
+		})
+			.joinChannel(matte, rawMatte)
+			.png()
+			.toBuffer();
+
+		if (ENV_CONFIG.DEBUG_LOG_MEDIA) {
+			logImage(imageBuffer, ".png", node.id);
+			logImage(maskBuffer, ".png", `${node.id}_mask`);
+		}
+
+		const now = Date.now();
+		const { signedUrl: imageSignedUrl, key: tempImageKey } =
+			await uploadToTemporaryFolder(
+				imageBuffer,
+				"image/png",
+				`${node.id}/${now}.png`,
+			);
+		const { signedUrl: maskSignedUrl, key: tempMaskKey } =
+			await uploadToTemporaryFolder(
+				maskBuffer,
+				"image/png",
+				`${node.id}/${now}_mask.png`,
+			);
+
+		const newResult: RemoveBackgroundResult = {
+			selectedOutputIndex: 0,
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Image,
+							data: {
+								processData: {
+									dataUrl: imageSignedUrl,
+									tempKey: tempImageKey,
+									mimeType: "image/png",
+									width,
+									height,
+								},
+							},
+							outputHandleId: imageOutputHandle.id,
+						},
+						{
+							type: DataType.Image,
+							data: {
+								processData: {
+									dataUrl: maskSignedUrl,
+									tempKey: tempMaskKey,
+									mimeType: "image/png",
+									width,
+									height,
+								},
+							},
+							outputHandleId: maskOutputHandle.id,
+						},
+					],
+				},
+			],
+		};
+
+		return {
+			success: true,
+			newResult,
+			// Only the model segmenter calls a paid model
+			usage:
+				config.segmenter === "model"
+					? { unit: UsageUnit.IMAGES, quantity: 1 }
+					: undefined,
+		};
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			logger.error(err.message);
+			return {
+				success: false,
+				error: err.message ?? "Background removal failed",
+			};
+		}
+		return { success: false, error: "Background removal failed" };
+	}
+};
+
+export default removeBackgroundProcessor;
@@ -0,0 +1,53 @@
+import type { RouterResult } from "@gatewai/types";
+import { getInputValue } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+/**
+ * Forwards the value to the "True" or "False" output.
+ * Only the taken branch gets an item, the scheduler skips the other one.
+ */
+const routerProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const condition = getInputValue(data, node.id, true, {
+			label: "Condition",
+		});
+		const inputValue = getInputValue(data, node.id, true, { label: "Value" });
+		if (!condition || !inputValue) {
+			return { success: false, error: "Router inputs are missing." };
+		}
+
+		const branchLabel = condition.data === true ? "True" : "False";
+		const outputHandle = data.handles.find(
+			(h) =>
+				h.nodeId === node.id && h.type === "Output" && h.label === branchLabel,
+		);
+		if (!outputHandle)
+			return {
+				success: false,
+				error: `Output handle "${branchLabel}" is missing.`,
+			};
+
+		const newResult: RouterResult = {
+			outputs: [
+				{
+					items: [
+						{
+							...inputValue,
+							outputHandleId: outputHandle.id,
+						} as RouterResult["outputs"][number]["items"][number],
+					],
+				},
+			],
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			return { success: false, error: err.message };
+		}
+		return { success: false, error: "Router processing failed" };
+	}
+};
+
+export default routerProcessor;
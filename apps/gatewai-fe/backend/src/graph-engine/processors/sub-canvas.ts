@@ -0,0 +1,174 @@
+import { NodeType, type Prisma, TaskStatus } from "@gatewai/db";
+import type {
+	SubCanvasNodeConfig,
+	SubCanvasResult,
+	TextNodeConfig,
+} from "@gatewai/types";
+import { duplicateCanvas } from "../../data-ops/duplicate-canvas.js";
+import { isSubCanvasCycle } from "../../data-ops/sub-canvas.js";
+import { assertIsError } from "../../utils/misc.js";
+import { NodeWFProcessor } from "../canvas-workflow-processor.js";
+import { getAllInputValuesWithHandle } from "../resolvers.js";
+import type { NodeProcessor, NodeProcessorCtx } from "./types.js";
+
+type ExportOutputItem = SubCanvasResult["outputs"][number]["items"][number];
+
+/**
+ * Runs a copy of the published canvas with the inputs of the node,
+ * the batch resumes the SubCanvas task when it finishes.
+ */
+async function startSubCanvasRun(
+	{ node, data, prisma }: NodeProcessorCtx,
+	parentTaskId: string,
+) {
+	const config = node.config as unknown as SubCanvasNodeConfig;
+
+	const published = await prisma.canvas.findUnique({
+		where: { id: config.canvasId },
+		select: { isPublished: true },
+	});
+	if (!published?.isPublished) {
+		throw new Error("Sub-canvas is no longer published");
+	}
+
+	// API runs execute a copy of this canvas, cycles point to the original
+	const parentCanvasId = data.canvas.originalCanvasId ?? data.canvas.id;
+	if (await isSubCanvasCycle(config.canvasId, parentCanvasId)) {
+		throw new Error("Sub-canvas can't contain the canvas it's used in");
+	}
+
+	// Same as API runs, a copy runs so the published canvas is never modified
+	const runCanvas = await duplicateCanvas(
+		config.canvasId,
+		true,
+		false,
+		data.canvas.userId ?? undefined,
+	);
+	const runNodes = await prisma.node.findMany({
+		where: { canvasId: runCanvas.id },
+		include: { handles: true },
+	});
+	const findRunNode = (originalNodeId: string | undefined) =>
+		runNodes.find((n) => n.originalNodeId === originalNodeId);
+
+	// 1. Pass input values to the Text/File nodes behind the input handles
+	for (const { handle, value } of getAllInputValuesWithHandle(data, node.id)) {
+		if (!handle || !value) continue;
+		const runNode = findRunNode(config.inputNodeIds[handle.order]);
+		if (!runNode) continue;
+
+		if (runNode.type === NodeType.Text) {
+			await prisma.node.update({
+				where: { id: runNode.id },
+				data: {
+					config: { content: String(value.data ?? "") } as TextNodeConfig,
+				},
+			});
+		} else if (runNode.type === NodeType.File) {
+			const outputHandle = runNode.handles.find((h) => h.type === "Output");
+			await prisma.node.update({
+				where: { id: runNode.id },
+				data: {
+					result: {
+						selectedOutputIndex: 0,
+						outputs: [
+							{ items: [{ ...value, outputHandleId: outputHandle?.id }] },
+						],
+					} as unknown as Prisma.InputJsonValue,
+				},
+			});
+		}
+	}
+
+	// 2. Run the whole copy, the worker is free meanwhile
+	const wfProcessor = new NodeWFProcessor(prisma);
+	return wfProcessor.processNodes(runCanvas.id, undefined, data.apiKey, {
+		parentTaskId,
+		parentIteration: data.iteration,
+	});
+}
+
+/**
+ * Starts a run of the sub-canvas and defers the task until it finishes,
+ * then maps the results of its Export nodes onto the output handles.
+ */
+const subCanvasProcessor: NodeProcessor = async (ctx) => {
+	const { node, data, prisma } = ctx;
+	try {
+		const config = node.config as unknown as SubCanvasNodeConfig;
+		if (!data.task) throw new Error("Sub-canvas runs need a task");
+
+		let batch = await prisma.taskBatch.findFirst({
+			where: {
+				parentTaskId: data.task.id,
+				parentIteration: data.iteration ?? null,
+			},
+			orderBy: { createdAt: "desc" },
+		});
+		if (!batch) {
+			batch = await startSubCanvasRun(ctx, data.task.id);
+		}
+		if (!batch.finishedAt) {
+			return { success: true, deferred: true };
+		}
+
+		const runNodes = await prisma.node.findMany({
+			where: { canvasId: batch.canvasId },
+			select: { id: true, originalNodeId: true },
+		});
+		const findRunNode = (originalNodeId: string | undefined) =>
+			runNodes.find((n) => n.originalNodeId === originalNodeId);
+
+		const failedTask = await prisma.task.findFirst({
+			where: {
+				batchId: batch.id,
+				status: { in: [TaskStatus.FAILED, TaskStatus.CANCELLED] },
+			},
+			include: { node: { select: { name: true } } },
+		});
+		if (failedTask?.status === TaskStatus.CANCELLED) {
+			throw new Error("Sub-canvas run was cancelled");
+		}
+		if (failedTask) {
+			const error = failedTask.error as { message?: string } | null;
+			throw new Error(
+				`${failedTask.node?.name ?? "Node"} failed in sub-canvas: ${error?.message ?? "Unknown error"}`,
+			);
+		}
+
+		// 3. Map results of Export nodes back onto the output handles
+		const outputHandles = data.handles
+			.filter((h) => h.nodeId === node.id && h.type === "Output")
+			.sort((a, b) => a.order - b.order);
+
+		const items: ExportOutputItem[] = [];
+		for (const handle of outputHandles) {
+			const exportNode = findRunNode(config.outputNodeIds[handle.order]);
+			const { result } = exportNode
+				? await prisma.node.findUniqueOrThrow({
+						where: { id: exportNode.id },
+						select: { result: true },
+					})
+				: { result: null };
+			const exportResult = result as unknown as SubCanvasResult | null;
+			const item =
+				exportResult?.outputs[exportResult.selectedOutputIndex ?? 0]?.items[0];
+			if (item) {
+				items.push({ ...item, outputHandleId: handle.id });
+			}
+		}
+
+		const newResult: SubCanvasResult = structuredClone(
+			node.result as unknown as SubCanvasResult,
+		) ?? { outputs: [], selectedOutputIndex: 0 };
+		newResult.outputs.push({ items });
+		newResult.selectedOutputIndex = newResult.outputs.length - 1;
+
+		return { success: true, newResult };
+	} catch (err) {
+		assertIsError(err);
+		return { success: false, error: err.message };
+	}
+};
+
+export default subCanvasProcessor;
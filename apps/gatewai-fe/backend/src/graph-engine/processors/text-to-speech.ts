@@ -1,38 +1,18 @@
-import { DataType, prisma } from "@gatewai/db";
+import { DataType, prisma, UsageUnit } from "@gatewai/db";
 import {
 	TextToSpeechNodeConfigSchema,
 	type TextToSpeechResult,
 } from "@gatewai/types";
-import type { SpeechConfig } from "@google/genai";
 import * as mm from "music-metadata";
-import wav from "wav";
 import { ENV_CONFIG } from "../../config.js";
-import { genAI } from "../../genai.js";
 import { logger } from "../../logger.js";
+import { getModelProvider } from "../../model-providers/registry.js";
 import { generateId } from "../../utils/misc.js";
-import { generateSignedUrl, uploadToGCS } from "../../utils/storage.js";
+import { generateSignedUrl, uploadToStorage } from "../../utils/storage.js";
 import { getInputValue } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
-async function encodeWavBuffer(pcmBuffer: Buffer): Promise<Buffer> {
-	return new Promise((resolve, reject) => {
-		const writer = new wav.Writer({
-			channels: 1,
-			sampleRate: 24000,
-			bitDepth: 16,
-		});
-
-		const chunks: Buffer[] = [];
-		writer.on("data", (chunk: Buffer<ArrayBufferLike>) => chunks.push(chunk));
-		writer.on("end", () => resolve(Buffer.concat(chunks)));
-		writer.on("error", reject);
-
-		writer.write(pcmBuffer);
-		writer.end();
-	});
-}
-
-const textToSpeechProcessor: NodeProcessor = async ({ node, data }) => {
+const textToSpeechProcessor: NodeProcessor = async ({ node, data, signal }) => {
 	try {
 		const userPrompt = getInputValue(data, node.id, true, {
 			dataType: DataType.Text,
@@ -41,51 +21,34 @@ const textToSpeechProcessor: NodeProcessor = async ({ node, data }) => {
 
 		const nodeConfig = TextToSpeechNodeConfigSchema.parse(node.config);
 
-		let speechConfig: SpeechConfig = {
-			languageCode: nodeConfig.languageCode,
-		};
-
-		if (
-			nodeConfig.speakerConfig?.length &&
-			nodeConfig.speakerConfig?.length > 1
-		) {
-			speechConfig.multiSpeakerVoiceConfig = {
-				speakerVoiceConfigs: nodeConfig.speakerConfig?.map((v) => ({
-					speaker: v.speaker,
-					voiceConfig: {
-						prebuiltVoiceConfig: { voiceName: v.voiceName },
-					},
-				})),
-			};
-		} else {
-			speechConfig = {
-				...speechConfig,
-				voiceConfig: {
-					prebuiltVoiceConfig: { voiceName: nodeConfig.voiceName },
-				},
-			};
+		const provider = getModelProvider(nodeConfig.provider);
+		if (!provider.generateSpeech) {
+			throw new Error(`${provider.label} does not support speech generation`);
 		}
-
-		const response = await genAI.models.generateContent({
-			model: nodeConfig.model, // Ensure compatible model
-			contents: [{ parts: [{ text: userPrompt }] }],
-			config: {
-				responseModalities: ["AUDIO"],
-				speechConfig,
-			},
-		});
-
-		const rawPcmData =
-			response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-		if (!rawPcmData) {
-			return { success: false, error: "No audio data returned from Gemini." };
+		const voiceNames = [
+			nodeConfig.voiceName,
+			...(nodeConfig.speakerConfig ?? []).map((s) => s.voiceName),
+		].filter((voiceName) => voiceName !== undefined);
+		const unknownVoice = voiceNames.find(
+			(voiceName) => !provider.voices?.includes(voiceName),
+		);
+		if (unknownVoice) {
+			throw new Error(
+				`Voice "${unknownVoice}" is not available for ${provider.label}`,
+			);
 		}
 
-		const pcmBuffer = Buffer.from(rawPcmData, "base64");
-
-		const wavBuffer = await encodeWavBuffer(pcmBuffer);
-
-		const metadata = await mm.parseBuffer(wavBuffer, "audio/wav");
+		const { data: wavBuffer, mimeType: contentType } =
+			await provider.generateSpeech({
+				model: nodeConfig.model,
+				text: userPrompt,
+				languageCode: nodeConfig.languageCode,
+				voiceName: nodeConfig.voiceName,
+				speakers: nodeConfig.speakerConfig,
+				signal,
+			});
+
+		const metadata = await mm.parseBuffer(wavBuffer, contentType);
 		const durationInSec = metadata.format.duration ?? 0;
 
 		const extension = "wav";
@@ -93,10 +56,9 @@ const textToSpeechProcessor: NodeProcessor = async ({ node, data }) => {
 		const randId = generateId();
 		const fileName = `${node.name}_${randId}.${extension}`;
 		const key = `assets/${fileName}`;
-		const contentType = "audio/wav";
 		const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
 
-		await uploadToGCS(wavBuffer, key, contentType, bucket);
+		await uploadToStorage(wavBuffer, key, contentType, bucket);
 
 		const expiresIn = 3600 * 24 * 6.9;
 		const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
@@ -141,10 +103,18 @@ const textToSpeechProcessor: NodeProcessor = async ({ node, data }) => {
 		});
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: { unit: UsageUnit.CHARACTERS, quantity: userPrompt.length },
+		};
 	} catch (err: unknown) {
 		logger.error(err instanceof Error ? err.message : "TTS Failed");
-		return { success: false, error: "TextToSpeech processing failed" };
+		return {
+			success: false,
+			error:
+				err instanceof Error ? err.message : "TextToSpeech processing failed",
+		};
 	}
 };
 
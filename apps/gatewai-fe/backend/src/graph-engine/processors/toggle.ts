@@ -0,0 +1,39 @@
+import { DataType } from "@gatewai/db";
+import { ToggleNodeConfigSchema, type ToggleResult } from "@gatewai/types";
+import type { NodeProcessor } from "./types.js";
+
+const toggleProcessor: NodeProcessor = async ({ node, data }) => {
+	try {
+		const nodeConfig = ToggleNodeConfigSchema.parse(node.config);
+
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const newResult: ToggleResult = {
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Boolean,
+							data: nodeConfig.value,
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		if (err instanceof Error) {
+			return { success: false, error: err.message };
+		}
+		return { success: false, error: "Toggle processing failed" };
+	}
+};
+
+export default toggleProcessor;
@@ -1,16 +1,37 @@
-import type { PrismaClient } from "@gatewai/db";
+import type { PrismaClient, UsageUnit } from "@gatewai/db";
 import type { NodeResult } from "@gatewai/types";
 import type {
 	CanvasCtxData,
 	CanvasCtxDataWithTasks,
 } from "../../data-ops/canvas.js";
+import type { NodeTaskJobData } from "../queue/workflow.queue.js";
 
 export type NodeProcessorCtx = {
 	node: CanvasCtxData["nodes"][number];
 	data: CanvasCtxDataWithTasks;
 	prisma: PrismaClient;
+	// Aborted when the task's batch is cancelled
+	signal: AbortSignal;
+	// Stores and publishes the share of the work done, from 0 to 1
+	reportProgress: (progress: number) => Promise<void>;
+	// Job the task runs in
+	jobData: NodeTaskJobData;
 };
 
-export type NodeProcessor = (
-	ctx: NodeProcessorCtx,
-) => Promise<{ success: boolean; error?: string; newResult?: NodeResult }>;
+// Billable units an AI task consumed, priced with its node template's tokenPrice
+export type NodeUsage = {
+	unit: UsageUnit;
+	quantity: number;
+};
+
+export type NodeProcessor = (ctx: NodeProcessorCtx) => Promise<{
+	success: boolean;
+	error?: string;
+	newResult?: NodeResult;
+	usage?: NodeUsage;
+	/**
+	 * The task waits for batches it started with `parentTaskId` set,
+	 * and runs again once they finish instead of holding a worker meanwhile.
+	 */
+	deferred?: boolean;
+}>;
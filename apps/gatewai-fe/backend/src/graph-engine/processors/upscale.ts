@@ -0,0 +1,93 @@
+import { DataType } from "@gatewai/db";
+import {
+	type FileData,
+	UpscaleNodeConfigSchema,
+	type UpscaleResult,
+} from "@gatewai/types";
+import { ENV_CONFIG } from "../../config.js";
+import { upscaleImage } from "../../media/upscalers.js";
+import { logImage } from "../../media-logger.js";
+import { uploadToTemporaryFolder } from "../../utils/storage.js";
+import { getInputValue, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+const upscaleProcessor: NodeProcessor = async ({
+	node,
+	data,
+	signal,
+	reportProgress,
+}) => {
+	try {
+		const imageInput = getInputValue(data, node.id, true, {
+			dataType: DataType.Image,
+			label: "Image",
+		})?.data as FileData | null;
+
+		if (!imageInput) {
+			return { success: false, error: "No image input provided" };
+		}
+
+		const config = UpscaleNodeConfigSchema.parse(node.config);
+		const buffer = Buffer.from(await loadMediaBuffer(imageInput));
+		const {
+			buffer: uploadBuffer,
+			width,
+			height,
+		} = await upscaleImage(
+			buffer,
+			config.algorithm,
+			Number.parseInt(config.factor, 10),
+			signal,
+			reportProgress,
+		);
+
+		if (ENV_CONFIG.DEBUG_LOG_MEDIA) {
+			logImage(uploadBuffer, ".png", node.id);
+		}
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const mimeType = "image/png";
+		const key = `${node.id}/${Date.now()}.png`;
+		const { signedUrl, key: tempKey } = await uploadToTemporaryFolder(
+			uploadBuffer,
+			mimeType,
+			key,
+		);
+
+		const newResult: UpscaleResult = {
+			selectedOutputIndex: 0,
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Image,
+							data: {
+								processData: {
+									dataUrl: signedUrl,
+									tempKey,
+									mimeType,
+									width,
+									height,
+								},
+							},
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+		};
+
+		return { success: true, newResult };
+	} catch (err: unknown) {
+		return {
+			success: false,
+			error: err instanceof Error ? err.message : "Upscale processing failed",
+		};
+	}
+};
+
+export default upscaleProcessor;
@@ -0,0 +1,155 @@
+import { DataType } from "@gatewai/db";
+import type {
+	FileData,
+	VideoCompositorNodeConfig,
+	VideoCompositorResult,
+} from "@gatewai/types";
+import {
+	renderVideoComposition,
+	type VideoCompositionLayer,
+} from "../../media/video-compositor.js";
+import { registerFontFamilies } from "../../utils/fonts.js";
+import { assertIsError } from "../../utils/misc.js";
+import { uploadToTemporaryFolder } from "../../utils/storage.js";
+import { getAllInputValuesWithHandle, loadMediaBuffer } from "../resolvers.js";
+import type { NodeProcessor } from "./types.js";
+
+// Same defaults as the video compositor node preview
+const DEFAULT_WIDTH = 1920;
+const DEFAULT_HEIGHT = 1080;
+const DEFAULT_FPS = 24;
+
+const videoCompositorProcessor: NodeProcessor = async ({
+	node,
+	data,
+	signal,
+}) => {
+	try {
+		const config = node.config as unknown as VideoCompositorNodeConfig;
+		const width = config.width ?? DEFAULT_WIDTH;
+		const height = config.height ?? DEFAULT_HEIGHT;
+		const fps = config.FPS ?? DEFAULT_FPS;
+		const layerUpdates = config.layerUpdates ?? {};
+
+		let maxZ = Math.max(
+			0,
+			...Object.values(layerUpdates).map((l) => l.zIndex ?? 0),
+		);
+
+		// Every connected input is a layer, saved layer updates override its defaults
+		const layers: VideoCompositionLayer[] = [];
+		for (const { handle, value } of getAllInputValuesWithHandle(
+			data,
+			node.id,
+		)) {
+			if (!handle || !value) continue;
+
+			const saved = layerUpdates[handle.id];
+			const zIndex = saved?.zIndex ?? ++maxZ;
+			const base = {
+				scale: 1,
+				startFrame: 0,
+				volume: 1,
+				...saved,
+				lockAspect: saved?.lockAspect ?? true,
+				zIndex,
+				x: saved?.x ?? 0,
+				y: saved?.y ?? 0,
+				rotation: saved?.rotation ?? 0,
+				opacity: saved?.opacity ?? 1,
+				id: saved?.id ?? handle.id,
+				inputHandleId: handle.id,
+			};
+
+			if (value.type === DataType.Text) {
+				layers.push({
+					...base,
+					fontSize: saved?.fontSize ?? 60,
+					fontFamily: saved?.fontFamily ?? "Inter",
+					fill: saved?.fill ?? "#ffffff",
+					source: { type: "Text", text: String(value.data ?? "") },
+				});
+			} else if (
+				value.type === DataType.Image ||
+				value.type === DataType.Video ||
+				value.type === DataType.Audio
+			) {
+				const fileData = value.data as FileData;
+				const buffer = Buffer.from(await loadMediaBuffer(fileData));
+				layers.push({
+					...base,
+					width:
+						saved?.width ??
+						fileData.processData?.width ??
+						fileData.entity?.width ??
+						undefined,
+					height:
+						saved?.height ??
+						fileData.processData?.height ??
+						fileData.entity?.height ??
+						undefined,
+					source: { type: value.type, buffer },
+				});
+			}
+		}
+
+		await registerFontFamilies(
+			layers
+				.filter((l) => l.source.type === "Text")
+				.map((l) => l.fontFamily ?? "Inter"),
+		);
+
+		const { buffer, durationMs } = await renderVideoComposition({
+			width,
+			height,
+			fps,
+			layers,
+			signal,
+		});
+
+		const key = `${(data.task ?? node).id}/${Date.now()}.mp4`;
+		const { signedUrl, key: tempKey } = await uploadToTemporaryFolder(
+			buffer,
+			"video/mp4",
+			key,
+		);
+
+		const outputHandle = data.handles.find(
+			(h) => h.nodeId === node.id && h.type === "Output",
+		);
+		if (!outputHandle)
+			return { success: false, error: "Output handle is missing." };
+
+		const newResult: VideoCompositorResult = {
+			outputs: [
+				{
+					items: [
+						{
+							type: DataType.Video,
+							data: {
+								processData: {
+									dataUrl: signedUrl,
+									mimeType: "video/mp4",
+									tempKey,
+									width,
+									height,
+									duration: durationMs,
+									fps,
+								},
+							},
+							outputHandleId: outputHandle.id,
+						},
+					],
+				},
+			],
+			selectedOutputIndex: 0,
+		};
+
+		return { success: true, newResult };
+	} catch (err) {
+		assertIsError(err);
+		return { success: false, error: err.message };
+	}
+};
+
+export default videoCompositorProcessor;
@@ -2,7 +2,7 @@ import { existsSync, mkdirSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { DataType, prisma } from "@gatewai/db";
+import { DataType, prisma, UsageUnit } from "@gatewai/db";
 import {
 	type OutputItem,
 	VideoGenExtendNodeConfigSchema,
@@ -12,14 +12,18 @@ import { ENV_CONFIG } from "../../config.js";
 import { genAI } from "../../genai.js";
 import { logger } from "../../logger.js";
 import { generateId } from "../../utils/misc.js";
-import { generateSignedUrl, uploadToGCS } from "../../utils/storage.js";
+import { generateSignedUrl, uploadToStorage } from "../../utils/storage.js";
 import { getInputValue } from "../resolvers.js";
 import type { NodeProcessor } from "./types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const videoGenExtendProcessor: NodeProcessor = async ({ node, data }) => {
+const videoGenExtendProcessor: NodeProcessor = async ({
+	node,
+	data,
+	signal,
+}) => {
 	try {
 		const userPrompt = getInputValue(data, node.id, true, {
 			dataType: DataType.Text,
@@ -68,12 +72,14 @@ const videoGenExtendProcessor: NodeProcessor = async ({ node, data }) => {
 			},
 			config: {
 				negativePrompt,
+				abortSignal: signal,
 			},
 		});
 
 		while (!operation.done) {
 			logger.info("Waiting for video extension to complete...");
 			await new Promise((resolve) => setTimeout(resolve, 10000));
+			signal.throwIfAborted();
 			operation = await genAI.operations.getVideosOperation({
 				operation: operation,
 			});
@@ -108,7 +114,7 @@ const videoGenExtendProcessor: NodeProcessor = async ({ node, data }) => {
 		const contentType = "video/mp4";
 		const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
 
-		await uploadToGCS(fileBuffer, key, contentType, bucket);
+		await uploadToStorage(fileBuffer, key, contentType, bucket);
 
 		const expiresIn = 3600 * 24 * 7;
 		const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
@@ -154,7 +160,14 @@ const videoGenExtendProcessor: NodeProcessor = async ({ node, data }) => {
 		newResult.outputs.push(newGeneration);
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: {
+				unit: UsageUnit.VIDEO_SECONDS,
+				quantity: Number(config.durationSeconds),
+			},
+		};
 	} catch (err: unknown) {
 		console.error(err);
 		if (err instanceof Error) {
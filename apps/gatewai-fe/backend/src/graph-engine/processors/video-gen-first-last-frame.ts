@@ -3,7 +3,7 @@ import { existsSync, mkdirSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { DataType, prisma } from "@gatewai/db";
+import { DataType, prisma, UsageUnit } from "@gatewai/db";
 import {
 	type FileData,
 	type OutputItem,
@@ -14,7 +14,7 @@ import { ENV_CONFIG } from "../../config.js";
 import { genAI } from "../../genai.js";
 import { logger } from "../../logger.js";
 import { generateId } from "../../utils/misc.js";
-import { generateSignedUrl, uploadToGCS } from "../../utils/storage.js";
+import { generateSignedUrl, uploadToStorage } from "../../utils/storage.js";
 import {
 	getFileDataMimeType,
 	getInputValue,
@@ -38,6 +38,7 @@ async function ResolveImageData(fileData: FileData) {
 const videoGenFirstLastFrameProcessor: NodeProcessor = async ({
 	node,
 	data,
+	signal,
 }) => {
 	try {
 		const userPrompt = getInputValue(data, node.id, true, {
@@ -92,11 +93,13 @@ const videoGenFirstLastFrameProcessor: NodeProcessor = async ({
 				resolution: config.resolution,
 				personGeneration: config.personGeneration,
 				durationSeconds: Number(config.durationSeconds),
+				abortSignal: signal,
 			},
 		});
 
 		while (!operation.done) {
 			await new Promise((resolve) => setTimeout(resolve, 10000));
+			signal.throwIfAborted();
 			operation = await genAI.operations.getVideosOperation({
 				operation: operation,
 			});
@@ -130,7 +133,7 @@ const videoGenFirstLastFrameProcessor: NodeProcessor = async ({
 		const contentType = "video/mp4";
 		const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET;
 
-		await uploadToGCS(fileBuffer, key, contentType, bucket);
+		await uploadToStorage(fileBuffer, key, contentType, bucket);
 
 		const expiresIn = 3600 * 24 * 7;
 		const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
@@ -175,7 +178,14 @@ const videoGenFirstLastFrameProcessor: NodeProcessor = async ({
 		newResult.outputs.push(newGeneration);
 		newResult.selectedOutputIndex = newResult.outputs.length - 1;
 
-		return { success: true, newResult };
+		return {
+			success: true,
+			newResult,
+			usage: {
+				unit: UsageUnit.VIDEO_SECONDS,
+				quantity: Number(config.durationSeconds),
+			},
+		};
 	} catch (err: unknown) {
 		console.error(err);
 		if (err instanceof Error) {
@@ -0,0 +1,26 @@
+import { Queue } from "bullmq";
+import { ENV_CONFIG } from "../../config.js";
+import { redisConnection } from "./connection.js";
+
+export const GC_QUEUE_NAME = "garbage-collection";
+
+const GC_SCHEDULER_ID = "garbage-collection";
+
+export const gcQueue = new Queue(GC_QUEUE_NAME, {
+	connection: redisConnection,
+	defaultJobOptions: {
+		removeOnComplete: 30,
+		removeOnFail: 30,
+	},
+});
+
+/**
+ * Creates or updates the job scheduler of the garbage collection sweep from `GC_CRON`.
+ */
+export async function syncGarbageCollectionSchedule() {
+	await gcQueue.upsertJobScheduler(
+		GC_SCHEDULER_ID,
+		{ pattern: ENV_CONFIG.GC_CRON },
+		{ name: "collect-garbage" },
+	);
+}
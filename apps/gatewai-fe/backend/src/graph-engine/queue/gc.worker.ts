@@ -0,0 +1,31 @@
+import { Worker } from "bullmq";
+import { collectGarbage } from "../../data-ops/garbage-collection.js";
+import { logger } from "../../logger.js";
+import { redisConnection } from "./connection.js";
+import { GC_QUEUE_NAME, syncGarbageCollectionSchedule } from "./gc.queue.js";
+
+async function processGarbageCollectionJob() {
+	const report = await collectGarbage();
+	logger.info(
+		`Garbage collection deleted ${report.canvasesDeleted} API canvases, ${report.assetsDeleted} assets and ${report.tempObjectsDeleted} temp objects, reclaiming ${(report.bytesReclaimed / 1024 / 1024).toFixed(1)} MB`,
+	);
+	return report;
+}
+
+export const startGarbageCollectionWorker = async () => {
+	logger.info("Starting Garbage Collection Worker...");
+
+	await syncGarbageCollectionSchedule();
+
+	// A single sweep at a time, sweeps delete the same rows
+	const worker = new Worker(GC_QUEUE_NAME, processGarbageCollectionJob, {
+		connection: redisConnection,
+		concurrency: 1,
+	});
+
+	worker.on("failed", (_job, err) => {
+		logger.error(`Garbage collection failed: ${err.message}`);
+	});
+
+	return worker;
+};
@@ -0,0 +1,44 @@
+import type { CanvasSchedule } from "@gatewai/db";
+import { Queue } from "bullmq";
+import { redisConnection } from "./connection.js";
+
+export const SCHEDULE_QUEUE_NAME = "canvas-schedule";
+
+export const scheduleQueue = new Queue(SCHEDULE_QUEUE_NAME, {
+	connection: redisConnection,
+	defaultJobOptions: {
+		removeOnComplete: true,
+		removeOnFail: 100,
+	},
+});
+
+export interface ScheduleJobData {
+	scheduleId: string;
+}
+
+/**
+ * Creates or updates the BullMQ job scheduler of a canvas schedule, keyed by schedule ID.
+ * Paused schedules have no job scheduler.
+ * Throws if the cron expression is invalid.
+ */
+export async function syncCanvasSchedule(
+	schedule: Pick<CanvasSchedule, "id" | "cron" | "isPaused">,
+) {
+	if (schedule.isPaused) {
+		await scheduleQueue.removeJobScheduler(schedule.id);
+		return;
+	}
+
+	await scheduleQueue.upsertJobScheduler(
+		schedule.id,
+		{ pattern: schedule.cron },
+		{
+			name: "run-canvas",
+			data: { scheduleId: schedule.id } satisfies ScheduleJobData,
+		},
+	);
+}
+
+export async function removeCanvasSchedule(scheduleId: CanvasSchedule["id"]) {
+	await scheduleQueue.removeJobScheduler(scheduleId);
+}
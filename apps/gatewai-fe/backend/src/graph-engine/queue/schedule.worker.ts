@@ -0,0 +1,77 @@
+import { prisma } from "@gatewai/db";
+import { type Job, Worker } from "bullmq";
+import { runCanvas } from "../../data-ops/run-canvas.js";
+import { APIRunRequestSchema } from "../../data-ops/schemas.js";
+import { logger } from "../../logger.js";
+import { assertIsError } from "../../utils/misc.js";
+import { redisConnection } from "./connection.js";
+import {
+	SCHEDULE_QUEUE_NAME,
+	type ScheduleJobData,
+	syncCanvasSchedule,
+} from "./schedule.queue.js";
+
+async function processScheduleJob(job: Job<ScheduleJobData>) {
+	const { scheduleId } = job.data;
+
+	const schedule = await prisma.canvasSchedule.findUnique({
+		where: { id: scheduleId },
+		include: { canvas: { select: { userId: true } } },
+	});
+
+	// Deleted or paused after the job was enqueued
+	if (!schedule || schedule.isPaused) {
+		logger.info(`Skipping run of inactive schedule ${scheduleId}`);
+		return;
+	}
+
+	const payload = APIRunRequestSchema.shape.payload.parse(
+		schedule.payload ?? undefined,
+	);
+
+	const batch = await runCanvas({
+		canvasId: schedule.canvasId,
+		payload,
+		duplicate: schedule.duplicate,
+		userId: schedule.canvas.userId,
+		scheduleId: schedule.id,
+	});
+
+	await prisma.canvasSchedule.update({
+		where: { id: schedule.id },
+		data: { lastRunAt: new Date() },
+	});
+
+	logger.info(`Schedule ${schedule.id} started batch ${batch.id}`);
+}
+
+export const startScheduleWorker = async () => {
+	logger.info("Starting Schedule Worker...");
+
+	// Job schedulers live in Redis, re-sync them in case Redis lost its data
+	const schedules = await prisma.canvasSchedule.findMany({
+		select: { id: true, cron: true, isPaused: true },
+	});
+	for (const schedule of schedules) {
+		try {
+			await syncCanvasSchedule(schedule);
+		} catch (err) {
+			assertIsError(err);
+			logger.error(`Failed to sync schedule ${schedule.id}: ${err.message}`);
+		}
+	}
+
+	const worker = new Worker<ScheduleJobData>(
+		SCHEDULE_QUEUE_NAME,
+		processScheduleJob,
+		{ connection: redisConnection },
+	);
+
+	worker.on("failed", (job, err) => {
+		logger.error(
+			`Scheduled run of ${job?.data.scheduleId} failed: ${err.message}`,
+		);
+	});
+
+	return worker;
+};
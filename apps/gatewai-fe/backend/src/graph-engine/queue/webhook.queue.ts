@@ -0,0 +1,35 @@
+import type { TaskBatch } from "@gatewai/db";
+import { Queue } from "bullmq";
+import { redisConnection } from "./connection.js";
+
+export const WEBHOOK_QUEUE_NAME = "batch-webhook";
+
+export const webhookQueue = new Queue(WEBHOOK_QUEUE_NAME, {
+	connection: redisConnection,
+	defaultJobOptions: {
+		// 10s, 20s, 40s, 80s, 160s after the first attempt
+		attempts: 6,
+		backoff: {
+			type: "exponential",
+			delay: 10_000,
+		},
+		removeOnComplete: true,
+		removeOnFail: 100,
+	},
+});
+
+export interface WebhookJobData {
+	batchId: string;
+}
+
+/**
+ * Queues delivery of a finished batch's result to its webhook URL.
+ * Keyed by batch ID, so finishing the same batch twice delivers once.
+ */
+export async function enqueueBatchWebhook(batchId: TaskBatch["id"]) {
+	await webhookQueue.add(
+		"deliver-webhook",
+		{ batchId } satisfies WebhookJobData,
+		{ jobId: `webhook-${batchId}` },
+	);
+}
@@ -0,0 +1,120 @@
+import { createHmac } from "node:crypto";
+import { prisma } from "@gatewai/db";
+import { type Job, Worker } from "bullmq";
+import { resolveBatchResult } from "../../data-ops/resolve-batch-result.js";
+import type { APIRunResponse } from "../../data-ops/schemas.js";
+import { assertPublicWebhookUrl } from "../../lib/webhook-url.js";
+import { logger } from "../../logger.js";
+import { assertIsError } from "../../utils/misc.js";
+import { redisConnection } from "./connection.js";
+import { WEBHOOK_QUEUE_NAME, type WebhookJobData } from "./webhook.queue.js";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` in hex.
+ * Receivers recompute it with their secret and compare it to `X-Gatewai-Signature`,
+ * the timestamp lets them reject replayed requests.
+ */
+function signWebhookPayload(secret: string, timestamp: string, body: string) {
+	return createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex");
+}
+
+/**
+ * Same body as the status endpoint returns for a finished batch.
+ */
+async function getWebhookPayload(batchId: string): Promise<APIRunResponse> {
+	try {
+		const result = await resolveBatchResult(batchId);
+		return { batchHandleId: batchId, success: true, result };
+	} catch (error) {
+		assertIsError(error);
+		return { batchHandleId: batchId, success: false, error: error.message };
+	}
+}
+
+async function processWebhookJob(job: Job<WebhookJobData>) {
+	const { batchId } = job.data;
+
+	const batch = await prisma.taskBatch.findUnique({
+		where: { id: batchId },
+		select: { webhookUrl: true, webhookSecret: true },
+	});
+	if (!batch?.webhookUrl) return;
+
+	const eventId = job.id ?? batchId;
+	const body = JSON.stringify(await getWebhookPayload(batchId));
+	const timestamp = Math.floor(Date.now() / 1000).toString();
+
+	const headers: Record<string, string> = {
+		"Content-Type": "application/json",
+		"User-Agent": "Gatewai-Webhook/1.0",
+		"X-Gatewai-Event-Id": eventId,
+		"X-Gatewai-Timestamp": timestamp,
+	};
+	if (batch.webhookSecret) {
+		headers["X-Gatewai-Signature"] =
+			`sha256=${signWebhookPayload(batch.webhookSecret, timestamp, body)}`;
+	}
+
+	const startedAt = Date.now();
+	let statusCode: number | undefined;
+	let error: string | undefined;
+	try {
+		// Checked again on delivery, the host may resolve differently by now
+		await assertPublicWebhookUrl(batch.webhookUrl);
+		const response = await fetch(batch.webhookUrl, {
+			method: "POST",
+			headers,
+			body,
+			// Redirects could lead to a private address
+			redirect: "manual",
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+		});
+		statusCode = response.status;
+		if (!response.ok) {
+			error = `Webhook responded with status ${response.status}`;
+		}
+	} catch (err) {
+		assertIsError(err);
+		error = err.message;
+	}
+
+	await prisma.webhookDelivery.create({
+		data: {
+			batchId,
+			url: batch.webhookUrl,
+			eventId,
+			attempt: job.attemptsMade + 1,
+			success: !error,
+			statusCode,
+			error,
+			durationMs: Date.now() - startedAt,
+		},
+	});
+
+	// Throwing makes BullMQ retry with backoff
+	if (error) {
+		throw new Error(error);
+	}
+}
+
+export const startWebhookWorker = () => {
+	logger.info("Starting Webhook Worker...");
+
+	const worker = new Worker<WebhookJobData>(
+		WEBHOOK_QUEUE_NAME,
+		processWebhookJob,
+		{ connection: redisConnection },
+	);
+
+	worker.on("failed", (job, err) => {
+		logger.warn(
+			`Webhook delivery of batch ${job?.data.batchId} failed (attempt ${job?.attemptsMade}): ${err.message}`,
+		);
+	});
+
+	return worker;
+};
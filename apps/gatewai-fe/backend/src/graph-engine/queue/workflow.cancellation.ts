@@ -0,0 +1,163 @@
+import { Prisma, prisma, TaskStatus } from "@gatewai/db";
+import { redisPublisher, redisSubscriber } from "../../lib/redis.js";
+import { logger } from "../../logger.js";
+import { assertIsError } from "../../utils/misc.js";
+import { enqueueBatchWebhook } from "./webhook.queue.js";
+import { publishBatchUpdate, publishTaskUpdate } from "./workflow.events.js";
+import { workflowQueue } from "./workflow.queue.js";
+import {
+	dispatchNextPendingBatch,
+	resumeDeferredTask,
+} from "./workflow.scheduler.js";
+
+const WORKFLOW_CANCEL_CHANNEL = "workflow:batch-cancel";
+
+// Abort controllers of in-flight tasks running in this process, keyed by batch ID
+const batchAbortControllers = new Map<string, Set<AbortController>>();
+
+/**
+ * Registers the abort controller of an in-flight task, so a cancellation of its batch aborts it.
+ * Returns a function that unregisters the controller.
+ */
+export function trackTaskAbortController(
+	batchId: string,
+	controller: AbortController,
+) {
+	let controllers = batchAbortControllers.get(batchId);
+	if (!controllers) {
+		controllers = new Set();
+		batchAbortControllers.set(batchId, controllers);
+	}
+	controllers.add(controller);
+
+	return () => {
+		controllers.delete(controller);
+		if (controllers.size === 0) {
+			batchAbortControllers.delete(batchId);
+		}
+	};
+}
+
+/**
+ * Listens for batch cancellations, which may be requested from any API instance.
+ */
+export async function subscribeToBatchCancellation() {
+	const subscriber = redisSubscriber.duplicate();
+	await subscriber.subscribe(WORKFLOW_CANCEL_CHANNEL);
+
+	subscriber.on("message", (channel, batchId) => {
+		if (channel !== WORKFLOW_CANCEL_CHANNEL) return;
+
+		const controllers = batchAbortControllers.get(batchId);
+		if (!controllers) return;
+
+		logger.info(
+			`Aborting ${controllers.size} in-flight task(s) of batch ${batchId}`,
+		);
+		for (const controller of controllers) {
+			controller.abort(new Error("Batch was cancelled"));
+		}
+	});
+
+	return subscriber;
+}
+
+/**
+ * Cancels every unfinished task of a batch.
+ * - QUEUED and EXECUTING tasks are marked CANCELLED
+ * - Waiting jobs are removed from the queue, in-flight processors are aborted
+ * - Batches started by cancelled SubCanvas tasks are cancelled too
+ * - Next pending batch of the canvas is dispatched right away
+ */
+export async function cancelBatch(batchId: string) {
+	const batch = await prisma.taskBatch.findUniqueOrThrow({
+		where: { id: batchId },
+		select: {
+			id: true,
+			canvasId: true,
+			startedAt: true,
+			finishedAt: true,
+			webhookUrl: true,
+			parentTaskId: true,
+		},
+	});
+
+	if (batch.finishedAt) {
+		return { cancelledTaskIds: [] };
+	}
+
+	const unfinishedTasks = await prisma.task.findMany({
+		where: {
+			batchId,
+			status: { in: [TaskStatus.QUEUED, TaskStatus.EXECUTING] },
+		},
+		select: { id: true, startedAt: true },
+	});
+
+	const finishedAt = new Date();
+	await prisma.$transaction([
+		...unfinishedTasks.map((task) =>
+			prisma.task.update({
+				where: { id: task.id },
+				data: {
+					status: TaskStatus.CANCELLED,
+					finishedAt,
+					durationMs: task.startedAt
+						? finishedAt.getTime() - task.startedAt.getTime()
+						: 0,
+				},
+			}),
+		),
+		prisma.taskBatch.update({
+			where: { id: batchId },
+			data: { finishedAt, pendingJobData: Prisma.DbNull },
+		}),
+	]);
+
+	for (const task of unfinishedTasks) {
+		await publishTaskUpdate(task.id);
+	}
+	await publishBatchUpdate(batchId);
+	if (batch.webhookUrl) {
+		await enqueueBatchWebhook(batchId);
+	}
+
+	// Active jobs are locked by the worker and can't be removed,
+	// they're aborted through the cancel channel instead.
+	for (const task of unfinishedTasks) {
+		try {
+			await workflowQueue.remove(task.id);
+		} catch (e) {
+			assertIsError(e);
+			logger.warn(`Could not remove job ${task.id}: ${e.message}`);
+		}
+	}
+	await redisPublisher.publish(WORKFLOW_CANCEL_CHANNEL, batchId);
+
+	logger.info(
+		`Cancelled batch ${batchId} with ${unfinishedTasks.length} unfinished task(s)`,
+	);
+
+	const childBatches = await prisma.taskBatch.findMany({
+		where: {
+			parentTaskId: { in: unfinishedTasks.map((t) => t.id) },
+			finishedAt: null,
+		},
+		select: { id: true },
+	});
+	for (const childBatch of childBatches) {
+		await cancelBatch(childBatch.id);
+	}
+
+	// The SubCanvas task waiting for this batch fails on its cancelled tasks
+	if (batch.parentTaskId) {
+		await resumeDeferredTask(batch.parentTaskId);
+	}
+
+	// A batch that never started doesn't block the canvas queue
+	if (batch.startedAt) {
+		await dispatchNextPendingBatch(batch.canvasId);
+	}
+
+	return { cancelledTaskIds: unfinishedTasks.map((t) => t.id) };
+}
@@ -0,0 +1,116 @@
+import { prisma, TaskStatus } from "@gatewai/db";
+import type {
+	GatewaiBatchUpdatedEvent,
+	GatewaiTaskEvent,
+	GatewaiTaskUpdatedEvent,
+	NodeResult,
+} from "@gatewai/types";
+import { redisPublisher } from "../../lib/redis.js";
+import { logger } from "../../logger.js";
+import { assertIsError } from "../../utils/misc.js";
+
+export function getCanvasTaskChannel(canvasId: string) {
+	return `workflow:canvas:${canvasId}:tasks`;
+}
+
+export function getBatchEventChannel(batchId: string) {
+	return `workflow:batch:${batchId}:events`;
+}
+
+async function publishTaskEvent(event: GatewaiTaskEvent) {
+	const message = JSON.stringify(event);
+	await Promise.all([
+		redisPublisher.publish(getCanvasTaskChannel(event.canvasId), message),
+		redisPublisher.publish(getBatchEventChannel(event.batchId), message),
+	]);
+}
+
+/**
+ * Publishes the current state of a task to canvas and batch subscribers.
+ * Failing to publish never fails the task, so errors are only logged.
+ */
+export async function publishTaskUpdate(taskId: string) {
+	try {
+		const task = await prisma.task.findUniqueOrThrow({
+			where: { id: taskId },
+			select: {
+				id: true,
+				nodeId: true,
+				status: true,
+				startedAt: true,
+				finishedAt: true,
+				durationMs: true,
+				progress: true,
+				error: true,
+				batch: { select: { id: true, canvasId: true } },
+				node: {
+					select: {
+						result: true,
+						template: { select: { isTerminalNode: true } },
+					},
+				},
+			},
+		});
+
+		const event: GatewaiTaskUpdatedEvent = {
+			type: "task_updated",
+			canvasId: task.batch.canvasId,
+			batchId: task.batch.id,
+			task: {
+				id: task.id,
+				nodeId: task.nodeId,
+				status: task.status,
+				startedAt: task.startedAt?.toISOString() ?? null,
+				finishedAt: task.finishedAt?.toISOString() ?? null,
+				durationMs: task.durationMs,
+				progress: task.progress,
+				error: task.error as GatewaiTaskUpdatedEvent["task"]["error"],
+			},
+		};
+
+		if (
+			task.status === TaskStatus.COMPLETED &&
+			task.node?.template.isTerminalNode &&
+			task.node.result
+		) {
+			event.nodeResult = task.node.result as unknown as NodeResult;
+		}
+
+		await publishTaskEvent(event);
+	} catch (e) {
+		assertIsError(e);
+		logger.warn(`Could not publish update of task ${taskId}: ${e.message}`);
+	}
+}
+
+/**
+ * Builds the current start/finish state of a batch as an event.
+ */
+export async function getBatchUpdatedEvent(
+	batchId: string,
+): Promise<GatewaiBatchUpdatedEvent> {
+	const batch = await prisma.taskBatch.findUniqueOrThrow({
+		where: { id: batchId },
+		select: { id: true, canvasId: true, startedAt: true, finishedAt: true },
+	});
+
+	return {
+		type: "batch_updated",
+		canvasId: batch.canvasId,
+		batchId: batch.id,
+		startedAt: batch.startedAt?.toISOString() ?? null,
+		finishedAt: batch.finishedAt?.toISOString() ?? null,
+	};
+}
+
+/**
+ * Publishes start/finish of a batch to canvas and batch subscribers.
+ */
+export async function publishBatchUpdate(batchId: string) {
+	try {
+		await publishTaskEvent(await getBatchUpdatedEvent(batchId));
+	} catch (e) {
+		assertIsError(e);
+		logger.warn(`Could not publish update of batch ${batchId}: ${e.message}`);
+	}
+}
@@ -16,16 +16,25 @@ export const workflowQueue = new Queue(WORKFLOW_QUEUE_NAME, {
 	},
 });
 
-export interface NodeTaskJobData {
-	taskId: string;
+/**
+ * Everything the scheduler needs to dispatch tasks of a batch.
+ * Stored as `TaskBatch.pendingJobData` while the batch waits for its turn.
+ */
+export interface BatchDispatchPlan {
 	canvasId: string;
 	batchId: string;
-	// The ordered list of subsequent task IDs to run after this one
-	remainingTaskIds: string[];
-	// Whether this specific node was explicitly selected by the user
-	isExplicitlySelected: boolean;
-	// Map of TaskID -> isExplicitlySelected for the remaining tasks
+	// Map of TaskID -> upstream TaskIDs (within the batch) it waits for
+	dependencies: Record<string, string[]>;
+	// Map of TaskID -> isExplicitlySelected
 	selectionMap: Record<string, boolean>;
-	// User API Key to use for this job
+	// User API Key to use for the jobs of this batch
 	apiKey?: string;
+	// Iterators and every node downstream of them, their outputs[] hold one output per list item
+	listNodeIds?: string[];
+}
+
+export interface NodeTaskJobData extends BatchDispatchPlan {
+	taskId: string;
+	// Whether this specific node was explicitly selected by the user
+	isExplicitlySelected: boolean;
 }
@@ -0,0 +1,277 @@
+import { NodeType, Prisma, prisma, TaskStatus } from "@gatewai/db";
+import type { NodeResult } from "@gatewai/types";
+import { logger } from "../../logger.js";
+import { assertIsError } from "../../utils/misc.js";
+import { publishBatchUpdate, publishTaskUpdate } from "./workflow.events.js";
+import {
+	type BatchDispatchPlan,
+	type NodeTaskJobData,
+	workflowQueue,
+} from "./workflow.queue.js";
+
+/**
+ * Returns the tasks that have no upstream dependency within the batch.
+ */
+export function getRootTaskIds(plan: BatchDispatchPlan): string[] {
+	return Object.entries(plan.dependencies)
+		.filter(([, upstream]) => upstream.length === 0)
+		.map(([taskId]) => taskId);
+}
+
+/**
+ * Returns the tasks that directly wait for the given task.
+ */
+export function getDownstreamTaskIds(
+	plan: BatchDispatchPlan,
+	taskId: string,
+): string[] {
+	return Object.entries(plan.dependencies)
+		.filter(([, upstream]) => upstream.includes(taskId))
+		.map(([downstreamId]) => downstreamId);
+}
+
+/**
+ * Enqueues the given tasks of a batch.
+ * Job ID is the task ID, so a task that is reported ready by
+ * two upstream tasks at the same time is only queued once.
+ */
+export async function dispatchTasks(
+	plan: BatchDispatchPlan,
+	taskIds: string[],
+) {
+	if (taskIds.length === 0) return;
+
+	await workflowQueue.addBulk(
+		taskIds.map((taskId) => ({
+			name: "process-node",
+			data: {
+				...plan,
+				taskId,
+				isExplicitlySelected: plan.selectionMap[taskId] ?? false,
+			} satisfies NodeTaskJobData,
+			opts: { jobId: taskId },
+		})),
+	);
+}
+
+/**
+ * Returns the tasks that won't receive a value because they're on a branch that wasn't taken.
+ * An edge is inactive when its source task was skipped, or its source is a Router
+ * that forwarded the value to another output.
+ * A task is skipped when all its inputs are inactive, or one of its required inputs is.
+ */
+async function getSkippedTaskIds(
+	plan: BatchDispatchPlan,
+	taskIds: string[],
+): Promise<string[]> {
+	if (taskIds.length === 0) return [];
+
+	const tasks = await prisma.task.findMany({
+		where: { id: { in: taskIds } },
+		select: { id: true, nodeId: true },
+	});
+
+	const edges = await prisma.edge.findMany({
+		where: {
+			target: {
+				in: tasks.map((t) => t.nodeId).filter((id): id is string => !!id),
+			},
+		},
+		select: {
+			source: true,
+			target: true,
+			sourceHandleId: true,
+			sourceNode: { select: { type: true } },
+			targetHandle: { select: { required: true } },
+		},
+	});
+
+	const sourceTasks = await prisma.task.findMany({
+		where: {
+			batchId: plan.batchId,
+			nodeId: { in: edges.map((e) => e.source) },
+		},
+		select: { nodeId: true, status: true, result: true },
+	});
+	const sourceTaskMap = new Map(sourceTasks.map((t) => [t.nodeId, t]));
+
+	const isInactive = (edge: (typeof edges)[number]) => {
+		const sourceTask = sourceTaskMap.get(edge.source);
+		if (sourceTask?.status === TaskStatus.SKIPPED) return true;
+		if (edge.sourceNode.type !== NodeType.Router) return false;
+
+		// A Router downstream of an Iterator has one output per item,
+		// the branch is active if any item was forwarded to it.
+		const result = sourceTask?.result as NodeResult | null | undefined;
+		return !result?.outputs.some((output) =>
+			output.items.some((i) => i.outputHandleId === edge.sourceHandleId),
+		);
+	};
+
+	return tasks
+		.filter((task) => {
+			const incoming = edges.filter((e) => e.target === task.nodeId);
+			const inactive = incoming.filter(isInactive);
+			if (inactive.length === 0) return false;
+			return (
+				inactive.length === incoming.length ||
+				inactive.some((e) => e.targetHandle.required)
+			);
+		})
+		.map((task) => task.id);
+}
+
+/**
+ * Marks the given tasks SKIPPED and continues with their downstream tasks,
+ * which are either skipped as well or dispatched if they still have an active input.
+ */
+async function skipTasks(plan: BatchDispatchPlan, taskIds: string[]) {
+	for (const taskId of taskIds) {
+		// Two upstream tasks can finish at the same time, only skip once.
+		const { count } = await prisma.task.updateMany({
+			where: { id: taskId, status: TaskStatus.QUEUED },
+			data: {
+				status: TaskStatus.SKIPPED,
+				finishedAt: new Date(),
+				durationMs: 0,
+			},
+		});
+		if (count === 0) continue;
+
+		logger.info(`Skipping task ${taskId} of batch ${plan.batchId}`);
+		await publishTaskUpdate(taskId);
+		await dispatchReadyDownstream(plan, taskId);
+	}
+}
+
+/**
+ * Dispatches every downstream task of `finishedTaskId` whose upstream tasks are all COMPLETED or SKIPPED.
+ * Tasks on a branch that wasn't taken are marked SKIPPED instead of being dispatched.
+ * Downstream tasks of a failed upstream are already marked FAILED by failure propagation,
+ * so they're never picked up here.
+ */
+export async function dispatchReadyDownstream(
+	plan: BatchDispatchPlan,
+	finishedTaskId: string,
+) {
+	const downstreamIds = getDownstreamTaskIds(plan, finishedTaskId);
+	if (downstreamIds.length === 0) return;
+
+	const relatedIds = new Set(downstreamIds);
+	for (const id of downstreamIds) {
+		for (const upstreamId of plan.dependencies[id] ?? []) {
+			relatedIds.add(upstreamId);
+		}
+	}
+
+	const tasks = await prisma.task.findMany({
+		where: { id: { in: Array.from(relatedIds) } },
+		select: { id: true, status: true },
+	});
+	const statusMap = new Map(tasks.map((t) => [t.id, t.status]));
+
+	const settledStatuses: (TaskStatus | null | undefined)[] = [
+		TaskStatus.COMPLETED,
+		TaskStatus.SKIPPED,
+	];
+	const settledIds = downstreamIds.filter(
+		(id) =>
+			statusMap.get(id) === TaskStatus.QUEUED &&
+			(plan.dependencies[id] ?? []).every((upstreamId) =>
+				settledStatuses.includes(statusMap.get(upstreamId)),
+			),
+	);
+
+	const skippedIds = await getSkippedTaskIds(plan, settledIds);
+	const readyIds = settledIds.filter((id) => !skippedIds.includes(id));
+
+	if (readyIds.length > 0) {
+		logger.info(
+			`Dispatching ${readyIds.length} ready task(s) of batch ${plan.batchId}`,
+		);
+	}
+
+	await dispatchTasks(plan, readyIds);
+	await skipTasks(plan, skippedIds);
+}
+
+/**
+ * Lets the batches a deferred task started queue it again when they finish,
+ * or queues it right away if they already have.
+ */
+export async function deferTask(jobData: NodeTaskJobData) {
+	await prisma.taskBatch.updateMany({
+		where: { parentTaskId: jobData.taskId },
+		data: { parentJobData: { ...jobData } },
+	});
+	await resumeDeferredTask(jobData.taskId);
+}
+
+/**
+ * Queues a deferred task again once every batch it waits for has finished.
+ * The task picks up the results of its batches on that run.
+ */
+export async function resumeDeferredTask(taskId: string) {
+	const childBatches = await prisma.taskBatch.findMany({
+		where: { parentTaskId: taskId },
+		select: { finishedAt: true, parentJobData: true },
+	});
+	// Batches without job data are still being started by the task
+	if (childBatches.some((b) => !b.finishedAt || !b.parentJobData)) return;
+
+	const jobData = childBatches[0]?.parentJobData as unknown as
+		| NodeTaskJobData
+		| undefined;
+	if (!jobData) return;
+
+	// The last two batches can finish at the same time, the job ID queues it once
+	await workflowQueue.add("process-node", jobData, {
+		jobId: `${taskId}-resume`,
+	});
+	logger.info(`Resuming deferred task ${taskId}`);
+}
+
+/**
+ * Find and dispatch the next pending batch for a canvas.
+ * Called when a batch finishes to start the next queued one.
+ */
+export async function dispatchNextPendingBatch(canvasId: string) {
+	try {
+		// Find the oldest pending batch (has pendingJobData but no startedAt)
+		const nextBatch = await prisma.taskBatch.findFirst({
+			where: {
+				canvasId,
+				pendingJobData: { not: Prisma.JsonNull },
+				startedAt: null,
+			},
+			orderBy: { createdAt: "asc" },
+		});
+
+		if (nextBatch?.pendingJobData) {
+			const plan = nextBatch.pendingJobData as unknown as BatchDispatchPlan;
+
+			// Mark batch as started and clear pendingJobData.
+			// Two finishing batches can both find it, only the one that claims it dispatches.
+			const { count } = await prisma.taskBatch.updateMany({
+				where: { id: nextBatch.id, startedAt: null },
+				data: {
+					startedAt: new Date(),
+					pendingJobData: Prisma.DbNull,
+				},
+			});
+			if (count !== 1) return;
+			await publishBatchUpdate(nextBatch.id);
+
+			// Dispatch every task without upstream dependencies
+			await dispatchTasks(plan, getRootTaskIds(plan));
+			logger.info(
+				`Dispatched pending batch ${nextBatch.id} for canvas ${canvasId}`,
+			);
+		}
+	} catch (e) {
+		assertIsError(e);
+		logger.error(
+			`Failed to dispatch next pending batch for canvas ${canvasId}: ${e.message}`,
+		);
+	}
+}
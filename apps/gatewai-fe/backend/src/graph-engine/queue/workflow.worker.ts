@@ -1,16 +1,33 @@
-import { Prisma, prisma, TaskStatus } from "@gatewai/db";
+import { NodeType, type Prisma, prisma, TaskStatus } from "@gatewai/db";
+import type { NodeResult } from "@gatewai/types";
 import { type Job, Worker } from "bullmq";
 import { ENV_CONFIG } from "../../config.js";
 import { GetCanvasEntities } from "../../data-ops/canvas.js";
+import { recordTaskUsage } from "../../data-ops/usage.js";
 import { logger } from "../../logger.js";
 import { assertIsError } from "../../utils/misc.js";
+import { processIterations } from "../iteration.js";
 import { nodeProcessors } from "../processors/index.js";
+import { getIterationCount } from "../resolvers.js";
+import { computeNodeSignature, findCachedResult } from "../result-cache.js";
 import { redisConnection } from "./connection.js";
+import { enqueueBatchWebhook } from "./webhook.queue.js";
+import {
+	subscribeToBatchCancellation,
+	trackTaskAbortController,
+} from "./workflow.cancellation.js";
+import { publishBatchUpdate, publishTaskUpdate } from "./workflow.events.js";
 import {
 	type NodeTaskJobData,
 	WORKFLOW_QUEUE_NAME,
 	workflowQueue,
 } from "./workflow.queue.js";
+import {
+	deferTask,
+	dispatchNextPendingBatch,
+	dispatchReadyDownstream,
+	resumeDeferredTask,
+} from "./workflow.scheduler.js";
 
 // Global reference for shutdown handling
 let worker: Worker<NodeTaskJobData> | null = null;
@@ -25,12 +42,24 @@ async function checkAndFinishBatch(batchId: string) {
 		});
 
 		if (pendingCount === 0) {
-			// Mark current batch as finished
-			const finishedBatch = await prisma.taskBatch.update({
-				where: { id: batchId },
+			// Tasks finish in parallel, only the one that marks the batch finished continues.
+			const { count } = await prisma.taskBatch.updateMany({
+				where: { id: batchId, finishedAt: null },
 				data: { finishedAt: new Date() },
-				select: { canvasId: true },
 			});
+			if (count !== 1) return;
+
+			const finishedBatch = await prisma.taskBatch.findUniqueOrThrow({
+				where: { id: batchId },
+				select: { canvasId: true, webhookUrl: true, parentTaskId: true },
+			});
+			await publishBatchUpdate(batchId);
+			if (finishedBatch.webhookUrl) {
+				await enqueueBatchWebhook(batchId);
+			}
+			if (finishedBatch.parentTaskId) {
+				await resumeDeferredTask(finishedBatch.parentTaskId);
+			}
 
 			// Check for next pending batch on the same canvas
 			await dispatchNextPendingBatch(finishedBatch.canvasId);
@@ -41,48 +70,6 @@ async function checkAndFinishBatch(batchId: string) {
 	}
 }
 
-/**
- * Find and dispatch the next pending batch for a canvas.
- * Called when a batch finishes to start the next queued one.
- */
-async function dispatchNextPendingBatch(canvasId: string) {
-	try {
-		// Find the oldest pending batch (has pendingJobData but no startedAt)
-		const nextBatch = await prisma.taskBatch.findFirst({
-			where: {
-				canvasId,
-				pendingJobData: { not: Prisma.JsonNull },
-				startedAt: null,
-			},
-			orderBy: { createdAt: "asc" },
-		});
-
-		if (nextBatch?.pendingJobData) {
-			const jobData = nextBatch.pendingJobData as unknown as NodeTaskJobData;
-
-			// Mark batch as started and clear pendingJobData
-			await prisma.taskBatch.update({
-				where: { id: nextBatch.id },
-				data: {
-					startedAt: new Date(),
-					pendingJobData: Prisma.DbNull,
-				},
-			});
-
-			// Dispatch to queue
-			await workflowQueue.add("process-node", jobData);
-			logger.info(
-				`Dispatched pending batch ${nextBatch.id} for canvas ${canvasId}`,
-			);
-		}
-	} catch (e) {
-		assertIsError(e);
-		logger.error(
-			`Failed to dispatch next pending batch for canvas ${canvasId}: ${e.message}`,
-		);
-	}
-}
-
 async function propagateFailure(
 	taskId: string,
 	batchId: string,
@@ -130,6 +117,7 @@ async function propagateFailure(
 					},
 				},
 			});
+			await publishTaskUpdate(dt.id);
 
 			await recurse(dt.id);
 		}
@@ -143,57 +131,67 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 		taskId,
 		canvasId,
 		batchId,
-		remainingTaskIds,
 		isExplicitlySelected,
-		selectionMap,
 		apiKey,
+		listNodeIds,
 	} = job.data;
 
-	const startedAt = new Date();
-
 	// If the job was retried after a crash, the task might already be in a terminal state
 	// or technically "EXECUTING" from the previous run.
 	const existingTask = await prisma.task.findUnique({
 		where: { id: taskId },
-		select: { status: true },
+		select: { status: true, startedAt: true },
 	});
 
+	// Deferred tasks keep their start, so the duration covers the wait too
+	const startedAt =
+		existingTask?.status === TaskStatus.EXECUTING && existingTask.startedAt
+			? existingTask.startedAt
+			: new Date();
+
 	if (existingTask?.status === TaskStatus.COMPLETED) {
 		logger.info(`Task ${taskId} already completed. Skipping execution.`);
-		// Trigger next just in case the previous run crashed *after* success but *before* triggering next
-		await triggerNextTask(
-			batchId,
-			remainingTaskIds,
-			selectionMap,
-			canvasId,
-			apiKey,
-		);
+		// Dispatch downstream just in case the previous run crashed *after* success but *before* dispatching
+		await dispatchReadyDownstream(job.data, taskId);
 		return;
 	}
 
 	// Skip tasks already marked as FAILED (e.g., by propagateFailure from upstream node)
+	// Their downstream tasks are marked FAILED as well, so there's nothing to dispatch.
 	if (existingTask?.status === TaskStatus.FAILED) {
 		logger.info(
 			`Task ${taskId} already failed (upstream propagation). Skipping execution.`,
 		);
-		await triggerNextTask(
-			batchId,
-			remainingTaskIds,
-			selectionMap,
-			canvasId,
-			apiKey,
-		);
 		return;
 	}
 
-	// 1. Update Task Status to EXECUTING
-	await prisma.task.update({
-		where: { id: taskId },
+	if (existingTask?.status === TaskStatus.CANCELLED) {
+		logger.info(`Task ${taskId} was cancelled. Skipping execution.`);
+		return;
+	}
+
+	// Tasks on a branch that wasn't taken are skipped by the scheduler along with their downstream.
+	if (existingTask?.status === TaskStatus.SKIPPED) {
+		logger.info(`Task ${taskId} was skipped. Skipping execution.`);
+		return;
+	}
+
+	// 1. Update Task Status to EXECUTING, unless the batch was cancelled meanwhile
+	const { count: startedCount } = await prisma.task.updateMany({
+		where: {
+			id: taskId,
+			status: { in: [TaskStatus.QUEUED, TaskStatus.EXECUTING] },
+		},
 		data: {
 			status: TaskStatus.EXECUTING,
 			startedAt,
 		},
 	});
+	if (startedCount === 0) {
+		logger.info(`Task ${taskId} was cancelled. Skipping execution.`);
+		return;
+	}
+	await publishTaskUpdate(taskId);
 
 	// Fetch task and node details early for use in catch if needed
 	const task = await prisma.task.findUniqueOrThrow({
@@ -207,6 +205,12 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 		select: { id: true, type: true, name: true },
 	});
 
+	const abortController = new AbortController();
+	const untrackAbortController = trackTaskAbortController(
+		batchId,
+		abortController,
+	);
+
 	try {
 		// 2. Fetch fresh Context Data
 		const data = await GetCanvasEntities(canvasId);
@@ -223,23 +227,48 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 		const isTerminal = template.isTerminalNode;
 		if (isTerminal && !isExplicitlySelected) {
 			logger.info(`Skipping processing for terminal node: ${node.id}`);
-			await completeTask(taskId, startedAt, true);
+			if (!(await completeTask(taskId, startedAt, true))) return;
+			await dispatchReadyDownstream(job.data, taskId);
 			await checkAndFinishBatch(batchId);
-			await triggerNextTask(
-				batchId,
-				remainingTaskIds,
-				selectionMap,
-				canvasId,
-				apiKey,
-			);
 			return;
 		}
 
 		const batchTasks = await prisma.task.findMany({
 			where: { batchId },
 		});
+		const ctxData = { ...data, tasks: batchTasks, task, apiKey, listNodeIds };
+
+		// Nodes downstream of an Iterator run once per list item
+		const iterationCount =
+			node.type === NodeType.Iterator
+				? null
+				: getIterationCount(ctxData, node.id);
+
+		// 5. Reuse previous output if neither config nor inputs changed
+		// Signatures only cover selected outputs, so list results are never reused.
+		const signature =
+			iterationCount === null ? computeNodeSignature(node, ctxData) : null;
+		const cached = signature
+			? await findCachedResult(node.id, signature)
+			: null;
+		if (cached) {
+			logger.info(
+				`Reusing result of task ${cached.taskId} for node: ${node.id}`,
+			);
+			await storeTaskResult(
+				taskId,
+				node.id,
+				cached.result,
+				signature,
+				!template.isTransient,
+			);
+			if (!(await completeTask(taskId, startedAt, true))) return;
+			await dispatchReadyDownstream(job.data, taskId);
+			await checkAndFinishBatch(batchId);
+			return;
+		}
 
-		// 5. Execute Processor
+		// 6. Execute Processor
 		const processor = nodeProcessors[node.type];
 		if (!processor) {
 			logger.error(`No processor for node type ${node.type}`);
@@ -247,58 +276,75 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 		}
 
 		logger.info(`Processing node: ${node.id} with type: ${node.type}`);
-		const { success, error, newResult } = await processor({
+		const processorCtx = {
 			node,
-			data: { ...data, tasks: batchTasks, task, apiKey },
+			data: ctxData,
 			prisma,
-		});
-
-		if (error) logger.error(`${node.id}: Error: ${error}`);
-
-		// 6. Handle Results
-		if (newResult) {
-			await prisma.task.update({
-				where: { id: taskId },
-				data: { result: newResult as unknown as Prisma.InputJsonValue },
-			});
-
-			if (success && !template.isTransient) {
-				// Wrap in try-catch to avoid failing the task if just the node update fails
+			signal: abortController.signal,
+			jobData: job.data,
+			reportProgress: async (progress: number) => {
+				// Progress is informative, failing to store it never fails the task
 				try {
-					await prisma.node.update({
-						where: { id: node.id },
-						data: { result: newResult as unknown as Prisma.InputJsonValue },
+					await prisma.task.update({
+						where: { id: taskId },
+						data: { progress },
 					});
-				} catch (_updateErr) {
-					logger.warn(
-						`Failed to update node result for ${node.id}, continuing...`,
-					);
+					await publishTaskUpdate(taskId);
+				} catch (err) {
+					assertIsError(err);
+					logger.warn(`Could not store progress of ${taskId}: ${err.message}`);
 				}
+			},
+		};
+		const { success, error, newResult, usage, deferred } =
+			iterationCount === null
+				? await processor(processorCtx)
+				: await processIterations(processor, processorCtx, iterationCount);
+
+		// Task is already marked CANCELLED, nothing to store or dispatch.
+		if (abortController.signal.aborted) {
+			logger.info(`Task ${taskId} was cancelled during execution.`);
+			return;
+		}
+
+		// The task stays EXECUTING without holding a worker, its batches queue it again
+		if (deferred) {
+			logger.info(`Task ${taskId} waits for the batches it started.`);
+			await deferTask(job.data);
+			return;
+		}
+
+		if (error) logger.error(`${node.id}: Error: ${error}`);
+
+		// Failed tasks may have been billed too, e.g. for earlier list items
+		if (usage) {
+			try {
+				await recordTaskUsage(taskId, usage);
+			} catch (usageErr) {
+				logger.error({ err: usageErr }, `Failed to record usage of ${taskId}`);
 			}
 		}
 
-		// 7. Finalize Task
-		const finishedAt = new Date();
-		await prisma.task.update({
-			where: { id: taskId },
-			data: {
-				status: success ? TaskStatus.COMPLETED : TaskStatus.FAILED,
-				finishedAt,
-				durationMs: finishedAt.getTime() - startedAt.getTime(),
-				error: error ? { message: error } : undefined,
-			},
-		});
+		// 7. Handle Results
+		if (newResult) {
+			await storeTaskResult(
+				taskId,
+				node.id,
+				newResult,
+				success ? signature : null,
+				success && !template.isTransient,
+			);
+		}
+
+		// 8. Finalize Task
+		if (!(await completeTask(taskId, startedAt, success, error))) return;
 
 		if (success) {
+			await dispatchReadyDownstream(job.data, taskId);
 			await checkAndFinishBatch(batchId);
-			await triggerNextTask(
-				batchId,
-				remainingTaskIds,
-				selectionMap,
-				canvasId,
-				apiKey,
-			);
 		} else {
+			// Independent branches were dispatched on their own,
+			// only graph-dependent downstream tasks are affected by this failure.
 			await propagateFailure(
 				taskId,
 				batchId,
@@ -306,31 +352,17 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 				error ?? "Unknown error",
 			);
 			await checkAndFinishBatch(batchId);
-			// Continue processing remaining tasks - propagateFailure already marked
-			// graph-dependent downstream tasks as FAILED, but independent parallel
-			// branches should still execute
-			await triggerNextTask(
-				batchId,
-				remainingTaskIds,
-				selectionMap,
-				canvasId,
-				apiKey,
-			);
 		}
 	} catch (err: unknown) {
+		if (abortController.signal.aborted) {
+			logger.info(`Task ${taskId} was cancelled during execution.`);
+			return;
+		}
+
 		logger.error({ err }, `Task execution failed for ${taskId}`);
-		const finishedAt = new Date();
 		const errorMessage = err instanceof Error ? err.message : "Unknown error";
 
-		await prisma.task.update({
-			where: { id: taskId },
-			data: {
-				status: TaskStatus.FAILED,
-				finishedAt,
-				durationMs: finishedAt.getTime() - startedAt.getTime(),
-				error: { message: errorMessage },
-			},
-		});
+		if (!(await completeTask(taskId, startedAt, false, errorMessage))) return;
 
 		await propagateFailure(
 			taskId,
@@ -339,54 +371,71 @@ const processNodeJob = async (job: Job<NodeTaskJobData>) => {
 			errorMessage,
 		);
 		await checkAndFinishBatch(batchId);
-		// Continue processing remaining tasks even on exception
-		await triggerNextTask(
-			batchId,
-			remainingTaskIds,
-			selectionMap,
-			canvasId,
-			apiKey,
-		);
 		throw err;
+	} finally {
+		untrackAbortController();
 	}
 };
 
-async function triggerNextTask(
-	batchId: string,
-	remainingTaskIds: string[],
-	selectionMap: Record<string, boolean>,
-	canvasId: string,
-	apiKey?: string,
+/**
+ * Stores the result on the task, and on the node too when it isn't transient
+ * so the canvas shows it.
+ */
+async function storeTaskResult(
+	taskId: string,
+	nodeId: string,
+	result: NodeResult,
+	signature: string | null,
+	updateNode: boolean,
 ) {
-	if (remainingTaskIds.length === 0) {
-		return;
-	}
-
-	const [nextTaskId, ...rest] = remainingTaskIds;
-	const isSelected = selectionMap[nextTaskId] ?? false;
-
-	// Use the queue instance imported from workflow.queue.js
-	await workflowQueue.add("process-node", {
-		taskId: nextTaskId,
-		canvasId,
-		batchId,
-		remainingTaskIds: rest,
-		isExplicitlySelected: isSelected,
-		selectionMap,
-		apiKey,
+	await prisma.task.update({
+		where: { id: taskId },
+		data: {
+			result: result as unknown as Prisma.InputJsonValue,
+			signature,
+		},
 	});
+
+	if (updateNode) {
+		// Wrap in try-catch to avoid failing the task if just the node update fails
+		try {
+			await prisma.node.update({
+				where: { id: nodeId },
+				data: { result: result as unknown as Prisma.InputJsonValue },
+			});
+		} catch (_updateErr) {
+			logger.warn(`Failed to update node result for ${nodeId}, continuing...`);
+		}
+	}
 }
 
-async function completeTask(taskId: string, startedAt: Date, success: boolean) {
+/**
+ * Marks an EXECUTING task COMPLETED or FAILED.
+ * Returns false if the task was cancelled in the meantime, its status is kept
+ * and nothing downstream may be dispatched.
+ */
+async function completeTask(
+	taskId: string,
+	startedAt: Date,
+	success: boolean,
+	error?: string,
+) {
 	const finishedAt = new Date();
-	await prisma.task.update({
-		where: { id: taskId },
+	const { count } = await prisma.task.updateMany({
+		where: { id: taskId, status: TaskStatus.EXECUTING },
 		data: {
 			status: success ? TaskStatus.COMPLETED : TaskStatus.FAILED,
 			finishedAt,
 			durationMs: finishedAt.getTime() - startedAt.getTime(),
+			error: error ? { message: error } : undefined,
 		},
 	});
+	if (count === 0) {
+		logger.info(`Task ${taskId} was cancelled during execution.`);
+		return false;
+	}
+	await publishTaskUpdate(taskId);
+	return true;
 }
 
 /**
@@ -419,6 +468,20 @@ export async function recoverDanglingTasks() {
 
 		const isActive = job && (await job.isActive());
 
+		// Deferred tasks wait for their batches without a job
+		const childBatches = await prisma.taskBatch.findMany({
+			where: { parentTaskId: task.id },
+			select: { parentJobData: true },
+		});
+		if (
+			!isActive &&
+			childBatches.length > 0 &&
+			childBatches.every((b) => b.parentJobData)
+		) {
+			await resumeDeferredTask(task.id);
+			continue;
+		}
+
 		if (!isActive) {
 			logger.warn(`Recovering zombie task ${task.id}: marking as FAILED.`);
 
@@ -437,6 +500,7 @@ export async function recoverDanglingTasks() {
 					error: { message: errorMsg },
 				},
 			});
+			await publishTaskUpdate(task.id);
 
 			await propagateFailure(
 				task.id,
@@ -468,6 +532,8 @@ export const startWorker = async () => {
 		// We continue anyway so the worker can still process new jobs
 	}
 
+	const cancellationSubscriber = await subscribeToBatchCancellation();
+
 	worker = new Worker<NodeTaskJobData>(WORKFLOW_QUEUE_NAME, processNodeJob, {
 		connection: redisConnection,
 		concurrency: ENV_CONFIG.MAX_CONCURRENT_WORKFLOW_JOBS,
@@ -485,7 +551,11 @@ export const startWorker = async () => {
 					select: { status: true, startedAt: true, nodeId: true },
 				});
 
-				if (currentTask?.status !== TaskStatus.FAILED) {
+				if (
+					currentTask.status !== TaskStatus.FAILED &&
+					currentTask.status !== TaskStatus.CANCELLED &&
+					currentTask.status !== TaskStatus.SKIPPED
+				) {
 					const finishedAt = new Date();
 					const durationMs = currentTask.startedAt
 						? finishedAt.getTime() - currentTask.startedAt.getTime()
@@ -501,6 +571,7 @@ export const startWorker = async () => {
 							error: { message: errorMsg },
 						},
 					});
+					await publishTaskUpdate(taskId);
 
 					const node = await prisma.node.findUnique({
 						where: { id: currentTask.nodeId ?? "" },
@@ -533,6 +604,7 @@ export const startWorker = async () => {
 			logger.info("Worker closed.");
 		}
 
+		await cancellationSubscriber.quit();
 		await workflowQueue.close();
 		await prisma.$disconnect();
 
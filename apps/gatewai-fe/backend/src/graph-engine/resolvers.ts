@@ -2,7 +2,7 @@ import assert from "node:assert";
 import type { DataType } from "@gatewai/db";
 import type { FileData, NodeResult } from "@gatewai/types";
 import type { CanvasCtxDataWithTasks } from "../data-ops/canvas.js";
-import { getFromGCS, getObjectMetadata } from "../utils/storage.js";
+import { getFromStorage, getObjectMetadata } from "../utils/storage.js";
 
 /**
  * Options for filtering inputs.
@@ -13,9 +13,9 @@ type InputFilterOptions = {
 };
 
 /**
- * Resolve the actual data value that flows into a target node through an edge.
+ * Resolve the result of the node on the source side of an edge.
  */
-function resolveSourceValue(
+function resolveSourceResult(
 	data: CanvasCtxDataWithTasks,
 	edge: CanvasCtxDataWithTasks["edges"][number],
 ) {
@@ -27,18 +27,66 @@ function resolveSourceValue(
 
 	// Transistent nodes saves result in Task.result
 	const sourceNodeTask = data.tasks.find((f) => f.nodeId === sourceNode.id);
-	const resultToUse = (sourceNodeTask?.result ??
-		sourceNode.result) as NodeResult | null;
+	return (sourceNodeTask?.result ?? sourceNode.result) as NodeResult | null;
+}
 
+/**
+ * Resolve the actual data value that flows into a target node through an edge.
+ * While iterating, list sources provide the output of the current item instead of the selected one.
+ */
+function resolveSourceValue(
+	data: CanvasCtxDataWithTasks,
+	edge: CanvasCtxDataWithTasks["edges"][number],
+) {
+	const resultToUse = resolveSourceResult(data, edge);
 	if (!resultToUse || resultToUse.outputs.length === 0) return null;
 
-	const selected = resultToUse.outputs[resultToUse.selectedOutputIndex ?? 0];
-	const item = selected.items.find(
+	const isListSource =
+		data.iteration !== undefined && data.listNodeIds?.includes(edge.source);
+	const selected = isListSource
+		? resultToUse.outputs[data.iteration ?? 0]
+		: resultToUse.outputs[resultToUse.selectedOutputIndex ?? 0];
+	const item = selected?.items.find(
 		(i) => i.outputHandleId === edge.sourceHandleId,
 	);
 	return item ?? null;
 }
 
+/**
+ * Resolve the items of every output of the source, e.g. all files imported to a File node.
+ */
+function resolveSourceValueList(
+	data: CanvasCtxDataWithTasks,
+	edge: CanvasCtxDataWithTasks["edges"][number],
+) {
+	const resultToUse = resolveSourceResult(data, edge);
+	if (!resultToUse) return [];
+
+	return resultToUse.outputs
+		.map((output) =>
+			output.items.find((i) => i.outputHandleId === edge.sourceHandleId),
+		)
+		.filter((item) => !!item);
+}
+
+/**
+ * Number of times a node downstream of an Iterator runs, the length of its shortest list input.
+ * Returns null when none of its inputs is a list.
+ */
+function getIterationCount(
+	data: CanvasCtxDataWithTasks,
+	targetNodeId: string,
+): number | null {
+	const lengths = data.edges
+		.filter(
+			(e) => e.target === targetNodeId && data.listNodeIds?.includes(e.source),
+		)
+		.map((edge) => resolveSourceResult(data, edge)?.outputs.length ?? 0);
+
+	if (lengths.length === 0) return null;
+	return Math.min(...lengths);
+}
+
 /**
  * Get the input value for a given data type on a target node, with optional filters.
  * - required = true → throws if missing
@@ -155,9 +203,27 @@ function getAllInputValuesWithHandle(
 	return values;
 }
 
+function getAllInputValueListsWithHandle(
+	data: CanvasCtxDataWithTasks,
+	targetNodeId: string,
+) {
+	const incoming = data.edges.filter((e) => e.target === targetNodeId);
+
+	incoming.sort((a, b) => {
+		const handleA = data.handles.find((h) => h.id === a.targetHandleId);
+		const handleB = data.handles.find((h) => h.id === b.targetHandleId);
+		return (handleA?.order ?? 0) - (handleB?.order ?? 0);
+	});
+
+	return incoming.map((edge) => ({
+		handle: data.handles.find((h) => h.id === edge.targetHandleId),
+		values: resolveSourceValueList(data, edge),
+	}));
+}
+
 /**
  * @param fileData Filedata of node
- * @returns Returns file data from Storage (GCS)
+ * @returns Returns file data from storage
  */
 async function loadMediaBuffer(fileData: FileData) {
 	let mimeType: string | undefined;
@@ -177,7 +243,7 @@ async function loadMediaBuffer(fileData: FileData) {
 	}
 	assert(key);
 	assert(mimeType);
-	const arrayBuffer = await getFromGCS(key, bucket);
+	const arrayBuffer = await getFromStorage(key, bucket);
 	return arrayBuffer;
 }
 
@@ -193,9 +259,12 @@ async function getFileDataMimeType(fileData: FileData) {
 
 export {
 	resolveSourceValue,
+	resolveSourceValueList,
+	getIterationCount,
 	getInputValue,
 	getAllOutputHandles,
 	getAllInputValuesWithHandle,
+	getAllInputValueListsWithHandle,
 	getInputValuesByType,
 	loadMediaBuffer,
 	getFileDataMimeType,
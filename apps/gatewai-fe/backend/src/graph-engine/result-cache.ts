@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+import { NodeType, prisma, TaskStatus } from "@gatewai/db";
+import type { FileData, NodeResult } from "@gatewai/types";
+import type { CanvasCtxDataWithTasks } from "../data-ops/canvas.js";
+import { getAllInputValuesWithHandle } from "./resolvers.js";
+
+/**
+ * Node types whose output only depends on their config and inputs.
+ */
+const DETERMINISTIC_NODE_TYPES = new Set<NodeType>([
+	NodeType.Blur,
+	NodeType.Crop,
+	NodeType.Resize,
+	NodeType.Modulate,
+	NodeType.Sharpen,
+	NodeType.Levels,
+	NodeType.ColorBalance,
+	NodeType.Invert,
+	NodeType.Grayscale,
+	NodeType.Vignette,
+	NodeType.Noise,
+	NodeType.Rotate,
+	NodeType.ChromaKey,
+	NodeType.Encode,
+	NodeType.Upscale,
+	NodeType.Compositor,
+	NodeType.VideoCompositor,
+	NodeType.TextMerger,
+]);
+
+/**
+ * Non-deterministic nodes that can opt in to caching by setting a seed.
+ */
+const SEEDABLE_NODE_TYPES = new Set<NodeType>([
+	NodeType.LLM,
+	NodeType.ImageGen,
+	NodeType.Inpaint,
+]);
+
+// Temporary media of transient results expires after ~2 days,
+// so cached results are only reused within a day.
+const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type CanvasNode = CanvasCtxDataWithTasks["nodes"][number];
+
+function isCacheableNode(node: CanvasNode) {
+	if (DETERMINISTIC_NODE_TYPES.has(node.type)) return true;
+	if (!SEEDABLE_NODE_TYPES.has(node.type)) return false;
+
+	const config = node.config as { seed?: number } | null;
+	return typeof config?.seed === "number";
+}
+
+/**
+ * Signed URLs change on every run, so files are identified by their storage entity.
+ */
+function getStableValue(value: unknown) {
+	const fileData = value as FileData | null;
+	if (fileData?.entity?.id) return { entityId: fileData.entity.id };
+	if (fileData?.processData?.tempKey) {
+		return { tempKey: fileData.processData.tempKey };
+	}
+	return value;
+}
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+		return `{${entries.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Computes the input+config hash of a node,
+ * the backend equivalent of the frontend's `lastProcessedSignature`.
+ * Returns null for nodes whose results must not be reused.
+ */
+function computeNodeSignature(
+	node: CanvasNode,
+	data: CanvasCtxDataWithTasks,
+): string | null {
+	if (!isCacheableNode(node)) return null;
+
+	const inputs = getAllInputValuesWithHandle(data, node.id).map(
+		({ handle, value }) => ({
+			handleId: handle?.id,
+			type: value?.type,
+			data: getStableValue(value?.data),
+		}),
+	);
+
+	// Cached results reference output handle IDs, so they're part of the hash.
+	const outputHandleIds = data.handles
+		.filter((h) => h.nodeId === node.id && h.type === "Output")
+		.map((h) => h.id)
+		.sort();
+
+	return createHash("sha256")
+		.update(
+			stableStringify({
+				type: node.type,
+				config: node.config,
+				inputs,
+				outputHandleIds,
+			}),
+		)
+		.digest("hex");
+}
+
+/**
+ * Finds the result of a recent completed task of the node with the same signature.
+ */
+async function findCachedResult(nodeId: string, signature: string) {
+	const cachedTask = await prisma.task.findFirst({
+		where: {
+			nodeId,
+			signature,
+			status: TaskStatus.COMPLETED,
+			finishedAt: { gte: new Date(Date.now() - CACHE_MAX_AGE_MS) },
+		},
+		orderBy: { finishedAt: "desc" },
+		select: { id: true, result: true },
+	});
+
+	if (!cachedTask?.result) return null;
+	return {
+		taskId: cachedTask.id,
+		result: cachedTask.result as unknown as NodeResult,
+	};
+}
+
+export { computeNodeSignature, findCachedResult };
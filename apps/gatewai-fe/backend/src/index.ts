@@ -6,8 +6,12 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { type AuthHonoTypes, auth, ensureUsersAPI_KEY } from "./auth.js";
 import { ENV_CONFIG } from "./config.js";
+import { startGarbageCollectionWorker } from "./graph-engine/queue/gc.worker.js";
+import { startScheduleWorker } from "./graph-engine/queue/schedule.worker.js";
+import { startWebhookWorker } from "./graph-engine/queue/webhook.worker.js";
 import { startWorker } from "./graph-engine/queue/workflow.worker.js";
 import { startAgentWorker } from "./lib/agent-queue.js";
+import { injectWebSocket } from "./lib/node-ws.js";
 import { logger as appLogger } from "./logger.js";
 import {
 	errorHandler,
@@ -15,6 +19,7 @@ import {
 	notFoundHandler,
 } from "./middlewares.js";
 import { v1Router } from "./routes/v1/index.js";
+import { storageRoutes } from "./routes/v1/storage.js";
 
 const app = new Hono<{
 	Variables: AuthHonoTypes;
@@ -70,6 +75,8 @@ const app = new Hono<{
 			credentials: true,
 		}),
 	)
+	// Before v1Router, signed storage URLs are read without a session
+	.route("/api/v1/storage", storageRoutes)
 	.route("/api/v1", v1Router)
 	.get("/api/v1/test-error", () => {
 		throw new Error("Test Unhandled Exception");
@@ -108,9 +115,12 @@ await ensureUsersAPI_KEY();
 
 // Initialize canvas worker.
 await startWorker();
+await startScheduleWorker();
+startWebhookWorker();
+await startGarbageCollectionWorker();
 startAgentWorker();
 
-serve(
+const server = serve(
 	{
 		fetch: app.fetch,
 		port: ENV_CONFIG.PORT,
@@ -120,5 +130,7 @@ serve(
 		appLogger.info(`Server is running on port ${info.port} (0.0.0.0)`);
 	},
 );
+// Upgrades requests of WebSocket routes, e.g. canvas collaboration
+injectWebSocket(app, server);
 
 export type AppType = typeof app;
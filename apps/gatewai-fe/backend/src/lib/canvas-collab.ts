@@ -0,0 +1,34 @@
+import type { CollabServerMessage } from "@gatewai/types";
+import { logger } from "../logger.js";
+import { assertIsError } from "../utils/misc.js";
+import { redisPublisher } from "./redis.js";
+
+export function getCanvasCollabChannel(canvasId: string) {
+	return `canvas:${canvasId}:collab`;
+}
+
+/**
+ * Sends a message to every collaborator of the canvas, on any server instance.
+ */
+export async function publishCollabMessage(
+	canvasId: string,
+	message: CollabServerMessage,
+) {
+	await redisPublisher.publish(
+		getCanvasCollabChannel(canvasId),
+		JSON.stringify(message),
+	);
+}
+
+/**
+ * Tells collaborators to reload the canvas after it was replaced server side.
+ * Failing to publish never fails the update, so errors are only logged.
+ */
+export async function publishCanvasReload(canvasId: string) {
+	try {
+		await publishCollabMessage(canvasId, { type: "reload" });
+	} catch (e) {
+		assertIsError(e);
+		logger.warn(`Could not publish reload of canvas ${canvasId}: ${e.message}`);
+	}
+}
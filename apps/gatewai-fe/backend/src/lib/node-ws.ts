@@ -0,0 +1,24 @@
+import {
+	createNodeWebSocket,
+	type NodeWebSocket,
+	type NodeWebSocketInit,
+} from "@hono/node-ws";
+
+// The app is only read once a request is upgraded, so routes can use
+// upgradeWebSocket before the app they're mounted on exists.
+const init = {} as NodeWebSocketInit;
+const nodeWebSocket = createNodeWebSocket(init);
+
+export const upgradeWebSocket: NodeWebSocket["upgradeWebSocket"] =
+	nodeWebSocket.upgradeWebSocket;
+
+/**
+ * Handles WebSocket upgrades of the server with the app's routes.
+ */
+export function injectWebSocket(
+	app: NodeWebSocketInit["app"],
+	server: Parameters<typeof nodeWebSocket.injectWebSocket>[0],
+) {
+	init.app = app;
+	nodeWebSocket.injectWebSocket(server);
+}
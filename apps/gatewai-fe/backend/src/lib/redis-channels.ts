@@ -0,0 +1,80 @@
+import { logger } from "../logger.js";
+import { assertIsError } from "../utils/misc.js";
+import { redisSubscriber } from "./redis.js";
+
+type ChannelListener = (message: string) => void | Promise<void>;
+
+type ChannelSubscription = {
+	listeners: Set<ChannelListener>;
+	// Resolves once Redis confirmed the subscription
+	ready: Promise<unknown>;
+};
+
+// Channels this process is subscribed to on the shared subscriber connection
+const subscriptions = new Map<string, ChannelSubscription>();
+
+let isDispatching = false;
+
+async function notify(
+	channel: string,
+	listener: ChannelListener,
+	message: string,
+) {
+	try {
+		await listener(message);
+	} catch (e) {
+		assertIsError(e);
+		logger.warn(`Listener of ${channel} failed: ${e.message}`);
+	}
+}
+
+function dispatchMessages() {
+	if (isDispatching) return;
+	isDispatching = true;
+
+	redisSubscriber.on("message", (channel: string, message: string) => {
+		const subscription = subscriptions.get(channel);
+		if (!subscription) return;
+
+		for (const listener of subscription.listeners) {
+			void notify(channel, listener, message);
+		}
+	});
+}
+
+/**
+ * Listens to a Redis pub/sub channel over the shared subscriber connection,
+ * so open streams don't each hold a Redis connection.
+ * Resolves once the subscription is active, returns a function that stops listening.
+ */
+export async function subscribeToChannel(
+	channel: string,
+	listener: ChannelListener,
+) {
+	dispatchMessages();
+
+	let subscription = subscriptions.get(channel);
+	if (!subscription) {
+		subscription = {
+			listeners: new Set(),
+			ready: redisSubscriber.subscribe(channel).catch((e) => {
+				subscriptions.delete(channel);
+				throw e;
+			}),
+		};
+		subscriptions.set(channel, subscription);
+	}
+	subscription.listeners.add(listener);
+	await subscription.ready;
+
+	return async () => {
+		const current = subscriptions.get(channel);
+		if (!current?.listeners.delete(listener)) return;
+		if (current.listeners.size > 0) return;
+
+		// Commands run in order on the connection, so a new subscription
+		// made meanwhile is sent after this and stays active.
+		subscriptions.delete(channel);
+		await redisSubscriber.unsubscribe(channel);
+	};
+}
@@ -0,0 +1,69 @@
+import type { Context } from "hono";
+import { type SSEStreamingApi, streamSSE } from "hono/streaming";
+import { subscribeToChannel } from "./redis-channels.js";
+
+// Keeps idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+type StreamRedisChannelOptions = {
+	/**
+	 * Runs once the subscription is active, so state read here can't miss an update.
+	 * Return true to end the stream right away.
+	 */
+	onSubscribed?: (stream: SSEStreamingApi) => Promise<boolean>;
+	/**
+	 * Ends the stream after the given message is sent.
+	 */
+	isFinalMessage?: (message: string) => boolean;
+};
+
+/**
+ * Streams messages of a Redis pub/sub channel as server-sent events,
+ * until the client disconnects or the final message is sent.
+ */
+export function streamRedisChannel(
+	c: Context,
+	channel: string,
+	options: StreamRedisChannelOptions = {},
+) {
+	c.header("X-Accel-Buffering", "no");
+	c.header("Cache-Control", "no-cache");
+
+	return streamSSE(c, async (stream) => {
+		let isDone = false;
+		let end = () => {};
+		const ended = new Promise<void>((resolve) => {
+			end = () => {
+				isDone = true;
+				resolve();
+			};
+		});
+		stream.onAbort(end);
+		c.req.raw.signal.addEventListener("abort", end, { once: true });
+		if (stream.aborted || c.req.raw.signal.aborted) end();
+
+		const unsubscribe = await subscribeToChannel(channel, async (msg) => {
+			if (isDone) return;
+
+			await stream.writeSSE({ data: msg });
+			if (options.isFinalMessage?.(msg)) {
+				end();
+			}
+		});
+
+		const heartbeat = setInterval(() => {
+			void stream.write(": ping\n\n");
+		}, HEARTBEAT_INTERVAL_MS);
+
+		try {
+			if (options.onSubscribed && (await options.onSubscribed(stream))) {
+				end();
+			}
+
+			await ended;
+		} finally {
+			clearInterval(heartbeat);
+			await unsubscribe();
+		}
+	});
+}
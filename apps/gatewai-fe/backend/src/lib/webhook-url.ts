@@ -0,0 +1,62 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList } from "node:net";
+import { HTTPException } from "hono/http-exception";
+
+// Loopback, private, link-local and other non-public ranges
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 128],
+	["::1", 128],
+	// NAT64 addresses may point to any of the above,
+	// IPv4-mapped ones are checked against the IPv4 ranges
+	["64:ff9b::", 96],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress({ address, family }: LookupAddress) {
+	return privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Rejects webhook URLs whose host resolves to a private network address,
+ * so webhooks can't reach services of the internal network.
+ */
+export async function assertPublicWebhookUrl(url: string) {
+	// Hostnames of IPv6 URLs keep their brackets
+	const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+	let addresses: LookupAddress[];
+	try {
+		addresses = await lookup(host, { all: true });
+	} catch {
+		throw new HTTPException(400, {
+			message: `Webhook host ${host} could not be resolved`,
+		});
+	}
+
+	if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+		throw new HTTPException(400, {
+			message: "Webhook URL must not point to a private network address",
+		});
+	}
+}
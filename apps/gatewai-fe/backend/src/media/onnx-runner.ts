@@ -0,0 +1,95 @@
+import * as ort from "onnxruntime-node";
+
+/**
+ * Planar (NCHW without the batch) float pixels, the layout image models take.
+ */
+export type ImageTensor = {
+	data: Float32Array;
+	width: number;
+	height: number;
+	channels: number;
+};
+
+const sessions = new Map<string, Promise<ort.InferenceSession>>();
+
+/**
+ * Models are loaded once per worker and shared by every run.
+ */
+function getSession(modelPath: string) {
+	let session = sessions.get(modelPath);
+	if (!session) {
+		session = ort.InferenceSession.create(modelPath, {
+			executionProviders: ["cpu"],
+			graphOptimizationLevel: "all",
+		});
+		// A failed load is retried on the next run
+		session.catch(() => sessions.delete(modelPath));
+		sessions.set(modelPath, session);
+	}
+	return session;
+}
+
+/**
+ * Runs a model with one image input and one image output on the CPU.
+ */
+export async function runImageModel(
+	modelPath: string,
+	input: ImageTensor,
+): Promise<ImageTensor> {
+	const session = await getSession(modelPath);
+	const tensor = new ort.Tensor("float32", input.data, [
+		1,
+		input.channels,
+		input.height,
+		input.width,
+	]);
+	const results = await session.run({ [session.inputNames[0]]: tensor });
+	const output = results[session.outputNames[0]];
+
+	// Single channel models may leave out the channel dimension
+	const [height, width] = output.dims.slice(-2);
+	return {
+		data: output.data as Float32Array,
+		width,
+		height,
+		channels: output.dims.length === 4 ? output.dims[1] : 1,
+	};
+}
+
+/**
+ * Interleaved 8 bit pixels, as sharp's raw output, to a tensor of
+ * (value / 255 - mean) / std per channel.
+ */
+export function pixelsToTensor(
+	pixels: Buffer,
+	width: number,
+	height: number,
+	channels: number,
+	mean: readonly number[] = [0, 0, 0],
+	std: readonly number[] = [1, 1, 1],
+): ImageTensor {
+	const size = width * height;
+	const data = new Float32Array(size * channels);
+	for (let i = 0; i < size; i++) {
+		for (let c = 0; c < channels; c++) {
+			data[c * size + i] = (pixels[i * channels + c] / 255 - mean[c]) / std[c];
+		}
+	}
+	return { data, width, height, channels };
+}
+
+/**
+ * Tensor of 0-1 values back to interleaved 8 bit pixels.
+ */
+export function tensorToPixels(tensor: ImageTensor): Buffer {
+	const { data, width, height, channels } = tensor;
+	const size = width * height;
+	const pixels = Buffer.alloc(size * channels);
+	for (let i = 0; i < size; i++) {
+		for (let c = 0; c < channels; c++) {
+			const value = Math.round(data[c * size + i] * 255);
+			pixels[i * channels + c] = Math.min(255, Math.max(0, value));
+		}
+	}
+	return pixels;
+}
@@ -0,0 +1,109 @@
+import type {
+	BackgroundSegmenter,
+	RemoveBackgroundNodeConfig,
+} from "@gatewai/types";
+import sharp from "sharp";
+import { ENV_CONFIG } from "../config.js";
+import { getModelProvider } from "../model-providers/registry.js";
+import { getClosestAspectRatio } from "../utils/image.js";
+import { pixelsToTensor, runImageModel } from "./onnx-runner.js";
+
+type SegmentRequest = {
+	image: Buffer;
+	width: number;
+	height: number;
+	config: RemoveBackgroundNodeConfig;
+	signal: AbortSignal;
+};
+
+/**
+ * Finds the subject of an image. Returns its matte, one byte per pixel of the
+ * image, 255 on the subject.
+ */
+type Segmenter = (request: SegmentRequest) => Promise<Buffer>;
+
+const SUBJECT_MASK_PROMPT =
+	"Create a segmentation mask of the main subject of this image. Keep the exact framing. Paint the subject, including hair and fine edges, pure white and everything else pure black. No other colors, shading or text.";
+
+const onnxSegmenter: Segmenter = async ({ image, width, height }) => {
+	const modelPath = ENV_CONFIG.BACKGROUND_REMOVAL_MODEL_PATH;
+	if (!modelPath) {
+		throw new Error(
+			"No background removal model is configured on the server, use the model segmenter instead",
+		);
+	}
+
+	const size = ENV_CONFIG.BACKGROUND_REMOVAL_MODEL_SIZE;
+	const pixels = await sharp(image)
+		.removeAlpha()
+		.resize(size, size, { fit: "fill" })
+		.raw()
+		.toBuffer();
+	const matte = await runImageModel(
+		modelPath,
+		pixelsToTensor(pixels, size, size, 3, [0.5, 0.5, 0.5]),
+	);
+
+	// Stretched to the full range, models rarely reach 0 and 1 exactly
+	let min = Number.POSITIVE_INFINITY;
+	let max = Number.NEGATIVE_INFINITY;
+	for (const value of matte.data) {
+		if (value < min) min = value;
+		if (value > max) max = value;
+	}
+	const range = max - min || 1;
+	const values = Buffer.alloc(matte.width * matte.height);
+	for (let i = 0; i < values.length; i++) {
+		values[i] = Math.round(((matte.data[i] - min) / range) * 255);
+	}
+
+	return sharp(values, {
+		raw: { width: matte.width, height: matte.height, channels: 1 },
+	})
+		.resize(width, height, { fit: "fill" })
+		.raw()
+		.toBuffer();
+};
+
+const modelSegmenter: Segmenter = async ({
+	image,
+	width,
+	height,
+	config,
+	signal,
+}) => {
+	const provider = getModelProvider(config.provider);
+	if (!provider.generateImage) {
+		throw new Error(`${provider.label} does not support image generation`);
+	}
+
+	const generated = await provider.generateImage({
+		model: config.model,
+		prompt: SUBJECT_MASK_PROMPT,
+		referenceImages: [
+			{
+				data: await sharp(image).removeAlpha().png().toBuffer(),
+				mimeType: "image/png",
+			},
+		],
+		aspectRatio: getClosestAspectRatio(width, height),
+		imageSize: "1K",
+		signal,
+	});
+
+	return sharp(generated.data)
+		.resize(width, height, { fit: "fill" })
+		.removeAlpha()
+		.toColourspace("b-w")
+		.raw()
+		.toBuffer();
+};
+
+const segmenters: Record<BackgroundSegmenter, Segmenter> = {
+	onnx: onnxSegmenter,
+	model: modelSegmenter,
+};
+
+export function segmentSubject(request: SegmentRequest) {
+	return segmenters[request.config.segmenter](request);
+}
@@ -0,0 +1,265 @@
+import type { UpscaleAlgorithm } from "@gatewai/types";
+import sharp from "sharp";
+import { ENV_CONFIG } from "../config.js";
+import {
+	pixelsToTensor,
+	runImageModel,
+	tensorToPixels,
+} from "./onnx-runner.js";
+
+// Tiles are upscaled one at a time, so only the output is held in full
+const TILE_SIZE = 512;
+// Source pixels around a tile the upscaler sees but whose output is dropped, hides seams
+const TILE_OVERLAP = 16;
+// The raw output of 8192x8192 alone takes 256 MB
+const MAX_OUTPUT_SIDE = 8192;
+// Directions whose color differences are closer than this count as equally flat
+const FLAT_THRESHOLD = 24;
+
+const CHANNELS = 4;
+
+type RawImage = { data: Buffer; width: number; height: number };
+
+/**
+ * Enlarges an RGBA image by the factor, returns the raw RGBA pixels.
+ */
+type Upscaler = (image: RawImage, factor: number) => Promise<Buffer>;
+
+const toSharp = ({ data, width, height }: RawImage) =>
+	sharp(data, { raw: { width, height, channels: CHANNELS } });
+
+const lanczosUpscaler: Upscaler = (image, factor) =>
+	toSharp(image)
+		.resize(image.width * factor, image.height * factor, {
+			kernel: "lanczos3",
+			fit: "fill",
+		})
+		.raw()
+		.toBuffer();
+
+/**
+ * Doubles the size. New pixels are averaged along the direction their
+ * neighbors differ least in, so edges stay sharp instead of turning into steps.
+ */
+function edgeDirected2x({ data, width, height }: RawImage): RawImage {
+	const outWidth = width * 2;
+	const outHeight = height * 2;
+	const out = Buffer.alloc(outWidth * outHeight * CHANNELS);
+	const src = (x: number, y: number) =>
+		(Math.min(y, height - 1) * width + Math.min(x, width - 1)) * CHANNELS;
+	const dst = (x: number, y: number) => (y * outWidth + x) * CHANNELS;
+
+	// Color difference, alpha left out
+	const diff = (a: Buffer, i: number, b: Buffer, j: number) =>
+		Math.abs(a[i] - b[j]) +
+		Math.abs(a[i + 1] - b[j + 1]) +
+		Math.abs(a[i + 2] - b[j + 2]);
+
+	// Sets the target pixel from the flatter of two pairs of pixels of buf
+	const interpolate = (
+		buf: Buffer,
+		target: number,
+		[p1, p2]: [number, number],
+		[q1, q2]: [number, number],
+	) => {
+		const dp = diff(buf, p1, buf, p2);
+		const dq = diff(buf, q1, buf, q2);
+		for (let c = 0; c < CHANNELS; c++) {
+			let value: number;
+			if (dp + FLAT_THRESHOLD < dq) {
+				value = (buf[p1 + c] + buf[p2 + c]) / 2;
+			} else if (dq + FLAT_THRESHOLD < dp) {
+				value = (buf[q1 + c] + buf[q2 + c]) / 2;
+			} else {
+				value = (buf[p1 + c] + buf[p2 + c] + buf[q1 + c] + buf[q2 + c]) / 4;
+			}
+			out[target + c] = Math.round(value);
+		}
+	};
+
+	// Source pixels keep their values
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.copy(out, dst(x * 2, y * 2), src(x, y), src(x, y) + CHANNELS);
+		}
+	}
+
+	// Centers between four source pixels, from the two diagonals
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			interpolate(
+				data,
+				dst(x * 2 + 1, y * 2 + 1),
+				[src(x, y), src(x + 1, y + 1)],
+				[src(x + 1, y), src(x, y + 1)],
+			);
+		}
+	}
+
+	// Remaining pixels, from their horizontal and vertical neighbors which are
+	// all set by now. Edges reuse the nearest neighbor on the same row or column.
+	for (let y = 0; y < outHeight; y++) {
+		for (let x = (y + 1) % 2; x < outWidth; x += 2) {
+			const horizontal: [number, number] = [
+				dst(Math.max(x - 1, y % 2 === 0 ? 0 : 1), y),
+				dst(Math.min(x + 1, outWidth - (y % 2 === 0 ? 2 : 1)), y),
+			];
+			const vertical: [number, number] = [
+				dst(x, Math.max(y - 1, x % 2 === 0 ? 0 : 1)),
+				dst(x, Math.min(y + 1, outHeight - (x % 2 === 0 ? 2 : 1))),
+			];
+			interpolate(out, dst(x, y), horizontal, vertical);
+		}
+	}
+
+	return { data: out, width: outWidth, height: outHeight };
+}
+
+const edgeDirectedUpscaler: Upscaler = async (image, factor) => {
+	let result = image;
+	for (let scale = 1; scale < factor; scale *= 2) {
+		result = edgeDirected2x(result);
+	}
+	return result.data;
+};
+
+const modelUpscaler: Upscaler = async (image, factor) => {
+	const modelPath = ENV_CONFIG.UPSCALE_MODEL_PATH;
+	if (!modelPath) {
+		throw new Error(
+			"No upscaling model is configured on the server, use another algorithm",
+		);
+	}
+
+	const rgb = await toSharp(image).removeAlpha().raw().toBuffer();
+	const output = await runImageModel(
+		modelPath,
+		pixelsToTensor(rgb, image.width, image.height, 3),
+	);
+
+	const width = image.width * factor;
+	const height = image.height * factor;
+	// Models only know colors, alpha is resampled
+	const alpha = await toSharp(image)
+		.extractChannel(3)
+		.resize(width, height, { kernel: "lanczos3", fit: "fill" })
+		.raw()
+		.toBuffer();
+	// Models have a fixed factor, their output is resized to the requested one
+	return sharp(tensorToPixels(output), {
+		raw: { width: output.width, height: output.height, channels: 3 },
+	})
+		.resize(width, height, { kernel: "lanczos3", fit: "fill" })
+		.joinChannel(alpha, { raw: { width, height, channels: 1 } })
+		.raw()
+		.toBuffer();
+};
+
+const upscalers: Record<UpscaleAlgorithm, Upscaler> = {
+	lanczos: lanczosUpscaler,
+	"edge-directed": edgeDirectedUpscaler,
+	model: modelUpscaler,
+};
+
+/**
+ * Pixels of a region of a raw RGBA image.
+ */
+function extractRegion(
+	source: RawImage,
+	left: number,
+	top: number,
+	width: number,
+	height: number,
+): RawImage {
+	const data = Buffer.alloc(width * height * CHANNELS);
+	for (let y = 0; y < height; y++) {
+		const start = ((top + y) * source.width + left) * CHANNELS;
+		source.data.copy(
+			data,
+			y * width * CHANNELS,
+			start,
+			start + width * CHANNELS,
+		);
+	}
+	return { data, width, height };
+}
+
+/**
+ * Upscales an image tile by tile, calling onProgress with the share of tiles done.
+ * Returns a PNG, with alpha when the input has it.
+ */
+export async function upscaleImage(
+	image: Buffer,
+	algorithm: UpscaleAlgorithm,
+	factor: number,
+	signal: AbortSignal,
+	onProgress: (progress: number) => Promise<void>,
+) {
+	const { width, height, hasAlpha } = await sharp(image).metadata();
+	const outWidth = width * factor;
+	const outHeight = height * factor;
+	if (outWidth > MAX_OUTPUT_SIDE || outHeight > MAX_OUTPUT_SIDE) {
+		throw new Error(
+			`Upscaled images can be up to ${MAX_OUTPUT_SIDE}px per side, ${width}x${height} would become ${outWidth}x${outHeight}`,
+		);
+	}
+
+	const source: RawImage = {
+		data: await sharp(image).ensureAlpha().raw().toBuffer(),
+		width,
+		height,
+	};
+	const output = Buffer.alloc(outWidth * outHeight * CHANNELS);
+	const upscale = upscalers[algorithm];
+
+	const columns = Math.ceil(width / TILE_SIZE);
+	const rows = Math.ceil(height / TILE_SIZE);
+	let done = 0;
+	for (let row = 0; row < rows; row++) {
+		for (let column = 0; column < columns; column++) {
+			signal.throwIfAborted();
+
+			const x = column * TILE_SIZE;
+			const y = row * TILE_SIZE;
+			const tileWidth = Math.min(TILE_SIZE, width - x);
+			const tileHeight = Math.min(TILE_SIZE, height - y);
+			const left = Math.max(0, x - TILE_OVERLAP);
+			const top = Math.max(0, y - TILE_OVERLAP);
+			const region = extractRegion(
+				source,
+				left,
+				top,
+				Math.min(width, x + tileWidth + TILE_OVERLAP) - left,
+				Math.min(height, y + tileHeight + TILE_OVERLAP) - top,
+			);
+			const upscaled = await upscale(region, factor);
+
+			// Only the tile itself is kept, the overlap was context
+			const regionRowLength = region.width * factor;
+			for (let tileRow = 0; tileRow < tileHeight * factor; tileRow++) {
+				const from =
+					((y - top) * factor + tileRow) * regionRowLength +
+					(x - left) * factor;
+				const to = (y * factor + tileRow) * outWidth + x * factor;
+				upscaled.copy(
+					output,
+					to * CHANNELS,
+					from * CHANNELS,
+					(from + tileWidth * factor) * CHANNELS,
+				);
+			}
+
+			done++;
+			await onProgress(done / (rows * columns));
+		}
+	}
+
+	const result = sharp(output, {
+		raw: { width: outWidth, height: outHeight, channels: CHANNELS },
+	});
+	return {
+		buffer: await (hasAlpha ? result : result.removeAlpha()).png().toBuffer(),
+		width: outWidth,
+		height: outHeight,
+	};
+}
@@ -0,0 +1,842 @@
+import { type ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { once } from "node:events";
+import * as fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { VideoCompositorLayer } from "@gatewai/types";
+import {
+	type Canvas,
+	type CanvasRenderingContext2D,
+	createCanvas,
+	type Image,
+	ImageData,
+	loadImage,
+} from "canvas";
+import { interpolate, spring } from "remotion";
+
+// Same defaults as the browser preview (modules/video-editor)
+const DEFAULT_DURATION_SEC = 5;
+const DEFAULT_FONT_SIZE = 60;
+const DEFAULT_FONT_FAMILY = "Inter";
+const DEFAULT_FILL = "#ffffff";
+const DEFAULT_LINE_HEIGHT = 1.2;
+const BACKGROUND_COLOR = "#000000";
+
+// Keep only the tail of ffmpeg logs for error messages
+const MAX_STDERR_LENGTH = 4000;
+
+export type VideoCompositionSource =
+	| { type: "Text"; text: string }
+	| { type: "Image" | "Video" | "Audio"; buffer: Buffer };
+
+export type VideoCompositionLayer = Omit<VideoCompositorLayer, "type"> & {
+	source: VideoCompositionSource;
+};
+
+type RenderVideoCompositionOptions = {
+	width: number;
+	height: number;
+	fps: number;
+	layers: VideoCompositionLayer[];
+	signal: AbortSignal;
+};
+
+type MediaProbe = {
+	durationSec: number;
+	width?: number;
+	height?: number;
+	hasAudio: boolean;
+};
+
+type LayerTransform = {
+	x: number;
+	y: number;
+	scale: number;
+	rotation: number;
+	opacity: number;
+};
+
+type PreparedLayer = {
+	layer: VideoCompositionLayer;
+	startFrame: number;
+	durationInFrames: number;
+	width: number;
+	height: number;
+	filePath?: string;
+	hasAudio: boolean;
+	image?: Image;
+	frameReader?: VideoFrameReader;
+	frameCanvas?: Canvas;
+};
+
+/**
+ * Mirrors `calculateLayerTransform` of the browser composition,
+ * so rendered animations match the editor preview frame by frame.
+ */
+function calculateLayerTransform(
+	layer: VideoCompositionLayer,
+	durationInFrames: number,
+	frame: number,
+	fps: number,
+	viewport: { w: number; h: number },
+): LayerTransform {
+	const relativeFrame = frame - (layer.startFrame ?? 0);
+	let x = layer.x;
+	let y = layer.y;
+	let scale = layer.scale ?? 1;
+	let rotation = layer.rotation;
+	let opacity = layer.opacity ?? 1;
+
+	for (const anim of layer.animations ?? []) {
+		const durFrames = anim.value * fps;
+		const isOut = anim.type.includes("-out");
+		const startAnimFrame = isOut ? durationInFrames - durFrames : 0;
+		const endAnimFrame = isOut ? durationInFrames : durFrames;
+
+		if (relativeFrame < startAnimFrame || relativeFrame > endAnimFrame) {
+			continue;
+		}
+
+		const progress = interpolate(
+			relativeFrame,
+			[startAnimFrame, endAnimFrame],
+			[0, 1],
+			{ extrapolateLeft: "clamp", extrapolateRight: "clamp" },
+		);
+
+		switch (anim.type) {
+			case "fade-in":
+				opacity *= progress;
+				break;
+			case "fade-out":
+				opacity *= 1 - progress;
+				break;
+			case "slide-in-left":
+				x += -1 * viewport.w * (1 - progress);
+				break;
+			case "slide-in-right":
+				x += 1 * viewport.w * (1 - progress);
+				break;
+			case "slide-in-top":
+				y += -1 * viewport.h * (1 - progress);
+				break;
+			case "slide-in-bottom":
+				y += 1 * viewport.h * (1 - progress);
+				break;
+			case "zoom-in":
+				scale *= progress;
+				break;
+			case "zoom-out":
+				scale *= 1 - progress;
+				break;
+			case "rotate-cw":
+				rotation += 360 * progress;
+				break;
+			case "rotate-ccw":
+				rotation += -360 * progress;
+				break;
+			case "bounce": {
+				const bounceVal = spring({
+					frame: relativeFrame - startAnimFrame,
+					fps,
+					config: { damping: 10, mass: 0.5, stiffness: 100 },
+					durationInFrames: durFrames,
+				});
+				scale *= bounceVal;
+				break;
+			}
+			case "shake": {
+				const intensity = 20;
+				x +=
+					intensity *
+					Math.sin((relativeFrame * 10 * 2 * Math.PI) / durFrames) *
+					(1 - progress);
+				break;
+			}
+		}
+	}
+
+	// CSS clamps opacity, layers saved with a 0-100 scale render opaque
+	opacity = Math.min(Math.max(opacity, 0), 1);
+
+	return { x, y, scale, rotation, opacity };
+}
+
+function spawnFfmpeg(command: "ffmpeg" | "ffprobe", args: string[]) {
+	const child = spawn(command, args);
+	let stderr = "";
+	let stdout = "";
+
+	child.stderr.on("data", (chunk: Buffer) => {
+		stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+	});
+	// Closed pipes are reported through the exit code
+	child.stdin.on("error", () => {});
+
+	const done = new Promise<string>((resolve, reject) => {
+		if (command === "ffprobe") {
+			child.stdout.on("data", (chunk: Buffer) => {
+				stdout += chunk.toString();
+			});
+		}
+		child.on("error", (err) => {
+			reject(new Error(`Failed to start ${command}: ${err.message}`));
+		});
+		child.on("close", (code) => {
+			if (code === 0) {
+				resolve(stdout);
+			} else {
+				reject(new Error(`${command} exited with code ${code}: ${stderr}`));
+			}
+		});
+	});
+	// Consumers await `done` only when they need the outcome
+	done.catch(() => {});
+
+	return { child, done };
+}
+
+async function probeMedia(filePath: string): Promise<MediaProbe> {
+	const { done } = spawnFfmpeg("ffprobe", [
+		"-v",
+		"error",
+		"-show_entries",
+		"stream=codec_type,width,height:format=duration",
+		"-of",
+		"json",
+		filePath,
+	]);
+	const output = JSON.parse(await done) as {
+		streams?: { codec_type?: string; width?: number; height?: number }[];
+		format?: { duration?: string };
+	};
+
+	const videoStream = output.streams?.find((s) => s.codec_type === "video");
+	const durationSec = Number.parseFloat(output.format?.duration ?? "");
+
+	return {
+		durationSec: Number.isNaN(durationSec) ? 0 : durationSec,
+		width: videoStream?.width,
+		height: videoStream?.height,
+		hasAudio: !!output.streams?.some((s) => s.codec_type === "audio"),
+	};
+}
+
+/**
+ * Reads raw RGBA frames of a decoded video one by one.
+ * Keeps returning the last frame once the video has ended.
+ */
+class VideoFrameReader {
+	private readonly chunks: AsyncIterator<Buffer>;
+	private pending: Buffer[] = [];
+	private pendingLength = 0;
+	private lastFrame: Buffer | null = null;
+
+	constructor(
+		readonly process: ChildProcessWithoutNullStreams,
+		private readonly frameSize: number,
+	) {
+		this.chunks = process.stdout[Symbol.asyncIterator]();
+	}
+
+	async nextFrame() {
+		while (this.pendingLength < this.frameSize) {
+			const { done, value } = await this.chunks.next();
+			if (done) return this.lastFrame;
+			this.pending.push(value);
+			this.pendingLength += value.length;
+		}
+
+		const buffered = Buffer.concat(this.pending, this.pendingLength);
+		this.lastFrame = buffered.subarray(0, this.frameSize);
+		const rest = buffered.subarray(this.frameSize);
+		this.pending = rest.length > 0 ? [rest] : [];
+		this.pendingLength = rest.length;
+
+		return this.lastFrame;
+	}
+}
+
+function startVideoDecoder(
+	filePath: string,
+	width: number,
+	height: number,
+	fps: number,
+	durationSec: number,
+) {
+	// <video> elements letterbox their content, same as object-fit: contain
+	const filter = [
+		`fps=${fps}`,
+		`scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+		`pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black@0`,
+		"format=rgba",
+	].join(",");
+
+	const { child } = spawnFfmpeg("ffmpeg", [
+		"-v",
+		"error",
+		"-i",
+		filePath,
+		"-t",
+		String(durationSec),
+		"-vf",
+		filter,
+		"-f",
+		"rawvideo",
+		"-pix_fmt",
+		"rgba",
+		"pipe:1",
+	]);
+
+	return new VideoFrameReader(child, width * height * 4);
+}
+
+function roundedRectPath(
+	ctx: CanvasRenderingContext2D,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	radius: number,
+) {
+	const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+	ctx.beginPath();
+	ctx.moveTo(x + r, y);
+	ctx.arcTo(x + width, y, x + width, y + height, r);
+	ctx.arcTo(x + width, y + height, x, y + height, r);
+	ctx.arcTo(x, y + height, x, y, r);
+	ctx.arcTo(x, y, x + width, y, r);
+	ctx.closePath();
+}
+
+/**
+ * Draws an image like `object-fit: cover`.
+ */
+function drawImageCover(
+	ctx: CanvasRenderingContext2D,
+	image: Image,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+) {
+	const scale = Math.max(width / image.width, height / image.height);
+	const sw = width / scale;
+	const sh = height / scale;
+	ctx.drawImage(
+		image,
+		(image.width - sw) / 2,
+		(image.height - sh) / 2,
+		sw,
+		sh,
+		x,
+		y,
+		width,
+		height,
+	);
+}
+
+function getFont(layer: VideoCompositionLayer) {
+	const fontStyle = layer.fontStyle ?? "normal";
+	const fontWeight = layer.fontWeight ?? "normal";
+	const fontSize = layer.fontSize ?? DEFAULT_FONT_SIZE;
+	const fontFamily = layer.fontFamily ?? DEFAULT_FONT_FAMILY;
+	return `${fontStyle} ${fontWeight} ${fontSize}px "${fontFamily}"`;
+}
+
+function measureLine(
+	ctx: CanvasRenderingContext2D,
+	line: string,
+	letterSpacing: number,
+) {
+	return ctx.measureText(line).width + letterSpacing * [...line].length;
+}
+
+/**
+ * Splits text into lines like `white-space: pre-wrap`, wrapping at maxWidth when set.
+ */
+function wrapText(
+	ctx: CanvasRenderingContext2D,
+	text: string,
+	letterSpacing: number,
+	maxWidth?: number,
+) {
+	const lines: string[] = [];
+	for (const paragraph of text.split("\n")) {
+		if (!maxWidth) {
+			lines.push(paragraph);
+			continue;
+		}
+
+		let line = "";
+		for (const word of paragraph.split(/(?<=\s)/)) {
+			const candidate = line + word;
+			if (
+				line &&
+				measureLine(ctx, candidate.trimEnd(), letterSpacing) > maxWidth
+			) {
+				lines.push(line.trimEnd());
+				line = word;
+			} else {
+				line = candidate;
+			}
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+function drawTextLine(
+	ctx: CanvasRenderingContext2D,
+	line: string,
+	x: number,
+	y: number,
+	letterSpacing: number,
+	mode: "fill" | "stroke",
+) {
+	if (!letterSpacing) {
+		if (mode === "fill") ctx.fillText(line, x, y);
+		else ctx.strokeText(line, x, y);
+		return;
+	}
+
+	let cursor = x;
+	for (const char of line) {
+		if (mode === "fill") ctx.fillText(char, cursor, y);
+		else ctx.strokeText(char, cursor, y);
+		cursor += ctx.measureText(char).width + letterSpacing;
+	}
+}
+
+/**
+ * Box of a text layer; sized by its content unless width/height is set.
+ */
+function measureTextLayer(
+	ctx: CanvasRenderingContext2D,
+	layer: VideoCompositionLayer,
+	text: string,
+) {
+	ctx.font = getFont(layer);
+	const letterSpacing = layer.letterSpacing ?? 0;
+	const lines = wrapText(ctx, text, letterSpacing, layer.width || undefined);
+	const lineHeight =
+		(layer.fontSize ?? DEFAULT_FONT_SIZE) *
+		(layer.lineHeight ?? DEFAULT_LINE_HEIGHT);
+
+	const width =
+		layer.width ||
+		Math.max(0, ...lines.map((l) => measureLine(ctx, l, letterSpacing)));
+	const height = layer.height || lines.length * lineHeight;
+
+	return { lines, lineHeight, width, height };
+}
+
+function drawTextContent(
+	ctx: CanvasRenderingContext2D,
+	layer: VideoCompositionLayer,
+	text: string,
+	width: number,
+	height: number,
+) {
+	const { lines, lineHeight } = measureTextLayer(ctx, layer, text);
+	const letterSpacing = layer.letterSpacing ?? 0;
+	const fontSize = layer.fontSize ?? DEFAULT_FONT_SIZE;
+	const textHeight = lines.length * lineHeight;
+
+	let top = 0;
+	if (layer.verticalAlign === "middle") top = (height - textHeight) / 2;
+	else if (layer.verticalAlign === "bottom") top = height - textHeight;
+
+	ctx.font = getFont(layer);
+	ctx.textBaseline = "middle";
+	ctx.fillStyle = layer.fill ?? DEFAULT_FILL;
+
+	lines.forEach((line, i) => {
+		const lineWidth = measureLine(ctx, line, letterSpacing);
+		let left = 0;
+		if (layer.align === "center") left = (width - lineWidth) / 2;
+		else if (layer.align === "right") left = width - lineWidth;
+
+		const y = top + i * lineHeight + lineHeight / 2;
+
+		// paint-order: stroke fill
+		if (layer.stroke && layer.strokeWidth) {
+			ctx.strokeStyle = layer.stroke;
+			ctx.lineWidth = layer.strokeWidth;
+			ctx.lineJoin = "round";
+			drawTextLine(ctx, line, left, y, letterSpacing, "stroke");
+		}
+		drawTextLine(ctx, line, left, y, letterSpacing, "fill");
+
+		const decorationHeight = Math.max(1, fontSize / 15);
+		if (layer.textDecoration?.includes("underline")) {
+			ctx.fillRect(left, y + fontSize * 0.4, lineWidth, decorationHeight);
+		}
+		if (layer.textDecoration?.includes("line-through")) {
+			ctx.fillRect(left, y, lineWidth, decorationHeight);
+		}
+	});
+}
+
+/**
+ * Draws a layer like the absolutely positioned element of the browser composition:
+ * content-box sizing, border and background, transform around the box center.
+ */
+function drawLayer(
+	ctx: CanvasRenderingContext2D,
+	prepared: PreparedLayer,
+	transform: LayerTransform,
+	drawContent: (width: number, height: number) => void,
+) {
+	const { layer, width, height } = prepared;
+	const borderWidth = layer.borderWidth ?? 0;
+	const padding = layer.source.type === "Text" ? (layer.padding ?? 0) : 0;
+	const outerWidth = width + 2 * (borderWidth + padding);
+	const outerHeight = height + 2 * (borderWidth + padding);
+	const radius = layer.borderRadius ?? 0;
+
+	ctx.save();
+	ctx.globalAlpha = transform.opacity;
+	ctx.translate(transform.x + outerWidth / 2, transform.y + outerHeight / 2);
+	ctx.rotate((transform.rotation * Math.PI) / 180);
+	ctx.scale(transform.scale, transform.scale);
+	ctx.translate(-outerWidth / 2, -outerHeight / 2);
+
+	if (layer.backgroundColor) {
+		ctx.fillStyle = layer.backgroundColor;
+		roundedRectPath(ctx, 0, 0, outerWidth, outerHeight, radius);
+		ctx.fill();
+	}
+
+	ctx.save();
+	if (radius > 0 && layer.source.type !== "Text") {
+		roundedRectPath(
+			ctx,
+			borderWidth,
+			borderWidth,
+			outerWidth - 2 * borderWidth,
+			outerHeight - 2 * borderWidth,
+			radius - borderWidth,
+		);
+		ctx.clip();
+	}
+	ctx.translate(borderWidth + padding, borderWidth + padding);
+	drawContent(width, height);
+	ctx.restore();
+
+	if (borderWidth > 0) {
+		ctx.strokeStyle = layer.borderColor ?? "#000000";
+		ctx.lineWidth = borderWidth;
+		roundedRectPath(
+			ctx,
+			borderWidth / 2,
+			borderWidth / 2,
+			outerWidth - borderWidth,
+			outerHeight - borderWidth,
+			radius - borderWidth / 2,
+		);
+		ctx.stroke();
+	}
+
+	ctx.restore();
+}
+
+async function prepareLayer(
+	layer: VideoCompositionLayer,
+	index: number,
+	tempDir: string,
+	fps: number,
+	measureCtx: CanvasRenderingContext2D,
+): Promise<PreparedLayer | null> {
+	const { source } = layer;
+	const startFrame = layer.startFrame ?? 0;
+	const defaultDuration = fps * DEFAULT_DURATION_SEC;
+
+	if (source.type === "Text") {
+		const box = measureTextLayer(measureCtx, layer, source.text);
+		return {
+			layer,
+			startFrame,
+			durationInFrames: Math.max(1, layer.durationInFrames ?? defaultDuration),
+			width: box.width,
+			height: box.height,
+			hasAudio: false,
+		};
+	}
+
+	if (source.type === "Image") {
+		const image = await loadImage(source.buffer);
+		return {
+			layer,
+			startFrame,
+			durationInFrames: Math.max(1, layer.durationInFrames ?? defaultDuration),
+			width: layer.width || image.width,
+			height: layer.height || image.height,
+			hasAudio: false,
+			image,
+		};
+	}
+
+	const filePath = path.join(tempDir, `layer_${index}`);
+	await fs.writeFile(filePath, source.buffer);
+	const probe = await probeMedia(filePath);
+
+	// Never let a layer run longer than its media file
+	const mediaFrames = Math.floor(probe.durationSec * fps);
+	if (mediaFrames < 1) return null;
+	const durationInFrames = Math.max(
+		1,
+		Math.min(layer.durationInFrames ?? mediaFrames, mediaFrames),
+	);
+
+	const width = source.type === "Video" ? layer.width || probe.width || 0 : 0;
+	const height =
+		source.type === "Video" ? layer.height || probe.height || 0 : 0;
+
+	return {
+		layer,
+		startFrame,
+		durationInFrames,
+		width,
+		height,
+		filePath,
+		hasAudio: probe.hasAudio,
+	};
+}
+
+function buildEncoderArgs(
+	width: number,
+	height: number,
+	fps: number,
+	totalFrames: number,
+	audioLayers: PreparedLayer[],
+	outputPath: string,
+) {
+	const totalSec = totalFrames / fps;
+	const args = [
+		"-y",
+		"-v",
+		"error",
+		"-f",
+		"rawvideo",
+		"-pix_fmt",
+		"bgra",
+		"-s",
+		`${width}x${height}`,
+		"-r",
+		String(fps),
+		"-i",
+		"pipe:0",
+	];
+
+	// yuv420p needs even dimensions
+	const filters = ["[0:v]pad=ceil(iw/2)*2:ceil(ih/2)*2,format=yuv420p[vout]"];
+
+	audioLayers.forEach((prepared, i) => {
+		if (!prepared.filePath) return;
+		args.push("-i", prepared.filePath);
+
+		const delayMs = Math.round((prepared.startFrame / fps) * 1000);
+		const durationSec = prepared.durationInFrames / fps;
+		const chain = [
+			`[${i + 1}:a]aformat=sample_rates=48000:channel_layouts=stereo`,
+			`atrim=duration=${durationSec}`,
+			"asetpts=PTS-STARTPTS",
+			`volume=${prepared.layer.volume ?? 1}`,
+			`adelay=${delayMs}:all=1`,
+			`apad=whole_dur=${totalSec}`,
+		].join(",");
+		filters.push(`${chain}[a${i}]`);
+	});
+
+	if (audioLayers.length > 0) {
+		const inputs = audioLayers.map((_, i) => `[a${i}]`).join("");
+		// amix averages its inputs, scale back up to sum them like the browser does
+		filters.push(
+			`${inputs}amix=inputs=${audioLayers.length}:duration=longest:dropout_transition=0,volume=${audioLayers.length}[aout]`,
+		);
+	}
+
+	args.push("-filter_complex", filters.join(";"), "-map", "[vout]");
+	if (audioLayers.length > 0) {
+		args.push("-map", "[aout]", "-c:a", "aac", "-b:a", "192k");
+	}
+	args.push(
+		"-c:v",
+		"libx264",
+		"-preset",
+		"veryfast",
+		"-crf",
+		"20",
+		"-movflags",
+		"+faststart",
+		"-t",
+		String(totalSec),
+		outputPath,
+	);
+
+	return args;
+}
+
+/**
+ * Renders video compositor layers to an MP4 buffer.
+ * Frames are drawn with node-canvas and piped into ffmpeg,
+ * audio of video and audio layers is mixed by ffmpeg.
+ */
+export async function renderVideoComposition({
+	width,
+	height,
+	fps,
+	layers,
+	signal,
+}: RenderVideoCompositionOptions) {
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "video_compose_"));
+	const processes: ChildProcessWithoutNullStreams[] = [];
+	const killProcesses = () => {
+		for (const child of processes) {
+			if (child.exitCode === null) child.kill("SIGKILL");
+		}
+	};
+	signal.addEventListener("abort", killProcesses, { once: true });
+
+	try {
+		const canvas = createCanvas(width, height);
+		const ctx = canvas.getContext("2d");
+
+		const sortedLayers = [...layers].sort(
+			(a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0),
+		);
+		const preparedLayers: PreparedLayer[] = [];
+		for (const [index, layer] of sortedLayers.entries()) {
+			signal.throwIfAborted();
+			const prepared = await prepareLayer(layer, index, tempDir, fps, ctx);
+			if (prepared) preparedLayers.push(prepared);
+		}
+
+		if (preparedLayers.length === 0) {
+			throw new Error("Video compositor has no layers to render");
+		}
+
+		const totalFrames = Math.max(
+			1,
+			...preparedLayers.map((l) => l.startFrame + l.durationInFrames),
+		);
+
+		const visualLayers = preparedLayers.filter(
+			(l) => l.layer.source.type !== "Audio" && l.width > 0 && l.height > 0,
+		);
+		for (const prepared of visualLayers) {
+			if (prepared.layer.source.type !== "Video" || !prepared.filePath) {
+				continue;
+			}
+			const frameWidth = Math.max(1, Math.round(prepared.width));
+			const frameHeight = Math.max(1, Math.round(prepared.height));
+			prepared.frameReader = startVideoDecoder(
+				prepared.filePath,
+				frameWidth,
+				frameHeight,
+				fps,
+				prepared.durationInFrames / fps,
+			);
+			prepared.frameCanvas = createCanvas(frameWidth, frameHeight);
+			processes.push(prepared.frameReader.process);
+		}
+
+		const audioLayers = preparedLayers.filter(
+			(l) =>
+				l.hasAudio &&
+				(l.layer.source.type === "Video" || l.layer.source.type === "Audio") &&
+				(l.layer.volume ?? 1) > 0,
+		);
+
+		const outputPath = path.join(tempDir, "output.mp4");
+		const encoder = spawnFfmpeg(
+			"ffmpeg",
+			buildEncoderArgs(
+				width,
+				height,
+				fps,
+				totalFrames,
+				audioLayers,
+				outputPath,
+			),
+		);
+		processes.push(encoder.child);
+
+		for (let frame = 0; frame < totalFrames; frame++) {
+			signal.throwIfAborted();
+
+			ctx.fillStyle = BACKGROUND_COLOR;
+			ctx.fillRect(0, 0, width, height);
+
+			for (const prepared of visualLayers) {
+				const { layer, startFrame, durationInFrames } = prepared;
+				if (frame < startFrame || frame >= startFrame + durationInFrames) {
+					continue;
+				}
+
+				const transform = calculateLayerTransform(
+					layer,
+					durationInFrames,
+					frame,
+					fps,
+					{ w: width, h: height },
+				);
+
+				const { source } = layer;
+				if (source.type === "Text") {
+					drawLayer(ctx, prepared, transform, (w, h) =>
+						drawTextContent(ctx, layer, source.text, w, h),
+					);
+				} else if (source.type === "Image" && prepared.image) {
+					const image = prepared.image;
+					drawLayer(ctx, prepared, transform, (w, h) =>
+						drawImageCover(ctx, image, 0, 0, w, h),
+					);
+				} else if (prepared.frameReader && prepared.frameCanvas) {
+					const pixels = await prepared.frameReader.nextFrame();
+					if (!pixels) continue;
+
+					const frameCanvas = prepared.frameCanvas;
+					frameCanvas
+						.getContext("2d")
+						.putImageData(
+							new ImageData(
+								new Uint8ClampedArray(
+									pixels.buffer,
+									pixels.byteOffset,
+									pixels.length,
+								),
+								frameCanvas.width,
+								frameCanvas.height,
+							),
+							0,
+							0,
+						);
+					drawLayer(ctx, prepared, transform, (w, h) =>
+						ctx.drawImage(frameCanvas, 0, 0, w, h),
+					);
+				}
+			}
+
+			// Raw canvas data is BGRA on little-endian machines
+			if (!encoder.child.stdin.write(canvas.toBuffer("raw"))) {
+				await Promise.race([once(encoder.child.stdin, "drain"), encoder.done]);
+			}
+		}
+
+		encoder.child.stdin.end();
+		await encoder.done;
+		signal.throwIfAborted();
+
+		const buffer = await fs.readFile(outputPath);
+		return {
+			buffer,
+			durationMs: Math.round((totalFrames / fps) * 1000),
+		};
+	} finally {
+		signal.removeEventListener("abort", killProcesses);
+		killProcesses();
+		await fs.rm(tempDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,295 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+	IMAGEGEN_NODE_MODELS,
+	LLM_NODE_MODELS,
+	STT_NODE_MODELS,
+	TTS_NODE_MODELS,
+	TTS_VOICE_NAMES,
+	VIDEOGEN_NODE_MODELS,
+} from "@gatewai/types";
+import {
+	createPartFromUri,
+	createUserContent,
+	type Part,
+	type SpeechConfig,
+	type VideoGenerationReferenceImage,
+	VideoGenerationReferenceType,
+} from "@google/genai";
+import wav from "wav";
+import { genAI } from "../genai.js";
+import { logger } from "../logger.js";
+import type { MediaData, ModelProvider } from "./types.js";
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+
+const toInlineDataPart = (media: MediaData): Part => ({
+	inlineData: {
+		mimeType: media.mimeType,
+		data: media.data.toString("base64"),
+	},
+});
+
+// Gemini TTS returns raw 24kHz 16-bit mono PCM
+async function encodeWavBuffer(pcmBuffer: Buffer): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const writer = new wav.Writer({
+			channels: 1,
+			sampleRate: 24000,
+			bitDepth: 16,
+		});
+
+		const chunks: Buffer[] = [];
+		writer.on("data", (chunk: Buffer<ArrayBufferLike>) => chunks.push(chunk));
+		writer.on("end", () => resolve(Buffer.concat(chunks)));
+		writer.on("error", reject);
+
+		writer.write(pcmBuffer);
+		writer.end();
+	});
+}
+
+/**
+ * Gemini, Imagen and Veo models through the default `genAI` client.
+ */
+export const googleProvider: ModelProvider = {
+	id: "google",
+	label: "Google",
+	voices: [...TTS_VOICE_NAMES],
+
+	async listModels() {
+		return {
+			text: [...LLM_NODE_MODELS],
+			image: [...IMAGEGEN_NODE_MODELS],
+			video: [...VIDEOGEN_NODE_MODELS],
+			speech: [...TTS_NODE_MODELS],
+			transcription: [...STT_NODE_MODELS],
+		};
+	},
+
+	async generateText({ model, prompt, systemPrompt, images, seed, signal }) {
+		const parts: Part[] = [];
+		if (prompt) parts.push({ text: prompt });
+		parts.push(...images.map(toInlineDataPart));
+
+		const response = await genAI.models.generateContent({
+			model,
+			contents: [{ role: "user", parts }],
+			config: {
+				// Map system prompt to systemInstruction
+				systemInstruction: systemPrompt
+					? { parts: [{ text: systemPrompt }] }
+					: undefined,
+				seed,
+				abortSignal: signal,
+			},
+		});
+
+		if (!response.text) {
+			throw new Error("Unable to generate text");
+		}
+		return {
+			text: response.text,
+			totalTokens: response.usageMetadata?.totalTokenCount,
+		};
+	},
+
+	async generateImage({
+		model,
+		prompt,
+		referenceImages,
+		mask,
+		aspectRatio,
+		imageSize,
+		seed,
+		signal,
+	}) {
+		const parts: Part[] = [];
+		if (prompt) parts.push({ text: prompt });
+		parts.push(...referenceImages.map(toInlineDataPart));
+		if (mask) {
+			parts.push(
+				{
+					text: "The next image is a mask of the first image. Only change the area where the mask is transparent, keep everything else as it is.",
+				},
+				toInlineDataPart(mask),
+			);
+		}
+
+		const response = await genAI.models.generateContent({
+			model,
+			contents: [{ role: "user", parts }],
+			config: {
+				responseModalities: ["IMAGE"],
+				systemInstruction: [
+					"You are a image generator.",
+					"Your mission is to create an image whether prompt tells you to or not.",
+				],
+				imageConfig:
+					model === "gemini-3-pro-image-preview"
+						? { aspectRatio, imageSize }
+						: undefined,
+				seed,
+				abortSignal: signal,
+			},
+		});
+
+		// We look for the first part containing inlineData (the generated image)
+		const contentParts = response.candidates?.[0]?.content?.parts;
+		const imagePart = contentParts?.find((part) => part.inlineData);
+
+		if (!imagePart?.inlineData?.data) {
+			// Check if there's a text refusal/error message in the response
+			const textPart = contentParts?.find((part) => part.text)?.text;
+			if (textPart) {
+				throw new Error(`Model returned text instead of image: ${textPart}`);
+			}
+			throw new Error("No image generated");
+		}
+
+		return {
+			data: Buffer.from(imagePart.inlineData.data, "base64"),
+			mimeType: imagePart.inlineData.mimeType ?? "image/png",
+		};
+	},
+
+	async generateVideo({
+		model,
+		prompt,
+		negativePrompt,
+		referenceImages,
+		aspectRatio,
+		resolution,
+		durationSeconds,
+		signal,
+	}) {
+		const veoReferenceImages: VideoGenerationReferenceImage[] =
+			referenceImages.map((image) => ({
+				image: {
+					imageBytes: image.data.toString("base64"),
+					mimeType: image.mimeType,
+				},
+				referenceType: VideoGenerationReferenceType.ASSET,
+			}));
+		const hasReferenceImages = veoReferenceImages.length > 0;
+
+		let operation = await genAI.models.generateVideos({
+			model,
+			prompt,
+			config: {
+				// If reference image exists, only 16:9 supported
+				aspectRatio: hasReferenceImages ? "16:9" : aspectRatio,
+				referenceImages: hasReferenceImages ? veoReferenceImages : undefined,
+				numberOfVideos: 1,
+				negativePrompt,
+				personGeneration: hasReferenceImages ? "allow_adult" : "allow_all",
+				durationSeconds,
+				resolution,
+				abortSignal: signal,
+			},
+		});
+
+		while (!operation.done) {
+			logger.info("Waiting for video generation to complete...");
+			await new Promise((resolve) =>
+				setTimeout(resolve, VIDEO_POLL_INTERVAL_MS),
+			);
+			signal.throwIfAborted();
+			operation = await genAI.operations.getVideosOperation({ operation });
+		}
+
+		const video = operation.response?.generatedVideos?.[0]?.video;
+		if (!video) {
+			throw new Error("No video is generated");
+		}
+
+		// The SDK only downloads to a file
+		const folderPath = await mkdtemp(path.join(tmpdir(), "gatewai-veo-"));
+		const filePath = path.join(folderPath, "video.mp4");
+		try {
+			await genAI.files.download({ file: video, downloadPath: filePath });
+			return await readFile(filePath);
+		} finally {
+			await rm(folderPath, { recursive: true, force: true });
+		}
+	},
+
+	async generateSpeech({
+		model,
+		text,
+		languageCode,
+		voiceName,
+		speakers,
+		signal,
+	}) {
+		let speechConfig: SpeechConfig = { languageCode };
+
+		if (speakers && speakers.length > 1) {
+			speechConfig.multiSpeakerVoiceConfig = {
+				speakerVoiceConfigs: speakers.map((v) => ({
+					speaker: v.speaker,
+					voiceConfig: {
+						prebuiltVoiceConfig: { voiceName: v.voiceName },
+					},
+				})),
+			};
+		} else {
+			speechConfig = {
+				...speechConfig,
+				voiceConfig: {
+					prebuiltVoiceConfig: { voiceName },
+				},
+			};
+		}
+
+		const response = await genAI.models.generateContent({
+			model,
+			contents: [{ parts: [{ text }] }],
+			config: {
+				responseModalities: ["AUDIO"],
+				speechConfig,
+				abortSignal: signal,
+			},
+		});
+
+		const rawPcmData =
+			response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+		if (!rawPcmData) {
+			throw new Error("No audio data returned from Gemini.");
+		}
+
+		return {
+			data: await encodeWavBuffer(Buffer.from(rawPcmData, "base64")),
+			mimeType: "audio/wav",
+		};
+	},
+
+	async transcribe({ model, prompt, audio, signal }) {
+		const audioFile = await genAI.files.upload({
+			file: new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }),
+			config: { mimeType: audio.mimeType },
+		});
+
+		if (!audioFile.uri || !audioFile.mimeType) {
+			throw new Error("Uploaded audio data is corrupted.");
+		}
+
+		const response = await genAI.models.generateContent({
+			model,
+			contents: createUserContent([
+				createPartFromUri(audioFile.uri, audioFile.mimeType),
+				prompt,
+			]),
+			config: { abortSignal: signal },
+		});
+
+		if (!response.text) {
+			throw new Error("Response is empty.");
+		}
+		return {
+			text: response.text,
+			totalTokens: response.usageMetadata?.totalTokenCount,
+		};
+	},
+};
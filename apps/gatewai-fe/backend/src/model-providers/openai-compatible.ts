@@ -0,0 +1,234 @@
+import type { ModelCapability } from "@gatewai/types";
+import type { MediaData, ModelProvider } from "./types.js";
+
+export interface OpenAICompatibleProviderOptions {
+	id: string;
+	label: string;
+	// e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+	baseUrl: string;
+	apiKey?: string;
+	// Without models, text models are discovered through GET /models
+	models?: Partial<Record<ModelCapability, string[]>>;
+	// Voices of the speech models, e.g. alloy for OpenAI
+	voices?: string[];
+}
+
+// Sizes supported by gpt-image-1, closest one to the node's aspect ratio is used
+function getImageSize(aspectRatio: string) {
+	const [width, height] = aspectRatio.split(":").map(Number);
+	if (!width || !height || width === height) return "1024x1024";
+	return width > height ? "1536x1024" : "1024x1536";
+}
+
+const toDataUrl = (media: MediaData) =>
+	`data:${media.mimeType};base64,${media.data.toString("base64")}`;
+
+const toBlob = (media: MediaData) =>
+	new Blob([new Uint8Array(media.data)], { type: media.mimeType });
+
+// Servers detect the file format from the file name
+const getFileName = (name: string, media: MediaData) =>
+	`${name}.${media.mimeType.split("/")[1] ?? "bin"}`;
+
+/**
+ * Any server implementing the OpenAI HTTP API: OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio...
+ * Video generation has no OpenAI-compatible API, so it's not supported.
+ */
+export function createOpenAICompatibleProvider({
+	id,
+	label,
+	baseUrl,
+	apiKey,
+	models,
+	voices,
+}: OpenAICompatibleProviderOptions): ModelProvider {
+	const authHeaders: Record<string, string> = apiKey
+		? { Authorization: `Bearer ${apiKey}` }
+		: {};
+
+	const request = async (
+		endpoint: string,
+		init: { body: string | FormData; signal?: AbortSignal },
+	) => {
+		const response = await fetch(`${baseUrl.replace(/\/$/, "")}${endpoint}`, {
+			method: "POST",
+			headers:
+				typeof init.body === "string"
+					? { ...authHeaders, "Content-Type": "application/json" }
+					: authHeaders,
+			body: init.body,
+			signal: init.signal,
+		});
+		if (!response.ok) {
+			throw new Error(
+				`${label} request failed with status ${response.status}: ${await response.text()}`,
+			);
+		}
+		return response;
+	};
+
+	let discoveredModels: Promise<string[]> | undefined;
+	const discoverModels = async () => {
+		const response = await fetch(`${baseUrl.replace(/\/$/, "")}/models`, {
+			headers: authHeaders,
+		});
+		if (!response.ok) {
+			throw new Error(`${label} models could not be listed`);
+		}
+		const { data } = (await response.json()) as { data: { id: string }[] };
+		return data.map((m) => m.id);
+	};
+
+	return {
+		id,
+		label,
+		voices,
+
+		async listModels() {
+			if (models) return models;
+			discoveredModels ??= discoverModels().catch((error) => {
+				// Retry on the next call, the server may not be up yet
+				discoveredModels = undefined;
+				throw error;
+			});
+			return { text: await discoveredModels };
+		},
+
+		async generateText({
+			model,
+			prompt,
+			systemPrompt,
+			images,
+			temperature,
+			seed,
+			signal,
+		}) {
+			const messages = [
+				...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+				{
+					role: "user",
+					content: [
+						...(prompt ? [{ type: "text", text: prompt }] : []),
+						...images.map((image) => ({
+							type: "image_url",
+							image_url: { url: toDataUrl(image) },
+						})),
+					],
+				},
+			];
+
+			const response = await request("/chat/completions", {
+				body: JSON.stringify({ model, messages, temperature, seed }),
+				signal,
+			});
+			const completion = (await response.json()) as {
+				choices: { message: { content: string | null } }[];
+				usage?: { total_tokens?: number };
+			};
+
+			const text = completion.choices[0]?.message.content;
+			if (!text) {
+				throw new Error("Unable to generate text");
+			}
+			return { text, totalTokens: completion.usage?.total_tokens };
+		},
+
+		async generateImage({
+			model,
+			prompt,
+			referenceImages,
+			mask,
+			aspectRatio,
+			signal,
+		}) {
+			const size = getImageSize(aspectRatio);
+
+			// Reference images are only accepted by the edits endpoint
+			let response: Response;
+			if (referenceImages.length > 0) {
+				const form = new FormData();
+				form.append("model", model);
+				form.append("prompt", prompt ?? "");
+				form.append("size", size);
+				for (const [index, image] of referenceImages.entries()) {
+					form.append(
+						"image[]",
+						toBlob(image),
+						getFileName(`reference_${index}`, image),
+					);
+				}
+				if (mask) {
+					form.append("mask", toBlob(mask), getFileName("mask", mask));
+				}
+				response = await request("/images/edits", { body: form, signal });
+			} else {
+				response = await request("/images/generations", {
+					body: JSON.stringify({ model, prompt, size, n: 1 }),
+					signal,
+				});
+			}
+
+			const { data } = (await response.json()) as {
+				data: { b64_json?: string; url?: string }[];
+			};
+			const image = data[0];
+			if (image?.b64_json) {
+				return {
+					data: Buffer.from(image.b64_json, "base64"),
+					mimeType: "image/png",
+				};
+			}
+			if (image?.url) {
+				const imageResponse = await fetch(image.url, { signal });
+				return {
+					data: Buffer.from(await imageResponse.arrayBuffer()),
+					mimeType: imageResponse.headers.get("content-type") ?? "image/png",
+				};
+			}
+			throw new Error("No image generated");
+		},
+
+		async generateSpeech({ model, text, voiceName, speakers, signal }) {
+			if (speakers && speakers.length > 1) {
+				throw new Error(`${label} does not support multiple speakers`);
+			}
+			const voice = speakers?.[0]?.voiceName ?? voiceName;
+			if (!voice) {
+				throw new Error(`${label} needs a voice to generate speech`);
+			}
+			const response = await request("/audio/speech", {
+				body: JSON.stringify({
+					model,
+					input: text,
+					voice,
+					response_format: "wav",
+				}),
+				signal,
+			});
+			return {
+				data: Buffer.from(await response.arrayBuffer()),
+				mimeType: "audio/wav",
+			};
+		},
+
+		async transcribe({ model, prompt, audio, signal }) {
+			const form = new FormData();
+			form.append("model", model);
+			form.append("prompt", prompt);
+			form.append("file", toBlob(audio), getFileName("audio", audio));
+
+			const response = await request("/audio/transcriptions", {
+				body: form,
+				signal,
+			});
+			const { text, usage } = (await response.json()) as {
+				text?: string;
+				usage?: { total_tokens?: number };
+			};
+			if (!text) {
+				throw new Error("Response is empty.");
+			}
+			return { text, totalTokens: usage?.total_tokens };
+		},
+	};
+}
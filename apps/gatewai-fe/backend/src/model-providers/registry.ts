@@ -0,0 +1,112 @@
+import type { ModelProviderInfo } from "@gatewai/types";
+import { z } from "zod";
+import { ENV_CONFIG } from "../config.js";
+import { logger } from "../logger.js";
+import { assertIsError } from "../utils/misc.js";
+import { googleProvider } from "./google.js";
+import { createOpenAICompatibleProvider } from "./openai-compatible.js";
+import type { ModelProvider } from "./types.js";
+
+const modelListSchema = z.array(z.string()).optional();
+
+const OpenAICompatibleProvidersSchema = z.array(
+	z.object({
+		id: z.string().regex(/^[a-z0-9-]+$/),
+		label: z.string(),
+		baseUrl: z.string().url(),
+		apiKey: z.string().optional(),
+		models: z
+			.object({
+				text: modelListSchema,
+				image: modelListSchema,
+				speech: modelListSchema,
+				transcription: modelListSchema,
+			})
+			.optional(),
+		voices: z.array(z.string()).optional(),
+	}),
+);
+
+const providers = new Map<string, ModelProvider>();
+
+export function registerModelProvider(provider: ModelProvider) {
+	if (providers.has(provider.id)) {
+		throw new Error(`Model provider "${provider.id}" is already registered`);
+	}
+	providers.set(provider.id, provider);
+}
+
+export function getModelProvider(providerId: string): ModelProvider {
+	const provider = providers.get(providerId);
+	if (!provider) {
+		throw new Error(`Model provider "${providerId}" is not registered`);
+	}
+	return provider;
+}
+
+/**
+ * Registered providers with their models, providers that can't list models are left out.
+ */
+export async function listModelProviders(): Promise<ModelProviderInfo[]> {
+	const infos = await Promise.all(
+		[...providers.values()].map(async (provider) => {
+			try {
+				return {
+					id: provider.id,
+					label: provider.label,
+					models: await provider.listModels(),
+					voices: provider.voices,
+				};
+			} catch (err) {
+				assertIsError(err);
+				logger.warn(`Could not list models of ${provider.id}: ${err.message}`);
+				return null;
+			}
+		}),
+	);
+	return infos.filter((info) => info !== null);
+}
+
+registerModelProvider(googleProvider);
+
+if (ENV_CONFIG.OPENAI_API_KEY) {
+	registerModelProvider(
+		createOpenAICompatibleProvider({
+			id: "openai",
+			label: "OpenAI",
+			baseUrl: "https://api.openai.com/v1",
+			apiKey: ENV_CONFIG.OPENAI_API_KEY,
+			models: {
+				text: ["gpt-5", "gpt-5-mini", "gpt-4.1", "gpt-4.1-mini"],
+				image: ["gpt-image-1"],
+				speech: ["gpt-4o-mini-tts", "tts-1", "tts-1-hd"],
+				transcription: [
+					"gpt-4o-transcribe",
+					"gpt-4o-mini-transcribe",
+					"whisper-1",
+				],
+			},
+			voices: [
+				"alloy",
+				"ash",
+				"ballad",
+				"coral",
+				"echo",
+				"fable",
+				"nova",
+				"onyx",
+				"sage",
+				"shimmer",
+			],
+		}),
+	);
+}
+
+if (ENV_CONFIG.OPENAI_COMPATIBLE_PROVIDERS) {
+	const configured = OpenAICompatibleProvidersSchema.parse(
+		JSON.parse(ENV_CONFIG.OPENAI_COMPATIBLE_PROVIDERS),
+	);
+	for (const options of configured) {
+		registerModelProvider(createOpenAICompatibleProvider(options));
+	}
+}
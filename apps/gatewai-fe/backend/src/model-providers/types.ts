@@ -0,0 +1,75 @@
+import type { ModelCapability } from "@gatewai/types";
+
+export interface MediaData {
+	data: Buffer;
+	mimeType: string;
+}
+
+interface GenerationRequest {
+	model: string;
+	signal: AbortSignal;
+}
+
+export interface TextGenerationRequest extends GenerationRequest {
+	prompt?: string;
+	systemPrompt?: string;
+	images: MediaData[];
+	temperature?: number;
+	seed?: number;
+}
+
+export interface ImageGenerationRequest extends GenerationRequest {
+	prompt?: string;
+	referenceImages: MediaData[];
+	// PNG the size of the first reference image, transparent where it may change
+	mask?: MediaData;
+	aspectRatio: string;
+	imageSize: string;
+	seed?: number;
+}
+
+export interface VideoGenerationRequest extends GenerationRequest {
+	prompt: string;
+	negativePrompt?: string;
+	referenceImages: MediaData[];
+	aspectRatio: string;
+	resolution: string;
+	durationSeconds: number;
+}
+
+export interface SpeechGenerationRequest extends GenerationRequest {
+	text: string;
+	languageCode?: string;
+	voiceName?: string;
+	// Two speakers for dialogues, speaker names are the ones used in the text
+	speakers?: { speaker?: string; voiceName: string }[];
+}
+
+export interface TranscriptionRequest extends GenerationRequest {
+	prompt: string;
+	audio: MediaData;
+}
+
+export interface TextGenerationResult {
+	text: string;
+	// Input and output tokens, when the provider reports them
+	totalTokens?: number;
+}
+
+/**
+ * Backend of AI nodes. Providers implement the capabilities they support,
+ * nodes fail with a clear error when their provider lacks one.
+ */
+export interface ModelProvider {
+	id: string;
+	label: string;
+	listModels(): Promise<Partial<Record<ModelCapability, string[]>>>;
+	// Voices generateSpeech accepts, required by providers that implement it
+	voices?: string[];
+	generateText?(request: TextGenerationRequest): Promise<TextGenerationResult>;
+	generateImage?(request: ImageGenerationRequest): Promise<MediaData>;
+	// Returns an MP4 video
+	generateVideo?(request: VideoGenerationRequest): Promise<Buffer>;
+	generateSpeech?(request: SpeechGenerationRequest): Promise<MediaData>;
+	transcribe?(request: TranscriptionRequest): Promise<TextGenerationResult>;
+}
@@ -3,9 +3,10 @@ import type { FileResult } from "@gatewai/types";
 import { fileTypeFromBuffer } from "file-type";
 import sharp from "sharp";
 import { ENV_CONFIG } from "../config.js";
+import { sanitizeFilename } from "../utils/file-utils.js";
 import { getMediaDuration } from "../utils/media.js";
 import { generateId } from "../utils/misc.js";
-import { generateSignedUrl, uploadToGCS } from "../utils/storage.js";
+import { generateSignedUrl, uploadToStorage } from "../utils/storage.js";
 
 interface UploadOptions {
 	nodeId: string;
@@ -15,7 +16,7 @@ interface UploadOptions {
 }
 
 /**
- * Uploads a buffer to GCS, creates a FileAsset, and updates the Node's output handles.
+ * Uploads a buffer to storage, creates a FileAsset, and updates the Node's output handles.
  */
 export async function uploadToImportNode({
 	nodeId,
@@ -72,9 +73,9 @@ export async function uploadToImportNode({
 
 	// 4. Upload to Storage
 	const bucket = ENV_CONFIG.GCS_ASSETS_BUCKET ?? "default-bucket";
-	const key = `assets/${generateId()}-${filename}`;
+	const key = `assets/${generateId()}-${sanitizeFilename(filename)}`;
 
-	await uploadToGCS(buffer, key, contentType, bucket);
+	await uploadToStorage(buffer, key, contentType, bucket);
 
 	const expiresIn = 3600 * 24 * 6.9; // ~1 week
 	const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
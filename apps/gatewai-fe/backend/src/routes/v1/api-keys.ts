@@ -1,10 +1,79 @@
-import { prisma } from "@gatewai/db";
+import { type ApiKey, Prisma, prisma, type User } from "@gatewai/db";
+import {
+	type ApiKeyScope,
+	ApiKeyScopeSchema,
+	parseApiKeyScopes,
+} from "@gatewai/types";
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
 import { z } from "zod";
 import type { AuthorizedHonoTypes } from "../../auth.js";
+import { ENV_CONFIG } from "../../config.js";
+import { requireFullAccess } from "./auth-helpers.js";
 
+// Days API-run canvases are kept, 0 keeps them
+const retentionDaysSchema = z.number().int().min(0).max(3650);
+
+// Null scopes give full access
+const scopesSchema = z.array(ApiKeyScopeSchema).min(1).nullish();
+
+// Days until the key expires, null never expires
+const expiresInDaysSchema = z.number().int().min(1).max(3650).nullish();
+
+const generateKey = () => `gte_${crypto.randomUUID().replace(/-/g, "")}`;
+
+const getExpiresAt = (expiresInDays: number | null | undefined) =>
+	expiresInDays == null
+		? expiresInDays
+		: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Throw 400 if a run scope names a canvas the user doesn't own
+ */
+async function assertRunScopeCanvases(
+	userId: User["id"],
+	scopes: ApiKeyScope[] | null | undefined,
+) {
+	const canvasIds = (scopes ?? [])
+		.filter((scope) => scope.startsWith("run:") && scope !== "run:*")
+		.map((scope) => scope.slice("run:".length));
+	if (canvasIds.length === 0) return;
+
+	const count = await prisma.canvas.count({
+		where: { id: { in: canvasIds }, userId },
+	});
+	if (count !== new Set(canvasIds).size) {
+		throw new HTTPException(400, {
+			message: "Run scopes must name canvases you own",
+		});
+	}
+}
+
+const keySelect = {
+	id: true,
+	name: true,
+	start: true,
+	createdAt: true,
+	lastUsedAt: true,
+	expiresAt: true,
+	prefix: true,
+	permissions: true,
+	apiRunRetentionDays: true,
+	usageQuota: true,
+} as const;
+
+const toKeyResponse = ({
+	permissions,
+	...key
+}: Pick<ApiKey, keyof typeof keySelect>) => ({
+	...key,
+	scopes: parseApiKeyScopes(permissions),
+});
+
+// Scoped keys could otherwise create keys with more access
 const apiKeysRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>()
+	.use(requireFullAccess)
 	/**
 	 * GET /api/v1/api-keys
 	 * List all API keys for the user
@@ -14,17 +83,10 @@ const apiKeysRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>()
 		const keys = await prisma.apiKey.findMany({
 			where: { userId: user.id },
 			orderBy: { createdAt: "desc" },
-			select: {
-				id: true,
-				name: true,
-				start: true,
-				createdAt: true,
-				lastUsedAt: true,
-				prefix: true,
-			},
+			select: keySelect,
 		});
 
-		return c.json({ keys });
+		return c.json({ keys: keys.map(toKeyResponse) });
 	})
 	/**
 	 * POST /api/v1/api-keys
@@ -36,13 +98,18 @@ const apiKeysRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>()
 			"json",
 			z.object({
 				name: z.string().min(1).max(50).default("API Key"),
+				apiRunRetentionDays: retentionDaysSchema.nullish(),
+				scopes: scopesSchema,
+				expiresInDays: expiresInDaysSchema,
 			}),
 		),
 		async (c) => {
 			const user = c.get("user");
-			const { name } = c.req.valid("json");
+			const { name, apiRunRetentionDays, scopes, expiresInDays } =
+				c.req.valid("json");
+			await assertRunScopeCanvases(user.id, scopes);
 
-			const key = `gte_${crypto.randomUUID().replace(/-/g, "")}`;
+			const key = generateKey();
 			const newKey = await prisma.apiKey.create({
 				data: {
 					key,
@@ -50,18 +117,124 @@ const apiKeysRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>()
 					userId: user.id,
 					start: key.substring(0, 4),
 					prefix: "gte",
+					apiRunRetentionDays,
+					permissions: scopes ?? undefined,
+					expiresAt: getExpiresAt(expiresInDays),
 				},
+				select: keySelect,
 			});
 
 			return c.json(
 				{
-					key: newKey,
+					key: toKeyResponse(newKey),
 					fullKey: key, // Return full key only once
 				},
 				201,
 			);
 		},
 	)
+	/**
+	 * GET /api/v1/api-keys/retention
+	 * Retention of the user's API-run canvases, null uses the server default
+	 */
+	.get("/retention", async (c) => {
+		const user = c.get("user");
+		const { apiRunRetentionDays } = await prisma.user.findUniqueOrThrow({
+			where: { id: user.id },
+			select: { apiRunRetentionDays: true },
+		});
+
+		return c.json({
+			apiRunRetentionDays,
+			defaultRetentionDays: ENV_CONFIG.API_RUN_RETENTION_DAYS,
+		});
+	})
+	/**
+	 * PUT /api/v1/api-keys/retention
+	 * Set retention of the user's API-run canvases, keys can override it
+	 */
+	.put(
+		"/retention",
+		zValidator(
+			"json",
+			z.object({ apiRunRetentionDays: retentionDaysSchema.nullable() }),
+		),
+		async (c) => {
+			const user = c.get("user");
+			const { apiRunRetentionDays } = c.req.valid("json");
+
+			await prisma.user.update({
+				where: { id: user.id },
+				data: { apiRunRetentionDays },
+			});
+
+			return c.json({
+				apiRunRetentionDays,
+				defaultRetentionDays: ENV_CONFIG.API_RUN_RETENTION_DAYS,
+			});
+		},
+	)
+	/**
+	 * PATCH /api/v1/api-keys/:id
+	 * Update an API key, null retention uses the user's, null quota is unlimited
+	 * and null scopes give full access
+	 */
+	.patch(
+		"/:id",
+		zValidator(
+			"json",
+			z.object({
+				name: z.string().min(1).max(50).optional(),
+				apiRunRetentionDays: retentionDaysSchema.nullish(),
+				// Monthly credits, the user's quota applies as well
+				usageQuota: z.number().min(0).nullish(),
+				scopes: scopesSchema,
+				expiresInDays: expiresInDaysSchema,
+			}),
+		),
+		async (c) => {
+			const user = c.get("user");
+			const id = c.req.param("id");
+			const { scopes, expiresInDays, ...data } = c.req.valid("json");
+			await assertRunScopeCanvases(user.id, scopes);
+
+			const key = await prisma.apiKey.update({
+				where: { id, userId: user.id },
+				data: {
+					...data,
+					permissions: scopes === null ? Prisma.DbNull : scopes,
+					expiresAt: getExpiresAt(expiresInDays),
+				},
+				select: keySelect,
+			});
+
+			return c.json({ key: toKeyResponse(key) });
+		},
+	)
+	/**
+	 * POST /api/v1/api-keys/:id/rotate
+	 * Replace the secret of an API key, the old one stops working immediately
+	 */
+	.post("/:id/rotate", async (c) => {
+		const user = c.get("user");
+		const id = c.req.param("id");
+
+		const key = generateKey();
+		const rotatedKey = await prisma.apiKey.update({
+			where: { id, userId: user.id },
+			data: {
+				key,
+				start: key.substring(0, 4),
+				lastUsedAt: null,
+			},
+			select: keySelect,
+		});
+
+		return c.json({
+			key: toKeyResponse(rotatedKey),
+			fullKey: key, // Return full key only once
+		});
+	})
 	/**
 	 * DELETE /api/v1/api-keys/:id
 	 * Delete an API key (unless it's the last one)
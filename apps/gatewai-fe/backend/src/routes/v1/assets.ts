@@ -10,21 +10,22 @@ import type { AuthorizedHonoTypes } from "../../auth.js";
 import { ENV_CONFIG } from "../../config.js";
 import { logger } from "../../logger.js";
 import { uploadToImportNode } from "../../node-fns/import-media.js";
+import { sanitizeFilename } from "../../utils/file-utils.js";
 import {
 	generateImageThumbnail,
 	generateVideoThumbnail,
 } from "../../utils/media.js";
 import { assertIsError, generateId } from "../../utils/misc.js";
 import {
-	deleteFromGCS,
-	fileExistsInGCS,
+	deleteFromStorage,
+	fileExistsInStorage,
 	generateSignedUrl,
-	getFromGCS,
+	getFromStorage,
 	getObjectMetadata,
-	getStreamFromGCS,
-	uploadToGCS,
+	getStreamFromStorage,
+	uploadToStorage,
 } from "../../utils/storage.js";
-import { assertAssetOwnership } from "./auth-helpers.js";
+import { assertAssetOwnership, requireScope } from "./auth-helpers.js";
 
 const uploadSchema = z.object({
 	file: z.any(),
@@ -100,204 +101,225 @@ async function downloadFileFromUrl(url: string): Promise<{
 const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 	strict: false,
 })
-	.get("/", zValidator("query", querySchema), async (c) => {
-		const user = c.get("user");
-		const { pageSize, pageIndex, q, type } = c.req.valid("query");
-
-		const skip = pageIndex * pageSize;
-		const take = pageSize;
-
-		const where: FileAssetWhereInput = {
-			userId: user.id,
-			name: {
-				contains: q,
-				mode: "insensitive",
-			},
-		};
-
-		if (type) {
-			where.mimeType = {
-				startsWith: `${type}/`,
-			};
-		}
-
-		const [assets, total] = await Promise.all([
-			prisma.fileAsset.findMany({
-				where,
-				skip,
-				take,
-				orderBy: { createdAt: "desc" },
-			}),
-			prisma.fileAsset.count({ where }),
-		]);
-
-		return c.json({
-			assets,
-			total,
-			pageSize,
-			pageIndex,
-		});
-	})
-	.post("/", zValidator("form", uploadSchema), async (c) => {
-		const user = c.get("user");
-		const form = await c.req.formData();
-		const file = form.get("file");
-		if (!(file instanceof File)) {
-			return c.json({ error: "File is required" }, 400);
-		}
-
-		const buffer = Buffer.from(await file.arrayBuffer());
-		const fileSize = buffer.length;
-		const filename = file.name;
-		const bucket = process.env.AWS_ASSETS_BUCKET ?? "default-bucket";
-		const key = `assets/${generateId()}-${filename}`;
+	.get(
+		"/",
+		requireScope("assets:read"),
+		zValidator("query", querySchema),
+		async (c) => {
+			const user = c.get("user");
+			const { pageSize, pageIndex, q, type } = c.req.valid("query");
 
-		// Detect MIME type from buffer using file-type
-		const fileTypeResult = await fileTypeFromBuffer(buffer);
-		const contentType =
-			fileTypeResult?.mime ?? file.type ?? "application/octet-stream";
+			const skip = pageIndex * pageSize;
+			const take = pageSize;
 
-		let width: number | null = null;
-		let height: number | null = null;
+			const where: FileAssetWhereInput = {
+				userId: user.id,
+				name: {
+					contains: q,
+					mode: "insensitive",
+				},
+			};
 
-		if (contentType.startsWith("image/")) {
-			try {
-				const metadata = await sharp(buffer).metadata();
-				width = metadata.width ?? null;
-				height = metadata.height ?? null;
-			} catch (error) {
-				console.error("Failed to compute image metadata:", error);
+			if (type) {
+				where.mimeType = {
+					startsWith: `${type}/`,
+				};
 			}
-		}
 
-		try {
-			await uploadToGCS(buffer, key, contentType, bucket);
-
-			const expiresIn = 3600 * 24 * 6.9; // A bit less than a week
-			const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
-			const signedUrlExp = new Date(Date.now() + expiresIn * 1000);
-
-			const asset = await prisma.fileAsset.create({
-				data: {
-					name: filename,
-					userId: user.id,
-					bucket,
-					key,
-					isUploaded: true,
-					size: fileSize,
-					signedUrl,
-					signedUrlExp,
-					width,
-					height,
-					mimeType: contentType,
-				},
+			const [assets, total] = await Promise.all([
+				prisma.fileAsset.findMany({
+					where,
+					skip,
+					take,
+					orderBy: { createdAt: "desc" },
+				}),
+				prisma.fileAsset.count({ where }),
+			]);
+
+			return c.json({
+				assets,
+				total,
+				pageSize,
+				pageIndex,
 			});
+		},
+	)
+	.post(
+		"/",
+		requireScope("assets:write"),
+		zValidator("form", uploadSchema),
+		async (c) => {
+			const user = c.get("user");
+			const form = await c.req.formData();
+			const file = form.get("file");
+			if (!(file instanceof File)) {
+				return c.json({ error: "File is required" }, 400);
+			}
 
-			return c.json(asset);
-		} catch (error) {
-			console.error(error);
-			return c.json({ error: "Upload failed" }, 500);
-		}
-	})
-	.post("/from-url", zValidator("json", uploadFromUrlSchema), async (c) => {
-		const user = c.get("user");
-		const { url, filename: customFilename } = c.req.valid("json");
-
-		try {
-			// Download file from URL
-			const {
-				buffer,
-				filename: downloadedFilename,
-				contentType,
-			} = await downloadFileFromUrl(url);
-
+			const buffer = Buffer.from(await file.arrayBuffer());
 			const fileSize = buffer.length;
-			const filename = customFilename || downloadedFilename;
+			const filename = file.name;
 			const bucket = process.env.AWS_ASSETS_BUCKET ?? "default-bucket";
-			const key = `assets/${generateId()}-${filename}`;
+			const key = `assets/${generateId()}-${sanitizeFilename(filename)}`;
+
+			// Detect MIME type from buffer using file-type
+			const fileTypeResult = await fileTypeFromBuffer(buffer);
+			const contentType =
+				fileTypeResult?.mime ?? file.type ?? "application/octet-stream";
 
 			let width: number | null = null;
 			let height: number | null = null;
 
-			// Extract image dimensions if it's an image
 			if (contentType.startsWith("image/")) {
 				try {
 					const metadata = await sharp(buffer).metadata();
 					width = metadata.width ?? null;
 					height = metadata.height ?? null;
 				} catch (error) {
-					assertIsError(error);
-					logger.error(`Failed to compute image metadata: ${error.message}`);
+					console.error("Failed to compute image metadata:", error);
 				}
 			}
 
-			// Upload to storage
-			await uploadToGCS(buffer, key, contentType, bucket);
-
-			const expiresIn = 3600 * 24 * 6.9; // A bit less than a week
-			const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
-			const signedUrlExp = new Date(Date.now() + expiresIn * 1000);
-
-			// Create asset record in database
-			const asset = await prisma.fileAsset.create({
-				data: {
-					name: filename,
-					userId: user.id,
-					bucket,
-					key,
-					isUploaded: true,
-					size: fileSize,
-					signedUrl,
-					signedUrlExp,
-					width,
-					height,
-					mimeType: contentType,
-				},
-			});
+			try {
+				await uploadToStorage(buffer, key, contentType, bucket);
+
+				const expiresIn = 3600 * 24 * 6.9; // A bit less than a week
+				const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
+				const signedUrlExp = new Date(Date.now() + expiresIn * 1000);
+
+				const asset = await prisma.fileAsset.create({
+					data: {
+						name: filename,
+						userId: user.id,
+						bucket,
+						key,
+						isUploaded: true,
+						size: fileSize,
+						signedUrl,
+						signedUrlExp,
+						width,
+						height,
+						mimeType: contentType,
+					},
+				});
 
-			return c.json(asset);
-		} catch (error) {
-			assertIsError(error);
-			logger.error(`Upload from URL failed: ${error.message}`);
-			return c.json(
-				{
-					error: "Upload from URL failed",
-					details: error.message,
-				},
-				500,
-			);
-		}
-	})
-	.post("/node/:nodeId", zValidator("form", uploadSchema), async (c) => {
-		const { nodeId } = c.req.param();
-		const body = await c.req.parseBody();
-		const file = body.file;
-
-		// Validation: Check if it's strictly a File object (as expected from form-data)
-		if (!(file instanceof File)) {
-			return c.json({ error: "File is required" }, 400);
-		}
+				return c.json(asset);
+			} catch (error) {
+				console.error(error);
+				return c.json({ error: "Upload failed" }, 500);
+			}
+		},
+	)
+	.post(
+		"/from-url",
+		requireScope("assets:write"),
+		zValidator("json", uploadFromUrlSchema),
+		async (c) => {
+			const user = c.get("user");
+			const { url, filename: customFilename } = c.req.valid("json");
 
-		try {
-			const buffer = Buffer.from(await file.arrayBuffer());
-			const updatedNode = await uploadToImportNode({
-				nodeId,
-				buffer,
-				filename: file.name,
-				mimeType: file.type || undefined,
-			});
+			try {
+				// Download file from URL
+				const {
+					buffer,
+					filename: downloadedFilename,
+					contentType,
+				} = await downloadFileFromUrl(url);
+
+				const fileSize = buffer.length;
+				const filename = customFilename || downloadedFilename;
+				const bucket = process.env.AWS_ASSETS_BUCKET ?? "default-bucket";
+				const key = `assets/${generateId()}-${sanitizeFilename(filename)}`;
+
+				let width: number | null = null;
+				let height: number | null = null;
+
+				// Extract image dimensions if it's an image
+				if (contentType.startsWith("image/")) {
+					try {
+						const metadata = await sharp(buffer).metadata();
+						width = metadata.width ?? null;
+						height = metadata.height ?? null;
+					} catch (error) {
+						assertIsError(error);
+						logger.error(`Failed to compute image metadata: ${error.message}`);
+					}
+				}
 
-			return c.json(updatedNode);
-		} catch (error) {
-			assertIsError(error);
-			logger.error(`Node asset upload failed: ${error.message}`);
-			// Return 404 if node missing, otherwise 500
-			if (error.message.includes("not found")) {
-				return c.json({ error: error.message }, 404);
+				// Upload to storage
+				await uploadToStorage(buffer, key, contentType, bucket);
+
+				const expiresIn = 3600 * 24 * 6.9; // A bit less than a week
+				const signedUrl = await generateSignedUrl(key, bucket, expiresIn);
+				const signedUrlExp = new Date(Date.now() + expiresIn * 1000);
+
+				// Create asset record in database
+				const asset = await prisma.fileAsset.create({
+					data: {
+						name: filename,
+						userId: user.id,
+						bucket,
+						key,
+						isUploaded: true,
+						size: fileSize,
+						signedUrl,
+						signedUrlExp,
+						width,
+						height,
+						mimeType: contentType,
+					},
+				});
+
+				return c.json(asset);
+			} catch (error) {
+				assertIsError(error);
+				logger.error(`Upload from URL failed: ${error.message}`);
+				return c.json(
+					{
+						error: "Upload from URL failed",
+						details: error.message,
+					},
+					500,
+				);
 			}
-			return c.json({ error: "Upload failed" }, 500);
-		}
-	})
+		},
+	)
+	.post(
+		"/node/:nodeId",
+		requireScope("assets:write"),
+		zValidator("form", uploadSchema),
+		async (c) => {
+			const { nodeId } = c.req.param();
+			const body = await c.req.parseBody();
+			const file = body.file;
+
+			// Validation: Check if it's strictly a File object (as expected from form-data)
+			if (!(file instanceof File)) {
+				return c.json({ error: "File is required" }, 400);
+			}
+
+			try {
+				const buffer = Buffer.from(await file.arrayBuffer());
+				const updatedNode = await uploadToImportNode({
+					nodeId,
+					buffer,
+					filename: file.name,
+					mimeType: file.type || undefined,
+				});
+
+				return c.json(updatedNode);
+			} catch (error) {
+				assertIsError(error);
+				logger.error(`Node asset upload failed: ${error.message}`);
+				// Return 404 if node missing, otherwise 500
+				if (error.message.includes("not found")) {
+					return c.json({ error: error.message }, 404);
+				}
+				return c.json({ error: "Upload failed" }, 500);
+			}
+		},
+	)
+	// Media reads need no scope, runs fetch their inputs with the run's key
 	.get(
 		"/thumbnail/:id",
 		zValidator(
@@ -318,9 +340,9 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 
 			try {
 				// 2. Check Cache
-				const exists = await fileExistsInGCS(cacheKey, cacheBucket);
+				const exists = await fileExistsInStorage(cacheKey, cacheBucket);
 				if (exists) {
-					const stream = getStreamFromGCS(cacheKey, cacheBucket);
+					const stream = await getStreamFromStorage(cacheKey, cacheBucket);
 					return c.body(stream, 200, {
 						"Content-Type": "image/webp",
 						"Access-Control-Allow-Origin": "*",
@@ -352,7 +374,7 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 					);
 				} else if (asset.mimeType.startsWith("image/")) {
 					// For images, we download the buffer to process with Sharp
-					const originalBuffer = await getFromGCS(asset.key, asset.bucket);
+					const originalBuffer = await getFromStorage(asset.key, asset.bucket);
 					thumbnailBuffer = await generateImageThumbnail(
 						originalBuffer,
 						width,
@@ -363,7 +385,12 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 				}
 
 				// 5. Upload to Cache
-				await uploadToGCS(thumbnailBuffer, cacheKey, "image/webp", cacheBucket);
+				await uploadToStorage(
+					thumbnailBuffer,
+					cacheKey,
+					"image/webp",
+					cacheBucket,
+				);
 
 				// 6. Return Response
 				return c.body(thumbnailBuffer, 200, {
@@ -386,7 +413,7 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 		const rawKey = decodeURIComponent(path);
 
 		assert(rawKey);
-		const fullStream = await getFromGCS(rawKey);
+		const fullStream = await getFromStorage(rawKey);
 		const metadata = await getObjectMetadata(rawKey);
 		assert(metadata.contentType);
 
@@ -421,7 +448,10 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 			}
 
 			const chunksize = end - start + 1;
-			const stream = getStreamFromGCS(asset.key, asset.bucket, { start, end });
+			const stream = await getStreamFromStorage(asset.key, asset.bucket, {
+				start,
+				end,
+			});
 
 			return c.body(stream, 206, {
 				"Content-Range": `bytes ${start}-${end}/${fileSize}`,
@@ -433,7 +463,7 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 		}
 
 		// Full file stream
-		const fullStream = getStreamFromGCS(asset.key, asset.bucket);
+		const fullStream = await getStreamFromStorage(asset.key, asset.bucket);
 		return c.body(fullStream, {
 			headers: {
 				"Content-Type": asset.mimeType,
@@ -446,6 +476,7 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 	})
 	.delete(
 		"/:id",
+		requireScope("assets:write"),
 		zValidator("param", z.object({ id: z.string() })),
 		async (c) => {
 			const rawId = c.req.param("id");
@@ -571,11 +602,11 @@ const assetsRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 
 				// 3. Delete from Storage and DB
 				try {
-					await deleteFromGCS(asset.key, asset.bucket);
-					logger.info(`Deleted from GCS: ${asset.key}`);
+					await deleteFromStorage(asset.key, asset.bucket);
+					logger.info(`Deleted from storage: ${asset.key}`);
 				} catch (err) {
-					logger.error({ err }, `Failed to delete from GCS: ${asset.key}`);
-					// Continue to delete from DB even if GCS failed (orphan check later?)
+					logger.error({ err }, `Failed to delete from storage: ${asset.key}`);
+					// Continue to delete from DB even if storage failed (orphan check later?)
 				}
 
 				await prisma.fileAsset.delete({
@@ -1,25 +1,91 @@
-import { prisma } from "@gatewai/db";
+import { type CanvasRole, prisma } from "@gatewai/db";
+import { type ApiKeyScope, hasApiKeyScope } from "@gatewai/types";
 import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
-import type { AuthHonoTypes } from "../../auth.js";
+import type { AnyAuthHonoTypes, AuthHonoTypes } from "../../auth.js";
 
-// Using a loose Context type that works with any Hono context variant
-type UserContext = Context<{
-	Variables: AuthHonoTypes;
+// Generic over the variables, so it works with both optional and authorized user contexts
+type UserContext<V extends AnyAuthHonoTypes> = Context<{
+	Variables: V;
 }>;
 
 /**
- * Check if the request is authenticated via API key (service account mode)
+ * Check if the request is authenticated via API key
  */
-export function isApiKeyAuth(c: UserContext): boolean {
+export function isApiKeyAuth<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+): boolean {
 	return c.get("isApiKeyAuth") === true;
 }
 
+/**
+ * Scopes of the request's API key, null for sessions and full access keys
+ */
+export function getApiKeyScopes<V extends AnyAuthHonoTypes>(c: UserContext<V>) {
+	if (!isApiKeyAuth(c)) {
+		return null;
+	}
+	return c.get("apiKeyScopes") ?? null;
+}
+
+/**
+ * Throw 403 if the request's API key isn't granted the scope
+ */
+export function assertApiKeyScope<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+	scope: ApiKeyScope,
+) {
+	const scopes = getApiKeyScopes(c);
+	if (scopes && !hasApiKeyScope(scopes, scope)) {
+		throw new HTTPException(403, {
+			message: `API key is missing the "${scope}" scope`,
+		});
+	}
+}
+
+/**
+ * Middleware version of assertApiKeyScope
+ */
+export const requireScope = (scope: ApiKeyScope) =>
+	createMiddleware<{ Variables: AuthHonoTypes }>(async (c, next) => {
+		assertApiKeyScope(c, scope);
+		await next();
+	});
+
+/**
+ * Throw 403 unless the request's API key started the batch or is granted the scope
+ */
+export function assertBatchScope<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+	batch: { apiKeyId: string | null },
+	scope: ApiKeyScope,
+) {
+	if (batch.apiKeyId && batch.apiKeyId === c.get("apiKeyId")) {
+		return;
+	}
+	assertApiKeyScope(c, scope);
+}
+
+/**
+ * Reject scoped API keys, e.g. so they can't create keys with more access
+ */
+export const requireFullAccess = createMiddleware<{
+	Variables: AuthHonoTypes;
+}>(async (c, next) => {
+	if (getApiKeyScopes(c)) {
+		throw new HTTPException(403, {
+			message: "This requires a session or a full access API key",
+		});
+	}
+	await next();
+});
+
 /**
  * Get user from context or throw 401
  * API key authenticated requests will throw (use isApiKeyAuth to check first)
  */
-export function requireUser(c: UserContext) {
+export function requireUser<V extends AnyAuthHonoTypes>(c: UserContext<V>) {
 	const user = c.get("user");
 	if (!user) {
 		throw new HTTPException(401, { message: "Unauthorized" });
@@ -30,7 +96,7 @@ export function requireUser(c: UserContext) {
 /**
  * Get user from context if available, or null if API key auth
  */
-export function getUserOrNull(c: UserContext) {
+export function getUserOrNull<V extends AnyAuthHonoTypes>(c: UserContext<V>) {
 	if (isApiKeyAuth(c)) {
 		return null;
 	}
@@ -39,20 +105,12 @@ export function getUserOrNull(c: UserContext) {
 
 /**
  * Assert that user owns the canvas (not just has share access)
- * API key auth bypasses ownership checks
+ * API keys act as their owner
  */
-export async function assertCanvasOwnership(c: UserContext, canvasId: string) {
-	// API key auth bypasses ownership checks (service account mode)
-	if (isApiKeyAuth(c)) {
-		const canvas = await prisma.canvas.findFirst({
-			where: { id: canvasId },
-		});
-		if (!canvas) {
-			throw new HTTPException(404, { message: "Canvas not found" });
-		}
-		return canvas;
-	}
-
+export async function assertCanvasOwnership<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+	canvasId: string,
+) {
 	const user = requireUser(c);
 
 	const canvas = await prisma.canvas.findFirst({
@@ -66,22 +124,53 @@ export async function assertCanvasOwnership(c: UserContext, canvasId: string) {
 	return canvas;
 }
 
+// Roles that include each role, e.g. editors can run and view
+const ROLES_INCLUDING: Record<CanvasRole, CanvasRole[]> = {
+	VIEWER: ["VIEWER", "RUNNER", "EDITOR"],
+	RUNNER: ["RUNNER", "EDITOR"],
+	EDITOR: ["EDITOR"],
+};
+
 /**
- * Assert user owns the asset
- * API key auth bypasses ownership checks
+ * Assert that user owns the canvas or is a member with at least `role`
+ * API keys act as their owner
  */
-export async function assertAssetOwnership(c: UserContext, assetId: string) {
-	// API key auth bypasses ownership checks (service account mode)
-	if (isApiKeyAuth(c)) {
-		const asset = await prisma.fileAsset.findFirst({
-			where: { id: assetId },
-		});
-		if (!asset) {
-			throw new HTTPException(404, { message: "Asset not found" });
-		}
-		return asset;
+export async function assertCanvasAccess<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+	canvasId: string,
+	role: CanvasRole,
+) {
+	const user = requireUser(c);
+
+	const canvas = await prisma.canvas.findFirst({
+		where: {
+			id: canvasId,
+			OR: [
+				{ userId: user.id },
+				{
+					members: {
+						some: { userId: user.id, role: { in: ROLES_INCLUDING[role] } },
+					},
+				},
+			],
+		},
+	});
+
+	if (!canvas) {
+		throw new HTTPException(404, { message: "Canvas not found" });
 	}
 
+	return canvas;
+}
+
+/**
+ * Assert user owns the asset
+ * API keys act as their owner
+ */
+export async function assertAssetOwnership<V extends AnyAuthHonoTypes>(
+	c: UserContext<V>,
+	assetId: string,
+) {
 	const user = requireUser(c);
 
 	const asset = await prisma.fileAsset.findFirst({
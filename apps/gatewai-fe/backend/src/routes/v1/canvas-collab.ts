@@ -0,0 +1,107 @@
+import {
+	CollabClientMessageSchema,
+	type CollabServerMessage,
+	type CollabUser,
+	hasApiKeyScope,
+} from "@gatewai/types";
+import { Hono } from "hono";
+import type { AuthHonoTypes } from "../../auth.js";
+import { getCanvasRole } from "../../data-ops/canvas-members.js";
+import {
+	getCanvasCollabChannel,
+	publishCollabMessage,
+} from "../../lib/canvas-collab.js";
+import { upgradeWebSocket } from "../../lib/node-ws.js";
+import { subscribeToChannel } from "../../lib/redis-channels.js";
+import { logger } from "../../logger.js";
+import { assertIsError, generateId } from "../../utils/misc.js";
+import {
+	assertCanvasAccess,
+	getApiKeyScopes,
+	requireScope,
+	requireUser,
+} from "./auth-helpers.js";
+
+/**
+ * Relays edits and presence between everyone who has the canvas open.
+ * Edits are only relayed here, clients save them with `POST /canvas/:id/ops`.
+ */
+const canvasCollabRoutes = new Hono<{ Variables: AuthHonoTypes }>().get(
+	"/:id/collab",
+	requireScope("canvas:read"),
+	upgradeWebSocket(async (c) => {
+		const canvasId = c.req.param("id") as string;
+		const user = requireUser(c);
+		const canvas = await assertCanvasAccess(c, canvasId, "VIEWER");
+		const scopes = getApiKeyScopes(c);
+		const canEdit =
+			(await getCanvasRole(canvas, user.id)) === "EDITOR" &&
+			(!scopes || hasApiKeyScope(scopes, "canvas:write"));
+
+		const clientId = generateId();
+		const collabUser: CollabUser = { id: user.id, name: user.name };
+		const channel = getCanvasCollabChannel(canvasId);
+		let subscription: Promise<() => Promise<void>> | null = null;
+
+		const publish = async (message: CollabServerMessage) => {
+			try {
+				await publishCollabMessage(canvasId, message);
+			} catch (e) {
+				assertIsError(e);
+				logger.warn(`Could not publish to ${channel}: ${e.message}`);
+			}
+		};
+
+		return {
+			onOpen: async (_event, ws) => {
+				subscription = subscribeToChannel(channel, (msg) => {
+					const message = JSON.parse(msg) as CollabServerMessage;
+					// Clients already applied their own messages
+					if ("clientId" in message && message.clientId === clientId) return;
+					ws.send(msg);
+				});
+				await subscription;
+
+				const welcome: CollabServerMessage = {
+					type: "welcome",
+					clientId,
+					canEdit,
+				};
+				ws.send(JSON.stringify(welcome));
+				await publish({ type: "join", clientId, user: collabUser });
+			},
+			onMessage: async (event) => {
+				let data: unknown;
+				try {
+					data = JSON.parse(String(event.data));
+				} catch {
+					return;
+				}
+				const parsed = CollabClientMessageSchema.safeParse(data);
+				if (!parsed.success) return;
+
+				const message = parsed.data;
+				if (message.type === "ops") {
+					// Viewers and runners only see the edits of others
+					if (!canEdit) return;
+					await publish({ type: "ops", clientId, ops: message.ops });
+				} else {
+					await publish({
+						type: "presence",
+						clientId,
+						user: collabUser,
+						cursor: message.cursor,
+						selectedNodeIds: message.selectedNodeIds,
+					});
+				}
+			},
+			onClose: async () => {
+				await publish({ type: "leave", clientId });
+				const unsubscribe = await subscription;
+				await unsubscribe?.();
+			},
+		};
+	}),
+);
+
+export { canvasCollabRoutes };
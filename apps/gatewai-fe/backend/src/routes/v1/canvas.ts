@@ -1,8 +1,10 @@
-import { prisma } from "@gatewai/db";
+import { CanvasRole, Prisma, prisma } from "@gatewai/db";
 import {
 	agentBulkUpdateSchema,
 	type BulkUpdatePayload,
 	bulkUpdateSchema,
+	CanvasOpsSchema,
+	canvasExportSchema,
 	processSchema,
 } from "@gatewai/types";
 import { zValidator } from "@hono/zod-validator";
@@ -14,14 +16,33 @@ import z from "zod";
 import { AgentRunnerManager } from "../../agent/runner/runner-manager.js";
 import type { AuthHonoTypes } from "../../auth.js";
 import { GetCanvasEntities } from "../../data-ops/canvas.js";
-import { applyCanvasUpdate } from "../../data-ops/canvas-update.js";
+import { exportCanvas, importCanvas } from "../../data-ops/canvas-export.js";
+import {
+	getCanvasMembers,
+	getSharedCanvases,
+	inviteCanvasMember,
+	removeCanvasMember,
+	updateCanvasMember,
+} from "../../data-ops/canvas-members.js";
+import {
+	applyCanvasOps,
+	applyCanvasUpdate,
+} from "../../data-ops/canvas-update.js";
+import { getCanvasVersions } from "../../data-ops/canvas-versions.js";
+import { WebhookUrlSchema } from "../../data-ops/schemas.js";
+import { getCanvasInterface } from "../../data-ops/sub-canvas.js";
 import { NodeWFProcessor } from "../../graph-engine/canvas-workflow-processor.js";
+import { publishCanvasReload } from "../../lib/canvas-collab.js";
 import { redisSubscriber } from "../../lib/redis.js";
+import { assertPublicWebhookUrl } from "../../lib/webhook-url.js";
 import { logger } from "../../logger.js";
 import { assertIsError } from "../../utils/misc.js";
 import {
+	assertApiKeyScope,
+	assertCanvasAccess,
 	assertCanvasOwnership,
-	isApiKeyAuth,
+	getUserOrNull,
+	requireScope,
 	requireUser,
 } from "./auth-helpers.js";
 
@@ -29,11 +50,18 @@ const createPatchQuerySchema = z.object({
 	agentSessionId: z.string().optional(),
 });
 
+const canvasRoleSchema = z.enum([
+	CanvasRole.VIEWER,
+	CanvasRole.RUNNER,
+	CanvasRole.EDITOR,
+]);
+
 const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 	strict: false,
 })
 	.get(
 		"/",
+		requireScope("canvas:read"),
 		zValidator(
 			"query",
 			z.object({
@@ -43,38 +71,6 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 		async (c) => {
 			const { q } = c.req.valid("query");
 
-			// API key auth (service account) gets all non-API canvases
-			if (isApiKeyAuth(c)) {
-				const canvases = await prisma.canvas.findMany({
-					where: {
-						isAPICanvas: false,
-						...(q
-							? {
-									name: {
-										contains: q,
-										mode: "insensitive",
-									},
-								}
-							: {}),
-					},
-					orderBy: {
-						updatedAt: "desc",
-					},
-					select: {
-						id: true,
-						name: true,
-						createdAt: true,
-						updatedAt: true,
-						_count: {
-							select: {
-								nodes: true,
-							},
-						},
-					},
-				});
-				return c.json(canvases);
-			}
-
 			const user = requireUser(c);
 
 			// Get owned canvases
@@ -110,19 +106,7 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			return c.json(ownedCanvases);
 		},
 	)
-	.post("/", async (c) => {
-		// API key auth creates canvas without owner
-		if (isApiKeyAuth(c)) {
-			const canvasCount = await prisma.canvas.count();
-			const canvas = await prisma.canvas.create({
-				data: {
-					name: `Canvas ${canvasCount + 1}`,
-					// userId is null for service account created canvases
-				},
-			});
-			return c.json(canvas, 201);
-		}
-
+	.post("/", requireScope("canvas:write"), async (c) => {
 		const user = requireUser(c);
 		const canvasCount = await prisma.canvas.count({
 			where: { userId: user.id },
@@ -136,15 +120,74 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 
 		return c.json(canvas, 201);
 	})
-	.get("/:id", async (c) => {
+	/**
+	 * POST /api/v1/canvas/import
+	 *
+	 * Creates a canvas from a document of GET /api/v1/canvas/:id/export,
+	 * e.g. one exported from another instance.
+	 */
+	.post(
+		"/import",
+		requireScope("canvas:write"),
+		zValidator("json", canvasExportSchema),
+		async (c) => {
+			const document = c.req.valid("json");
+			const user = requireUser(c);
+
+			const canvas = await importCanvas(document, user.id);
+			return c.json(canvas, 201);
+		},
+	)
+	/**
+	 * GET /api/v1/canvas/published
+	 *
+	 * Published canvases that can be added to other canvases as SubCanvas nodes,
+	 * with the inputs and outputs they expose.
+	 */
+	.get("/published", requireScope("canvas:read"), async (c) => {
+		const canvases = await prisma.canvas.findMany({
+			where: {
+				isPublished: true,
+				isAPICanvas: false,
+				userId: requireUser(c).id,
+			},
+			orderBy: { name: "asc" },
+			select: { id: true, name: true, description: true },
+		});
+
+		const published = await Promise.all(
+			canvases.map(async (canvas) => ({
+				...canvas,
+				...(await getCanvasInterface(canvas.id)),
+			})),
+		);
+		return c.json(published);
+	})
+	/**
+	 * GET /api/v1/canvas/shared
+	 *
+	 * Canvases other users shared with the user, with the user's role.
+	 */
+	.get(
+		"/shared",
+		requireScope("canvas:read"),
+		zValidator("query", z.object({ q: z.string().optional() })),
+		async (c) => {
+			const { q } = c.req.valid("query");
+			const user = requireUser(c);
+			return c.json(await getSharedCanvases(user.id, q));
+		},
+	)
+	.get("/:id", requireScope("canvas:read"), async (c) => {
 		const id = c.req.param("id");
-		// Validate user has access (owner)
-		await assertCanvasOwnership(c, id);
+		// Validate user has access (owner or member)
+		await assertCanvasAccess(c, id, "VIEWER");
 		const response = await GetCanvasEntities(id);
 		return c.json(response);
 	})
 	.patch(
 		"/:id/update-name",
+		requireScope("canvas:write"),
 		zValidator(
 			"json",
 			z.object({
@@ -155,8 +198,8 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			const validated = c.req.valid("json");
 			const id = c.req.param("id");
 
-			// Only owners can rename
-			await assertCanvasOwnership(c, id);
+			// Owners and editors can rename
+			await assertCanvasAccess(c, id, "EDITOR");
 
 			const canvas = await prisma.canvas.update({
 				where: { id },
@@ -166,35 +209,126 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			return c.json(canvas, 201);
 		},
 	)
-	.patch("/:id", zValidator("json", bulkUpdateSchema), async (c) => {
-		const id = c.req.param("id");
-		const validated = c.req.valid("json");
+	.patch(
+		"/:id/publish",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			z.object({
+				isPublished: z.boolean(),
+			}),
+		),
+		async (c) => {
+			const { isPublished } = c.req.valid("json");
+			const id = c.req.param("id");
 
-		// Only owners can update canvas
-		await assertCanvasOwnership(c, id);
+			// Only owners can publish
+			await assertCanvasOwnership(c, id);
 
-		try {
-			await applyCanvasUpdate(id, validated);
-		} catch (error) {
-			assertIsError(error);
-			logger.error(`Canvas Bulk Update Failed: ${error.message}`);
-			throw new HTTPException(500, {
-				message: "Failed to save canvas updates.",
+			const canvas = await prisma.canvas.update({
+				where: { id },
+				data: { isPublished },
 			});
-		}
 
-		const response = await GetCanvasEntities(id);
-		return c.json(response);
-	})
+			return c.json(canvas, 201);
+		},
+	)
+	/**
+	 * PUT /api/v1/canvas/:id/webhook
+	 *
+	 * Webhook that receives results of API and scheduled runs of this canvas.
+	 * Null values remove it.
+	 */
+	.put(
+		"/:id/webhook",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			z.object({
+				webhookUrl: WebhookUrlSchema.nullable(),
+				webhookSecret: z.string().min(16).nullable(),
+			}),
+		),
+		async (c) => {
+			const { webhookUrl, webhookSecret } = c.req.valid("json");
+			const id = c.req.param("id");
+
+			await assertCanvasOwnership(c, id);
+			if (webhookUrl) {
+				await assertPublicWebhookUrl(webhookUrl);
+			}
+
+			const canvas = await prisma.canvas.update({
+				where: { id },
+				data: { webhookUrl, webhookSecret: webhookUrl ? webhookSecret : null },
+				select: { id: true, webhookUrl: true },
+			});
+
+			return c.json(canvas);
+		},
+	)
+	.patch(
+		"/:id",
+		requireScope("canvas:write"),
+		zValidator("json", bulkUpdateSchema),
+		async (c) => {
+			const id = c.req.param("id");
+			const validated = c.req.valid("json");
+
+			// Owners and editors can update canvas
+			await assertCanvasAccess(c, id, "EDITOR");
+
+			try {
+				await applyCanvasUpdate(id, validated, {
+					userId: getUserOrNull(c)?.id,
+				});
+			} catch (error) {
+				assertIsError(error);
+				logger.error(`Canvas Bulk Update Failed: ${error.message}`);
+				throw new HTTPException(500, {
+					message: "Failed to save canvas updates.",
+				});
+			}
+			await publishCanvasReload(id);
+
+			const response = await GetCanvasEntities(id);
+			return c.json(response);
+		},
+	)
+	.post(
+		"/:id/ops",
+		requireScope("canvas:write"),
+		zValidator("json", CanvasOpsSchema),
+		async (c) => {
+			const id = c.req.param("id");
+			const { ops } = c.req.valid("json");
+
+			// Owners and editors can update canvas
+			await assertCanvasAccess(c, id, "EDITOR");
+
+			try {
+				await applyCanvasOps(id, ops, getUserOrNull(c)?.id);
+			} catch (error) {
+				assertIsError(error);
+				logger.error(`Canvas Ops Failed: ${error.message}`);
+				throw new HTTPException(500, {
+					message: "Failed to save canvas updates.",
+				});
+			}
+
+			return c.json({ success: true });
+		},
+	)
 	.post(
 		"/:id/patches",
+		requireScope("canvas:write"),
 		zValidator("json", agentBulkUpdateSchema),
 		zValidator("query", createPatchQuerySchema),
 		async (c) => {
 			const id = c.req.param("id");
-			// Validate permission: Owner access required to propose patch
-			// (Agents using API key will bypass this due to auth-helpers change)
-			await assertCanvasOwnership(c, id);
+			// Validate permission: Editor access required to propose patch
+			// Agents use the API key of the user who started them, so the same applies
+			await assertCanvasAccess(c, id, "EDITOR");
 
 			try {
 				const { agentSessionId } = c.req.valid("query");
@@ -246,32 +380,87 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			}
 		},
 	)
-	.post("/:id/patches/:patchId/apply", async (c) => {
-		const id = c.req.param("id");
-		const patchId = c.req.param("patchId");
+	.post(
+		"/:id/patches/:patchId/apply",
+		requireScope("canvas:write"),
+		async (c) => {
+			const id = c.req.param("id");
+			const patchId = c.req.param("patchId");
 
-		// Validate permission: Owner access required to apply patch
-		await assertCanvasOwnership(c, id);
+			// Validate permission: Editor access required to apply patch
+			await assertCanvasAccess(c, id, "EDITOR");
 
-		const patch = await prisma.canvasPatch.findUnique({
-			where: { id: patchId },
-		});
+			const patch = await prisma.canvasPatch.findUnique({
+				where: { id: patchId },
+			});
 
-		if (!patch || patch.canvasId !== id) {
-			throw new HTTPException(404, { message: "Patch not found" });
-		}
+			if (!patch || patch.canvasId !== id) {
+				throw new HTTPException(404, { message: "Patch not found" });
+			}
 
-		if (patch.status !== "PENDING") {
-			throw new HTTPException(400, { message: "Patch is not pending" });
-		}
+			if (patch.status !== "PENDING") {
+				throw new HTTPException(400, { message: "Patch is not pending" });
+			}
+
+			try {
+				await applyCanvasUpdate(
+					id,
+					patch.patch as unknown as BulkUpdatePayload,
+					{ reason: "PATCH", userId: getUserOrNull(c)?.id },
+				);
+				await prisma.canvasPatch.update({
+					where: { id: patchId },
+					data: { status: "ACCEPTED" },
+				});
+
+				if (patch.agentSessionId) {
+					await prisma.event.create({
+						data: {
+							agentSessionId: patch.agentSessionId,
+							eventType: "patch_action",
+							role: "USER",
+							content: {
+								action: "ACCEPTED",
+								patchId: patch.id,
+								text: "User accepted the proposed changes.",
+							},
+						},
+					});
+				}
+			} catch (error) {
+				console.error("Failed to apply patch:", error);
+				throw new HTTPException(500, { message: "Failed to apply patch" });
+			}
+			await publishCanvasReload(id);
+
+			const response = await GetCanvasEntities(id);
+			return c.json(response);
+		},
+	)
+	.post(
+		"/:id/patches/:patchId/reject",
+		requireScope("canvas:write"),
+		async (c) => {
+			const id = c.req.param("id");
+			const patchId = c.req.param("patchId");
+
+			// Validate permission: Editor access required to reject patch
+			await assertCanvasAccess(c, id, "EDITOR");
+
+			const patch = await prisma.canvasPatch.findUnique({
+				where: { id: patchId },
+			});
+
+			if (!patch || patch.canvasId !== id) {
+				throw new HTTPException(404, { message: "Patch not found" });
+			}
 
-		try {
-			await applyCanvasUpdate(id, patch.patch as unknown as BulkUpdatePayload);
 			await prisma.canvasPatch.update({
 				where: { id: patchId },
-				data: { status: "ACCEPTED" },
+				data: { status: "REJECTED" },
 			});
 
+			// Log event if session exists
 			if (patch.agentSessionId) {
 				await prisma.event.create({
 					data: {
@@ -279,27 +468,23 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 						eventType: "patch_action",
 						role: "USER",
 						content: {
-							action: "ACCEPTED",
+							action: "REJECTED",
 							patchId: patch.id,
-							text: "User accepted the proposed changes.",
+							text: "User rejected the proposed changes.",
 						},
 					},
 				});
 			}
-		} catch (error) {
-			console.error("Failed to apply patch:", error);
-			throw new HTTPException(500, { message: "Failed to apply patch" });
-		}
 
-		const response = await GetCanvasEntities(id);
-		return c.json(response);
-	})
-	.post("/:id/patches/:patchId/reject", async (c) => {
+			return c.json({ success: true });
+		},
+	)
+	.get("/:id/patches/:patchId", requireScope("canvas:read"), async (c) => {
 		const id = c.req.param("id");
 		const patchId = c.req.param("patchId");
 
-		// Validate permission: Owner access required to reject patch
-		await assertCanvasOwnership(c, id);
+		// Validate permission: Viewer access required to view patch
+		await assertCanvasAccess(c, id, "VIEWER");
 
 		const patch = await prisma.canvasPatch.findUnique({
 			where: { id: patchId },
@@ -309,47 +494,100 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			throw new HTTPException(404, { message: "Patch not found" });
 		}
 
-		await prisma.canvasPatch.update({
-			where: { id: patchId },
-			data: { status: "REJECTED" },
-		});
+		return c.json(patch);
+	})
+	/**
+	 * GET /api/v1/canvas/:id/export
+	 *
+	 * Portable JSON document of the canvas, with its assets when `assets=true`.
+	 */
+	.get(
+		"/:id/export",
+		requireScope("canvas:read"),
+		zValidator(
+			"query",
+			z.object({
+				assets: z.enum(["true", "false"]).optional(),
+			}),
+		),
+		async (c) => {
+			const id = c.req.param("id");
+			const { assets } = c.req.valid("query");
 
-		// Log event if session exists
-		if (patch.agentSessionId) {
-			await prisma.event.create({
-				data: {
-					agentSessionId: patch.agentSessionId,
-					eventType: "patch_action",
-					role: "USER",
-					content: {
-						action: "REJECTED",
-						patchId: patch.id,
-						text: "User rejected the proposed changes.",
-					},
-				},
-			});
-		}
+			await assertCanvasAccess(c, id, "VIEWER");
 
-		return c.json({ success: true });
+			const document = await exportCanvas(id, assets === "true");
+			const filename = `${document.canvas.name.replace(/[^\w.-]+/g, "_")}.gatewai.json`;
+			c.header("Content-Disposition", `attachment; filename="${filename}"`);
+			return c.json(document);
+		},
+	)
+	.get("/:id/versions", requireScope("canvas:read"), async (c) => {
+		const id = c.req.param("id");
+
+		await assertCanvasAccess(c, id, "VIEWER");
+
+		return c.json(await getCanvasVersions(id));
 	})
-	.get("/:id/patches/:patchId", async (c) => {
+	.get("/:id/versions/:versionId", requireScope("canvas:read"), async (c) => {
 		const id = c.req.param("id");
-		const patchId = c.req.param("patchId");
+		const versionId = c.req.param("versionId");
 
-		// Validate permission: Owner access required to view patch
-		await assertCanvasOwnership(c, id);
+		await assertCanvasAccess(c, id, "VIEWER");
 
-		const patch = await prisma.canvasPatch.findUnique({
-			where: { id: patchId },
+		const version = await prisma.canvasVersion.findUnique({
+			where: { id: versionId },
 		});
 
-		if (!patch || patch.canvasId !== id) {
-			throw new HTTPException(404, { message: "Patch not found" });
+		if (!version || version.canvasId !== id) {
+			throw new HTTPException(404, { message: "Version not found" });
 		}
 
-		return c.json(patch);
+		return c.json(version);
 	})
-	.delete("/:id", async (c) => {
+	/**
+	 * POST /api/v1/canvas/:id/versions/:versionId/restore
+	 *
+	 * Replaces the canvas with the snapshot, which is recorded as a new version.
+	 */
+	.post(
+		"/:id/versions/:versionId/restore",
+		requireScope("canvas:write"),
+		async (c) => {
+			const id = c.req.param("id");
+			const versionId = c.req.param("versionId");
+
+			// Owners and editors can restore
+			await assertCanvasAccess(c, id, "EDITOR");
+
+			const version = await prisma.canvasVersion.findUnique({
+				where: { id: versionId },
+			});
+
+			if (!version || version.canvasId !== id) {
+				throw new HTTPException(404, { message: "Version not found" });
+			}
+
+			try {
+				await applyCanvasUpdate(
+					id,
+					version.snapshot as unknown as BulkUpdatePayload,
+					{ reason: "RESTORE", userId: getUserOrNull(c)?.id },
+				);
+			} catch (error) {
+				assertIsError(error);
+				logger.error(`Canvas Version Restore Failed: ${error.message}`);
+				throw new HTTPException(500, {
+					message: "Failed to restore canvas version.",
+				});
+			}
+			await publishCanvasReload(id);
+
+			const response = await GetCanvasEntities(id);
+			return c.json(response);
+		},
+	)
+	.delete("/:id", requireScope("canvas:write"), async (c) => {
 		const id = c.req.param("id");
 
 		// Only owners can delete canvases
@@ -370,12 +608,12 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 		await prisma.canvas.delete({ where: { id } });
 		return c.json({ success: true });
 	})
-	.post("/:id/duplicate", async (c) => {
+	.post("/:id/duplicate", requireScope("canvas:write"), async (c) => {
 		const id = c.req.param("id");
 		const user = requireUser(c);
 
-		// User needs access to duplicate
-		await assertCanvasOwnership(c, id);
+		// User needs access to duplicate, the copy is theirs
+		await assertCanvasAccess(c, id, "VIEWER");
 
 		const original = await prisma.canvas.findFirst({
 			where: { id },
@@ -500,6 +738,8 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 		const canvasId = c.req.param("id");
 		const validated = c.req.valid("json");
 		const user = c.get("user");
+		assertApiKeyScope(c, `run:${canvasId}`);
+		await assertCanvasAccess(c, canvasId, "RUNNER");
 
 		let apiKey = c.req.header("x-api-key");
 		if (!apiKey && user) {
@@ -517,12 +757,75 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			canvasId,
 			validated.node_ids,
 			apiKey,
+			// Runs requested with a key count towards its quota
+			{ apiKeyId: c.get("apiKeyId") },
 		);
 
 		return c.json(taskBatch, 201);
 	})
-	.get("/:id/agent/sessions", async (c) => {
+	/**
+	 * GET /api/v1/canvas/:id/members
+	 *
+	 * Owner and members of the canvas, visible to every member.
+	 */
+	.get("/:id/members", requireScope("canvas:read"), async (c) => {
+		const id = c.req.param("id");
+		const canvas = await assertCanvasAccess(c, id, "VIEWER");
+		const user = c.get("user");
+
+		return c.json({
+			...(await getCanvasMembers(id)),
+			isOwner: canvas.userId === user?.id,
+		});
+	})
+	/**
+	 * POST /api/v1/canvas/:id/members
+	 *
+	 * Shares the canvas by email, users without an account get access when they sign up.
+	 */
+	.post(
+		"/:id/members",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			z.object({
+				email: z.string().email(),
+				role: canvasRoleSchema,
+			}),
+		),
+		async (c) => {
+			const { email, role } = c.req.valid("json");
+			// Only owners can share
+			const canvas = await assertCanvasOwnership(c, c.req.param("id"));
+
+			const member = await inviteCanvasMember(canvas, email, role);
+			return c.json(member, 201);
+		},
+	)
+	.patch(
+		"/:id/members/:memberId",
+		requireScope("canvas:write"),
+		zValidator("json", z.object({ role: canvasRoleSchema })),
+		async (c) => {
+			const { role } = c.req.valid("json");
+			const { id, memberId } = c.req.param();
+			await assertCanvasOwnership(c, id);
+
+			await updateCanvasMember(id, memberId, role);
+			return c.json({ success: true });
+		},
+	)
+	.delete("/:id/members/:memberId", requireScope("canvas:write"), async (c) => {
+		const { id, memberId } = c.req.param();
+		const user = requireUser(c);
+		const canvas = await assertCanvasAccess(c, id, "VIEWER");
+
+		await removeCanvasMember(canvas, memberId, user.id);
+		return c.json({ success: true });
+	})
+	.get("/:id/agent/sessions", requireScope("agent"), async (c) => {
 		const canvasId = c.req.param("id");
+		await assertCanvasAccess(c, canvasId, "VIEWER");
 		const agentSessions = await prisma.agentSession.findMany({
 			where: { canvasId },
 			orderBy: { createdAt: "desc" },
@@ -559,8 +862,10 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 
 		return c.json(sessionsWithPreview);
 	})
-	.post("/:id/agent/sessions", async (c) => {
+	.post("/:id/agent/sessions", requireScope("agent"), async (c) => {
 		const canvasId = c.req.param("id");
+		// The agent edits the canvas
+		await assertCanvasAccess(c, canvasId, "EDITOR");
 
 		// 1. Check for an existing session on this canvas that has no events
 		const existingEmptySession = await prisma.agentSession.findFirst({
@@ -592,6 +897,7 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 	})
 	.post(
 		"/:id/agent/:sessionId",
+		requireScope("agent"),
 		zValidator(
 			"json",
 			z.object({
@@ -603,6 +909,7 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			const canvasId = c.req.param("id");
 			const sessionId = c.req.param("sessionId");
 			const { message, model } = c.req.valid("json");
+			await assertCanvasAccess(c, canvasId, "EDITOR");
 
 			// 1. Ensure Session exists and is ACTIVE
 			await prisma.agentSession.upsert({
@@ -638,8 +945,13 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			// This ensures the Agent uses a stable API Key identity even if the request came via Cookie
 			const user = c.get("user");
 			if (user && !apiKeyHeader) {
+				// Scoped or expired keys would fail the agent's requests
 				const userKey = await prisma.apiKey.findFirst({
-					where: { userId: user.id },
+					where: {
+						userId: user.id,
+						permissions: { equals: Prisma.DbNull },
+						OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+					},
 					orderBy: { createdAt: "asc" }, // Assuming the first key created is the default one
 				});
 
@@ -702,13 +1014,15 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			});
 		},
 	)
-	.post("/:id/agent/:sessionId/stop", async (c) => {
+	.post("/:id/agent/:sessionId/stop", requireScope("agent"), async (c) => {
 		const sessionId = c.req.param("sessionId");
+		await assertCanvasAccess(c, c.req.param("id"), "EDITOR");
 		const stopped = await AgentRunnerManager.stop(sessionId);
 		return c.json({ success: stopped });
 	})
-	.get("/:id/agent/:sessionId/stream", async (c) => {
+	.get("/:id/agent/:sessionId/stream", requireScope("agent"), async (c) => {
 		const sessionId = c.req.param("sessionId");
+		await assertCanvasAccess(c, c.req.param("id"), "VIEWER");
 
 		c.header("X-Accel-Buffering", "no");
 		c.header("Cache-Control", "no-cache");
@@ -751,9 +1065,10 @@ const canvasRoutes = new Hono<{ Variables: AuthHonoTypes }>({
 			await subscriber.quit();
 		});
 	})
-	.get("/:id/agent/:sessionId", async (c) => {
+	.get("/:id/agent/:sessionId", requireScope("agent"), async (c) => {
 		const canvasId = c.req.param("id");
 		const sessionId = c.req.param("sessionId");
+		await assertCanvasAccess(c, canvasId, "VIEWER");
 
 		const session = await prisma.agentSession.findFirst({
 			where: { id: sessionId, canvasId },
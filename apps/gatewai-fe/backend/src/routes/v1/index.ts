@@ -4,9 +4,14 @@ import { apiKeysRoutes } from "./api-keys.js";
 import { apiRunRoutes } from "./api-run.js";
 import { assetsRouter } from "./assets.js";
 import { canvasRoutes } from "./canvas.js";
+import { canvasCollabRoutes } from "./canvas-collab.js";
 import { fontsRouter } from "./fonts.js";
+import { modelsRoutes } from "./models.js";
 import { nodeTemplatesRoutes } from "./node-templates.js";
+import { schedulesRoutes } from "./schedules.js";
 import { tasksRouter } from "./tasks.js";
+import { templatesRoutes } from "./templates.js";
+import { usageRoutes } from "./usage.js";
 
 const v1Router = new Hono()
 	.use(authMiddleware)
@@ -14,8 +19,13 @@ const v1Router = new Hono()
 	.route("/tasks", tasksRouter)
 	.route("/assets", assetsRouter)
 	.route("/fonts", fontsRouter)
+	.route("/models", modelsRoutes)
 	.route("/api-run", apiRunRoutes)
 	.route("/api-keys", apiKeysRoutes)
-	.route("/canvas", canvasRoutes);
+	.route("/schedules", schedulesRoutes)
+	.route("/usage", usageRoutes)
+	.route("/templates", templatesRoutes)
+	.route("/canvas", canvasRoutes)
+	.route("/canvas", canvasCollabRoutes);
 
 export { v1Router };
@@ -0,0 +1,14 @@
+import { Hono } from "hono";
+import type { AuthorizedHonoTypes } from "../../auth.js";
+import { listModelProviders } from "../../model-providers/registry.js";
+
+const modelsRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>().get(
+	"/",
+	async (c) => {
+		// Registered model providers with their models per capability
+		const providers = await listModelProviders();
+		return c.json(providers);
+	},
+);
+
+export { modelsRoutes };
@@ -0,0 +1,198 @@
+import {
+	type CanvasSchedule,
+	type Prisma,
+	prisma,
+	TaskStatus,
+} from "@gatewai/db";
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { z } from "zod";
+import type { AuthHonoTypes } from "../../auth.js";
+import { APIRunRequestSchema } from "../../data-ops/schemas.js";
+import {
+	removeCanvasSchedule,
+	syncCanvasSchedule,
+} from "../../graph-engine/queue/schedule.queue.js";
+import { assertIsError } from "../../utils/misc.js";
+import { assertCanvasOwnership, requireScope } from "./auth-helpers.js";
+
+// Number of recent runs returned with each schedule
+const RECENT_RUNS_LIMIT = 5;
+
+const scheduleBodySchema = z.object({
+	name: z.string().max(100).nullish(),
+	cron: z.string().min(1),
+	payload: APIRunRequestSchema.shape.payload,
+	duplicate: z.boolean().default(true),
+	isPaused: z.boolean().default(false),
+});
+
+type RunStatus = "RUNNING" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+/**
+ * Outcome of a scheduled run, from the statuses of its tasks.
+ */
+function getRunStatus(batch: {
+	finishedAt: Date | null;
+	tasks: { status: TaskStatus | null }[];
+}): RunStatus {
+	if (!batch.finishedAt) return "RUNNING";
+	if (batch.tasks.some((t) => t.status === TaskStatus.FAILED)) return "FAILED";
+	if (batch.tasks.some((t) => t.status === TaskStatus.CANCELLED)) {
+		return "CANCELLED";
+	}
+	return "COMPLETED";
+}
+
+async function getScheduleWithRuns(scheduleId: string) {
+	const schedule = await prisma.canvasSchedule.findUniqueOrThrow({
+		where: { id: scheduleId },
+		include: {
+			taskBatches: {
+				orderBy: { createdAt: "desc" },
+				take: RECENT_RUNS_LIMIT,
+				select: {
+					id: true,
+					createdAt: true,
+					finishedAt: true,
+					tasks: { select: { status: true } },
+				},
+			},
+		},
+	});
+
+	const { taskBatches, ...rest } = schedule;
+	return {
+		...rest,
+		recentRuns: taskBatches.map((batch) => ({
+			batchId: batch.id,
+			createdAt: batch.createdAt,
+			finishedAt: batch.finishedAt,
+			status: getRunStatus(batch),
+		})),
+	};
+}
+
+/**
+ * Saves the schedule and its job scheduler together,
+ * an invalid cron expression rolls back the save.
+ */
+async function saveSchedule(
+	save: (tx: Prisma.TransactionClient) => Promise<CanvasSchedule>,
+) {
+	try {
+		const schedule = await prisma.$transaction(async (tx) => {
+			const saved = await save(tx);
+			await syncCanvasSchedule(saved);
+			return saved;
+		});
+		return schedule.id;
+	} catch (error) {
+		assertIsError(error);
+		throw new HTTPException(400, {
+			message: `Failed to save schedule: ${error.message}`,
+		});
+	}
+}
+
+async function assertScheduleOwnership(
+	c: Parameters<typeof assertCanvasOwnership>[0],
+	scheduleId: string,
+) {
+	const schedule = await prisma.canvasSchedule.findUnique({
+		where: { id: scheduleId },
+		select: { id: true, canvasId: true },
+	});
+	if (!schedule) {
+		throw new HTTPException(404, { message: "Schedule not found" });
+	}
+	await assertCanvasOwnership(c, schedule.canvasId);
+	return schedule;
+}
+
+const schedulesRoutes = new Hono<{ Variables: AuthHonoTypes }>()
+	/**
+	 * GET /api/v1/schedules?canvasId=
+	 * List schedules of a canvas with their recent runs
+	 */
+	.get(
+		"/",
+		requireScope("canvas:read"),
+		zValidator("query", z.object({ canvasId: z.string() })),
+		async (c) => {
+			const { canvasId } = c.req.valid("query");
+			await assertCanvasOwnership(c, canvasId);
+
+			const schedules = await prisma.canvasSchedule.findMany({
+				where: { canvasId },
+				orderBy: { createdAt: "asc" },
+				select: { id: true },
+			});
+
+			return c.json(
+				await Promise.all(schedules.map((s) => getScheduleWithRuns(s.id))),
+			);
+		},
+	)
+	/**
+	 * POST /api/v1/schedules
+	 * Create a schedule that runs the canvas like an API run
+	 */
+	.post(
+		"/",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			scheduleBodySchema.extend({
+				canvasId: z.string(),
+			}),
+		),
+		async (c) => {
+			const { canvasId, payload, ...data } = c.req.valid("json");
+			await assertCanvasOwnership(c, canvasId);
+
+			const id = await saveSchedule((tx) =>
+				tx.canvasSchedule.create({
+					data: { ...data, canvasId, payload },
+				}),
+			);
+
+			return c.json(await getScheduleWithRuns(id), 201);
+		},
+	)
+	/**
+	 * PATCH /api/v1/schedules/:id
+	 * Update a schedule, e.g. pause or resume it
+	 */
+	.patch(
+		"/:id",
+		requireScope("canvas:write"),
+		zValidator("json", scheduleBodySchema.partial()),
+		async (c) => {
+			const { id } = await assertScheduleOwnership(c, c.req.param("id"));
+			const data = c.req.valid("json");
+
+			await saveSchedule((tx) =>
+				tx.canvasSchedule.update({
+					where: { id },
+					data,
+				}),
+			);
+
+			return c.json(await getScheduleWithRuns(id));
+		},
+	)
+	/**
+	 * DELETE /api/v1/schedules/:id
+	 */
+	.delete("/:id", requireScope("canvas:write"), async (c) => {
+		const { id } = await assertScheduleOwnership(c, c.req.param("id"));
+
+		await removeCanvasSchedule(id);
+		await prisma.canvasSchedule.delete({ where: { id } });
+
+		return c.json({ success: true });
+	});
+
+export { schedulesRoutes };
@@ -0,0 +1,92 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { z } from "zod";
+import { ENV_CONFIG } from "../../config.js";
+import {
+	isLocalStorageSignatureValid,
+	isValidStorageKey,
+} from "../../storage/local-driver.js";
+import {
+	getObjectMetadata,
+	getStreamFromStorage,
+} from "../../utils/storage.js";
+
+/**
+ * Serves signed URLs of the local storage driver.
+ * Public, access is granted by the URL signature instead of a session.
+ */
+const storageRoutes = new Hono().get(
+	"/:bucket/:key{.+}",
+	zValidator(
+		"query",
+		z.object({
+			expires: z.coerce.number(),
+			signature: z.string(),
+		}),
+	),
+	async (c) => {
+		if (
+			ENV_CONFIG.STORAGE_DRIVER !== "local" ||
+			!ENV_CONFIG.STORAGE_SIGNING_SECRET
+		) {
+			throw new HTTPException(404, { message: "Not found" });
+		}
+
+		// Params are decoded once by Hono
+		const { bucket, key } = c.req.param();
+		const { expires, signature } = c.req.valid("query");
+
+		if (
+			!isValidStorageKey(key) ||
+			!isLocalStorageSignatureValid(
+				ENV_CONFIG.STORAGE_SIGNING_SECRET,
+				bucket,
+				key,
+				expires,
+				signature,
+			)
+		) {
+			throw new HTTPException(403, { message: "Invalid or expired signature" });
+		}
+
+		const metadata = await getObjectMetadata(key, bucket).catch(() => null);
+		if (metadata?.size === undefined) {
+			throw new HTTPException(404, { message: "Not found" });
+		}
+		const fileSize = metadata.size;
+		const contentType = metadata.contentType ?? "application/octet-stream";
+
+		const range = c.req.header("Range");
+		if (range) {
+			const parts = range.replace(/bytes=/, "").split("-");
+			const start = parseInt(parts[0], 10);
+			const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
+
+			if (Number.isNaN(start) || start >= fileSize || end >= fileSize) {
+				return c.text("Requested range not satisfiable", 416, {
+					"Content-Range": `bytes */${fileSize}`,
+				});
+			}
+
+			const stream = await getStreamFromStorage(key, bucket, { start, end });
+			return c.body(stream, 206, {
+				"Content-Range": `bytes ${start}-${end}/${fileSize}`,
+				"Accept-Ranges": "bytes",
+				"Content-Length": (end - start + 1).toString(),
+				"Content-Type": contentType,
+				"Access-Control-Allow-Origin": "*",
+			});
+		}
+
+		const stream = await getStreamFromStorage(key, bucket);
+		return c.body(stream, 200, {
+			"Content-Type": contentType,
+			"Accept-Ranges": "bytes",
+			"Content-Length": fileSize.toString(),
+			"Access-Control-Allow-Origin": "*",
+		});
+	},
+);
+
+export { storageRoutes };
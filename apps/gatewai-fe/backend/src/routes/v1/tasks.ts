@@ -6,14 +6,25 @@ import {
 } from "@gatewai/db";
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
 import { z } from "zod";
 import type { AuthorizedHonoTypes } from "../../auth.js";
+import { cancelBatch } from "../../graph-engine/queue/workflow.cancellation.js";
+import { getCanvasTaskChannel } from "../../graph-engine/queue/workflow.events.js";
+import { streamRedisChannel } from "../../lib/redis-sse.js";
+import {
+	assertBatchScope,
+	assertCanvasAccess,
+	requireScope,
+} from "./auth-helpers.js";
 
 const TaskStatuses = [
 	TaskStatus.COMPLETED,
 	TaskStatus.FAILED,
 	TaskStatus.EXECUTING,
 	TaskStatus.QUEUED,
+	TaskStatus.CANCELLED,
+	TaskStatus.SKIPPED,
 ] as const;
 
 const tasksQueryParams = z.object({
@@ -26,6 +37,7 @@ const tasksRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 })
 	.get(
 		"/filterby-batch",
+		requireScope("canvas:read"),
 		zValidator(
 			"query",
 			z.object({
@@ -53,11 +65,36 @@ const tasksRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 					},
 				},
 			});
+			for (const canvasId of new Set(batches.map((b) => b.canvasId))) {
+				await assertCanvasAccess(c, canvasId, "VIEWER");
+			}
 			return c.json(batches);
 		},
 	)
+	/**
+	 * GET /api/v1/tasks/:canvasId/stream
+	 *
+	 * Streams task and batch state transitions of the canvas as server-sent events.
+	 */
+	.get(
+		"/:canvasId/stream",
+		requireScope("canvas:read"),
+		zValidator(
+			"param",
+			z.object({
+				canvasId: z.string(),
+			}),
+		),
+		async (c) => {
+			const { canvasId } = c.req.valid("param");
+			await assertCanvasAccess(c, canvasId, "VIEWER");
+
+			return streamRedisChannel(c, getCanvasTaskChannel(canvasId));
+		},
+	)
 	.get(
 		"/:canvasId",
+		requireScope("canvas:read"),
 		zValidator("query", tasksQueryParams),
 		zValidator(
 			"param",
@@ -71,6 +108,7 @@ const tasksRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 				| TaskStatus[]
 				| undefined;
 			const canvasId = c.req.param("canvasId");
+			await assertCanvasAccess(c, canvasId, "VIEWER");
 
 			const whereClause: TaskWhereInput = {};
 			if (dt) {
@@ -100,6 +138,36 @@ const tasksRouter = new Hono<{ Variables: AuthorizedHonoTypes }>({
 			});
 			return c.json(batches);
 		},
+	)
+	/**
+	 * POST /api/v1/tasks/batches/:batchId/cancel
+	 *
+	 * Cancels every unfinished task of the batch and starts the next pending batch of the canvas.
+	 */
+	.post(
+		"/batches/:batchId/cancel",
+		zValidator(
+			"param",
+			z.object({
+				batchId: z.string(),
+			}),
+		),
+		async (c) => {
+			const { batchId } = c.req.valid("param");
+
+			const batch = await prisma.taskBatch.findUnique({
+				where: { id: batchId },
+				select: { canvasId: true, apiKeyId: true },
+			});
+			if (!batch) {
+				throw new HTTPException(404, { message: "Batch not found" });
+			}
+			await assertCanvasAccess(c, batch.canvasId, "RUNNER");
+			assertBatchScope(c, batch, `run:${batch.canvasId}`);
+
+			const { cancelledTaskIds } = await cancelBatch(batchId);
+			return c.json({ batchId, cancelledTaskIds });
+		},
 	);
 
 export { tasksRouter };
@@ -0,0 +1,187 @@
+import { prisma } from "@gatewai/db";
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { z } from "zod";
+import type { AuthHonoTypes } from "../../auth.js";
+import {
+	cloneTemplate,
+	deleteTemplate,
+	getAuthorTemplates,
+	getTemplateGallery,
+	publishTemplateVersion,
+} from "../../data-ops/canvas-templates.js";
+import {
+	assertAssetOwnership,
+	assertCanvasOwnership,
+	requireScope,
+	requireUser,
+} from "./auth-helpers.js";
+
+const templateBodySchema = z.object({
+	title: z.string().trim().min(1).max(100),
+	description: z.string().max(2000).nullish(),
+	tags: z
+		.array(z.string().trim().toLowerCase().min(1).max(30))
+		.max(10)
+		.default([]),
+	coverAssetId: z.string().nullish(),
+});
+
+async function assertTemplateAuthor(
+	c: Parameters<typeof requireUser>[0],
+	templateId: string,
+) {
+	const user = requireUser(c);
+	const template = await prisma.canvasTemplate.findFirst({
+		where: { id: templateId, authorId: user.id },
+		select: { id: true, sourceCanvasId: true },
+	});
+	if (!template) {
+		throw new HTTPException(404, { message: "Template not found" });
+	}
+	return template;
+}
+
+const templatesRoutes = new Hono<{ Variables: AuthHonoTypes }>()
+	/**
+	 * GET /api/v1/templates?q=&tag=
+	 * Browse the template gallery
+	 */
+	.get(
+		"/",
+		requireScope("canvas:read"),
+		zValidator(
+			"query",
+			z.object({ q: z.string().optional(), tag: z.string().optional() }),
+		),
+		async (c) => {
+			return c.json(await getTemplateGallery(c.req.valid("query")));
+		},
+	)
+	/**
+	 * GET /api/v1/templates/mine
+	 * Templates of the user, unpublished ones included
+	 */
+	.get("/mine", requireScope("canvas:read"), async (c) => {
+		const user = requireUser(c);
+		return c.json(await getAuthorTemplates(user.id));
+	})
+	/**
+	 * POST /api/v1/templates
+	 * Publish a canvas as a template, its first version is a copy of the canvas
+	 */
+	.post(
+		"/",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			templateBodySchema.extend({
+				canvasId: z.string(),
+				notes: z.string().max(500).nullish(),
+			}),
+		),
+		async (c) => {
+			const user = requireUser(c);
+			const { canvasId, notes, ...data } = c.req.valid("json");
+			await assertCanvasOwnership(c, canvasId);
+			if (data.coverAssetId) {
+				await assertAssetOwnership(c, data.coverAssetId);
+			}
+
+			const existing = await prisma.canvasTemplate.findUnique({
+				where: { sourceCanvasId: canvasId },
+				select: { id: true },
+			});
+			if (existing) {
+				throw new HTTPException(409, {
+					message: "This canvas is already a template, publish a new version",
+				});
+			}
+
+			const template = await prisma.canvasTemplate.create({
+				data: { ...data, authorId: user.id, sourceCanvasId: canvasId },
+			});
+			await publishTemplateVersion(template, notes);
+
+			return c.json(template, 201);
+		},
+	)
+	/**
+	 * PATCH /api/v1/templates/:id
+	 * Update the gallery details, or unpublish and publish the template again
+	 */
+	.patch(
+		"/:id",
+		requireScope("canvas:write"),
+		zValidator(
+			"json",
+			templateBodySchema
+				.partial()
+				.extend({ isPublished: z.boolean().optional() }),
+		),
+		async (c) => {
+			const { id } = await assertTemplateAuthor(c, c.req.param("id"));
+			const data = c.req.valid("json");
+			if (data.coverAssetId) {
+				await assertAssetOwnership(c, data.coverAssetId);
+			}
+
+			const template = await prisma.canvasTemplate.update({
+				where: { id },
+				data,
+			});
+			return c.json(template);
+		},
+	)
+	/**
+	 * POST /api/v1/templates/:id/versions
+	 * Publish the current state of the source canvas as a new version
+	 */
+	.post(
+		"/:id/versions",
+		requireScope("canvas:write"),
+		zValidator("json", z.object({ notes: z.string().max(500).nullish() })),
+		async (c) => {
+			const template = await assertTemplateAuthor(c, c.req.param("id"));
+			const { notes } = c.req.valid("json");
+
+			const version = await publishTemplateVersion(template, notes);
+			await prisma.canvasTemplate.update({
+				where: { id: template.id },
+				data: { updatedAt: new Date() },
+			});
+
+			return c.json(version, 201);
+		},
+	)
+	/**
+	 * POST /api/v1/templates/:id/use
+	 * Start a new canvas from the latest version of the template
+	 */
+	.post(
+		"/:id/use",
+		requireScope("canvas:write"),
+		zValidator("json", z.object({ keepResults: z.boolean().default(false) })),
+		async (c) => {
+			const { keepResults } = c.req.valid("json");
+			const user = requireUser(c);
+
+			const canvas = await cloneTemplate(
+				c.req.param("id"),
+				user.id,
+				keepResults,
+			);
+			return c.json(canvas, 201);
+		},
+	)
+	/**
+	 * DELETE /api/v1/templates/:id
+	 */
+	.delete("/:id", requireScope("canvas:write"), async (c) => {
+		const { id } = await assertTemplateAuthor(c, c.req.param("id"));
+		await deleteTemplate(id);
+		return c.json({ success: true });
+	});
+
+export { templatesRoutes };
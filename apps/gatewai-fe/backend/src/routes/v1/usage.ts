@@ -0,0 +1,28 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import type { AuthorizedHonoTypes } from "../../auth.js";
+import { getUsageSummary } from "../../data-ops/usage.js";
+
+const usageRoutes = new Hono<{ Variables: AuthorizedHonoTypes }>()
+	/**
+	 * GET /api/v1/usage?days=
+	 * Spend and quotas of this month, usage per day and per canvas of the last days
+	 */
+	.get(
+		"/",
+		zValidator(
+			"query",
+			z.object({
+				days: z.coerce.number().int().min(1).max(365).default(30),
+			}),
+		),
+		async (c) => {
+			const user = c.get("user");
+			const { days } = c.req.valid("query");
+
+			return c.json(await getUsageSummary(user.id, days));
+		},
+	);
+
+export { usageRoutes };
@@ -0,0 +1,68 @@
+import path from "node:path";
+import { Readable } from "node:stream";
+import { Storage } from "@google-cloud/storage";
+import type { EnvConfig } from "../config.js";
+import type { StorageDriver } from "./types.js";
+
+export async function createGCSDriver(env: EnvConfig): Promise<StorageDriver> {
+	const credentialsPath = path.join(
+		env.GOOGLE_APPLICATION_CREDENTIALS_PATH ?? "",
+	);
+
+	const storage = new Storage({
+		credentials: env.GOOGLE_APPLICATION_CREDENTIALS_PATH
+			? (await import(credentialsPath, { with: { type: "json" } })).default
+			: undefined,
+		projectId: env.GOOGLE_CLIENT_ID,
+	});
+
+	const getFile = (key: string, bucketName: string) =>
+		storage.bucket(bucketName).file(key);
+
+	return {
+		async upload(buffer, key, contentType, bucketName) {
+			await getFile(key, bucketName).save(buffer, {
+				contentType,
+				resumable: false,
+			});
+		},
+		async download(key, bucketName) {
+			const [content] = await getFile(key, bucketName).download();
+			return content;
+		},
+		async delete(key, bucketName) {
+			await getFile(key, bucketName).delete();
+		},
+		async exists(key, bucketName) {
+			const [exists] = await getFile(key, bucketName).exists();
+			return exists;
+		},
+		async list(prefix, bucketName) {
+			const [files] = await storage.bucket(bucketName).getFiles({ prefix });
+			return files.map((file) => file.name);
+		},
+		async getMetadata(key, bucketName) {
+			const [metadata] = await getFile(key, bucketName).getMetadata();
+			return {
+				contentType: metadata.contentType,
+				size: metadata.size != null ? Number(metadata.size) : undefined,
+				updatedAt: metadata.updated ? new Date(metadata.updated) : undefined,
+			};
+		},
+		async getStream(key, bucketName, range) {
+			const nodeStream = getFile(key, bucketName).createReadStream(
+				range ? { start: range.start, end: range.end } : {},
+			);
+			// Convert Node.js stream to Web ReadableStream for Hono
+			return Readable.toWeb(nodeStream) as ReadableStream;
+		},
+		async getSignedUrl(key, bucketName, expiresIn) {
+			const [url] = await getFile(key, bucketName).getSignedUrl({
+				version: "v4",
+				action: "read",
+				expires: Date.now() + expiresIn * 1000,
+			});
+			return url;
+		},
+	};
+}
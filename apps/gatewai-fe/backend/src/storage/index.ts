@@ -0,0 +1,24 @@
+import type { EnvConfig } from "../config.js";
+import { createGCSDriver } from "./gcs-driver.js";
+import { createLocalDriver } from "./local-driver.js";
+import { createS3Driver } from "./s3-driver.js";
+import type { StorageDriver } from "./types.js";
+
+export async function createStorageDriver(
+	env: EnvConfig,
+): Promise<StorageDriver> {
+	switch (env.STORAGE_DRIVER) {
+		case "gcs":
+			return createGCSDriver(env);
+		case "local":
+			return createLocalDriver(env);
+		case "s3":
+			return createS3Driver(env);
+	}
+}
+
+export type {
+	StorageByteRange,
+	StorageDriver,
+	StorageObjectMetadata,
+} from "./types.js";
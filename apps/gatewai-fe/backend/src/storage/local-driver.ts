@@ -0,0 +1,172 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type { EnvConfig } from "../config.js";
+import type { StorageDriver, StorageObjectMetadata } from "./types.js";
+
+// Content types are kept next to the buckets, so listing a bucket only returns objects
+const METADATA_DIR = ".metadata";
+
+/**
+ * HMAC-SHA256 of the bucket, key and expiry of a local storage URL.
+ */
+export function getLocalStorageSignature(
+	secret: string,
+	bucketName: string,
+	key: string,
+	expires: number,
+) {
+	return createHmac("sha256", secret)
+		.update(`${bucketName}/${key}:${expires}`)
+		.digest("hex");
+}
+
+export function isLocalStorageSignatureValid(
+	secret: string,
+	bucketName: string,
+	key: string,
+	expires: number,
+	signature: string,
+) {
+	if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+		return false;
+	}
+	const expected = Buffer.from(
+		getLocalStorageSignature(secret, bucketName, key, expires),
+	);
+	const actual = Buffer.from(signature);
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Keys are `/`-separated paths, segments may not be empty, `.` or `..`
+ * and backslashes aren't allowed, so keys can't point outside their bucket.
+ */
+export function isValidStorageKey(key: string) {
+	return (
+		!key.includes("\\") &&
+		key
+			.split("/")
+			.every((segment) => segment !== "" && segment !== "." && segment !== "..")
+	);
+}
+
+/**
+ * Stores objects as files under `LOCAL_STORAGE_PATH/<bucket>/<key>`.
+ * Signed URLs point to the backend's storage route, which checks their HMAC signature.
+ */
+export function createLocalDriver(env: EnvConfig): StorageDriver {
+	const secret = env.STORAGE_SIGNING_SECRET;
+	if (!secret) {
+		throw new Error(
+			"STORAGE_SIGNING_SECRET is required for the local storage driver",
+		);
+	}
+	const root = path.resolve(env.LOCAL_STORAGE_PATH);
+
+	// Keys come from requests too, they must not escape the bucket directory
+	const resolveInside = (dir: string, key: string) => {
+		if (!isValidStorageKey(key)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		const filePath = path.resolve(dir, key);
+		if (!filePath.startsWith(`${dir}${path.sep}`)) {
+			throw new Error(`Invalid storage key: ${key}`);
+		}
+		return filePath;
+	};
+	const getObjectPath = (key: string, bucketName: string) =>
+		resolveInside(resolveInside(root, bucketName), key);
+	const getMetadataPath = (key: string, bucketName: string) =>
+		`${resolveInside(resolveInside(path.join(root, METADATA_DIR), bucketName), key)}.json`;
+
+	return {
+		async upload(buffer, key, contentType, bucketName) {
+			const objectPath = getObjectPath(key, bucketName);
+			const metadataPath = getMetadataPath(key, bucketName);
+			await mkdir(path.dirname(objectPath), { recursive: true });
+			await mkdir(path.dirname(metadataPath), { recursive: true });
+			await writeFile(objectPath, buffer);
+			await writeFile(
+				metadataPath,
+				JSON.stringify({ contentType } satisfies StorageObjectMetadata),
+			);
+		},
+		async download(key, bucketName) {
+			return readFile(getObjectPath(key, bucketName));
+		},
+		async delete(key, bucketName) {
+			await rm(getObjectPath(key, bucketName));
+			await rm(getMetadataPath(key, bucketName), { force: true });
+		},
+		async exists(key, bucketName) {
+			try {
+				return (await stat(getObjectPath(key, bucketName))).isFile();
+			} catch {
+				return false;
+			}
+		},
+		async list(prefix, bucketName) {
+			const bucketDir = resolveInside(root, bucketName);
+			let entries: string[];
+			try {
+				entries = await readdir(bucketDir, { recursive: true });
+			} catch {
+				return [];
+			}
+			const keys: string[] = [];
+			for (const entry of entries) {
+				const key = entry.split(path.sep).join("/");
+				if (!key.startsWith(prefix)) continue;
+				if ((await stat(path.join(bucketDir, entry))).isFile()) {
+					keys.push(key);
+				}
+			}
+			return keys;
+		},
+		async getMetadata(key, bucketName) {
+			const { size, mtime } = await stat(getObjectPath(key, bucketName));
+			try {
+				const metadata = JSON.parse(
+					await readFile(getMetadataPath(key, bucketName), "utf-8"),
+				) as StorageObjectMetadata;
+				return { ...metadata, size, updatedAt: mtime };
+			} catch {
+				return { size, updatedAt: mtime };
+			}
+		},
+		async getStream(key, bucketName, range) {
+			const nodeStream = createReadStream(
+				getObjectPath(key, bucketName),
+				range ? { start: range.start, end: range.end } : {},
+			);
+			return Readable.toWeb(nodeStream) as ReadableStream;
+		},
+		async getSignedUrl(key, bucketName, expiresIn) {
+			const expires = Math.floor(Date.now() / 1000) + expiresIn;
+			const signature = getLocalStorageSignature(
+				secret,
+				bucketName,
+				key,
+				expires,
+			);
+			const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+			const url = new URL(
+				`/api/v1/storage/${encodeURIComponent(bucketName)}/${encodedKey}`,
+				env.BASE_URL,
+			);
+			url.searchParams.set("expires", expires.toString());
+			url.searchParams.set("signature", signature);
+			return url.toString();
+		},
+	};
+}
@@ -0,0 +1,122 @@
+import {
+	DeleteObjectCommand,
+	GetObjectCommand,
+	HeadObjectCommand,
+	ListObjectsV2Command,
+	PutObjectCommand,
+	S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { EnvConfig } from "../config.js";
+import type { StorageByteRange, StorageDriver } from "./types.js";
+
+/**
+ * Amazon S3 or any S3-compatible storage, e.g. MinIO with `S3_FORCE_PATH_STYLE=true`.
+ */
+export function createS3Driver(env: EnvConfig): StorageDriver {
+	const client = new S3Client({
+		region: env.S3_REGION,
+		endpoint: env.S3_ENDPOINT,
+		forcePathStyle: env.S3_FORCE_PATH_STYLE,
+		// Falls back to the default AWS credential chain, e.g. instance roles
+		credentials:
+			env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+				? {
+						accessKeyId: env.S3_ACCESS_KEY_ID,
+						secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+					}
+				: undefined,
+	});
+
+	const getObject = async (
+		key: string,
+		bucketName: string,
+		range?: StorageByteRange,
+	) => {
+		const { Body } = await client.send(
+			new GetObjectCommand({
+				Bucket: bucketName,
+				Key: key,
+				Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+			}),
+		);
+		if (!Body) {
+			throw new Error(`Object ${key} in ${bucketName} has no body`);
+		}
+		return Body;
+	};
+
+	return {
+		async upload(buffer, key, contentType, bucketName) {
+			await client.send(
+				new PutObjectCommand({
+					Bucket: bucketName,
+					Key: key,
+					Body: buffer,
+					ContentType: contentType,
+				}),
+			);
+		},
+		async download(key, bucketName) {
+			const body = await getObject(key, bucketName);
+			return Buffer.from(await body.transformToByteArray());
+		},
+		async delete(key, bucketName) {
+			await client.send(
+				new DeleteObjectCommand({ Bucket: bucketName, Key: key }),
+			);
+		},
+		async exists(key, bucketName) {
+			try {
+				await client.send(
+					new HeadObjectCommand({ Bucket: bucketName, Key: key }),
+				);
+				return true;
+			} catch (error) {
+				if (error instanceof Error && error.name === "NotFound") {
+					return false;
+				}
+				throw error;
+			}
+		},
+		async list(prefix, bucketName) {
+			const keys: string[] = [];
+			let continuationToken: string | undefined;
+			do {
+				const page = await client.send(
+					new ListObjectsV2Command({
+						Bucket: bucketName,
+						Prefix: prefix,
+						ContinuationToken: continuationToken,
+					}),
+				);
+				for (const object of page.Contents ?? []) {
+					if (object.Key) keys.push(object.Key);
+				}
+				continuationToken = page.NextContinuationToken;
+			} while (continuationToken);
+			return keys;
+		},
+		async getMetadata(key, bucketName) {
+			const head = await client.send(
+				new HeadObjectCommand({ Bucket: bucketName, Key: key }),
+			);
+			return {
+				contentType: head.ContentType,
+				size: head.ContentLength,
+				updatedAt: head.LastModified,
+			};
+		},
+		async getStream(key, bucketName, range) {
+			const body = await getObject(key, bucketName, range);
+			return body.transformToWebStream();
+		},
+		async getSignedUrl(key, bucketName, expiresIn) {
+			return getSignedUrl(
+				client,
+				new GetObjectCommand({ Bucket: bucketName, Key: key }),
+				{ expiresIn },
+			);
+		},
+	};
+}
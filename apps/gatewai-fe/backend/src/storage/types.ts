@@ -0,0 +1,44 @@
+export interface StorageObjectMetadata {
+	contentType?: string;
+	size?: number;
+	// Last time the object was written
+	updatedAt?: Date;
+}
+
+export interface StorageByteRange {
+	start: number;
+	// Inclusive, same as HTTP Range headers
+	end: number;
+}
+
+/**
+ * Where media files are stored, selected with `STORAGE_DRIVER`.
+ * Every method takes the bucket, keys are unique within a bucket.
+ */
+export interface StorageDriver {
+	upload(
+		buffer: Buffer,
+		key: string,
+		contentType: string,
+		bucketName: string,
+	): Promise<void>;
+	download(key: string, bucketName: string): Promise<Buffer>;
+	delete(key: string, bucketName: string): Promise<void>;
+	exists(key: string, bucketName: string): Promise<boolean>;
+	list(prefix: string, bucketName: string): Promise<string[]>;
+	getMetadata(key: string, bucketName: string): Promise<StorageObjectMetadata>;
+	getStream(
+		key: string,
+		bucketName: string,
+		range?: StorageByteRange,
+	): Promise<ReadableStream>;
+	/**
+	 * URL that reads the object without authentication until it expires.
+	 * @param expiresIn Seconds
+	 */
+	getSignedUrl(
+		key: string,
+		bucketName: string,
+		expiresIn: number,
+	): Promise<string>;
+}
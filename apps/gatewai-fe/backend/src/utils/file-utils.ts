@@ -5,6 +5,13 @@ export function resolveMimeTypeFromBase64(dataUrl: string) {
 	}
 }
 
+/**
+ * Filename that is safe to use in a storage key, e.g. without path separators.
+ */
+export function sanitizeFilename(filename: string) {
+	return filename.replace(/[^\w.-]+/g, "_");
+}
+
 /**
  * Fetches a file from a URL and converts it to a base64 string
  * required for Gemini InlineData.
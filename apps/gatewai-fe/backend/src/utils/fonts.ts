@@ -0,0 +1,28 @@
+import * as fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { registerFont } from "canvas";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FONTS_DIR = path.join(__dirname, "../assets/fonts");
+
+/**
+ * Resolves local font files and registers them with the canvas backend.
+ * node-canvas requires fonts to be registered globally before drawing.
+ */
+export async function registerFontFamilies(families: Iterable<string>) {
+	for (const family of new Set(families)) {
+		try {
+			const fontDir = path.join(FONTS_DIR, family);
+			const files = await fs.readdir(fontDir);
+			const fontFile = files.find((f) => /\.(woff2|woff|ttf|otf)$/i.test(f));
+			if (fontFile) {
+				registerFont(path.join(fontDir, fontFile), { family });
+			}
+		} catch {
+			// Font directory or file not found; fallback to system sans-serif
+		}
+	}
+}
@@ -1,5 +1,5 @@
 import assert from "node:assert";
-import type { FileData } from "@gatewai/types";
+import { type FileData, IMAGEGEN_ASPECT_RATIOS } from "@gatewai/types";
 import sharp from "sharp";
 
 export async function getImageBuffer(imageInput: FileData): Promise<Buffer> {
@@ -20,3 +20,21 @@ export async function getImageDimensions(
 	const metadata = await sharp(buffer).metadata();
 	return { width: metadata.width, height: metadata.height };
 }
+
+/**
+ * Aspect ratio of image models closest to the given size.
+ */
+export function getClosestAspectRatio(width: number, height: number) {
+	const ratio = Math.log(width / height);
+	let closest: string = IMAGEGEN_ASPECT_RATIOS[0];
+	let closestDistance = Number.POSITIVE_INFINITY;
+	for (const aspectRatio of IMAGEGEN_ASPECT_RATIOS) {
+		const [w, h] = aspectRatio.split(":").map(Number);
+		const distance = Math.abs(Math.log(w / h) - ratio);
+		if (distance < closestDistance) {
+			closest = aspectRatio;
+			closestDistance = distance;
+		}
+	}
+	return closest;
+}
@@ -1,39 +1,25 @@
-import path from "node:path";
-import { Readable } from "node:stream";
-import { Storage } from "@google-cloud/storage";
 import { ENV_CONFIG } from "../config.js";
+import {
+	createStorageDriver,
+	type StorageByteRange,
+} from "../storage/index.js";
 
-const CREDENTIALS_PATH = path.join(
-	ENV_CONFIG.GOOGLE_APPLICATION_CREDENTIALS_PATH ?? "",
-);
+export const storageDriver = await createStorageDriver(ENV_CONFIG);
 
-export const storage = new Storage({
-	credentials: ENV_CONFIG.GOOGLE_APPLICATION_CREDENTIALS_PATH
-		? (await import(CREDENTIALS_PATH, { with: { type: "json" } })).default
-		: undefined,
-	projectId: ENV_CONFIG.GOOGLE_CLIENT_ID,
-});
-
-export async function uploadToGCS(
+export async function uploadToStorage(
 	buffer: Buffer,
 	key: string,
 	contentType: string,
 	bucketName: string,
 ): Promise<void> {
-	const bucket = storage.bucket(bucketName);
-	const file = bucket.file(key);
-
-	await file.save(buffer, {
-		contentType: contentType,
-		resumable: false,
-	});
+	await storageDriver.upload(buffer, key, contentType, bucketName);
 }
 
-export async function deleteFromGCS(
+export async function deleteFromStorage(
 	key: string,
 	bucketName: string,
 ): Promise<void> {
-	await storage.bucket(bucketName).file(key).delete();
+	await storageDriver.delete(key, bucketName);
 }
 
 export async function generateSignedUrl(
@@ -41,74 +27,47 @@ export async function generateSignedUrl(
 	bucketName: string,
 	expiresIn: number = 3600,
 ): Promise<string> {
-	const options = {
-		version: "v4" as const,
-		action: "read" as const,
-		expires: Date.now() + expiresIn * 1000,
-	};
-
-	const [url] = await storage
-		.bucket(bucketName)
-		.file(key)
-		.getSignedUrl(options);
-
-	return url;
+	return storageDriver.getSignedUrl(key, bucketName, expiresIn);
 }
 
-export async function getFromGCS(
+export async function getFromStorage(
 	key: string,
 	bucketName: string = ENV_CONFIG.GCS_ASSETS_BUCKET,
 ): Promise<Buffer> {
-	const [content] = await storage.bucket(bucketName).file(key).download();
-
-	return content;
+	return storageDriver.download(key, bucketName);
 }
 
 export async function getObjectMetadata(
 	key: string,
 	bucketName: string = ENV_CONFIG.GCS_ASSETS_BUCKET,
 ) {
-	const [metadata] = await storage.bucket(bucketName).file(key).getMetadata();
-
-	return metadata;
+	return storageDriver.getMetadata(key, bucketName);
 }
 
-export async function listFromGCS(
+export async function listFromStorage(
 	prefix: string,
 	bucketName: string,
 ): Promise<string[]> {
-	const [files] = await storage.bucket(bucketName).getFiles({
-		prefix: prefix,
-	});
-
-	return files.map((file) => file.name);
+	return storageDriver.list(prefix, bucketName);
 }
 
-export function getStreamFromGCS(
+export async function getStreamFromStorage(
 	key: string,
 	bucketName: string,
-	range?: { start: number; end: number },
+	range?: StorageByteRange,
 ) {
-	const file = storage.bucket(bucketName).file(key);
-	const options = range ? { start: range.start, end: range.end } : {};
-
-	// Create the Node.js stream
-	const nodeStream = file.createReadStream(options);
-
-	// Convert Node.js stream to Web ReadableStream for Hono
-	return Readable.toWeb(nodeStream) as ReadableStream;
+	return storageDriver.getStream(key, bucketName, range);
 }
 
 /**
- * Checks if a file exists in the specified GCS bucket.
+ * Checks if a file exists in the specified bucket.
  */
-export async function fileExistsInGCS(
+export async function fileExistsInStorage(
 	key: string,
 	bucketName: string,
 ): Promise<boolean> {
 	try {
-		const [exists] = await storage.bucket(bucketName).file(key).exists();
-		return exists;
+		return await storageDriver.exists(key, bucketName);
 	} catch (error) {
 		console.warn(
 			`Failed to check existence for ${key} in ${bucketName}`,
@@ -130,7 +89,12 @@ export async function uploadToTemporaryFolder(
 	key: string,
 ) {
 	const keyToUse = `temp/${key}`;
-	await uploadToGCS(buffer, keyToUse, mimeType, ENV_CONFIG.GCS_ASSETS_BUCKET);
+	await uploadToStorage(
+		buffer,
+		keyToUse,
+		mimeType,
+		ENV_CONFIG.GCS_ASSETS_BUCKET,
+	);
 	const expiresIn = 3600 * 24 * 1.9; // A bit less than 2 days
 	const signedUrl = await generateSignedUrl(
 		keyToUse,
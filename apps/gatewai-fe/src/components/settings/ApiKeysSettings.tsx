@@ -1,5 +1,14 @@
+import { API_KEY_SCOPES, type ApiKeyScope } from "@gatewai/types";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Check, Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+	Check,
+	ChevronDown,
+	Copy,
+	Loader2,
+	Plus,
+	RefreshCw,
+	Trash2,
+} from "lucide-react";
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
@@ -12,6 +21,16 @@ import {
 	DialogHeader,
 	DialogTitle,
 } from "@/components/ui/dialog";
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuSeparator,
+	DropdownMenuSub,
+	DropdownMenuSubContent,
+	DropdownMenuSubTrigger,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
 	Form,
 	FormControl,
@@ -20,6 +39,13 @@ import {
 	FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 import {
 	Table,
 	TableBody,
@@ -37,7 +63,12 @@ import {
 	useCreateApiKeyMutation,
 	useDeleteApiKeyMutation,
 	useGetApiKeysQuery,
+	useGetRetentionQuery,
+	useRotateApiKeyMutation,
+	useUpdateApiKeyMutation,
+	useUpdateRetentionMutation,
 } from "@/store/api-keys";
+import { useGetCanvasListQuery } from "@/store/canvas-list";
 import { Separator } from "../ui/separator";
 
 interface ApiKeysSettingsProps {
@@ -51,15 +82,169 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// How long canvas copies of API runs are kept, 0 keeps them
+const RETENTION_DAYS_OPTIONS = [1, 7, 30, 90, 0];
+const INHERIT_RETENTION = "inherit";
+
+const formatRetentionDays = (days: number) =>
+	days === 0 ? "Forever" : days === 1 ? "1 day" : `${days} days`;
+
+const toRetentionValue = (days: number | null | undefined) =>
+	days == null ? INHERIT_RETENTION : String(days);
+
+const fromRetentionValue = (value: string) =>
+	value === INHERIT_RETENTION ? null : Number(value);
+
+const SCOPE_LABELS: Record<(typeof API_KEY_SCOPES)[number], string> = {
+	"canvas:read": "Read canvases",
+	"canvas:write": "Edit canvases",
+	"run:*": "Run any canvas",
+	"assets:read": "List assets",
+	"assets:write": "Upload and delete assets",
+	agent: "Use the agent",
+};
+
+const EXPIRY_DAYS_OPTIONS = [7, 30, 90, 365];
+const NEVER_EXPIRES = "never";
+
+type CanvasNames = Map<string, string>;
+
+const formatScope = (scope: ApiKeyScope, canvasNames: CanvasNames) =>
+	scope in SCOPE_LABELS
+		? SCOPE_LABELS[scope as keyof typeof SCOPE_LABELS]
+		: `Run ${canvasNames.get(scope.slice("run:".length)) ?? "a deleted canvas"}`;
+
+const formatScopes = (
+	scopes: ApiKeyScope[] | null,
+	canvasNames: CanvasNames,
+) =>
+	!scopes?.length
+		? "Full access"
+		: scopes.length === 1
+			? formatScope(scopes[0], canvasNames)
+			: `${scopes.length} scopes`;
+
+function ScopesDropdown({
+	value,
+	canvasNames,
+	onChange,
+}: {
+	value: ApiKeyScope[];
+	canvasNames: CanvasNames;
+	onChange: (scopes: ApiKeyScope[]) => void;
+}) {
+	const toggle = (scope: ApiKeyScope, checked: boolean) =>
+		onChange(checked ? [...value, scope] : value.filter((s) => s !== scope));
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					type="button"
+					variant="outline"
+					className="h-9 w-40 justify-between font-normal"
+				>
+					<span className="truncate">{formatScopes(value, canvasNames)}</span>
+					<ChevronDown className="h-4 w-4 opacity-50" />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end" className="w-56">
+				<DropdownMenuCheckboxItem
+					checked={value.length === 0}
+					onCheckedChange={() => onChange([])}
+					onSelect={(e) => e.preventDefault()}
+				>
+					Full access
+				</DropdownMenuCheckboxItem>
+				<DropdownMenuSeparator />
+				{API_KEY_SCOPES.map((scope) => (
+					<DropdownMenuCheckboxItem
+						key={scope}
+						checked={value.includes(scope)}
+						onCheckedChange={(checked) => toggle(scope, checked)}
+						onSelect={(e) => e.preventDefault()}
+					>
+						{SCOPE_LABELS[scope]}
+					</DropdownMenuCheckboxItem>
+				))}
+				<DropdownMenuSub>
+					<DropdownMenuSubTrigger disabled={canvasNames.size === 0}>
+						Run canvases
+					</DropdownMenuSubTrigger>
+					<DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+						{[...canvasNames].map(([id, name]) => (
+							<DropdownMenuCheckboxItem
+								key={id}
+								checked={value.includes(`run:${id}`)}
+								onCheckedChange={(checked) => toggle(`run:${id}`, checked)}
+								onSelect={(e) => e.preventDefault()}
+							>
+								{name}
+							</DropdownMenuCheckboxItem>
+						))}
+					</DropdownMenuSubContent>
+				</DropdownMenuSub>
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+function RetentionSelect({
+	value,
+	inheritLabel,
+	onChange,
+	className,
+}: {
+	value: number | null | undefined;
+	inheritLabel: string;
+	onChange: (days: number | null) => void;
+	className?: string;
+}) {
+	return (
+		<Select
+			value={toRetentionValue(value)}
+			onValueChange={(v) => onChange(fromRetentionValue(v))}
+		>
+			<SelectTrigger className={className}>
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={INHERIT_RETENTION}>{inheritLabel}</SelectItem>
+				{RETENTION_DAYS_OPTIONS.map((days) => (
+					<SelectItem key={days} value={String(days)}>
+						{formatRetentionDays(days)}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
 export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 	const { data, isLoading } = useGetApiKeysQuery();
 	const [createApiKey, { isLoading: isCreating }] = useCreateApiKeyMutation();
 	const [deleteApiKey, { isLoading: isDeleting }] = useDeleteApiKeyMutation();
+	const [updateApiKey] = useUpdateApiKeyMutation();
+	const [rotateApiKey, { isLoading: isRotating }] = useRotateApiKeyMutation();
+	const { data: canvases } = useGetCanvasListQuery(
+		{ query: {} },
+		{ skip: !open },
+	);
+	const { data: retention } = useGetRetentionQuery(undefined, { skip: !open });
+	const [updateRetention] = useUpdateRetentionMutation();
 	const [createdKey, setCreatedKey] = useState<{
 		name: string;
 		fullKey: string;
+		isRotated?: boolean;
 	} | null>(null);
 	const [isCopied, setIsCopied] = useState(false);
+	// Empty scopes give full access
+	const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+	const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+
+	const canvasNames: CanvasNames = new Map(
+		(canvases ?? []).map((canvas) => [canvas.id, canvas.name]),
+	);
 
 	const form = useForm<FormValues>({
 		resolver: zodResolver(formSchema),
@@ -70,9 +255,15 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 
 	const onSubmit = async (values: FormValues) => {
 		try {
-			const result = await createApiKey({ name: values.name }).unwrap();
+			const result = await createApiKey({
+				name: values.name,
+				scopes: scopes.length > 0 ? scopes : null,
+				expiresInDays,
+			}).unwrap();
 			setCreatedKey({ name: values.name, fullKey: result.fullKey });
 			form.reset();
+			setScopes([]);
+			setExpiresInDays(null);
 			toast.success("API Key created successfully");
 		} catch (error) {
 			console.error(error);
@@ -90,6 +281,38 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 		}
 	};
 
+	const handleRotate = async (id: string, name: string) => {
+		try {
+			const result = await rotateApiKey(id).unwrap();
+			setCreatedKey({ name, fullKey: result.fullKey, isRotated: true });
+			toast.success("API Key rotated successfully");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to rotate API key");
+		}
+	};
+
+	const handleRetentionChange = async (apiRunRetentionDays: number | null) => {
+		try {
+			await updateRetention({ apiRunRetentionDays }).unwrap();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update retention");
+		}
+	};
+
+	const handleKeyRetentionChange = async (
+		id: string,
+		apiRunRetentionDays: number | null,
+	) => {
+		try {
+			await updateApiKey({ id, apiRunRetentionDays }).unwrap();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update API key");
+		}
+	};
+
 	const copyToClipboard = (text: string) => {
 		navigator.clipboard.writeText(text);
 		toast.success("Copied to clipboard");
@@ -101,7 +324,7 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
-			<DialogContent className="max-w-3xl">
+			<DialogContent className="max-w-4xl">
 				<DialogHeader>
 					<DialogTitle>API Keys</DialogTitle>
 					<DialogDescription>
@@ -120,7 +343,7 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 								control={form.control}
 								name="name"
 								render={({ field }) => (
-									<FormItem className="flex-1 max-w-sm">
+									<FormItem className="flex-1">
 										<FormControl>
 											<Input
 												placeholder="Key Name (e.g. CI/CD)"
@@ -132,6 +355,31 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 									</FormItem>
 								)}
 							/>
+							<Select
+								value={
+									expiresInDays === null ? NEVER_EXPIRES : String(expiresInDays)
+								}
+								onValueChange={(v) =>
+									setExpiresInDays(v === NEVER_EXPIRES ? null : Number(v))
+								}
+							>
+								<SelectTrigger className="h-9 w-36">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NEVER_EXPIRES}>Never expires</SelectItem>
+									{EXPIRY_DAYS_OPTIONS.map((days) => (
+										<SelectItem key={days} value={String(days)}>
+											Expires in {days} days
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<ScopesDropdown
+								value={scopes}
+								canvasNames={canvasNames}
+								onChange={setScopes}
+							/>
 							<Button type="submit" className="mt-[1px]" disabled={isCreating}>
 								{isCreating ? (
 									<>
@@ -151,7 +399,9 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 						<div className="rounded-lg border bg-muted/50 transition-all animate-in fade-in slide-in-from-top-2">
 							<div className="flex flex-col gap-1.5 mb-4">
 								<h4 className="text-sm font-medium leading-none tracking-tight">
-									New API Key Created
+									{createdKey.isRotated
+										? `${createdKey.name} Rotated`
+										: "New API Key Created"}
 								</h4>
 								<p className="text-xs text-muted-foreground">
 									Please copy this key now. For security reasons, it will not be
@@ -184,6 +434,25 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 					)}
 					<Separator />
 
+					{/* Retention of API-run copies */}
+					<div className="flex items-center justify-between gap-4">
+						<div className="flex flex-col gap-1">
+							<h4 className="text-sm font-medium leading-none">
+								Keep API run copies for
+							</h4>
+							<p className="text-xs text-muted-foreground">
+								Copies of canvases run through the API, and the media they
+								generated, are deleted after this. Keys can override it.
+							</p>
+						</div>
+						<RetentionSelect
+							className="w-44"
+							value={retention?.apiRunRetentionDays}
+							inheritLabel={`Default (${formatRetentionDays(retention?.defaultRetentionDays ?? 7)})`}
+							onChange={handleRetentionChange}
+						/>
+					</div>
+
 					{/* Keys List */}
 					<div className="rounded-md border">
 						<Table>
@@ -193,6 +462,8 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 									<TableHead>Prefix</TableHead>
 									<TableHead>Created</TableHead>
 									<TableHead>Last Used</TableHead>
+									<TableHead>Access</TableHead>
+									<TableHead>Keep Runs</TableHead>
 									<TableHead className="text-right">Actions</TableHead>
 								</TableRow>
 							</TableHeader>
@@ -200,7 +471,7 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 								{isLoading ? (
 									<TableRow>
 										<TableCell
-											colSpan={5}
+											colSpan={7}
 											className="text-center py-8 text-muted-foreground"
 										>
 											<Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 opacity-50" />
@@ -210,7 +481,7 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 								) : keys.length === 0 ? (
 									<TableRow>
 										<TableCell
-											colSpan={5}
+											colSpan={7}
 											className="text-center py-8 text-muted-foreground"
 										>
 											No API keys found. Create one to get started.
@@ -219,7 +490,22 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 								) : (
 									keys.map((key) => (
 										<TableRow key={key.id}>
-											<TableCell className="font-medium">{key.name}</TableCell>
+											<TableCell className="font-medium">
+												{key.name}
+												{key.expiresAt && (
+													<p
+														className={
+															new Date(key.expiresAt) <= new Date()
+																? "text-xs font-normal text-destructive"
+																: "text-xs font-normal text-muted-foreground"
+														}
+													>
+														{new Date(key.expiresAt) <= new Date()
+															? "Expired"
+															: `Expires ${new Date(key.expiresAt).toLocaleDateString()}`}
+													</p>
+												)}
+											</TableCell>
 											<TableCell className="font-mono text-xs text-muted-foreground">
 												{key.prefix}...
 											</TableCell>
@@ -231,7 +517,53 @@ export function ApiKeysSettings({ open, onOpenChange }: ApiKeysSettingsProps) {
 													? new Date(key.lastUsedAt).toLocaleDateString()
 													: "Never"}
 											</TableCell>
-											<TableCell className="text-right">
+											<TableCell className="text-sm text-muted-foreground">
+												{key.scopes ? (
+													<Tooltip>
+														<TooltipTrigger className="underline decoration-dotted">
+															{formatScopes(key.scopes, canvasNames)}
+														</TooltipTrigger>
+														<TooltipContent>
+															{key.scopes.map((scope) => (
+																<p key={scope}>
+																	{formatScope(scope, canvasNames)}
+																</p>
+															))}
+														</TooltipContent>
+													</Tooltip>
+												) : (
+													"Full access"
+												)}
+											</TableCell>
+											<TableCell>
+												<RetentionSelect
+													className="h-8 w-32"
+													value={key.apiRunRetentionDays}
+													inheritLabel="Account"
+													onChange={(days) =>
+														handleKeyRetentionChange(key.id, days)
+													}
+												/>
+											</TableCell>
+											<TableCell className="text-right whitespace-nowrap">
+												<Tooltip>
+													<TooltipTrigger asChild>
+														<Button
+															variant="ghost"
+															size="icon"
+															className="text-muted-foreground"
+															onClick={() =>
+																handleRotate(key.id, key.name ?? "API Key")
+															}
+															disabled={isRotating}
+														>
+															<RefreshCw className="h-4 w-4" />
+														</Button>
+													</TooltipTrigger>
+													<TooltipContent side="left">
+														<p>Rotate key</p>
+													</TooltipContent>
+												</Tooltip>
 												{keys.length <= 1 ? (
 													<Tooltip>
 														<TooltipTrigger asChild>
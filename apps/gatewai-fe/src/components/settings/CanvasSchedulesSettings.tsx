@@ -0,0 +1,348 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { CanvasScheduleListItemRPC } from "@/rpc/types";
+import {
+	useCreateScheduleMutation,
+	useDeleteScheduleMutation,
+	useGetSchedulesQuery,
+	useUpdateScheduleMutation,
+} from "@/store/schedules";
+import { Separator } from "../ui/separator";
+
+interface CanvasSchedulesSettingsProps {
+	canvasId: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const RUN_STATUS_CLASSNAMES: Record<
+	CanvasScheduleListItemRPC["recentRuns"][number]["status"],
+	string
+> = {
+	RUNNING: "bg-blue-500 animate-pulse",
+	COMPLETED: "bg-green-500",
+	FAILED: "bg-red-500",
+	CANCELLED: "bg-muted-foreground",
+};
+
+const formSchema = z.object({
+	name: z.string().max(100, "Name is too long"),
+	cron: z
+		.string()
+		.trim()
+		.refine((v) => v.split(/\s+/).length >= 5, "E.g. 0 9 * * * for 09:00 UTC"),
+	// Same payload as API runs, keyed by Text/File node ID
+	payload: z.string().refine((v) => {
+		if (!v.trim()) return true;
+		try {
+			const parsed = JSON.parse(v);
+			return typeof parsed === "object" && !Array.isArray(parsed);
+		} catch {
+			return false;
+		}
+	}, "Payload must be a JSON object"),
+	duplicate: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export function CanvasSchedulesSettings({
+	canvasId,
+	open,
+	onOpenChange,
+}: CanvasSchedulesSettingsProps) {
+	const { data: schedules, isLoading } = useGetSchedulesQuery(
+		{ canvasId },
+		{ skip: !open, pollingInterval: open ? 30_000 : undefined },
+	);
+	const [createSchedule, { isLoading: isCreating }] =
+		useCreateScheduleMutation();
+	const [updateSchedule] = useUpdateScheduleMutation();
+	const [deleteSchedule, { isLoading: isDeleting }] =
+		useDeleteScheduleMutation();
+
+	const form = useForm<FormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: {
+			name: "",
+			cron: "",
+			payload: "",
+			duplicate: true,
+		},
+	});
+
+	const onSubmit = async (values: FormValues) => {
+		try {
+			await createSchedule({
+				json: {
+					canvasId,
+					name: values.name || null,
+					cron: values.cron,
+					payload: values.payload.trim()
+						? JSON.parse(values.payload)
+						: undefined,
+					duplicate: values.duplicate,
+				},
+			}).unwrap();
+			form.reset();
+			toast.success("Schedule created successfully");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to create schedule, check the cron expression");
+		}
+	};
+
+	const handleTogglePause = async (schedule: CanvasScheduleListItemRPC) => {
+		try {
+			await updateSchedule({
+				param: { id: schedule.id },
+				json: { isPaused: !schedule.isPaused },
+			}).unwrap();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update schedule");
+		}
+	};
+
+	const handleDelete = async (id: string) => {
+		try {
+			await deleteSchedule(id).unwrap();
+			toast.success("Schedule deleted successfully");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to delete schedule");
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl">
+				<DialogHeader>
+					<DialogTitle>Schedules</DialogTitle>
+					<DialogDescription>
+						Run this canvas on a cron schedule, the same way as an API request.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-6">
+					{/* Create New Schedule Form */}
+					<Form {...form}>
+						<form
+							onSubmit={form.handleSubmit(onSubmit)}
+							className="flex flex-col gap-3"
+						>
+							<div className="flex gap-4 items-start">
+								<FormField
+									control={form.control}
+									name="name"
+									render={({ field }) => (
+										<FormItem className="flex-1">
+											<FormControl>
+												<Input
+													placeholder="Name (e.g. Daily post)"
+													{...field}
+													className="h-9"
+												/>
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+								<FormField
+									control={form.control}
+									name="cron"
+									render={({ field }) => (
+										<FormItem className="flex-1">
+											<FormControl>
+												<Input
+													placeholder="Cron (e.g. 0 9 * * *)"
+													{...field}
+													className="h-9 font-mono"
+												/>
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+							</div>
+							<FormField
+								control={form.control}
+								name="payload"
+								render={({ field }) => (
+									<FormItem>
+										<FormControl>
+											<Textarea
+												placeholder='Optional payload, e.g. { "<text-node-id>": "Topic of the day" }'
+												{...field}
+												className="font-mono text-xs min-h-16"
+											/>
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<div className="flex justify-between items-center">
+								<FormField
+									control={form.control}
+									name="duplicate"
+									render={({ field }) => (
+										<FormItem className="flex items-center gap-2">
+											<FormControl>
+												<Switch
+													checked={field.value}
+													onCheckedChange={field.onChange}
+												/>
+											</FormControl>
+											<FormLabel className="text-xs font-normal">
+												Run on a copy of the canvas
+											</FormLabel>
+										</FormItem>
+									)}
+								/>
+								<Button type="submit" disabled={isCreating}>
+									{isCreating ? (
+										<>
+											<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+											Creating...
+										</>
+									) : (
+										<>
+											<Plus className="mr-2 h-4 w-4" /> Create Schedule
+										</>
+									)}
+								</Button>
+							</div>
+						</form>
+					</Form>
+					<Separator />
+
+					{/* Schedules List */}
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Name</TableHead>
+									<TableHead>Cron</TableHead>
+									<TableHead>Recent Runs</TableHead>
+									<TableHead>Active</TableHead>
+									<TableHead className="text-right">Actions</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{isLoading ? (
+									<TableRow>
+										<TableCell
+											colSpan={5}
+											className="text-center py-8 text-muted-foreground"
+										>
+											<Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 opacity-50" />
+											Loading schedules...
+										</TableCell>
+									</TableRow>
+								) : !schedules?.length ? (
+									<TableRow>
+										<TableCell
+											colSpan={5}
+											className="text-center py-8 text-muted-foreground"
+										>
+											No schedules yet. Create one to get started.
+										</TableCell>
+									</TableRow>
+								) : (
+									schedules.map((schedule) => (
+										<TableRow key={schedule.id}>
+											<TableCell className="font-medium">
+												{schedule.name || "Untitled"}
+											</TableCell>
+											<TableCell className="font-mono text-xs text-muted-foreground">
+												{schedule.cron}
+											</TableCell>
+											<TableCell>
+												<div className="flex gap-1">
+													{schedule.recentRuns.length === 0 && (
+														<span className="text-sm text-muted-foreground">
+															Never
+														</span>
+													)}
+													{schedule.recentRuns.map((run) => (
+														<Tooltip key={run.batchId}>
+															<TooltipTrigger asChild>
+																<span
+																	className={cn(
+																		"size-2.5 rounded-full",
+																		RUN_STATUS_CLASSNAMES[run.status],
+																	)}
+																/>
+															</TooltipTrigger>
+															<TooltipContent>
+																{run.status.toLowerCase()} at{" "}
+																{new Date(run.createdAt).toLocaleString()}
+															</TooltipContent>
+														</Tooltip>
+													))}
+												</div>
+											</TableCell>
+											<TableCell>
+												<Switch
+													checked={!schedule.isPaused}
+													onCheckedChange={() => handleTogglePause(schedule)}
+												/>
+											</TableCell>
+											<TableCell className="text-right">
+												<Button
+													variant="ghost"
+													size="icon"
+													className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+													onClick={() => handleDelete(schedule.id)}
+													disabled={isDeleting}
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</TableCell>
+										</TableRow>
+									))
+								)}
+							</TableBody>
+						</Table>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
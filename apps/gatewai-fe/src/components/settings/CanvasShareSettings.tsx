@@ -0,0 +1,311 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { useNavigate } from "react-router";
+import { toast } from "sonner";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { authClient } from "@/lib/auth-client";
+import type { CanvasMemberRPC } from "@/rpc/types";
+import {
+	useGetCanvasMembersQuery,
+	useInviteCanvasMemberMutation,
+	useRemoveCanvasMemberMutation,
+	useUpdateCanvasMemberMutation,
+} from "@/store/canvas-members";
+import { Separator } from "../ui/separator";
+
+interface CanvasShareSettingsProps {
+	canvasId: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+type CanvasRole = CanvasMemberRPC["role"];
+
+const ROLE_LABELS: Record<CanvasRole, string> = {
+	VIEWER: "Viewer",
+	RUNNER: "Runner",
+	EDITOR: "Editor",
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as CanvasRole[];
+
+const formSchema = z.object({
+	email: z.string().email("Enter a valid email"),
+	role: z.enum(["VIEWER", "RUNNER", "EDITOR"]),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+function RoleSelect({
+	value,
+	onChange,
+	className,
+}: {
+	value: CanvasRole;
+	onChange: (role: CanvasRole) => void;
+	className?: string;
+}) {
+	return (
+		<Select value={value} onValueChange={(v) => onChange(v as CanvasRole)}>
+			<SelectTrigger className={className}>
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				{ROLES.map((role) => (
+					<SelectItem key={role} value={role}>
+						{ROLE_LABELS[role]}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+export function CanvasShareSettings({
+	canvasId,
+	open,
+	onOpenChange,
+}: CanvasShareSettingsProps) {
+	const nav = useNavigate();
+	const { data: session } = authClient.useSession();
+	const { data, isLoading } = useGetCanvasMembersQuery(
+		{ canvasId },
+		{ skip: !open },
+	);
+	const [inviteMember, { isLoading: isInviting }] =
+		useInviteCanvasMemberMutation();
+	const [updateMember] = useUpdateCanvasMemberMutation();
+	const [removeMember, { isLoading: isRemoving }] =
+		useRemoveCanvasMemberMutation();
+
+	const form = useForm<FormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: { email: "", role: "VIEWER" },
+	});
+
+	const onSubmit = async (values: FormValues) => {
+		try {
+			await inviteMember({ param: { id: canvasId }, json: values }).unwrap();
+			form.reset({ email: "", role: values.role });
+			toast.success(`Shared with ${values.email}`);
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to share canvas");
+		}
+	};
+
+	const handleRoleChange = async (memberId: string, role: CanvasRole) => {
+		try {
+			await updateMember({
+				param: { id: canvasId, memberId },
+				json: { role },
+			}).unwrap();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update role");
+		}
+	};
+
+	const handleRemove = async (member: CanvasMemberRPC) => {
+		const isLeaving = member.user?.id === session?.user.id;
+		try {
+			await removeMember({ canvasId, memberId: member.id }).unwrap();
+			if (isLeaving) {
+				onOpenChange(false);
+				nav("/canvas");
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to remove member");
+		}
+	};
+
+	const isOwner = data?.isOwner ?? false;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Share Canvas</DialogTitle>
+					<DialogDescription>
+						Viewers can open the canvas, runners can also run it and editors can
+						change it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-6">
+					{isOwner && (
+						<>
+							<Form {...form}>
+								<form
+									onSubmit={form.handleSubmit(onSubmit)}
+									className="flex gap-4 items-start"
+								>
+									<FormField
+										control={form.control}
+										name="email"
+										render={({ field }) => (
+											<FormItem className="flex-1">
+												<FormControl>
+													<Input
+														placeholder="teammate@example.com"
+														{...field}
+														className="h-9"
+													/>
+												</FormControl>
+												<FormMessage />
+											</FormItem>
+										)}
+									/>
+									<FormField
+										control={form.control}
+										name="role"
+										render={({ field }) => (
+											<FormItem>
+												<RoleSelect
+													className="h-9 w-32"
+													value={field.value}
+													onChange={field.onChange}
+												/>
+											</FormItem>
+										)}
+									/>
+									<Button
+										type="submit"
+										className="mt-[1px]"
+										disabled={isInviting}
+									>
+										{isInviting ? (
+											<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+										) : (
+											<UserPlus className="mr-2 h-4 w-4" />
+										)}
+										Invite
+									</Button>
+								</form>
+							</Form>
+							<Separator />
+						</>
+					)}
+
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Member</TableHead>
+									<TableHead>Role</TableHead>
+									<TableHead className="text-right">Actions</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{isLoading || !data ? (
+									<TableRow>
+										<TableCell
+											colSpan={3}
+											className="text-center py-8 text-muted-foreground"
+										>
+											<Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 opacity-50" />
+											Loading members...
+										</TableCell>
+									</TableRow>
+								) : (
+									<>
+										{data.owner && (
+											<TableRow>
+												<TableCell>
+													<p className="font-medium">{data.owner.name}</p>
+													<p className="text-xs text-muted-foreground">
+														{data.owner.email}
+													</p>
+												</TableCell>
+												<TableCell className="text-sm text-muted-foreground">
+													Owner
+												</TableCell>
+												<TableCell />
+											</TableRow>
+										)}
+										{data.members.map((member) => (
+											<TableRow key={member.id}>
+												<TableCell>
+													<p className="font-medium">
+														{member.user?.name ?? member.email}
+													</p>
+													<p className="text-xs text-muted-foreground">
+														{member.user
+															? member.email
+															: "Invited, joins when they sign up"}
+													</p>
+												</TableCell>
+												<TableCell>
+													{isOwner ? (
+														<RoleSelect
+															className="h-8 w-32"
+															value={member.role}
+															onChange={(role) =>
+																handleRoleChange(member.id, role)
+															}
+														/>
+													) : (
+														<span className="text-sm text-muted-foreground">
+															{ROLE_LABELS[member.role]}
+														</span>
+													)}
+												</TableCell>
+												<TableCell className="text-right">
+													{(isOwner ||
+														member.user?.id === session?.user.id) && (
+														<Button
+															variant="ghost"
+															size="icon"
+															className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+															onClick={() => handleRemove(member)}
+															disabled={isRemoving}
+														>
+															<Trash2 className="h-4 w-4" />
+														</Button>
+													)}
+												</TableCell>
+											</TableRow>
+										))}
+									</>
+								)}
+							</TableBody>
+						</Table>
+					</div>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,371 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ImagePlus, Loader2, Trash2, Upload } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Link } from "react-router";
+import { toast } from "sonner";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { GetAssetEndpoint } from "@/lib/file";
+import { useUploadAssetMutation } from "@/store/assets";
+import {
+	useCreateTemplateMutation,
+	useDeleteTemplateMutation,
+	useGetMyTemplatesQuery,
+	usePublishTemplateVersionMutation,
+	useUpdateTemplateMutation,
+} from "@/store/templates";
+import { Separator } from "../ui/separator";
+
+interface CanvasTemplateSettingsProps {
+	canvasId: string;
+	canvasName: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const formSchema = z.object({
+	title: z.string().trim().min(1, "Title is required").max(100),
+	description: z.string().max(2000),
+	tags: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const parseTags = (tags: string) =>
+	tags
+		.split(",")
+		.map((tag) => tag.trim().toLowerCase())
+		.filter(Boolean);
+
+export function CanvasTemplateSettings({
+	canvasId,
+	canvasName,
+	open,
+	onOpenChange,
+}: CanvasTemplateSettingsProps) {
+	const { data: myTemplates, isLoading } = useGetMyTemplatesQuery(null, {
+		skip: !open,
+	});
+	const template = myTemplates?.find((t) => t.sourceCanvasId === canvasId);
+	const latest = template?.versions[0];
+
+	const [createTemplate, { isLoading: isCreating }] =
+		useCreateTemplateMutation();
+	const [updateTemplate, { isLoading: isUpdating }] =
+		useUpdateTemplateMutation();
+	const [publishVersion, { isLoading: isPublishing }] =
+		usePublishTemplateVersionMutation();
+	const [deleteTemplate, { isLoading: isDeleting }] =
+		useDeleteTemplateMutation();
+	const [uploadAsset, { isLoading: isUploading }] = useUploadAssetMutation();
+
+	const coverInputRef = useRef<HTMLInputElement>(null);
+	const [cover, setCover] = useState<{ id: string; mimeType: string } | null>(
+		null,
+	);
+	const [notes, setNotes] = useState("");
+
+	const form = useForm<FormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: { title: canvasName, description: "", tags: "" },
+	});
+
+	// Fill in the published details, or start from the canvas name
+	useEffect(() => {
+		if (!open || isLoading) return;
+		form.reset({
+			title: template?.title ?? canvasName,
+			description: template?.description ?? "",
+			tags: template?.tags.join(", ") ?? "",
+		});
+		setCover(template?.coverAsset ?? null);
+		setNotes("");
+	}, [open, isLoading, template, canvasName, form]);
+
+	const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		try {
+			const asset = await uploadAsset(file).unwrap();
+			if (!("id" in asset)) throw new Error(asset.error);
+			setCover(asset);
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to upload cover image");
+		}
+	};
+
+	const onSubmit = async (values: FormValues) => {
+		const details = {
+			title: values.title,
+			description: values.description || null,
+			tags: parseTags(values.tags),
+			coverAssetId: cover?.id ?? null,
+		};
+		try {
+			if (template) {
+				await updateTemplate({
+					param: { id: template.id },
+					json: details,
+				}).unwrap();
+				toast.success("Template details saved");
+			} else {
+				await createTemplate({
+					json: { ...details, canvasId, notes: notes || null },
+				}).unwrap();
+				setNotes("");
+				toast.success("Canvas published to the template gallery");
+			}
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to save template");
+		}
+	};
+
+	const handlePublishVersion = async () => {
+		if (!template) return;
+		try {
+			await publishVersion({
+				param: { id: template.id },
+				json: { notes: notes || null },
+			}).unwrap();
+			setNotes("");
+			toast.success("New version published");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to publish new version");
+		}
+	};
+
+	const handleTogglePublished = async () => {
+		if (!template) return;
+		try {
+			await updateTemplate({
+				param: { id: template.id },
+				json: { isPublished: !template.isPublished },
+			}).unwrap();
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update template");
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!template) return;
+		try {
+			await deleteTemplate(template.id).unwrap();
+			toast.success("Template deleted");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to delete template");
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Template</DialogTitle>
+					<DialogDescription>
+						Publish this canvas to the{" "}
+						<Link to="/canvas/templates" className="underline">
+							template gallery
+						</Link>
+						. Others start from a copy of the published version, your later
+						edits reach them when you publish a new version.
+					</DialogDescription>
+				</DialogHeader>
+
+				{isLoading ? (
+					<div className="flex justify-center py-8">
+						<Loader2 className="h-6 w-6 animate-spin opacity-50" />
+					</div>
+				) : (
+					<div className="space-y-6">
+						<Form {...form}>
+							<form
+								onSubmit={form.handleSubmit(onSubmit)}
+								className="flex flex-col gap-4"
+							>
+								<div className="flex gap-4">
+									<button
+										type="button"
+										onClick={() => coverInputRef.current?.click()}
+										disabled={isUploading}
+										className="w-40 aspect-video shrink-0 rounded-md border border-dashed flex items-center justify-center overflow-hidden text-muted-foreground hover:border-primary/50 transition-colors"
+										aria-label="Upload cover image"
+									>
+										{isUploading ? (
+											<Loader2 className="h-5 w-5 animate-spin" />
+										) : cover ? (
+											<img
+												src={GetAssetEndpoint(cover)}
+												alt="Cover"
+												className="h-full w-full object-cover"
+											/>
+										) : (
+											<ImagePlus className="h-5 w-5" />
+										)}
+									</button>
+									<input
+										ref={coverInputRef}
+										type="file"
+										accept="image/*"
+										className="hidden"
+										onChange={handleCoverChange}
+									/>
+									<div className="flex-1 space-y-4">
+										<FormField
+											control={form.control}
+											name="title"
+											render={({ field }) => (
+												<FormItem>
+													<FormLabel>Title</FormLabel>
+													<FormControl>
+														<Input {...field} className="h-9" />
+													</FormControl>
+													<FormMessage />
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name="tags"
+											render={({ field }) => (
+												<FormItem>
+													<FormLabel>Tags</FormLabel>
+													<FormControl>
+														<Input
+															placeholder="e.g. video, marketing"
+															{...field}
+															className="h-9"
+														/>
+													</FormControl>
+													<FormMessage />
+												</FormItem>
+											)}
+										/>
+									</div>
+								</div>
+								<FormField
+									control={form.control}
+									name="description"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Description</FormLabel>
+											<FormControl>
+												<Textarea
+													placeholder="What the template makes and which inputs to change"
+													{...field}
+													className="min-h-20"
+												/>
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+								{!template && (
+									<Input
+										placeholder="Version notes (optional)"
+										value={notes}
+										onChange={(e) => setNotes(e.target.value)}
+										className="h-9"
+									/>
+								)}
+								<Button
+									type="submit"
+									className="self-end"
+									disabled={isCreating || isUpdating || isUploading}
+								>
+									{(isCreating || isUpdating) && (
+										<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+									)}
+									{template ? "Save details" : "Publish template"}
+								</Button>
+							</form>
+						</Form>
+
+						{template && (
+							<>
+								<Separator />
+								<div className="space-y-3">
+									<div className="flex items-center justify-between gap-4">
+										<div>
+											<p className="text-sm font-medium">
+												Version {latest?.version ?? 0}
+											</p>
+											<p className="text-xs text-muted-foreground">
+												Used {template.useCount} times
+												{latest?.notes && ` · ${latest.notes}`}
+											</p>
+										</div>
+										<div className="flex items-center gap-2">
+											<span className="text-sm text-muted-foreground">
+												Listed in gallery
+											</span>
+											<Switch
+												checked={template.isPublished}
+												onCheckedChange={handleTogglePublished}
+												disabled={isUpdating}
+											/>
+										</div>
+									</div>
+									<div className="flex gap-2">
+										<Input
+											placeholder="What changed (optional)"
+											value={notes}
+											onChange={(e) => setNotes(e.target.value)}
+											className="h-9"
+										/>
+										<Button
+											variant="outline"
+											onClick={handlePublishVersion}
+											disabled={isPublishing}
+										>
+											{isPublishing ? (
+												<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+											) : (
+												<Upload className="mr-2 h-4 w-4" />
+											)}
+											Publish new version
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon"
+											title="Delete template"
+											className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+											onClick={handleDelete}
+											disabled={isDeleting}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</div>
+								</div>
+							</>
+						)}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
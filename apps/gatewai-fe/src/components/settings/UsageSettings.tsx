@@ -0,0 +1,323 @@
+import { Loader2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { UsageSummaryRPC } from "@/rpc/types";
+import { useGetUsageQuery, useUpdateApiKeyQuotaMutation } from "@/store/usage";
+import { Separator } from "../ui/separator";
+
+interface UsageSettingsProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const RANGE_DAYS_OPTIONS = [7, 30, 90];
+
+const UNIT_LABELS: Record<UsageSummaryRPC["daily"][number]["unit"], string> = {
+	TOKENS: "tokens",
+	IMAGES: "images",
+	VIDEO_SECONDS: "video seconds",
+	CHARACTERS: "speech characters",
+};
+
+const formatCredits = (credits: number) =>
+	credits.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * One entry per day of the range, days without usage included.
+ */
+function getDailyTotals(daily: UsageSummaryRPC["daily"], days: number) {
+	const today = new Date();
+	return Array.from({ length: days }, (_, i) => {
+		const date = new Date(
+			Date.UTC(
+				today.getUTCFullYear(),
+				today.getUTCMonth(),
+				today.getUTCDate() - days + 1 + i,
+			),
+		);
+		const day = date.toISOString().slice(0, 10);
+		const rows = daily.filter((row) => row.day === day);
+		return {
+			day,
+			cost: rows.reduce((sum, row) => sum + Number(row.cost), 0),
+			units: rows.map((row) => ({
+				unit: row.unit,
+				quantity: Number(row.quantity),
+			})),
+		};
+	});
+}
+
+function ApiKeyQuotaInput({
+	apiKey,
+}: {
+	apiKey: UsageSummaryRPC["apiKeys"][number];
+}) {
+	const [updateApiKeyQuota] = useUpdateApiKeyQuotaMutation();
+
+	const handleBlur = async (value: string) => {
+		const usageQuota = value.trim() === "" ? null : Number(value);
+		if (usageQuota === apiKey.usageQuota) return;
+		if (usageQuota !== null && (Number.isNaN(usageQuota) || usageQuota < 0)) {
+			toast.error("Quota must be a positive number");
+			return;
+		}
+		try {
+			await updateApiKeyQuota({ id: apiKey.id, usageQuota }).unwrap();
+			toast.success("Quota updated");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to update quota");
+		}
+	};
+
+	return (
+		<Input
+			type="number"
+			min={0}
+			placeholder="Unlimited"
+			defaultValue={apiKey.usageQuota ?? ""}
+			onBlur={(e) => handleBlur(e.target.value)}
+			className="h-8 w-32 ml-auto"
+		/>
+	);
+}
+
+export function UsageSettings({ open, onOpenChange }: UsageSettingsProps) {
+	const [days, setDays] = useState(30);
+	const { data, isLoading } = useGetUsageQuery(
+		{ query: { days: String(days) } },
+		{ skip: !open },
+	);
+
+	const dailyTotals = useMemo(
+		() => (data ? getDailyTotals(data.daily, days) : []),
+		[data, days],
+	);
+	const maxDailyCost = Math.max(...dailyTotals.map((d) => d.cost), 0);
+	const maxCanvasCost = Math.max(
+		...(data?.canvases ?? []).map((c) => c.cost),
+		0,
+	);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Usage</DialogTitle>
+					<DialogDescription>
+						Credits spent by AI nodes. Quotas reset at the start of each month
+						(UTC).
+					</DialogDescription>
+				</DialogHeader>
+
+				{isLoading || !data ? (
+					<div className="py-8 text-center text-muted-foreground">
+						<Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 opacity-50" />
+						Loading usage...
+					</div>
+				) : (
+					<div className="space-y-6">
+						{/* This month */}
+						<div className="space-y-2">
+							<div className="flex items-baseline justify-between">
+								<h4 className="text-sm font-medium">This month</h4>
+								<span className="text-sm text-muted-foreground">
+									{formatCredits(data.spend)}
+									{data.quota !== null
+										? ` / ${formatCredits(data.quota)} credits`
+										: " credits, no quota"}
+								</span>
+							</div>
+							{data.quota !== null && (
+								<div className="h-2 rounded-full bg-muted overflow-hidden">
+									<div
+										className="h-full bg-primary transition-all"
+										style={{
+											width: `${Math.min(100, data.quota > 0 ? (data.spend / data.quota) * 100 : 100)}%`,
+										}}
+									/>
+								</div>
+							)}
+						</div>
+						<Separator />
+
+						{/* Per day */}
+						<div className="space-y-3">
+							<div className="flex items-center justify-between">
+								<h4 className="text-sm font-medium">Per day</h4>
+								<Select
+									value={String(days)}
+									onValueChange={(v) => setDays(Number(v))}
+								>
+									<SelectTrigger className="h-8 w-36">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{RANGE_DAYS_OPTIONS.map((option) => (
+											<SelectItem key={option} value={String(option)}>
+												Last {option} days
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<TooltipProvider>
+								<div className="flex h-40 items-end gap-px rounded-md border p-2">
+									{dailyTotals.map((day) => (
+										<Tooltip key={day.day}>
+											<TooltipTrigger asChild>
+												<div className="flex h-full flex-1 items-end">
+													<div
+														className="w-full rounded-t-sm bg-primary/80 hover:bg-primary"
+														style={{
+															height: `${maxDailyCost > 0 ? (day.cost / maxDailyCost) * 100 : 0}%`,
+															minHeight: day.cost > 0 ? 2 : 0,
+														}}
+													/>
+												</div>
+											</TooltipTrigger>
+											<TooltipContent>
+												<p className="font-medium">
+													{day.day}: {formatCredits(day.cost)} credits
+												</p>
+												{day.units.map((u) => (
+													<p key={u.unit}>
+														{u.quantity.toLocaleString()} {UNIT_LABELS[u.unit]}
+													</p>
+												))}
+											</TooltipContent>
+										</Tooltip>
+									))}
+								</div>
+							</TooltipProvider>
+						</div>
+
+						{/* Per canvas */}
+						<div className="space-y-3">
+							<h4 className="text-sm font-medium">Per canvas</h4>
+							<div className="rounded-md border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Canvas</TableHead>
+											<TableHead>AI Tasks</TableHead>
+											<TableHead className="w-1/3">Credits</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{data.canvases.length === 0 ? (
+											<TableRow>
+												<TableCell
+													colSpan={3}
+													className="text-center py-8 text-muted-foreground"
+												>
+													No usage in this period.
+												</TableCell>
+											</TableRow>
+										) : (
+											data.canvases.map((canvas) => (
+												<TableRow key={canvas.canvasId}>
+													<TableCell className="font-medium">
+														{canvas.name ?? (
+															<span className="text-muted-foreground italic">
+																Deleted canvas
+															</span>
+														)}
+													</TableCell>
+													<TableCell className="text-sm text-muted-foreground">
+														{canvas.tasks}
+													</TableCell>
+													<TableCell>
+														<div className="flex items-center gap-2">
+															<div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+																<div
+																	className="h-full bg-primary"
+																	style={{
+																		width: `${maxCanvasCost > 0 ? (canvas.cost / maxCanvasCost) * 100 : 0}%`,
+																	}}
+																/>
+															</div>
+															<span className="w-16 text-right text-xs text-muted-foreground">
+																{formatCredits(canvas.cost)}
+															</span>
+														</div>
+													</TableCell>
+												</TableRow>
+											))
+										)}
+									</TableBody>
+								</Table>
+							</div>
+						</div>
+
+						{/* API key quotas */}
+						<div className="space-y-3">
+							<h4 className="text-sm font-medium">API key quotas</h4>
+							<div className="rounded-md border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Name</TableHead>
+											<TableHead>This Month</TableHead>
+											<TableHead className="text-right">
+												Monthly Quota
+											</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{data.apiKeys.map((apiKey) => (
+											<TableRow key={apiKey.id}>
+												<TableCell className="font-medium">
+													{apiKey.name}
+												</TableCell>
+												<TableCell className="text-sm text-muted-foreground">
+													{formatCredits(apiKey.spend)}
+												</TableCell>
+												<TableCell className="text-right">
+													<ApiKeyQuotaInput
+														key={`${apiKey.id}_${apiKey.usageQuota}`}
+														apiKey={apiKey}
+													/>
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+						</div>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
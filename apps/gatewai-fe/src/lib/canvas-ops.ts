@@ -0,0 +1,233 @@
+import type { CanvasEntityKind, CanvasOp } from "@gatewai/types";
+import type { Edge, Node } from "@xyflow/react";
+import { isEqual } from "lodash";
+import type { RootState } from "@/store";
+import type { EdgeEntityType } from "@/store/edges";
+import type { HandleEntityType } from "@/store/handles";
+import type { NodeEntityType } from "@/store/nodes";
+
+/**
+ * References to the canvas entities in the store. Redux keeps the reference of
+ * unchanged entities, so snapshots are cheap to take and to compare.
+ */
+export interface CanvasSnapshot {
+	nodes: Record<string, NodeEntityType>;
+	rfNodes: Record<string, Node>;
+	edges: Record<string, EdgeEntityType>;
+	rfEdges: Record<string, Edge>;
+	handles: Record<string, HandleEntityType>;
+}
+
+const NODE_FIELDS = ["name", "config", "result"] as const;
+const RF_NODE_FIELDS = ["position", "width", "height"] as const;
+const EDGE_FIELDS = [
+	"source",
+	"target",
+	"sourceHandleId",
+	"targetHandleId",
+] as const;
+const HANDLE_FIELDS = [
+	"nodeId",
+	"type",
+	"label",
+	"required",
+	"order",
+	"dataTypes",
+	"templateHandleId",
+] as const;
+
+const byId = <T extends { id: string }>(items: T[]) =>
+	Object.fromEntries(items.map((item) => [item.id, item]));
+
+export function takeCanvasSnapshot(state: RootState): CanvasSnapshot {
+	return {
+		nodes: state.nodes.entities,
+		rfNodes: byId(state.reactFlow.nodes),
+		edges: state.edges.entities,
+		rfEdges: byId(state.reactFlow.edges),
+		handles: state.handles.entities,
+	};
+}
+
+/**
+ * Keys of `next` that differ from `prev`, so `config` and `result` edits merge per key.
+ */
+function diffObject(prev: unknown, next: unknown) {
+	if (typeof prev !== "object" || typeof next !== "object" || !prev || !next) {
+		return next;
+	}
+	const changes: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(next)) {
+		if (!isEqual((prev as Record<string, unknown>)[key], value)) {
+			changes[key] = value;
+		}
+	}
+	return changes;
+}
+
+function getChangedFields<T extends object>(
+	prev: T,
+	next: T,
+	fields: readonly (keyof T & string)[],
+) {
+	const changes: Record<string, unknown> = {};
+	for (const field of fields) {
+		if (!isEqual(prev[field], next[field])) {
+			changes[field] = next[field];
+		}
+	}
+	return changes;
+}
+
+function getNodeFields(node: NodeEntityType, rfNode: Node) {
+	return {
+		...node,
+		position: rfNode.position,
+		width: rfNode.width ?? undefined,
+		height: rfNode.height ?? undefined,
+	};
+}
+
+function diffNode(
+	prev: NodeEntityType,
+	prevRf: Node,
+	next: NodeEntityType,
+	nextRf: Node,
+) {
+	const changes: Record<string, unknown> = {
+		...getChangedFields(prev, next, NODE_FIELDS),
+		...getChangedFields(prevRf, nextRf, RF_NODE_FIELDS),
+	};
+	if ("config" in changes) {
+		changes.config = diffObject(prev.config, next.config);
+	}
+	if ("result" in changes) {
+		// Terminal node results come from tasks, every client receives them
+		changes.result = next.template.isTerminalNode
+			? diffObject(
+					{ selectedOutputIndex: getSelectedOutputIndex(prev.result) },
+					{ selectedOutputIndex: getSelectedOutputIndex(next.result) },
+				)
+			: diffObject(prev.result, next.result);
+	}
+	return changes;
+}
+
+function getSelectedOutputIndex(result: unknown) {
+	return (result as { selectedOutputIndex?: number } | null)
+		?.selectedOutputIndex;
+}
+
+/**
+ * Ops that turn `prev` into `next`. New entities carry every field, changed ones
+ * only what changed. Nodes and edges need both their entity and React Flow state.
+ */
+export function diffCanvasSnapshots(
+	prev: CanvasSnapshot,
+	next: CanvasSnapshot,
+): CanvasOp[] {
+	const ops: CanvasOp[] = [];
+	const upsert = (
+		entity: CanvasEntityKind,
+		id: string,
+		fields: Record<string, unknown>,
+	) => {
+		const hasChanges = Object.values(fields).some(
+			(value) =>
+				typeof value !== "object" ||
+				value === null ||
+				Object.keys(value).length > 0,
+		);
+		if (hasChanges) {
+			ops.push({ op: "upsert", entity, id, fields });
+		}
+	};
+
+	for (const [id, node] of Object.entries(next.nodes)) {
+		const rfNode = next.rfNodes[id];
+		if (!rfNode) continue;
+		const prevNode = prev.nodes[id];
+		const prevRfNode = prev.rfNodes[id];
+		if (!prevNode || !prevRfNode) {
+			upsert("node", id, getNodeFields(node, rfNode));
+		} else if (prevNode !== node || prevRfNode !== rfNode) {
+			upsert("node", id, diffNode(prevNode, prevRfNode, node, rfNode));
+		}
+	}
+
+	for (const [id, handle] of Object.entries(next.handles)) {
+		const prevHandle = prev.handles[id];
+		if (!prevHandle) {
+			upsert("handle", id, handle);
+		} else if (prevHandle !== handle) {
+			upsert("handle", id, getChangedFields(prevHandle, handle, HANDLE_FIELDS));
+		}
+	}
+
+	for (const [id, edge] of Object.entries(next.edges)) {
+		if (!next.rfEdges[id]) continue;
+		const prevEdge = prev.edges[id];
+		if (!prevEdge || !prev.rfEdges[id]) {
+			upsert("edge", id, edge);
+		} else if (prevEdge !== edge) {
+			upsert("edge", id, getChangedFields(prevEdge, edge, EDGE_FIELDS));
+		}
+	}
+
+	// Edges and handles go before their nodes, like the server deletes them
+	for (const id of Object.keys(prev.edges)) {
+		if (prev.rfEdges[id] && !(next.edges[id] && next.rfEdges[id])) {
+			ops.push({ op: "delete", entity: "edge", id });
+		}
+	}
+	for (const id of Object.keys(prev.handles)) {
+		if (!next.handles[id]) {
+			ops.push({ op: "delete", entity: "handle", id });
+		}
+	}
+	for (const id of Object.keys(prev.nodes)) {
+		if (prev.rfNodes[id] && !(next.nodes[id] && next.rfNodes[id])) {
+			ops.push({ op: "delete", entity: "node", id });
+		}
+	}
+
+	return ops;
+}
+
+/**
+ * Takes the entities touched by `ops` from `next`, e.g. after applying edits of
+ * collaborators, so they aren't sent back as local edits.
+ */
+export function patchCanvasSnapshot(
+	snapshot: CanvasSnapshot,
+	next: CanvasSnapshot,
+	ops: CanvasOp[],
+): CanvasSnapshot {
+	const patched: CanvasSnapshot = {
+		nodes: { ...snapshot.nodes },
+		rfNodes: { ...snapshot.rfNodes },
+		edges: { ...snapshot.edges },
+		rfEdges: { ...snapshot.rfEdges },
+		handles: { ...snapshot.handles },
+	};
+	const take = <K extends keyof CanvasSnapshot>(key: K, id: string) => {
+		if (next[key][id]) {
+			patched[key][id] = next[key][id];
+		} else {
+			delete patched[key][id];
+		}
+	};
+
+	for (const op of ops) {
+		if (op.entity === "node") {
+			take("nodes", op.id);
+			take("rfNodes", op.id);
+		} else if (op.entity === "edge") {
+			take("edges", op.id);
+			take("rfEdges", op.id);
+		} else {
+			take("handles", op.id);
+		}
+	}
+	return patched;
+}
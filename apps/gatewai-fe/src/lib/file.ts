@@ -17,6 +17,7 @@ export const MIME_TYPES: Record<string, string> = {
 	jpeg: "image/jpeg",
 	gif: "image/gif",
 	webp: "image/webp",
+	avif: "image/avif",
 	svg: "image/svg+xml",
 	mp4: "video/mp4",
 	webm: "video/webm",
@@ -38,7 +39,7 @@ export const BASE_URL = getEnv("VITE_BASE_URL");
  * Remotion's MediaBunny requires an extension in the URL string
  * to identify the container format before fetching.
  */
-function GetAssetEndpoint(fileAsset: FileAsset) {
+function GetAssetEndpoint(fileAsset: Pick<FileAsset, "id" | "mimeType">) {
 	// Ensure the ID itself doesn't already have an extension
 	const cleanId = fileAsset.id.split(".")[0];
 	const baseUrl = `${BASE_URL}/api/v1/assets/${cleanId}`;
@@ -114,4 +115,18 @@ export function ResolveFileDataUrl(data: FileData) {
 	if (data.entity?.signedUrl) return GetAssetEndpoint(data.entity);
 }
 
+/**
+ * Human readable file size, e.g. 1.2 MB
+ */
+export function formatFileSize(bytes: number) {
+	const units = ["B", "KB", "MB", "GB"];
+	let size = bytes;
+	let unit = 0;
+	while (size >= 1024 && unit < units.length - 1) {
+		size /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
 export { GetAssetEndpoint, GetFontAssetUrl, extractExtension, isFileData };
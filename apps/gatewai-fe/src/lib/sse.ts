@@ -0,0 +1,34 @@
+// Utility to read SSE stream and yield typed events
+async function* readSSEStream<T>(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+): AsyncGenerator<T, void, unknown> {
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split("\n");
+			buffer = lines.pop() || "";
+
+			for (const line of lines) {
+				if (line.trim() === "") continue;
+				if (line.startsWith("data: ")) {
+					const jsonStr = line.slice(6);
+					try {
+						const event = JSON.parse(jsonStr) as T;
+						yield event;
+					} catch (e) {
+						console.error("Error parsing SSE JSON:", e);
+					}
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+export { readSSEStream };
@@ -1,3 +1,4 @@
+import type { CanvasExport } from "@gatewai/types";
 import {
 	createContext,
 	type Dispatch,
@@ -6,15 +7,18 @@ import {
 	useContext,
 	useState,
 } from "react";
-import type { CanvasListRPC } from "@/rpc/types";
+import type { CanvasListRPC, SharedCanvasListRPC } from "@/rpc/types";
 import {
 	useCreateCanvasMutation,
 	useDeleteCanvasMutation,
 	useGetCanvasListQuery,
+	useGetSharedCanvasesQuery,
+	useImportCanvasMutation,
 } from "@/store/canvas-list";
 
 interface CanvasContextType {
 	canvasList: CanvasListRPC | undefined;
+	sharedCanvasList: SharedCanvasListRPC | undefined;
 	isError: boolean;
 	isLoading: boolean;
 	searchQuery: string;
@@ -22,10 +26,14 @@ interface CanvasContextType {
 	createCanvas: (
 		name: string,
 	) => ReturnType<ReturnType<typeof useCreateCanvasMutation>[0]>;
+	importCanvas: (
+		document: CanvasExport,
+	) => ReturnType<ReturnType<typeof useImportCanvasMutation>[0]>;
 	deleteCanvas: (
 		id: string,
 	) => ReturnType<ReturnType<typeof useDeleteCanvasMutation>[0]>;
 	isCreating: boolean;
+	isImporting: boolean;
 }
 
 const CanvasListContext = createContext<CanvasContextType | undefined>(
@@ -41,18 +49,25 @@ export const CanvasListProvider = ({ children }: PropsWithChildren) => {
 			q: searchQuery,
 		},
 	});
+	const { data: sharedCanvasList } = useGetSharedCanvasesQuery({
+		q: searchQuery,
+	});
 	const [mutate, { isLoading: isCreating }] = useCreateCanvasMutation();
+	const [importCanvas, { isLoading: isImporting }] = useImportCanvasMutation();
 	const [deleteCanvas] = useDeleteCanvasMutation();
 
 	const value = {
 		canvasList: data,
+		sharedCanvasList,
 		isError,
 		isLoading,
 		searchQuery,
 		setSearchQuery,
 		createCanvas: (_name: string) => mutate({}),
+		importCanvas: (document: CanvasExport) => importCanvas({ json: document }),
 		deleteCanvas: (id: string) => deleteCanvas({ param: { id } }),
 		isCreating,
+		isImporting,
 	};
 
 	return (
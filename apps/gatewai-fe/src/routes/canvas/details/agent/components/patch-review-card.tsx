@@ -15,8 +15,13 @@ export function PatchReviewCard({
 	initialStatus = "PENDING",
 	onComplete,
 }: PatchReviewCardProps) {
-	const { isReviewing, previewPatch, applyPatch, rejectPatch, cancelPreview } =
-		useCanvasCtx();
+	const {
+		previewPatchId,
+		previewPatch,
+		applyPatch,
+		rejectPatch,
+		cancelPreview,
+	} = useCanvasCtx();
 	const [status, setStatus] = useState(initialStatus);
 
 	const handleApply = async () => {
@@ -54,7 +59,7 @@ export function PatchReviewCard({
 						<X className="w-3.5 h-3.5 text-red-500" />
 						<span className="text-[11px] font-medium">Changes discarded</span>
 					</motion.div>
-				) : !isReviewing ? (
+				) : previewPatchId !== patchId ? (
 					<motion.div
 						key="idle"
 						initial={{ opacity: 0, scale: 0.98 }}
@@ -1,6 +1,7 @@
 import type { GatewaiAgentEvent } from "@gatewai/types";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { generateId } from "@/lib/idgen";
+import { readSSEStream } from "@/lib/sse";
 import { rpcClient } from "@/rpc/client";
 
 export type MessageRole = "user" | "model" | "system";
@@ -16,39 +17,6 @@ export interface ChatMessage {
 	createdAt: Date;
 }
 
-// Utility to read SSE stream and yield typed events
-async function* readStream(
-	reader: ReadableStreamDefaultReader<Uint8Array>,
-): AsyncGenerator<GatewaiAgentEvent, void, unknown> {
-	const decoder = new TextDecoder();
-	let buffer = "";
-
-	try {
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) break;
-			buffer += decoder.decode(value, { stream: true });
-			const lines = buffer.split("\n");
-			buffer = lines.pop() || "";
-
-			for (const line of lines) {
-				if (line.trim() === "") continue;
-				if (line.startsWith("data: ")) {
-					const jsonStr = line.slice(6);
-					try {
-						const event = JSON.parse(jsonStr) as GatewaiAgentEvent;
-						yield event;
-					} catch (e) {
-						console.error("Error parsing SSE JSON:", e);
-					}
-				}
-			}
-		}
-	} finally {
-		reader.releaseLock();
-	}
-}
-
 export function useAgentChatStream(
 	canvasId: string,
 	sessionId: string,
@@ -82,7 +50,7 @@ export function useAgentChatStream(
 			}
 
 			try {
-				for await (const event of readStream(reader)) {
+				for await (const event of readSSEStream<GatewaiAgentEvent>(reader)) {
 					if (event.type === "done") {
 						break;
 					}
@@ -0,0 +1,113 @@
+import { DEFAULT_MODEL_PROVIDER, type ModelCapability } from "@gatewai/types";
+import { type JSX, memo } from "react";
+import type { Control, FieldValues, UseFormReturn } from "react-hook-form";
+import { useWatch } from "react-hook-form";
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import {
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectLabel,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useGetModelProvidersQuery } from "@/store/models";
+
+type ModelConfigFields = { provider: string; model: string };
+
+type ModelSelectFieldProps<T extends FieldValues & ModelConfigFields> = {
+	form: UseFormReturn<T>;
+	capability: ModelCapability;
+	disabled?: boolean;
+};
+
+// Provider IDs never contain ":", model IDs may (e.g. llama3:8b)
+const toOptionValue = (provider: string, model: string) =>
+	`${provider}:${model}`;
+
+function ModelSelectFieldInner<T extends FieldValues & ModelConfigFields>({
+	form,
+	capability,
+	disabled,
+}: ModelSelectFieldProps<T>): JSX.Element {
+	const modelForm = form as unknown as UseFormReturn<ModelConfigFields>;
+	const control = form.control as unknown as Control<ModelConfigFields>;
+	const provider =
+		useWatch({ control, name: "provider" }) ?? DEFAULT_MODEL_PROVIDER;
+	const { data: providers, isLoading } = useGetModelProvidersQuery();
+
+	const groups = (providers ?? [])
+		.map((p) => ({ ...p, models: p.models[capability] ?? [] }))
+		.filter((p) => p.models.length > 0);
+
+	return (
+		<FormField
+			control={control}
+			name="model"
+			render={({ field }) => {
+				// Keep showing the configured model when its provider is no longer registered
+				const isListed = groups.some(
+					(g) => g.id === provider && g.models.includes(field.value),
+				);
+				return (
+					<FormItem>
+						<FormLabel>Model</FormLabel>
+						<Select
+							disabled={disabled || isLoading}
+							onValueChange={(value) => {
+								const separatorIndex = value.indexOf(":");
+								modelForm.setValue("provider", value.slice(0, separatorIndex), {
+									shouldDirty: true,
+								});
+								field.onChange(value.slice(separatorIndex + 1));
+							}}
+							value={field.value ? toOptionValue(provider, field.value) : ""}
+						>
+							<FormControl>
+								<SelectTrigger>
+									<SelectValue placeholder="Select a model" />
+								</SelectTrigger>
+							</FormControl>
+							<SelectContent>
+								{!isListed && field.value && (
+									<SelectItem value={toOptionValue(provider, field.value)}>
+										{field.value}
+									</SelectItem>
+								)}
+								{groups.map((group) => (
+									<SelectGroup key={group.id}>
+										<SelectLabel>{group.label}</SelectLabel>
+										{group.models.map((model) => (
+											<SelectItem
+												key={`${group.id}_${model}_${capability}_cfg`}
+												value={toOptionValue(group.id, model)}
+											>
+												{model}
+											</SelectItem>
+										))}
+									</SelectGroup>
+								))}
+							</SelectContent>
+						</Select>
+						<FormMessage />
+					</FormItem>
+				);
+			}}
+		/>
+	);
+}
+
+const ModelSelectField = memo(ModelSelectFieldInner) as <
+	T extends FieldValues & ModelConfigFields,
+>(
+	props: ModelSelectFieldProps<T>,
+) => JSX.Element;
+
+export { ModelSelectField };
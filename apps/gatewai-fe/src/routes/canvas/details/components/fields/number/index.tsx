@@ -0,0 +1,84 @@
+import { Info } from "lucide-react";
+import { type JSX, memo } from "react";
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+import {
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+type NumberFieldProps<T extends FieldValues> = {
+	control: Control<T>;
+	name: FieldPath<T>;
+	label?: string;
+	placeholder?: string;
+	min?: number;
+	max?: number;
+	step?: number;
+	info?: string;
+};
+
+function NumberFieldInner<T extends FieldValues>({
+	control,
+	name,
+	label,
+	placeholder,
+	min,
+	max,
+	step,
+	info,
+}: NumberFieldProps<T>): JSX.Element {
+	return (
+		<FormField
+			control={control}
+			name={name}
+			render={({ field }) => (
+				<FormItem>
+					<div className="flex items-center space-x-2">
+						<FormLabel>{label}</FormLabel>
+						{info && (
+							<Tooltip>
+								<TooltipTrigger asChild>
+									<Info className="h-4 w-4 text-muted-foreground cursor-help" />
+								</TooltipTrigger>
+								<TooltipContent>{info}</TooltipContent>
+							</Tooltip>
+						)}
+					</div>
+					<FormControl>
+						<Input
+							type="number"
+							placeholder={placeholder}
+							min={min}
+							max={max}
+							step={step}
+							value={field.value ?? ""}
+							onChange={(e) =>
+								// Empty input clears the value instead of setting 0
+								field.onChange(
+									e.target.value === "" ? undefined : Number(e.target.value),
+								)
+							}
+						/>
+					</FormControl>
+					<FormMessage />
+				</FormItem>
+			)}
+		/>
+	);
+}
+
+// Memoize and cast to maintain generic support in JSX
+const NumberField = memo(NumberFieldInner) as <T extends FieldValues>(
+	props: NumberFieldProps<T>,
+) => JSX.Element;
+
+export { NumberField };
@@ -1,5 +1,5 @@
 import { Info } from "lucide-react";
-import { memo, type ReactNode } from "react";
+import { type JSX, memo, type ReactNode } from "react";
 import type {
 	Control,
 	FieldPath,
@@ -27,39 +27,42 @@ type SwitchFieldProps<T extends FieldValues> = {
 	info?: ReactNode;
 } & Pick<UseControllerProps<T>, "rules">;
 
-const SwitchField = memo(
-	<T extends FieldValues>({
-		control,
-		name,
-		label,
-		info,
-	}: SwitchFieldProps<T>) => {
-		return (
-			<FormField
-				control={control}
-				name={name}
-				render={({ field }) => (
-					<FormItem>
-						<div className="flex items-center space-x-2">
-							<FormLabel>{label}</FormLabel>
-							{info && (
-								<Tooltip>
-									<TooltipTrigger asChild>
-										<Info className="h-4 w-4 text-muted-foreground cursor-help" />
-									</TooltipTrigger>
-									<TooltipContent>{info}</TooltipContent>
-								</Tooltip>
-							)}
-						</div>
-						<FormControl>
-							<Switch checked={field.value} onCheckedChange={field.onChange} />
-						</FormControl>
-						<FormMessage />
-					</FormItem>
-				)}
-			/>
-		);
-	},
-);
+function SwitchFieldInner<T extends FieldValues>({
+	control,
+	name,
+	label,
+	info,
+}: SwitchFieldProps<T>): JSX.Element {
+	return (
+		<FormField
+			control={control}
+			name={name}
+			render={({ field }) => (
+				<FormItem>
+					<div className="flex items-center space-x-2">
+						<FormLabel>{label}</FormLabel>
+						{info && (
+							<Tooltip>
+								<TooltipTrigger asChild>
+									<Info className="h-4 w-4 text-muted-foreground cursor-help" />
+								</TooltipTrigger>
+								<TooltipContent>{info}</TooltipContent>
+							</Tooltip>
+						)}
+					</div>
+					<FormControl>
+						<Switch checked={field.value} onCheckedChange={field.onChange} />
+					</FormControl>
+					<FormMessage />
+				</FormItem>
+			)}
+		/>
+	);
+}
+
+// Memoize and cast to maintain generic support in JSX
+const SwitchField = memo(SwitchFieldInner) as <T extends FieldValues>(
+	props: SwitchFieldProps<T>,
+) => JSX.Element;
 
 export { SwitchField };
@@ -3,6 +3,7 @@ import type {
 	AllNodeConfig,
 	BulkUpdatePayload,
 	NodeResult,
+	SubCanvasNodeConfig,
 } from "@gatewai/types";
 import {
 	type Connection,
@@ -36,16 +37,18 @@ import { generateId } from "@/lib/idgen";
 import type {
 	CanvasDetailsRPC,
 	NodeTemplateListItemRPC,
-	PatchCanvasRPCParams,
+	PublishedCanvasListItemRPC,
 } from "@/rpc/types";
 import { type RootState, useAppDispatch, useAppSelector } from "@/store";
 import {
 	useApplyPatchMutation,
 	useGetCanvasDetailsQuery,
+	useLazyGetCanvasVersionQuery,
 	useLazyGetPatchQuery,
-	usePatchCanvasMutation,
 	useProcessNodesMutation,
 	useRejectPatchMutation,
+	useRestoreCanvasVersionMutation,
+	useSaveCanvasOpsMutation,
 } from "@/store/canvas";
 import {
 	deleteManyEdgeEntity,
@@ -82,6 +85,7 @@ import {
 import type { BatchEntity } from "@/store/tasks";
 import { useNodeTemplates } from "../node-templates/node-templates.ctx";
 import { useTaskManagerCtx } from "./task-manager-ctx";
+import { useCanvasCollab } from "./use-canvas-collab";
 
 interface CanvasContextType {
 	canvas: CanvasDetailsRPC["canvas"] | undefined;
@@ -97,6 +101,10 @@ interface CanvasContextType {
 		position: XYPosition,
 		initialResult?: NodeResult,
 	) => void;
+	createSubCanvasNode: (
+		publishedCanvas: PublishedCanvasListItemRPC,
+		position: XYPosition,
+	) => void;
 	onNodesDelete: (nodeIds: Node["id"][]) => void;
 	onEdgesDelete: (edgeIds: Edge["id"][]) => void;
 	duplicateNodes: (nodeIds: Node["id"][]) => void;
@@ -115,13 +123,20 @@ interface CanvasContextType {
 		},
 	) => void;
 
-	// Patch System
+	// Patch System, versions are previewed the same way
 	isReviewing: boolean;
+	previewPatchId: string | null;
 	previewPatch: (patchId: string) => Promise<void>;
 	applyPatch: (patchId: string) => Promise<void>;
 	rejectPatch: (patchId: string) => Promise<void>;
+	previewVersionId: string | null;
+	previewVersion: (versionId: string) => Promise<void>;
+	restoreVersion: (versionId: string) => Promise<void>;
 	cancelPreview: () => void;
 	onHandlesDelete: (handleIds: string[]) => void;
+
+	// Collaboration, flow coordinates of the pointer or null when it left the canvas
+	updateCursor: (cursor: XYPosition | null) => void;
 }
 
 const CanvasContext = createContext<CanvasContextType | undefined>(undefined);
@@ -142,12 +157,14 @@ const CanvasProvider = ({
 
 	const handleEntities = useAppSelector(handleSelectors.selectAll);
 
-	const [patchCanvasAsync] = usePatchCanvasMutation();
+	const [saveCanvasOpsAsync] = useSaveCanvasOpsMutation();
 	const [runNodesMutateAsync] = useProcessNodesMutation();
 
 	const [triggerGetPatch] = useLazyGetPatchQuery();
 	const [applyPatchMutation] = useApplyPatchMutation();
 	const [rejectPatchMutation] = useRejectPatchMutation();
+	const [triggerGetVersion] = useLazyGetCanvasVersionQuery();
+	const [restoreVersionMutation] = useRestoreCanvasVersionMutation();
 
 	const { nodeTemplates } = useNodeTemplates();
 
@@ -165,6 +182,7 @@ const CanvasProvider = ({
 	// Use useRef instead of useState for isReviewing to prevent unnecessary re-renders
 	const isReviewingRef = useRef(false);
 	const previewPatchIdRef = useRef<string | null>(null);
+	const previewVersionIdRef = useRef<string | null>(null);
 
 	// Track state changes to force re-render when needed
 	const [reviewingStateVersion, setReviewingStateVersion] = useState(0);
@@ -209,83 +227,60 @@ const CanvasProvider = ({
 		}
 	}, [dispatch, canvasDetailsResponse, initialNodes, initialEdges]);
 
-	const getSavePayload = useCallback(() => {
-		const state = store.getState() as RootState;
-		const currentNodeEntities = Object.values(state.nodes.entities);
-		const currentRfNodes = Object.values(state.reactFlow.nodes);
-		const currentEdgeEntities = Object.values(state.edges.entities);
-		const currentRfEdges = Object.values(state.reactFlow.edges);
-		const currentHandleEntities = Object.values(state.handles.entities);
-		const currentCanvasDetailsNodes = currentNodeEntities
-			.map((n) => {
-				const rfNode = currentRfNodes.find((f) => f.id === n.id);
-				if (!rfNode) {
-					return undefined;
-				}
-				return {
-					...n,
-					position: rfNode.position,
-					width: rfNode.width ?? undefined,
-					height: rfNode.height ?? undefined,
-					result: n.result ?? undefined,
-				};
-			})
-			.filter((f) => !!f);
-
-		const currentDbEdges: PatchCanvasRPCParams["json"]["edges"] =
-			currentEdgeEntities
-				.map((e) => {
-					const rfEdge = currentRfEdges.find((f) => f.id === e.id);
-					if (!rfEdge || !e) {
-						return null;
-					}
-					return {
-						id: e.id,
-						source: rfEdge.source,
-						target: rfEdge.target,
-						targetHandleId: rfEdge.targetHandle as string,
-						sourceHandleId: rfEdge.sourceHandle as string,
-					};
-				})
-				.filter(Boolean) as PatchCanvasRPCParams["json"]["edges"];
-
-		const body: PatchCanvasRPCParams["json"] = {
-			nodes: currentCanvasDetailsNodes,
-			edges: currentDbEdges,
-			handles: currentHandleEntities,
-		};
+	const { resetSnapshot, takePendingOps, requeueOps, updateCursor } =
+		useCanvasCollab({
+			canvasId,
+			isPausedRef: isReviewingRef,
+			onLocalOps: () => scheduleSave(undefined, { preventExtend: true }),
+			onReload: async () => {
+				await save();
+				refetchCanvas();
+			},
+		});
 
-		return body;
-	}, [store]);
+	useEffect(() => {
+		if (canvasDetailsResponse?.nodes && !isReviewingRef.current) {
+			resetSnapshot();
+		}
+	}, [canvasDetailsResponse, resetSnapshot]);
 
 	const save = useCallback(async () => {
 		if (!canvasId || isReviewingRef.current) {
 			return;
 		}
 
-		const body = getSavePayload();
+		// Only what changed is saved, so edits of collaborators aren't overwritten
+		const ops = takePendingOps();
+		if (!ops.length) {
+			return;
+		}
 
-		return patchCanvasAsync({
-			json: body,
+		const result = await saveCanvasOpsAsync({
+			json: { ops },
 			param: {
 				id: canvasId,
 			},
 		});
-	}, [canvasId, patchCanvasAsync, getSavePayload]);
+		if ("error" in result) {
+			requeueOps(ops);
+		}
+		return result;
+	}, [canvasId, saveCanvasOpsAsync, takePendingOps, requeueOps]);
 
 	useEffect(() => {
 		const handleBeforeUnload = () => {
 			if (!canvasId || isReviewingRef.current) return;
 
-			const body = getSavePayload();
-			const url = `/api/v1/canvas/${canvasId}`;
+			const ops = takePendingOps();
+			if (!ops.length) return;
+			const url = `/api/v1/canvas/${canvasId}/ops`;
 
 			fetch(url, {
-				method: "PATCH",
+				method: "POST",
 				headers: {
 					"Content-Type": "application/json",
 				},
-				body: JSON.stringify(body),
+				body: JSON.stringify({ ops }),
 				keepalive: true,
 			});
 		};
@@ -295,7 +290,7 @@ const CanvasProvider = ({
 		return () => {
 			window.removeEventListener("beforeunload", handleBeforeUnload);
 		};
-	}, [canvasId, getSavePayload]);
+	}, [canvasId, takePendingOps]);
 
 	const scheduleSave = useCallback(
 		(delay?: number, opts?: { preventExtend?: boolean }) => {
@@ -671,6 +666,15 @@ const CanvasProvider = ({
 			template: NodeTemplateListItemRPC,
 			position: XYPosition,
 			initialResult?: NodeResult,
+			// Nodes without template handles (e.g. SubCanvas) bring their own handles
+			overrides?: {
+				name: string;
+				config: AllNodeConfig;
+				handles: Pick<
+					HandleEntityType,
+					"type" | "label" | "dataTypes" | "required" | "order"
+				>[];
+			},
 		) => {
 			const nodeId = generateId();
 			const initialResultToUse: NodeResult = initialResult ?? {
@@ -678,19 +682,29 @@ const CanvasProvider = ({
 				outputs: [],
 			};
 
-			const handles = template.templateHandles.map((tHandle) => ({
-				nodeId: nodeId,
-				label: tHandle.label,
-				templateHandleId: tHandle.id,
-				id: generateId(),
-				description: null,
-				order: tHandle.order,
-				required: tHandle.required,
-				createdAt: new Date().toISOString(),
-				updatedAt: new Date().toISOString(),
-				type: tHandle.type,
-				dataTypes: tHandle.dataTypes,
-			}));
+			const handles: HandleEntityType[] = overrides
+				? overrides.handles.map((handle) => ({
+						...handle,
+						nodeId: nodeId,
+						templateHandleId: null,
+						id: generateId(),
+						description: null,
+						createdAt: new Date().toISOString(),
+						updatedAt: new Date().toISOString(),
+					}))
+				: template.templateHandles.map((tHandle) => ({
+						nodeId: nodeId,
+						label: tHandle.label,
+						templateHandleId: tHandle.id,
+						id: generateId(),
+						description: null,
+						order: tHandle.order,
+						required: tHandle.required,
+						createdAt: new Date().toISOString(),
+						updatedAt: new Date().toISOString(),
+						type: tHandle.type,
+						dataTypes: tHandle.dataTypes,
+					}));
 			if (initialResultToUse.outputs.length) {
 				for (let i = 0; i < initialResultToUse.outputs[0].items?.length; i++) {
 					const outputItem = initialResultToUse.outputs[0].items[i];
@@ -703,7 +717,7 @@ const CanvasProvider = ({
 
 			const nodeEntity: NodeEntityType = {
 				id: nodeId,
-				name: template.displayName,
+				name: overrides?.name ?? template.displayName,
 				templateId: template.id,
 				template: template,
 				type: template.type as NodeType,
@@ -715,7 +729,9 @@ const CanvasProvider = ({
 				createdAt: new Date().toISOString(),
 				updatedAt: new Date().toISOString(),
 				originalNodeId: null,
-				config: template.defaultConfig || {},
+				config:
+					(overrides?.config as unknown as NodeEntityType["config"]) ??
+					(template.defaultConfig || {}),
 				result: initialResult as unknown as NodeEntityType["result"],
 			};
 			const newNode: Node = {
@@ -743,6 +759,45 @@ const CanvasProvider = ({
 		[canvasId, dispatch, scheduleSave],
 	);
 
+	const createSubCanvasNode = useCallback(
+		(publishedCanvas: PublishedCanvasListItemRPC, position: XYPosition) => {
+			const template = nodeTemplates?.find((t) => t.type === "SubCanvas");
+			if (!template) {
+				toast.error("Sub-canvas node template not found");
+				return;
+			}
+
+			// Handle order is the index into inputNodeIds / outputNodeIds
+			const config: SubCanvasNodeConfig = {
+				canvasId: publishedCanvas.id,
+				inputNodeIds: publishedCanvas.inputs.map((input) => input.nodeId),
+				outputNodeIds: publishedCanvas.outputs.map((output) => output.nodeId),
+			};
+
+			createNewNode(template, position, undefined, {
+				name: publishedCanvas.name,
+				config,
+				handles: [
+					...publishedCanvas.inputs.map((input, order) => ({
+						type: "Input" as const,
+						label: input.label,
+						dataTypes: input.dataTypes,
+						required: false,
+						order,
+					})),
+					...publishedCanvas.outputs.map((output, order) => ({
+						type: "Output" as const,
+						label: output.label,
+						dataTypes: output.dataTypes,
+						required: false,
+						order,
+					})),
+				],
+			});
+		},
+		[createNewNode, nodeTemplates],
+	);
+
 	const duplicateNodes = useCallback(
 		(nodeIds: Node["id"][]) => {
 			const newRfNodes: Node[] = [];
@@ -867,6 +922,86 @@ const CanvasProvider = ({
 
 	// --- Patch System Implementation ---
 
+	/**
+	 * Shows the payload on the canvas without saving it, until the preview is
+	 * accepted or cancelled.
+	 */
+	const previewCanvasPayload = useCallback(
+		async (payload: BulkUpdatePayload) => {
+			// Cancelling goes back to the saved canvas, keep local edits
+			await save();
+
+			const state = store.getState() as RootState;
+			const currentNodeEntities = Object.values(state.nodes.entities);
+
+			const patchNodes: NodeEntityType[] = (payload.nodes || []).map((n) => ({
+				...n,
+				isDirty: false,
+				createdAt: new Date().toISOString(),
+				updatedAt: new Date().toISOString(),
+				canvasId,
+				template: (n as any).template,
+			})) as any;
+
+			const hydratedNodes = patchNodes.map((n) => {
+				const template = nodeTemplates?.find((t) => t.id === n.templateId);
+				const prevNode = currentNodeEntities.find((f) => f.id === n.id);
+				return {
+					...n,
+					template: template || (n as any).template,
+					draggable: true,
+					selectable: true,
+					result: n.result ?? prevNode?.result,
+					deletable: true,
+				};
+			});
+
+			const rfPatchNodes: Node[] = hydratedNodes.map((node) => ({
+				id: node.id,
+				position: node.position as XYPosition,
+				data: node,
+				type: node.type,
+				width: node.width ?? undefined,
+				height: node.height ?? undefined,
+				draggable: true,
+				selectable: true,
+				deletable: true,
+			}));
+
+			// Edges of patches may come without an ID
+			const patchEdges = (payload.edges || []).map((edge) => ({
+				...edge,
+				id: edge.id ?? generateId(),
+			}));
+
+			const rfPatchEdges: Edge[] = patchEdges.map((edge) => ({
+				id: edge.id,
+				source: edge.source,
+				target: edge.target,
+				sourceHandle: edge.sourceHandleId || undefined,
+				targetHandle: edge.targetHandleId || undefined,
+			}));
+
+			// Set reviewing state BEFORE updating Redux to prevent save triggers
+			isReviewingRef.current = true;
+			dispatch(setAllNodeEntities(hydratedNodes as NodeEntityType[]));
+			dispatch(setAllEdgeEntities(patchEdges as EdgeEntityType[]));
+			dispatch(setAllHandleEntities(payload.handles as HandleEntityType[]));
+			dispatch(setNodes(rfPatchNodes));
+			dispatch(setEdges(rfPatchEdges));
+		},
+		[canvasId, dispatch, nodeTemplates, save, store],
+	);
+
+	const clearPreview = useCallback(() => {
+		isReviewingRef.current = false;
+		previewPatchIdRef.current = null;
+		previewVersionIdRef.current = null;
+		resetSnapshot();
+		// Force re-render to update UI with new reviewing state
+		setReviewingStateVersion((v) => v + 1);
+	}, [resetSnapshot]);
+
 	const previewPatch = useCallback(
 		async (patchId: string) => {
 			try {
@@ -879,63 +1014,9 @@ const CanvasProvider = ({
 					return;
 				}
 
-				const state = store.getState() as RootState;
-				const currentNodeEntities = Object.values(state.nodes.entities);
-
-				const patchData = patch.patch as unknown as BulkUpdatePayload;
-
-				const patchNodes: NodeEntityType[] = (patchData.nodes || []).map(
-					(n) => ({
-						...n,
-						isDirty: false,
-						createdAt: new Date().toISOString(),
-						updatedAt: new Date().toISOString(),
-						canvasId,
-						template: (n as any).template,
-					}),
-				) as any;
-
-				const hydratedNodes = patchNodes.map((n) => {
-					const template = nodeTemplates?.find((t) => t.id === n.templateId);
-					const prevNode = currentNodeEntities.find((f) => f.id === n.id);
-					return {
-						...n,
-						template: template || (n as any).template,
-						draggable: true,
-						selectable: true,
-						result: n.result ?? prevNode?.result,
-						deletable: true,
-					};
-				});
-
-				const rfPatchNodes: Node[] = hydratedNodes.map((node) => ({
-					id: node.id,
-					position: node.position as XYPosition,
-					data: node,
-					type: node.type,
-					width: node.width ?? undefined,
-					height: node.height ?? undefined,
-					draggable: true,
-					selectable: true,
-					deletable: true,
-				}));
-
-				const rfPatchEdges: Edge[] = (patchData.edges || []).map((edge) => ({
-					id: edge.id,
-					source: edge.source,
-					target: edge.target,
-					sourceHandle: edge.sourceHandleId || undefined,
-					targetHandle: edge.targetHandleId || undefined,
-				}));
-
-				// Set reviewing state BEFORE updating Redux to prevent save triggers
-				isReviewingRef.current = true;
+				await previewCanvasPayload(patch.patch as unknown as BulkUpdatePayload);
 				previewPatchIdRef.current = patchId;
-				dispatch(setAllNodeEntities(hydratedNodes as NodeEntityType[]));
-				dispatch(setAllEdgeEntities(patchData.edges as EdgeEntityType[]));
-				dispatch(setAllHandleEntities(patchData.handles as HandleEntityType[]));
-				dispatch(setNodes(rfPatchNodes));
-				dispatch(setEdges(rfPatchEdges));
+				previewVersionIdRef.current = null;
 
 				// Force re-render to update UI with new reviewing state
 				setReviewingStateVersion((v) => v + 1);
@@ -950,13 +1031,43 @@ const CanvasProvider = ({
 				setReviewingStateVersion((v) => v + 1);
 			}
 		},
-		[canvasId, dispatch, nodeTemplates, triggerGetPatch],
+		[canvasId, previewCanvasPayload, triggerGetPatch],
+	);
+
+	const previewVersion = useCallback(
+		async (versionId: string) => {
+			try {
+				const { data: version } = await triggerGetVersion({
+					param: { id: canvasId, versionId },
+				});
+
+				if (!version) {
+					toast.error("Failed to load version");
+					return;
+				}
+
+				await previewCanvasPayload(
+					version.snapshot as unknown as BulkUpdatePayload,
+				);
+				previewVersionIdRef.current = versionId;
+				previewPatchIdRef.current = null;
+				setReviewingStateVersion((v) => v + 1);
+			} catch (error) {
+				console.error("Error previewing version:", error);
+				toast.error("Failed to preview version");
+				isReviewingRef.current = false;
+				previewVersionIdRef.current = null;
+				setReviewingStateVersion((v) => v + 1);
+			}
+		},
+		[canvasId, previewCanvasPayload, triggerGetVersion],
 	);
 
 	const cancelPreview = useCallback(() => {
 		if (!canvasDetailsResponse?.nodes) {
 			isReviewingRef.current = false;
 			previewPatchIdRef.current = null;
+			previewVersionIdRef.current = null;
 			setReviewingStateVersion((v) => v + 1);
 			return;
 		}
@@ -989,22 +1100,19 @@ const CanvasProvider = ({
 		dispatch(setEdges(originalEdges));
 
 		// Clear reviewing state AFTER revert
-		isReviewingRef.current = false;
-		previewPatchIdRef.current = null;
-		setReviewingStateVersion((v) => v + 1);
+		clearPreview();
 
 		refetchCanvas();
 		toast.info("Preview cancelled");
-	}, [canvasDetailsResponse, dispatch, refetchCanvas]);
+	}, [canvasDetailsResponse, dispatch, refetchCanvas, clearPreview]);
 
 	const applyPatch = useCallback(
 		async (patchId: string) => {
 			try {
 				await applyPatchMutation({ param: { id: canvasId, patchId } }).unwrap();
 
-				isReviewingRef.current = false;
-				previewPatchIdRef.current = null;
-				setReviewingStateVersion((v) => v + 1);
+				// The preview is what was applied
+				clearPreview();
 
 				refetchCanvas();
 				toast.success("Applied changes to the canvas succesfully");
@@ -1013,7 +1121,27 @@ const CanvasProvider = ({
 				toast.error("Failed to apply patch");
 			}
 		},
-		[applyPatchMutation, canvasId, refetchCanvas],
+		[applyPatchMutation, canvasId, refetchCanvas, clearPreview],
+	);
+
+	const restoreVersion = useCallback(
+		async (versionId: string) => {
+			try {
+				await restoreVersionMutation({
+					param: { id: canvasId, versionId },
+				}).unwrap();
+
+				// The preview, if any, is what was restored
+				clearPreview();
+
+				refetchCanvas();
+				toast.success("Version restored");
+			} catch (error) {
+				console.error("Error restoring version:", error);
+				toast.error("Failed to restore version");
+			}
+		},
+		[restoreVersionMutation, canvasId, refetchCanvas, clearPreview],
 	);
 
 	const rejectPatch = useCallback(
@@ -1051,9 +1179,7 @@ const CanvasProvider = ({
 					dispatch(setEdges(originalEdges));
 				}
 
-				isReviewingRef.current = false;
-				previewPatchIdRef.current = null;
-				setReviewingStateVersion((v) => v + 1);
+				clearPreview();
 
 				await refetchCanvas();
 				toast.info("Patch rejected");
@@ -1068,6 +1194,7 @@ const CanvasProvider = ({
 			refetchCanvas,
 			canvasDetailsResponse,
 			dispatch,
+			clearPreview,
 		],
 	);
 
@@ -1082,6 +1209,7 @@ const CanvasProvider = ({
 			runNodes,
 			rfInstance,
 			createNewNode,
+			createSubCanvasNode,
 			duplicateNodes,
 			onNodesDelete,
 			onEdgesDelete,
@@ -1091,11 +1219,16 @@ const CanvasProvider = ({
 			moveViewportToNode,
 			// Patch System - expose ref value as boolean
 			isReviewing: isReviewingRef.current,
+			previewPatchId: previewPatchIdRef.current,
 			previewPatch,
 			applyPatch,
 			rejectPatch,
+			previewVersionId: previewVersionIdRef.current,
+			previewVersion,
+			restoreVersion,
 			cancelPreview,
 			onHandlesDelete,
+			updateCursor,
 		}),
 		[
 			canvasDetailsResponse?.canvas,
@@ -1106,6 +1239,7 @@ const CanvasProvider = ({
 			onConnect,
 			runNodes,
 			createNewNode,
+			createSubCanvasNode,
 			duplicateNodes,
 			onNodesDelete,
 			onEdgesDelete,
@@ -1118,7 +1252,10 @@ const CanvasProvider = ({
 			previewPatch,
 			applyPatch,
 			rejectPatch,
+			previewVersion,
+			restoreVersion,
 			cancelPreview,
+			updateCursor,
 		],
 	);
 
@@ -1,38 +1,39 @@
 import type { Canvas, Node } from "@gatewai/db";
+import type { GatewaiTaskEvent } from "@gatewai/types";
 import {
 	createContext,
-	type Dispatch,
 	type PropsWithChildren,
-	type SetStateAction,
 	useContext,
 	useEffect,
 	useMemo,
 	useRef,
 } from "react";
 import { useAnimatedFavicon } from "@/hooks/use-animated-favicon";
-import type { BatchDetailsRPC, BatchDetailsRPCParams } from "@/rpc/types";
+import { readSSEStream } from "@/lib/sse";
+import { rpcClient } from "@/rpc/client";
+import type { BatchDetailsRPC } from "@/rpc/types";
 import { useAppDispatch, useAppSelector } from "@/store";
 import { assetsAPI } from "@/store/assets";
 import type { NodeEntityType } from "@/store/nodes";
 import {
-	addBatchToPoll,
-	getBatchDetails,
-	getInitialBatches,
+	addBatch,
+	cancelBatch,
+	receiveTaskEvent,
 	selectAllBatches,
-	selectBatchIdsToPoll,
 	selectInitialLoading,
 	selectLatestTasksFetchTime,
 	selectNodeTaskStatus,
-	selectPollingInterval,
-	setPollingInterval,
+	syncBatches,
 } from "@/store/tasks";
 
+// Delay before reconnecting a dropped task stream
+const STREAM_RECONNECT_DELAY_MS = 3000;
+
 type BatchEntity = BatchDetailsRPC[number];
 type BatchNodeData = BatchEntity["tasks"][number];
 interface TaskManagerContextType {
-	pollingInterval: number;
-	setPollingInterval: Dispatch<SetStateAction<number>>;
 	addBatch: (batch: BatchEntity) => void;
+	cancelBatch: (batchId: BatchEntity["id"]) => Promise<void>;
 	nodeTaskStatus: Record<Node["id"], BatchNodeData[]>;
 	isLoading: boolean;
 	taskBatches: BatchEntity[];
@@ -49,8 +50,6 @@ const TaskManagerProvider = ({
 	canvasId,
 }: PropsWithChildren<{ canvasId: Canvas["id"] }>) => {
 	const dispatch = useAppDispatch();
-	const pollingInterval = useAppSelector(selectPollingInterval);
-	const batchIdsToPoll = useAppSelector(selectBatchIdsToPoll);
 	const nodeTaskStatus = useAppSelector(selectNodeTaskStatus);
 	const isLoading = useAppSelector(selectInitialLoading);
 	const taskBatches = useAppSelector(selectAllBatches);
@@ -84,36 +83,49 @@ const TaskManagerProvider = ({
 		}
 	}, [taskBatches, dispatch]);
 
-	const setPollingIntervalHandler = (value: SetStateAction<number>) => {
-		if (typeof value === "function") {
-			dispatch(setPollingInterval(value(pollingInterval)));
-		} else {
-			dispatch(setPollingInterval(value));
-		}
+	const addBatchHandler = (batchEntity: BatchEntity) => {
+		dispatch(addBatch(batchEntity));
 	};
 
-	const addBatch = (batchEntity: BatchEntity) => {
-		dispatch(addBatchToPoll(batchEntity));
+	const cancelBatchHandler = async (batchId: BatchEntity["id"]) => {
+		await dispatch(cancelBatch({ batchId })).unwrap();
 	};
 
+	// Subscribe to task state transitions of the canvas.
+	// Batches are synced on every connect, so events missed while disconnected are caught up.
 	useEffect(() => {
-		dispatch(getInitialBatches({ canvasId }));
-	}, [dispatch, canvasId]);
+		const abortController = new AbortController();
+
+		const subscribe = async () => {
+			while (!abortController.signal.aborted) {
+				dispatch(syncBatches({ canvasId }));
+				try {
+					const res = await rpcClient.api.v1.tasks[":canvasId"].stream.$get(
+						{ param: { canvasId } },
+						{ init: { signal: abortController.signal } },
+					);
+					if (res.body) {
+						for await (const event of readSSEStream<GatewaiTaskEvent>(
+							res.body.getReader(),
+						)) {
+							dispatch(receiveTaskEvent(event));
+						}
+					}
+				} catch (error) {
+					if (error instanceof Error && error.name !== "AbortError") {
+						console.error("Task stream error:", error);
+					}
+				}
+				if (abortController.signal.aborted) break;
+				await new Promise((resolve) =>
+					setTimeout(resolve, STREAM_RECONNECT_DELAY_MS),
+				);
+			}
+		};
 
-	useEffect(() => {
-		if (pollingInterval > 0) {
-			const intervalId = setInterval(() => {
-				const params: BatchDetailsRPCParams = {
-					query: {
-						batchId: batchIdsToPoll,
-					},
-				};
-				dispatch(getBatchDetails(params));
-			}, pollingInterval);
-
-			return () => clearInterval(intervalId);
-		}
-	}, [pollingInterval, batchIdsToPoll, dispatch]);
+		subscribe();
+		return () => abortController.abort();
+	}, [dispatch, canvasId]);
 
 	const isAnyTaskRunning = useMemo(() => {
 		return Object.values(nodeTaskStatus).some((tasks) =>
@@ -127,9 +139,8 @@ const TaskManagerProvider = ({
 	useAnimatedFavicon(isAnyTaskRunning);
 
 	const value: TaskManagerContextType = {
-		pollingInterval,
-		setPollingInterval: setPollingIntervalHandler,
-		addBatch,
+		addBatch: addBatchHandler,
+		cancelBatch: cancelBatchHandler,
 		nodeTaskStatus,
 		isLoading,
 		taskBatches,
@@ -169,4 +180,18 @@ export function useNodeTaskRunning(nodeId: NodeEntityType["id"]) {
 	return isNodeRunning;
 }
 
+/**
+ * Share of the work done by the running task of the node, from 0 to 1.
+ * Null when nothing runs or the node doesn't report progress.
+ */
+export function useNodeTaskProgress(nodeId: NodeEntityType["id"]) {
+	const { nodeTaskStatus } = useTaskManagerCtx();
+	return useMemo(() => {
+		const runningTask = nodeTaskStatus[nodeId]?.find(
+			(task) => task.status === "EXECUTING",
+		);
+		return runningTask?.progress ?? null;
+	}, [nodeId, nodeTaskStatus]);
+}
+
 export { TaskManagerContext, TaskManagerProvider };
@@ -0,0 +1,270 @@
+import {
+	type CanvasOp,
+	type CollabClientMessage,
+	type CollabPresence,
+	type CollabServerMessage,
+	coalesceCanvasOps,
+} from "@gatewai/types";
+import type { XYPosition } from "@xyflow/react";
+import { type RefObject, useCallback, useEffect, useRef } from "react";
+import { useStore } from "react-redux";
+import {
+	type CanvasSnapshot,
+	diffCanvasSnapshots,
+	patchCanvasSnapshot,
+	takeCanvasSnapshot,
+} from "@/lib/canvas-ops";
+import { type RootState, useAppDispatch, useAppSelector } from "@/store";
+import {
+	canvasOpsReceived,
+	collabConnected,
+	collabDisconnected,
+	peerLeft,
+	peerPresenceReceived,
+	stalePeersRemoved,
+} from "@/store/collab";
+import { selectSelectedNodeIds } from "@/store/node-meta";
+
+// Local edits and presence are sent at most this often, e.g. while dragging
+const SEND_THROTTLE_MS = 50;
+// Presence is resent this often, peers not heard of for PEER_TIMEOUT_MS are dropped
+const PRESENCE_HEARTBEAT_MS = 20_000;
+const PEER_TIMEOUT_MS = 60_000;
+// Delay before reconnecting a dropped collaboration socket
+const RECONNECT_DELAY_MS = 3000;
+
+interface UseCanvasCollabOptions {
+	canvasId: string;
+	// Edits made while true, e.g. previewing an agent patch, aren't shared
+	isPausedRef: RefObject<boolean>;
+	// Local edits are pending, save them
+	onLocalOps: () => void;
+	// The canvas changed server side, refetch it
+	onReload: () => void;
+}
+
+/**
+ * Shares edits and presence with everyone who has the canvas open.
+ * Local edits are found by diffing the store against the last shared state,
+ * and stay pending until `takePendingOps` hands them to a save.
+ */
+export function useCanvasCollab({
+	canvasId,
+	isPausedRef,
+	onLocalOps,
+	onReload,
+}: UseCanvasCollabOptions) {
+	const dispatch = useAppDispatch();
+	const store = useStore<RootState>();
+	const selectedNodeIds = useAppSelector(selectSelectedNodeIds);
+
+	const wsRef = useRef<WebSocket | null>(null);
+	// Last shared state, null until the canvas is loaded
+	const snapshotRef = useRef<CanvasSnapshot | null>(null);
+	const pendingOpsRef = useRef<CanvasOp[]>([]);
+	// Edits of collaborators received before the canvas was loaded or while paused
+	const bufferedOpsRef = useRef<CanvasOp[]>([]);
+	const presenceRef = useRef<CollabPresence>({
+		cursor: null,
+		selectedNodeIds: [],
+	});
+	const callbacksRef = useRef({ onLocalOps, onReload });
+	callbacksRef.current = { onLocalOps, onReload };
+
+	const send = useCallback((message: CollabClientMessage) => {
+		const ws = wsRef.current;
+		if (ws?.readyState === WebSocket.OPEN) {
+			ws.send(JSON.stringify(message));
+		}
+	}, []);
+
+	const flush = useCallback(() => {
+		if (!snapshotRef.current || isPausedRef.current) return;
+
+		const state = store.getState();
+		const next = takeCanvasSnapshot(state);
+		const ops = diffCanvasSnapshots(snapshotRef.current, next);
+		snapshotRef.current = next;
+		// Viewers and runners can try things out, their edits stay local
+		if (!ops.length || !state.collab.canEdit) return;
+
+		pendingOpsRef.current.push(...ops);
+		send({ type: "ops", ops });
+		callbacksRef.current.onLocalOps();
+	}, [store, send, isPausedRef]);
+
+	const applyRemoteOps = useCallback(
+		(ops: CanvasOp[]) => {
+			if (!snapshotRef.current || isPausedRef.current) {
+				bufferedOpsRef.current.push(...ops);
+				return;
+			}
+			// Local edits first, so they aren't taken as the collaborator's
+			flush();
+			dispatch(canvasOpsReceived(ops));
+			snapshotRef.current = patchCanvasSnapshot(
+				snapshotRef.current,
+				takeCanvasSnapshot(store.getState()),
+				ops,
+			);
+		},
+		[dispatch, flush, store, isPausedRef],
+	);
+
+	/**
+	 * Takes the current store as shared state, e.g. after the canvas was (re)loaded
+	 * or a preview ended.
+	 */
+	const resetSnapshot = useCallback(() => {
+		snapshotRef.current = takeCanvasSnapshot(store.getState());
+		const buffered = bufferedOpsRef.current;
+		bufferedOpsRef.current = [];
+		if (buffered.length) {
+			applyRemoteOps(buffered);
+		}
+	}, [store, applyRemoteOps]);
+
+	/**
+	 * Hands the pending edits to a save, merged to one op per entity.
+	 */
+	const takePendingOps = useCallback(() => {
+		flush();
+		const ops = coalesceCanvasOps(pendingOpsRef.current);
+		pendingOpsRef.current = [];
+		return ops;
+	}, [flush]);
+
+	// Failed saves are retried with the next one
+	const requeueOps = useCallback((ops: CanvasOp[]) => {
+		pendingOpsRef.current = [...ops, ...pendingOpsRef.current];
+	}, []);
+
+	const presenceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const updatePresence = useCallback(
+		(presence: Partial<CollabPresence>) => {
+			presenceRef.current = { ...presenceRef.current, ...presence };
+			if (presenceTimeoutRef.current) return;
+			presenceTimeoutRef.current = setTimeout(() => {
+				presenceTimeoutRef.current = null;
+				send({ type: "presence", ...presenceRef.current });
+			}, SEND_THROTTLE_MS);
+		},
+		[send],
+	);
+
+	const updateCursor = useCallback(
+		(cursor: XYPosition | null) => updatePresence({ cursor }),
+		[updatePresence],
+	);
+
+	useEffect(() => {
+		updatePresence({ selectedNodeIds: selectedNodeIds ?? [] });
+	}, [selectedNodeIds, updatePresence]);
+
+	// Share local edits shortly after they're made
+	useEffect(() => {
+		let timeout: ReturnType<typeof setTimeout> | null = null;
+		const unsubscribe = store.subscribe(() => {
+			if (timeout) return;
+			timeout = setTimeout(() => {
+				timeout = null;
+				flush();
+			}, SEND_THROTTLE_MS);
+		});
+		return () => {
+			unsubscribe();
+			if (timeout) clearTimeout(timeout);
+		};
+	}, [store, flush]);
+
+	useEffect(() => {
+		let isClosed = false;
+		let hasConnected = false;
+		let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+		const onMessage = (event: MessageEvent<string>) => {
+			const message = JSON.parse(event.data) as CollabServerMessage;
+			switch (message.type) {
+				case "welcome":
+					dispatch(
+						collabConnected({
+							clientId: message.clientId,
+							canEdit: message.canEdit,
+						}),
+					);
+					send({ type: "presence", ...presenceRef.current });
+					// Edits made while disconnected may be stale, load the canvas again
+					if (hasConnected) {
+						callbacksRef.current.onReload();
+					}
+					hasConnected = true;
+					break;
+				case "join": {
+					// Newcomers loaded the saved canvas, catch them up on unsaved edits
+					const pendingOps = coalesceCanvasOps(pendingOpsRef.current);
+					if (pendingOps.length) {
+						send({ type: "ops", ops: pendingOps });
+					}
+					send({ type: "presence", ...presenceRef.current });
+					break;
+				}
+				case "presence":
+					dispatch(
+						peerPresenceReceived({
+							clientId: message.clientId,
+							user: message.user,
+							cursor: message.cursor,
+							selectedNodeIds: message.selectedNodeIds,
+							receivedAt: Date.now(),
+						}),
+					);
+					break;
+				case "ops":
+					applyRemoteOps(message.ops);
+					break;
+				case "leave":
+					dispatch(peerLeft(message.clientId));
+					break;
+				case "reload":
+					callbacksRef.current.onReload();
+					break;
+			}
+		};
+
+		const connect = () => {
+			const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+			const ws = new WebSocket(
+				`${protocol}//${window.location.host}/api/v1/canvas/${canvasId}/collab`,
+			);
+			wsRef.current = ws;
+			ws.addEventListener("message", onMessage);
+			ws.addEventListener("close", () => {
+				dispatch(collabDisconnected());
+				if (isClosed) return;
+				reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+			});
+		};
+
+		connect();
+
+		const heartbeat = setInterval(() => {
+			send({ type: "presence", ...presenceRef.current });
+			dispatch(stalePeersRemoved({ before: Date.now() - PEER_TIMEOUT_MS }));
+		}, PRESENCE_HEARTBEAT_MS);
+
+		return () => {
+			isClosed = true;
+			clearInterval(heartbeat);
+			if (reconnectTimeout) clearTimeout(reconnectTimeout);
+			wsRef.current?.close();
+			wsRef.current = null;
+		};
+	}, [canvasId, dispatch, send, applyRemoteOps]);
+
+	return {
+		resetSnapshot,
+		takePendingOps,
+		requeueOps,
+		updateCursor,
+	};
+}
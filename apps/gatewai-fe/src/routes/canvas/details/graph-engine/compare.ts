@@ -0,0 +1,40 @@
+import type { CompareNodeConfig } from "@gatewai/types";
+
+function toNumber(value: unknown, name: string) {
+	const num = typeof value === "number" ? value : Number(String(value).trim());
+	if (String(value).trim() === "" || !Number.isFinite(num)) {
+		throw new Error(`${name} "${value}" is not a number`);
+	}
+	return num;
+}
+
+/**
+ * Mirrors the backend Compare processor so both evaluate the same way.
+ */
+export function evaluateCompare(
+	input: string | number,
+	config: CompareNodeConfig,
+): boolean {
+	const { operator, value, caseSensitive } = config;
+	const normalize = (str: string) => (caseSensitive ? str : str.toLowerCase());
+
+	switch (operator) {
+		case "contains":
+			return normalize(String(input)).includes(normalize(value));
+		case "equals":
+			if (typeof input === "number") {
+				return input === toNumber(value, "Compare value");
+			}
+			return normalize(input) === normalize(value);
+		case "regex":
+			return new RegExp(value, caseSensitive ? "" : "i").test(String(input));
+		case "gt":
+			return toNumber(input, "Input") > toNumber(value, "Compare value");
+		case "gte":
+			return toNumber(input, "Input") >= toNumber(value, "Compare value");
+		case "lt":
+			return toNumber(input, "Input") < toNumber(value, "Compare value");
+		case "lte":
+			return toNumber(input, "Input") <= toNumber(value, "Compare value");
+	}
+}
@@ -2,22 +2,35 @@ import { EventEmitter } from "node:events";
 import type { DataType, NodeType } from "@gatewai/db";
 import {
 	type BlurNodeConfig,
+	ChromaKeyNodeConfigSchema,
+	ColorBalanceNodeConfigSchema,
+	CompareNodeConfigSchema,
 	type CompositorNodeConfig,
 	type CropNodeConfig,
 	type FileData,
+	GrayscaleNodeConfigSchema,
+	LevelsNodeConfigSchema,
+	type ListResult,
 	type ModulateNodeConfig,
 	type NodeResult,
+	NoiseNodeConfigSchema,
+	NumberNodeConfigSchema,
 	type OutputItem,
 	type PaintNodeConfig,
 	type ResizeNodeConfig,
+	RotateNodeConfigSchema,
+	SharpenNodeConfigSchema,
 	TextMergerNodeConfigSchema,
 	TextNodeConfigSchema,
+	ToggleNodeConfigSchema,
+	VignetteNodeConfigSchema,
 } from "@gatewai/types";
 import { dataTypeColors } from "@/config/colors";
 import { GetAssetEndpoint } from "@/lib/file";
 import type { EdgeEntityType } from "@/store/edges";
 import type { HandleEntityType } from "@/store/handles";
 import type { NodeEntityType } from "@/store/nodes";
+import { evaluateCompare } from "./compare";
 import { processCompositor } from "./image-compositor";
 import { pixiWorkerService } from "./pixi/pixi-worker.service";
 import type {
@@ -32,6 +45,7 @@ export enum TaskStatus {
 	EXECUTING = "EXECUTING",
 	FAILED = "FAILED",
 	COMPLETED = "COMPLETED",
+	SKIPPED = "SKIPPED",
 }
 
 export interface HandleState {
@@ -70,6 +84,9 @@ export class NodeGraphProcessor extends EventEmitter {
 	private edgesByTarget = new Map<string, EdgeEntityType[]>();
 	private adjacency = new Map<string, Set<string>>();
 	private reverseAdjacency = new Map<string, Set<string>>();
+	// Iterators and every node downstream of them, their outputs[] hold one output per list item
+	private listNodeIds = new Set<string>();
+	private passthroughNodeTypes = new Set<NodeType>();
 	public graphValidation: Record<string, Record<string, string>> = {};
 
 	private nodeStates = new Map<string, NodeState>();
@@ -598,8 +615,19 @@ export class NodeGraphProcessor extends EventEmitter {
 					(s) => s.status !== TaskStatus.EXECUTING && this.areInputsReady(s.id),
 				);
 
+				// Nodes on a branch that wasn't taken are skipped instead of executed
+				const skippedNodes = readyNodes.filter((s) =>
+					this.shouldSkipNode(s.id),
+				);
+				for (const state of skippedNodes) {
+					this.skipNode(state.id);
+				}
+				const executableNodes = readyNodes.filter(
+					(s) => !skippedNodes.includes(s),
+				);
+
 				if (readyNodes.length > 0) {
-					await Promise.all(readyNodes.map((s) => this.executeNode(s.id)));
+					await Promise.all(executableNodes.map((s) => this.executeNode(s.id)));
 					// Refresh dirtyNodes after executions, as states may have changed
 					dirtyNodes = Array.from(this.nodeStates.values()).filter(
 						(s) => s.isDirty,
@@ -663,12 +691,14 @@ export class NodeGraphProcessor extends EventEmitter {
 			if (
 				parentState.isDirty ||
 				(parentState.status !== TaskStatus.FAILED &&
-					parentState.status !== TaskStatus.COMPLETED)
+					parentState.status !== TaskStatus.COMPLETED &&
+					parentState.status !== TaskStatus.SKIPPED)
 			) {
 				return false;
 			}
 
-			// Parent is Settled (FAILED or COMPLETED).
+			// Parent is Settled (FAILED, COMPLETED or SKIPPED).
+			// Skipped parents are handled by shouldSkipNode.
 			// We need to decide if we are "Ready" given the parent's outcome.
 
 			// Case 1: Parent Failed or Result Missing
@@ -683,6 +713,68 @@ export class NodeGraphProcessor extends EventEmitter {
 		return true;
 	}
 
+	/**
+	 * An edge carries no value when its source was skipped,
+	 * or its source is a Router that forwarded the value to its other output.
+	 */
+	private isEdgeInactive(edge: EdgeEntityType): boolean {
+		const sourceState = this.nodeStates.get(edge.source);
+		if (sourceState?.status === TaskStatus.SKIPPED) return true;
+		if (this.nodes.get(edge.source)?.type !== "Router") return false;
+		if (sourceState?.status !== TaskStatus.COMPLETED || !sourceState.result) {
+			return false;
+		}
+
+		// A Router downstream of an Iterator has one output per item,
+		// the branch is active if any item was forwarded to it.
+		return !sourceState.result.outputs.some((output) =>
+			output.items.some((i) => i.outputHandleId === edge.sourceHandleId),
+		);
+	}
+
+	/**
+	 * Same rule as the backend scheduler: a node is skipped when all its inputs are inactive,
+	 * or one of its required inputs is.
+	 */
+	private shouldSkipNode(nodeId: string): boolean {
+		const incoming = this.edgesByTarget.get(nodeId) ?? [];
+		const inactive = incoming.filter((e) => this.isEdgeInactive(e));
+		if (inactive.length === 0) return false;
+
+		return (
+			inactive.length === incoming.length ||
+			inactive.some(
+				(e) => this.handles.find((h) => h.id === e.targetHandleId)?.required,
+			)
+		);
+	}
+
+	private skipNode(nodeId: string): void {
+		const state = this.nodeStates.get(nodeId);
+		const node = this.nodes.get(nodeId);
+		if (!state || !node) return;
+
+		state.isDirty = false;
+		state.status = TaskStatus.SKIPPED;
+		state.error = null;
+		state.inputs = this.collectInputs(nodeId);
+		state.startedAt = undefined;
+		state.finishedAt = Date.now();
+		state.durationMs = 0;
+		state.lastProcessedSignature = this.getNodeValueHash(node);
+
+		// Preserve result from node.result for terminal nodes, same as failed validation
+		if (node.template.isTerminalNode && node.result) {
+			state.result = node.result as unknown as NodeResult;
+		} else {
+			state.result = null;
+		}
+
+		this.updateNodeHandleStatus(nodeId);
+		state.version++;
+		this.emit("node:skipped", { nodeId });
+	}
+
 	private areAllParentsSettled(nodeId: string): boolean {
 		const parents = this.reverseAdjacency.get(nodeId);
 		if (!parents || parents.size === 0) return true;
@@ -736,11 +828,21 @@ export class NodeGraphProcessor extends EventEmitter {
 
 			this.emit("node:start", { nodeId, inputs, startedAt: state.startedAt });
 
-			const result = await processor({
-				node,
-				inputs,
-				signal,
-			});
+			// Nodes downstream of an Iterator run once per list item
+			const iterationCount = this.getIterationCount(node);
+			const result =
+				iterationCount === null
+					? await processor({
+							node,
+							inputs,
+							signal,
+						})
+					: await this.processIterations(
+							node,
+							processor,
+							iterationCount,
+							signal,
+						);
 
 			if (signal.aborted) throw new Error("Aborted");
 
@@ -811,6 +913,60 @@ export class NodeGraphProcessor extends EventEmitter {
 		}
 	}
 
+	private getIterationCount(node: NodeEntityType): number | null {
+		if (node.type === "Iterator" || this.passthroughNodeTypes.has(node.type)) {
+			return null;
+		}
+
+		const lengths = (this.edgesByTarget.get(node.id) ?? [])
+			.filter((e) => this.listNodeIds.has(e.source))
+			.map((e) => this.nodeStates.get(e.source)?.result?.outputs.length ?? 0);
+		if (lengths.length === 0) return null;
+		return Math.min(...lengths);
+	}
+
+	/**
+	 * Runs a processor once per list item, same as the backend,
+	 * so `outputs[i]` of the result belongs to item `i`.
+	 * Items that are empty upstream, e.g. forwarded to the other branch of a Router, stay empty.
+	 */
+	private async processIterations(
+		node: NodeEntityType,
+		processor: NodeProcessor,
+		count: number,
+		signal: AbortSignal,
+	): Promise<NodeResult | null> {
+		const listEdges = (this.edgesByTarget.get(node.id) ?? []).filter((e) =>
+			this.listNodeIds.has(e.source),
+		);
+		const outputs: ListResult["outputs"] = [];
+		// Nodes like Preview don't return a result
+		let returnsResult = true;
+
+		for (let iteration = 0; iteration < count; iteration++) {
+			if (signal.aborted) throw new Error("Aborted");
+
+			const inputs = this.collectInputs(node.id, iteration);
+			if (listEdges.some((e) => !inputs[e.targetHandleId]?.outputItem)) {
+				outputs.push({ items: [] });
+				continue;
+			}
+			if (Object.values(inputs).some((v) => !v.connectionValid)) {
+				throw new Error(`Invalid input types for item ${iteration + 1}`);
+			}
+
+			const result = await processor({ node, inputs, signal });
+			const output = result?.outputs[result.selectedOutputIndex ?? 0] as
+				| ListResult["outputs"][number]
+				| undefined;
+			outputs.push(output ?? { items: [] });
+			returnsResult = !!result;
+		}
+
+		if (!returnsResult) return null;
+		return { outputs, selectedOutputIndex: 0 };
+	}
+
 	private getOrCreateNodeState(id: string): NodeState {
 		let state = this.nodeStates.get(id);
 		if (!state) {
@@ -850,6 +1006,19 @@ export class NodeGraphProcessor extends EventEmitter {
 			this.reverseAdjacency.get(edge.target)?.add(edge.source);
 			this.edgesByTarget.get(edge.target)?.push(edge);
 		}
+
+		this.listNodeIds.clear();
+		const queue = Array.from(this.nodes.values())
+			.filter((n) => n.type === "Iterator")
+			.map((n) => n.id);
+		while (queue.length > 0) {
+			const nodeId = queue.shift();
+			if (!nodeId || this.listNodeIds.has(nodeId)) continue;
+			this.listNodeIds.add(nodeId);
+			this.adjacency.get(nodeId)?.forEach((childId) => {
+				queue.push(childId);
+			});
+		}
 	}
 
 	private getNodeValueHash(node: NodeEntityType): string {
@@ -926,7 +1095,13 @@ export class NodeGraphProcessor extends EventEmitter {
 		return changedNodes;
 	}
 
-	private collectInputs(nodeId: string): Record<string, ConnectedInput> {
+	/**
+	 * While iterating, list sources provide the output of the given item instead of the selected one.
+	 */
+	private collectInputs(
+		nodeId: string,
+		iteration?: number,
+	): Record<string, ConnectedInput> {
 		const inputs: Record<string, ConnectedInput> = {};
 		const incomingEdges = this.edgesByTarget.get(nodeId) || [];
 
@@ -939,6 +1114,15 @@ export class NodeGraphProcessor extends EventEmitter {
 
 			if (!edge) continue;
 
+			// Inputs from a branch that wasn't taken are empty, not invalid
+			if (this.isEdgeInactive(edge)) {
+				inputs[handle.id] = {
+					connectionValid: true,
+					outputItem: null,
+				};
+				continue;
+			}
+
 			const sourceState = this.nodeStates.get(edge.source);
 			if (!sourceState?.result) {
 				// Parent completed/failed without result.
@@ -988,7 +1172,10 @@ export class NodeGraphProcessor extends EventEmitter {
 			}
 
 			const result = sourceState.result;
-			const selectedIndex = result.selectedOutputIndex ?? 0;
+			const selectedIndex =
+				iteration !== undefined && this.listNodeIds.has(edge.source)
+					? iteration
+					: (result.selectedOutputIndex ?? 0);
 			const output = result.outputs[selectedIndex];
 			if (!output) {
 				inputs[handle.id] = {
@@ -1088,6 +1275,18 @@ export class NodeGraphProcessor extends EventEmitter {
 				(h) => h.nodeId === nodeId && h.type === "Output" && h.label === label,
 			)?.id;
 
+		const getInputItemByLabel = (
+			inputs: Record<string, ConnectedInput>,
+			label: string,
+		) => {
+			const entry = Object.entries(inputs).find(
+				([handleId]) =>
+					this.handles.find((h) => h.id === handleId)?.label === label,
+			);
+			if (!entry?.[1].connectionValid) return null;
+			return entry[1].outputItem;
+		};
+
 		this.registerProcessor("Crop", async ({ node, inputs, signal }) => {
 			const imageUrl = findInputData(inputs, "Image", "Image");
 			if (!imageUrl) throw new Error("Missing Input Image");
@@ -1308,6 +1507,109 @@ export class NodeGraphProcessor extends EventEmitter {
 			};
 		});
 
+		// Single image in, single image out, rendered by the shared pixi service
+		const registerImageFilter = (
+			nodeType: NodeType,
+			process: (
+				imageUrl: string,
+				node: NodeEntityType,
+				signal: AbortSignal,
+			) => Promise<{ dataUrl: Blob; width: number; height: number }>,
+		) => {
+			this.registerProcessor(nodeType, async ({ node, inputs, signal }) => {
+				const imageUrl = findInputData(inputs, "Image");
+				if (!imageUrl) throw new Error("Missing Input Image");
+
+				const result = await process(imageUrl, node, signal);
+				const outputHandle = getFirstOutputHandle(node.id, "Image");
+				if (!outputHandle) throw new Error("Missing output handle");
+
+				const dataUrl = URL.createObjectURL(result.dataUrl);
+				this.registerObjectUrl(node.id, dataUrl);
+
+				return {
+					selectedOutputIndex: 0,
+					outputs: [
+						{
+							items: [
+								{
+									type: "Image",
+									data: {
+										processData: {
+											dataUrl,
+											width: result.width,
+											height: result.height,
+										},
+									},
+									outputHandleId: outputHandle,
+								},
+							],
+						},
+					],
+				};
+			});
+		};
+
+		registerImageFilter("Sharpen", (imageUrl, node, signal) =>
+			pixiWorkerService.processSharpen(
+				imageUrl,
+				SharpenNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("Levels", (imageUrl, node, signal) =>
+			pixiWorkerService.processLevels(
+				imageUrl,
+				LevelsNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("ColorBalance", (imageUrl, node, signal) =>
+			pixiWorkerService.processColorBalance(
+				imageUrl,
+				ColorBalanceNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("Invert", (imageUrl, _node, signal) =>
+			pixiWorkerService.processInvert(imageUrl, signal),
+		);
+		registerImageFilter("Grayscale", (imageUrl, node, signal) =>
+			pixiWorkerService.processGrayscale(
+				imageUrl,
+				GrayscaleNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("Vignette", (imageUrl, node, signal) =>
+			pixiWorkerService.processVignette(
+				imageUrl,
+				VignetteNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("Noise", (imageUrl, node, signal) =>
+			pixiWorkerService.processNoise(
+				imageUrl,
+				NoiseNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("Rotate", (imageUrl, node, signal) =>
+			pixiWorkerService.processRotate(
+				imageUrl,
+				RotateNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+		registerImageFilter("ChromaKey", (imageUrl, node, signal) =>
+			pixiWorkerService.processChromaKey(
+				imageUrl,
+				ChromaKeyNodeConfigSchema.parse(node.config),
+				signal,
+			),
+		);
+
 		this.registerProcessor("TextMerger", async ({ node, inputs }) => {
 			const config = TextMergerNodeConfigSchema.parse(node.config);
 			// inputs record is already sorted by handle.createdAt due to collectInputs logic
@@ -1438,20 +1740,170 @@ export class NodeGraphProcessor extends EventEmitter {
 			};
 		});
 
+		this.registerProcessor("Number", async ({ node }) => {
+			const outputHandle = getFirstOutputHandle(node.id, "Number");
+			const config = NumberNodeConfigSchema.parse(node.config);
+			if (!outputHandle) throw new Error("Missing output handle");
+			return {
+				selectedOutputIndex: 0,
+				outputs: [
+					{
+						items: [
+							{
+								type: "Number",
+								data: config.value,
+								outputHandleId: outputHandle,
+							},
+						],
+					},
+				],
+			};
+		});
+
+		this.registerProcessor("Toggle", async ({ node }) => {
+			const outputHandle = getFirstOutputHandle(node.id, "Boolean");
+			const config = ToggleNodeConfigSchema.parse(node.config);
+			if (!outputHandle) throw new Error("Missing output handle");
+			return {
+				selectedOutputIndex: 0,
+				outputs: [
+					{
+						items: [
+							{
+								type: "Boolean",
+								data: config.value,
+								outputHandleId: outputHandle,
+							},
+						],
+					},
+				],
+			};
+		});
+
+		this.registerProcessor("Compare", async ({ node, inputs }) => {
+			const inputItem = getInputItemByLabel(inputs, "Input");
+			if (!inputItem) throw new Error("Missing input");
+
+			const config = CompareNodeConfigSchema.parse(node.config);
+			const outputHandle = getFirstOutputHandle(node.id, "Boolean");
+			if (!outputHandle) throw new Error("Missing output handle");
+			return {
+				selectedOutputIndex: 0,
+				outputs: [
+					{
+						items: [
+							{
+								type: "Boolean",
+								data: evaluateCompare(
+									inputItem.data as string | number,
+									config,
+								),
+								outputHandleId: outputHandle,
+							},
+						],
+					},
+				],
+			};
+		});
+
+		// Only the taken branch gets an item, nodes on the other branch are skipped.
+		this.registerProcessor("Router", async ({ node, inputs }) => {
+			const condition = getInputItemByLabel(inputs, "Condition");
+			const value = getInputItemByLabel(inputs, "Value");
+			if (!condition || !value) throw new Error("Missing input");
+
+			const outputHandle = getOutputHandleByLabel(
+				node.id,
+				condition.data === true ? "True" : "False",
+			);
+			if (!outputHandle) throw new Error("Missing output handle");
+			return {
+				selectedOutputIndex: 0,
+				outputs: [
+					{
+						items: [
+							{
+								type: value.type,
+								data: value.data,
+								outputHandleId: outputHandle,
+							},
+						],
+					},
+				],
+			} as unknown as NodeResult;
+		});
+
+		// Every line of connected texts and every imported image becomes one output of the list
+		this.registerProcessor("Iterator", async ({ node }) => {
+			const outputHandle = getFirstOutputHandle(node.id, "Text");
+			if (!outputHandle) throw new Error("Missing output handle");
+
+			const inputHandles = this.handles
+				.filter((h) => h.nodeId === node.id && h.type === "Input")
+				.sort((a, b) => a.order - b.order);
+
+			const items: ListResult["outputs"][number]["items"] = [];
+			for (const handle of inputHandles) {
+				const edge = this.edgesByTarget
+					.get(node.id)
+					?.find((e) => e.targetHandleId === handle.id);
+				if (!edge || this.isEdgeInactive(edge)) continue;
+
+				const sourceResult = this.nodeStates.get(edge.source)?.result;
+				for (const output of sourceResult?.outputs ?? []) {
+					const item = output.items.find(
+						(i) => i.outputHandleId === edge.sourceHandleId,
+					);
+					if (item?.type === "Text") {
+						const lines = String(item.data ?? "")
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line.length > 0);
+						for (const line of lines) {
+							items.push({
+								type: "Text",
+								data: line,
+								outputHandleId: outputHandle,
+							});
+						}
+					} else if (item?.type === "Image") {
+						items.push({ ...item, outputHandleId: outputHandle });
+					}
+				}
+			}
+
+			const result: ListResult = {
+				selectedOutputIndex: 0,
+				outputs: items.map((item) => ({ items: [item] })),
+			};
+			return result;
+		});
+
 		// Pass-through computations - No browser processing required.
 		const passthrough = async ({ node }: NodeProcessorParams) =>
 			node.result as unknown as NodeResult;
 
+		const registerPassthrough = (nodeType: NodeType) => {
+			this.registerProcessor(nodeType, passthrough);
+			// Their result comes from the backend, which already runs them once per list item
+			this.passthroughNodeTypes.add(nodeType);
+		};
+
 		// We only render the video when user downloads it, and use remotion player for render on node component.
-		this.registerProcessor("VideoCompositor", passthrough);
-		this.registerProcessor("ImageGen", passthrough);
-		this.registerProcessor("File", passthrough);
-		this.registerProcessor("LLM", passthrough);
-		this.registerProcessor("VideoGen", passthrough);
-		this.registerProcessor("VideoGenExtend", passthrough);
-		this.registerProcessor("VideoGenFirstLastFrame", passthrough);
-		this.registerProcessor("TextToSpeech", passthrough);
-		this.registerProcessor("SpeechToText", passthrough);
+		registerPassthrough("VideoCompositor");
+		registerPassthrough("ImageGen");
+		registerPassthrough("Inpaint");
+		registerPassthrough("Encode");
+		registerPassthrough("RemoveBackground");
+		registerPassthrough("Upscale");
+		registerPassthrough("File");
+		registerPassthrough("LLM");
+		registerPassthrough("VideoGen");
+		registerPassthrough("VideoGenExtend");
+		registerPassthrough("VideoGenFirstLastFrame");
+		registerPassthrough("TextToSpeech");
+		registerPassthrough("SpeechToText");
+		registerPassthrough("SubCanvas");
 		//#endregion
 	}
 }
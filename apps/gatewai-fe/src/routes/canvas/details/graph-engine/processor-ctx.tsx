@@ -113,6 +113,7 @@ export function useNodeResult<T extends NodeResult = NodeResult>(
 		processor.on("node:processed", nodeHandler);
 		processor.on("node:error", nodeHandler);
 		processor.on("node:queued", nodeHandler);
+		processor.on("node:skipped", nodeHandler);
 		processor.on("graph:updated", graphHandler);
 
 		return () => {
@@ -120,6 +121,7 @@ export function useNodeResult<T extends NodeResult = NodeResult>(
 			processor.off("node:processed", nodeHandler);
 			processor.off("node:error", nodeHandler);
 			processor.off("node:queued", nodeHandler);
+			processor.off("node:skipped", nodeHandler);
 			processor.off("graph:updated", graphHandler);
 		};
 	};
@@ -208,11 +210,13 @@ export function useEdgeColor(
 
 			processor.on("node:processed", handler);
 			processor.on("node:queued", handler);
+			processor.on("node:skipped", handler);
 			processor.on("graph:updated", graphHandler);
 
 			return () => {
 				processor.off("node:processed", handler);
 				processor.off("node:queued", handler);
+				processor.off("node:skipped", handler);
 				processor.off("graph:updated", graphHandler);
 			};
 		},
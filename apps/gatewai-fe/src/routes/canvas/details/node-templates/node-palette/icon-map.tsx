@@ -1,22 +1,41 @@
 import { Gemini } from "@lobehub/icons";
 import type { FC } from "react";
 import {
+	PiAperture,
+	PiArrowClockwise,
 	PiArrowsHorizontal,
 	PiArrowsMerge,
+	PiArrowsOut,
 	PiBrain,
+	PiChartBar,
+	PiCircleHalf,
 	PiCloudFog,
 	PiCropThin,
+	PiDotsNine,
 	PiDownloadSimple,
+	PiDropHalf,
 	PiEye,
+	PiEyedropper,
+	PiFileZip,
 	PiFilmReelLight,
 	PiFrameCorners,
+	PiGitFork,
+	PiListBullets,
 	PiMagicWand,
 	PiMicrophone,
 	PiNote,
+	PiNumberSquareOne,
 	PiPaintBrushFill,
+	PiPalette,
 	PiResize,
+	PiScales,
+	PiScissors,
+	PiSelectionPlus,
+	PiSparkle,
 	PiStack,
 	PiTextT,
+	PiToggleLeft,
+	PiTreeStructure,
 	PiUploadSimple,
 	PiVideoCamera,
 } from "react-icons/pi";
@@ -43,7 +62,20 @@ export const NODE_ICON_MAP: Record<
 	Compositor: { mainIcon: PiStack },
 	Note: { mainIcon: PiNote },
 	Modulate: { mainIcon: TbAdjustments },
+	Sharpen: { mainIcon: PiSparkle },
+	Levels: { mainIcon: PiChartBar },
+	ColorBalance: { mainIcon: PiPalette },
+	Invert: { mainIcon: PiCircleHalf },
+	Grayscale: { mainIcon: PiDropHalf },
+	Vignette: { mainIcon: PiAperture },
+	Noise: { mainIcon: PiDotsNine },
+	Rotate: { mainIcon: PiArrowClockwise },
+	ChromaKey: { mainIcon: PiEyedropper },
+	Encode: { mainIcon: PiFileZip },
+	RemoveBackground: { mainIcon: PiScissors },
+	Upscale: { mainIcon: PiArrowsOut },
 	ImageGen: { mainIcon: PiMagicWand, optionalIcons: [Gemini.Color] },
+	Inpaint: { mainIcon: PiSelectionPlus, optionalIcons: [Gemini.Color] },
 	LLM: { mainIcon: PiBrain, optionalIcons: [Gemini.Color] },
 	VideoGen: { mainIcon: PiVideoCamera, optionalIcons: [Gemini.Color] },
 	VideoGenFirstLastFrame: {
@@ -56,4 +88,10 @@ export const NODE_ICON_MAP: Record<
 	},
 	TextToSpeech: { mainIcon: TbVolume, optionalIcons: [Gemini.Color] },
 	SpeechToText: { mainIcon: PiMicrophone, optionalIcons: [Gemini.Color] },
+	Number: { mainIcon: PiNumberSquareOne },
+	Toggle: { mainIcon: PiToggleLeft },
+	Compare: { mainIcon: PiScales },
+	Router: { mainIcon: PiGitFork },
+	Iterator: { mainIcon: PiListBullets },
+	SubCanvas: { mainIcon: PiTreeStructure },
 };
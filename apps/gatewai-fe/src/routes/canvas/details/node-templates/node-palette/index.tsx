@@ -1,14 +1,23 @@
 import {
+	BarChart3,
+	Boxes,
+	CalendarClock,
 	LayoutGrid,
+	LayoutTemplate,
 	LogOut,
 	PanelLeftClose,
 	PanelLeftOpen,
 	Settings,
+	Users,
 } from "lucide-react";
 import { useState } from "react";
 import { FaDiscord, FaGithub } from "react-icons/fa";
 import { Link, useNavigate } from "react-router";
 import { ApiKeysSettings } from "@/components/settings/ApiKeysSettings";
+import { CanvasSchedulesSettings } from "@/components/settings/CanvasSchedulesSettings";
+import { CanvasShareSettings } from "@/components/settings/CanvasShareSettings";
+import { CanvasTemplateSettings } from "@/components/settings/CanvasTemplateSettings";
+import { UsageSettings } from "@/components/settings/UsageSettings";
 import { Button } from "@/components/ui/button";
 import {
 	DropdownMenu,
@@ -27,6 +36,8 @@ import {
 import { authClient } from "@/lib/auth-client";
 import { cn } from "@/lib/utils";
 import type { NodeTemplateListRPC } from "@/rpc/types";
+import { usePublishCanvasMutation } from "@/store/canvas";
+import { useCanvasCtx } from "../../ctx/canvas-ctx";
 import { CanvasName } from "../../reactflow-container/left-panel/canvas-name";
 import { AssetsSection } from "../assets/assets-section";
 import { useNodeTemplates } from "../node-templates.ctx";
@@ -53,9 +64,38 @@ function NodePaletteContent({ templates }: { templates: NodeTemplateListRPC }) {
 	const { isCollapsed, setIsCollapsed } = useNodePalette();
 	const nav = useNavigate();
 	const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+	const [isSchedulesOpen, setIsSchedulesOpen] = useState(false);
+	const [isUsageOpen, setIsUsageOpen] = useState(false);
+	const [isShareOpen, setIsShareOpen] = useState(false);
+	const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+	const { canvas } = useCanvasCtx();
+	const [publishCanvas] = usePublishCanvasMutation();
 	return (
 		<>
 			<ApiKeysSettings open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+			<UsageSettings open={isUsageOpen} onOpenChange={setIsUsageOpen} />
+			{canvas && (
+				<CanvasSchedulesSettings
+					canvasId={canvas.id}
+					open={isSchedulesOpen}
+					onOpenChange={setIsSchedulesOpen}
+				/>
+			)}
+			{canvas && (
+				<CanvasShareSettings
+					canvasId={canvas.id}
+					open={isShareOpen}
+					onOpenChange={setIsShareOpen}
+				/>
+			)}
+			{canvas && (
+				<CanvasTemplateSettings
+					canvasId={canvas.id}
+					canvasName={canvas.name}
+					open={isTemplateOpen}
+					onOpenChange={setIsTemplateOpen}
+				/>
+			)}
 			<aside
 				className={cn(
 					"relative z-40 flex h-[calc(100vh-1rem)] my-2 ml-2 flex-col overflow-hidden transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)]",
@@ -92,6 +132,58 @@ function NodePaletteContent({ templates }: { templates: NodeTemplateListRPC }) {
 									<Settings className="mr-2 h-4 w-4" />
 									<span>Settings</span>
 								</DropdownMenuItem>
+								<DropdownMenuItem
+									className="cursor-pointer"
+									onClick={() => setIsUsageOpen(true)}
+								>
+									<BarChart3 className="mr-2 h-4 w-4" />
+									<span>Usage</span>
+								</DropdownMenuItem>
+								{canvas && (
+									<DropdownMenuItem
+										className="cursor-pointer"
+										onClick={() => setIsShareOpen(true)}
+									>
+										<Users className="mr-2 h-4 w-4" />
+										<span>Share</span>
+									</DropdownMenuItem>
+								)}
+								{canvas && (
+									<DropdownMenuItem
+										className="cursor-pointer"
+										onClick={() => setIsSchedulesOpen(true)}
+									>
+										<CalendarClock className="mr-2 h-4 w-4" />
+										<span>Schedules</span>
+									</DropdownMenuItem>
+								)}
+								{canvas && (
+									<DropdownMenuItem
+										className="cursor-pointer"
+										onClick={() =>
+											publishCanvas({
+												param: { id: canvas.id },
+												json: { isPublished: !canvas.isPublished },
+											})
+										}
+									>
+										<Boxes className="mr-2 h-4 w-4" />
+										<span>
+											{canvas.isPublished
+												? "Unpublish from node palette"
+												: "Publish as node"}
+										</span>
+									</DropdownMenuItem>
+								)}
+								{canvas && (
+									<DropdownMenuItem
+										className="cursor-pointer"
+										onClick={() => setIsTemplateOpen(true)}
+									>
+										<LayoutTemplate className="mr-2 h-4 w-4" />
+										<span>Publish as template</span>
+									</DropdownMenuItem>
+								)}
 								<DropdownMenuSeparator />
 								<DropdownMenuItem
 									className="cursor-pointer"
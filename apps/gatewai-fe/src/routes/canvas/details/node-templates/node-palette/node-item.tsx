@@ -1,4 +1,4 @@
-import { useReactFlow } from "@xyflow/react";
+import { useReactFlow, type XYPosition } from "@xyflow/react";
 import { motion } from "framer-motion";
 import { GripVertical } from "lucide-react";
 import { memo, useEffect, useRef, useState } from "react";
@@ -11,6 +11,8 @@ import { NODE_ICON_MAP } from "./icon-map";
 interface NodeItemProps {
 	template: NodeTemplateListItemRPC;
 	id_suffix?: string;
+	// Creates the template's node by default
+	onCreate?: (position: XYPosition) => void;
 }
 
 const DragOverlay = ({
@@ -58,128 +60,134 @@ const DragOverlay = ({
 	);
 };
 
-export const NodeItem = memo(({ template, id_suffix }: NodeItemProps) => {
-	const { createNewNode } = useCanvasCtx();
-	const rfInstance = useReactFlow(); // Ensure we have access to the flow instance
+export const NodeItem = memo(
+	({ template, id_suffix, onCreate }: NodeItemProps) => {
+		const { createNewNode } = useCanvasCtx();
+		const rfInstance = useReactFlow(); // Ensure we have access to the flow instance
 
-	const [isDragging, setIsDragging] = useState(false);
-	const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
+		const [isDragging, setIsDragging] = useState(false);
+		const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
 
-	const itemRef = useRef<HTMLDivElement>(null);
+		const itemRef = useRef<HTMLDivElement>(null);
 
-	const { mainIcon: MainIcon, optionalIcons = [] } = NODE_ICON_MAP[
-		template.type
-	] ?? {
-		mainIcon: NODE_ICON_MAP.File.mainIcon,
-		optionalIcons: [],
-	};
-
-	useEffect(() => {
-		if (!isDragging) return;
-
-		const handleMouseMove = (e: MouseEvent) => {
-			setCursorPos({ x: e.clientX, y: e.clientY });
+		const { mainIcon: MainIcon, optionalIcons = [] } = NODE_ICON_MAP[
+			template.type
+		] ?? {
+			mainIcon: NODE_ICON_MAP.File.mainIcon,
+			optionalIcons: [],
 		};
 
-		const handleMouseUp = (e: MouseEvent) => {
-			setIsDragging(false);
-
-			// 1. Check if dropped inside the React Flow Canvas
-			const flowContainer = document.querySelector(".react-flow-container");
-			if (!flowContainer) return;
-
-			const flowRect = flowContainer.getBoundingClientRect();
-			const isInside =
-				e.clientX >= flowRect.left &&
-				e.clientX <= flowRect.right &&
-				e.clientY >= flowRect.top &&
-				e.clientY <= flowRect.bottom;
-
-			if (isInside && rfInstance) {
-				// 2. Project screen coordinates to Flow coordinates
-				const position = rfInstance.screenToFlowPosition({
-					x: e.clientX,
-					y: e.clientY,
-				});
-
-				// 3. Create the node
-				createNewNode(template, position);
-			}
-		};
-
-		window.addEventListener("mousemove", handleMouseMove);
-		window.addEventListener("mouseup", handleMouseUp);
-
-		return () => {
-			window.removeEventListener("mousemove", handleMouseMove);
-			window.removeEventListener("mouseup", handleMouseUp);
+		useEffect(() => {
+			if (!isDragging) return;
+
+			const handleMouseMove = (e: MouseEvent) => {
+				setCursorPos({ x: e.clientX, y: e.clientY });
+			};
+
+			const handleMouseUp = (e: MouseEvent) => {
+				setIsDragging(false);
+
+				// 1. Check if dropped inside the React Flow Canvas
+				const flowContainer = document.querySelector(".react-flow-container");
+				if (!flowContainer) return;
+
+				const flowRect = flowContainer.getBoundingClientRect();
+				const isInside =
+					e.clientX >= flowRect.left &&
+					e.clientX <= flowRect.right &&
+					e.clientY >= flowRect.top &&
+					e.clientY <= flowRect.bottom;
+
+				if (isInside && rfInstance) {
+					// 2. Project screen coordinates to Flow coordinates
+					const position = rfInstance.screenToFlowPosition({
+						x: e.clientX,
+						y: e.clientY,
+					});
+
+					// 3. Create the node
+					if (onCreate) {
+						onCreate(position);
+					} else {
+						createNewNode(template, position);
+					}
+				}
+			};
+
+			window.addEventListener("mousemove", handleMouseMove);
+			window.addEventListener("mouseup", handleMouseUp);
+
+			return () => {
+				window.removeEventListener("mousemove", handleMouseMove);
+				window.removeEventListener("mouseup", handleMouseUp);
+			};
+		}, [isDragging, template, createNewNode, onCreate, rfInstance]);
+
+		const handleMouseDown = (e: React.MouseEvent) => {
+			// Prevent text selection
+			e.preventDefault();
+			setCursorPos({ x: e.clientX, y: e.clientY });
+			setIsDragging(true);
 		};
-	}, [isDragging, template, createNewNode, rfInstance]);
-
-	const handleMouseDown = (e: React.MouseEvent) => {
-		// Prevent text selection
-		e.preventDefault();
-		setCursorPos({ x: e.clientX, y: e.clientY });
-		setIsDragging(true);
-	};
 
-	return (
-		<>
-			{/* The Overlay (Only visible when dragging) */}
-			{isDragging && <DragOverlay template={template} position={cursorPos} />}
+		return (
+			<>
+				{/* The Overlay (Only visible when dragging) */}
+				{isDragging && <DragOverlay template={template} position={cursorPos} />}
 
-			{/* The Static Item in the List */}
-			<motion.div
-				ref={itemRef}
-				layoutId={`node-item-${template.id}-${id_suffix}`}
-				onMouseDown={handleMouseDown}
-				className={cn(
-					"group relative flex w-full cursor-grab active:cursor-grabbing select-none items-center gap-3",
-					"rounded-xl border border-transparent p-2 transition-all duration-200",
-					"hover:bg-muted/50 hover:border-border/40",
-					isDragging ? "opacity-30 grayscale" : "opacity-100",
-				)}
-				whileHover={{ scale: 1.02 }}
-				whileTap={{ scale: 0.98 }}
-			>
-				{/* Icon Container */}
-				<div
+				{/* The Static Item in the List */}
+				<motion.div
+					ref={itemRef}
+					layoutId={`node-item-${template.id}-${id_suffix}`}
+					onMouseDown={handleMouseDown}
 					className={cn(
-						"flex h-10 w-10 shrink-0 items-center justify-center rounded-[10px]",
-						"bg-muted/80 text-muted-foreground transition-colors duration-300",
-						"group-hover:bg-primary/10 group-hover:text-primary shadow-sm",
+						"group relative flex w-full cursor-grab active:cursor-grabbing select-none items-center gap-3",
+						"rounded-xl border border-transparent p-2 transition-all duration-200",
+						"hover:bg-muted/50 hover:border-border/40",
+						isDragging ? "opacity-30 grayscale" : "opacity-100",
 					)}
+					whileHover={{ scale: 1.02 }}
+					whileTap={{ scale: 0.98 }}
 				>
-					<MainIcon className="h-5 w-5" />
-				</div>
+					{/* Icon Container */}
+					<div
+						className={cn(
+							"flex h-10 w-10 shrink-0 items-center justify-center rounded-[10px]",
+							"bg-muted/80 text-muted-foreground transition-colors duration-300",
+							"group-hover:bg-primary/10 group-hover:text-primary shadow-sm",
+						)}
+					>
+						<MainIcon className="h-5 w-5" />
+					</div>
 
-				{/* Text Content */}
-				<div className="flex flex-1 flex-col overflow-hidden">
-					<div className="flex items-center justify-between">
-						<span className="truncate text-[13px] font-medium leading-tight text-foreground/90">
-							{template.displayName}
-						</span>
-						{/* Optional Type Badges */}
-						<div className="flex -space-x-1 pl-2">
-							{optionalIcons.slice(0, 2).map((OptIcon, idx) => (
-								<div
-									// biome-ignore lint/suspicious/noArrayIndexKey: No other
-									key={`${idx}_opticon`}
-									className="flex h-4 w-4 items-center justify-center rounded-full bg-background ring-1 ring-border"
-								>
-									<OptIcon className="h-2.5 w-2.5 text-muted-foreground" />
-								</div>
-							))}
+					{/* Text Content */}
+					<div className="flex flex-1 flex-col overflow-hidden">
+						<div className="flex items-center justify-between">
+							<span className="truncate text-[13px] font-medium leading-tight text-foreground/90">
+								{template.displayName}
+							</span>
+							{/* Optional Type Badges */}
+							<div className="flex -space-x-1 pl-2">
+								{optionalIcons.slice(0, 2).map((OptIcon, idx) => (
+									<div
+										// biome-ignore lint/suspicious/noArrayIndexKey: No other
+										key={`${idx}_opticon`}
+										className="flex h-4 w-4 items-center justify-center rounded-full bg-background ring-1 ring-border"
+									>
+										<OptIcon className="h-2.5 w-2.5 text-muted-foreground" />
+									</div>
+								))}
+							</div>
 						</div>
+						<span className="text-[11px] text-muted-foreground/80">
+							{template.description || "Drag to add to canvas"}
+						</span>
 					</div>
-					<span className="text-[11px] text-muted-foreground/80">
-						{template.description || "Drag to add to canvas"}
-					</span>
-				</div>
 
-				{/* Drag Handle Indicator (Subtle) */}
-				<GripVertical className="h-4 w-4 text-border opacity-0 transition-opacity group-hover:opacity-100" />
-			</motion.div>
-		</>
-	);
-});
+					{/* Drag Handle Indicator (Subtle) */}
+					<GripVertical className="h-4 w-4 text-border opacity-0 transition-opacity group-hover:opacity-100" />
+				</motion.div>
+			</>
+		);
+	},
+);
@@ -1,7 +1,12 @@
 import { memo, useMemo } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import type { NodeTemplateListRPC } from "@/rpc/types";
+import type {
+	NodeTemplateListRPC,
+	PublishedCanvasListItemRPC,
+} from "@/rpc/types";
+import { useGetPublishedCanvasesQuery } from "@/store/canvas";
+import { useCanvasCtx } from "../../ctx/canvas-ctx";
 import { NodeItem } from "./node-item";
 import { useNodePalette } from "./node-palette.ctx";
 
@@ -32,9 +37,32 @@ const getLevenshteinDistance = (a: string, b: string): number => {
 
 const NodeTemplateList = memo(({ templates }: NodeListProps) => {
 	const { searchQuery } = useNodePalette();
+	const { canvas, createSubCanvasNode } = useCanvasCtx();
+	const { data: publishedCanvases } = useGetPublishedCanvasesQuery(null);
+
+	// Published canvases are listed as SubCanvas templates, keyed by canvas ID
+	const { listedTemplates, subCanvasById } = useMemo(() => {
+		const subCanvasTemplate = templates.find((t) => t.type === "SubCanvas");
+		const subCanvasById = new Map<string, PublishedCanvasListItemRPC>();
+		const listedTemplates = templates.filter((t) => t.type !== "SubCanvas");
+
+		if (subCanvasTemplate) {
+			for (const published of publishedCanvases ?? []) {
+				if (published.id === canvas?.id) continue;
+				subCanvasById.set(published.id, published);
+				listedTemplates.push({
+					...subCanvasTemplate,
+					id: published.id,
+					displayName: published.name,
+					description: published.description ?? subCanvasTemplate.description,
+				});
+			}
+		}
+		return { listedTemplates, subCanvasById };
+	}, [templates, publishedCanvases, canvas?.id]);
 
 	const filtered = useMemo(() => {
-		let result = templates;
+		let result = listedTemplates;
 
 		// 2. Fuzzy Search
 		if (searchQuery) {
@@ -60,7 +88,7 @@ const NodeTemplateList = memo(({ templates }: NodeListProps) => {
 		}
 
 		return result;
-	}, [templates, searchQuery]);
+	}, [listedTemplates, searchQuery]);
 
 	const groups = useMemo(() => {
 		const g: Record<string, Record<string, NodeTemplateListRPC>> = {};
@@ -142,13 +170,22 @@ const NodeTemplateList = memo(({ templates }: NodeListProps) => {
 										</h3>
 									)}
 									<div className="flex flex-col gap-1">
-										{temps.map((t) => (
-											<NodeItem
-												id_suffix={`${t.id}_${sub}_${cat}`}
-												key={`${t.id}_${sub}_${cat}`}
-												template={t}
-											/>
-										))}
+										{temps.map((t) => {
+											const subCanvas = subCanvasById.get(t.id);
+											return (
+												<NodeItem
+													id_suffix={`${t.id}_${sub}_${cat}`}
+													key={`${t.id}_${sub}_${cat}`}
+													template={t}
+													onCreate={
+														subCanvas
+															? (position) =>
+																	createSubCanvasNode(subCanvas, position)
+															: undefined
+													}
+												/>
+											);
+										})}
 									</div>
 								</div>
 							))}
@@ -0,0 +1,81 @@
+import { ChromaKeyNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+} from "@/components/ui/form";
+import { ColorPicker } from "@/components/util/color-input";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const ChromaKeyConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, ChromaKeyNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<FormField
+					control={form.control}
+					name="keyColor"
+					render={({ field }) => (
+						<FormItem className="flex items-center justify-between">
+							<FormLabel>Key Color</FormLabel>
+							<FormControl>
+								<ColorPicker
+									value={field.value}
+									onChange={field.onChange}
+									showAlpha={false}
+									className="w-8 h-8 p-1 rounded border bg-background"
+								/>
+							</FormControl>
+						</FormItem>
+					)}
+				/>
+				<SliderField
+					control={form.control}
+					name="similarity"
+					label="Similarity"
+					min={0}
+					max={1}
+					step={0.01}
+					info="How close to the key color a pixel has to be to become transparent."
+				/>
+				<SliderField
+					control={form.control}
+					name="smoothness"
+					label="Smoothness"
+					min={0}
+					max={1}
+					step={0.01}
+					info="Softens the edge between the subject and the removed background."
+				/>
+				<SliderField
+					control={form.control}
+					name="spill"
+					label="Spill Reduction"
+					min={0}
+					max={1}
+					step={0.01}
+					info="Removes the key color reflected on the subject."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const ChromaKeyNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <ChromaKeyConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+ChromaKeyNodeComponent.displayName = "ChromaKeyNodeComponent";
+
+export { ChromaKeyNodeComponent };
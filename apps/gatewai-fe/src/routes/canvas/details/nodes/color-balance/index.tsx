@@ -0,0 +1,67 @@
+import { ColorBalanceNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { SwitchField } from "../../components/fields/switch";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const TONAL_RANGES = [
+	{ name: "shadows", label: "Shadows" },
+	{ name: "midtones", label: "Midtones" },
+	{ name: "highlights", label: "Highlights" },
+] as const;
+
+const CHANNELS = [
+	{ name: "red", label: "Cyan - Red" },
+	{ name: "green", label: "Magenta - Green" },
+	{ name: "blue", label: "Yellow - Blue" },
+] as const;
+
+const ColorBalanceConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, ColorBalanceNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				{TONAL_RANGES.map((range) => (
+					<div key={range.name} className="space-y-3">
+						<p className="text-xs font-medium text-muted-foreground">
+							{range.label}
+						</p>
+						{CHANNELS.map((channel) => (
+							<SliderField
+								key={channel.name}
+								control={form.control}
+								name={`${range.name}.${channel.name}`}
+								label={channel.label}
+								min={-100}
+								max={100}
+								step={1}
+							/>
+						))}
+					</div>
+				))}
+				<SwitchField
+					control={form.control}
+					name="preserveLuminosity"
+					label="Preserve Luminosity"
+					info="Keeps the brightness of each pixel while its color shifts."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const ColorBalanceNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <ColorBalanceConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+ColorBalanceNodeComponent.displayName = "ColorBalanceNodeComponent";
+
+export { ColorBalanceNodeComponent };
@@ -0,0 +1,44 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { isEqual } from "lodash";
+import { useEffect } from "react";
+import { type UseFormReturn, useForm } from "react-hook-form";
+import type { z } from "zod";
+import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
+import type { NodeEntityType } from "@/store/nodes";
+
+/**
+ * Form of an image filter node config, changes are saved as they are made so
+ * the preview follows the controls.
+ */
+function useFilterConfigForm<TSchema extends z.ZodTypeAny>(
+	node: NodeEntityType,
+	schema: TSchema,
+): UseFormReturn<z.infer<TSchema>> {
+	const { onNodeConfigUpdate } = useCanvasCtx();
+
+	const form = useForm<z.infer<TSchema>>({
+		resolver: zodResolver(schema),
+		// Fills in fields missing from configs saved by older versions
+		defaultValues: schema.safeParse(node.config).data ?? schema.parse({}),
+	});
+
+	// Sync form with external state changes
+	useEffect(() => {
+		if (node.config && !isEqual(node.config, form.getValues())) {
+			form.reset(node.config as z.infer<TSchema>);
+		}
+	}, [node.config, form]);
+
+	useEffect(() => {
+		const subscription = form.watch((value) => {
+			if (!isEqual(value, node.config)) {
+				onNodeConfigUpdate({ id: node.id, newConfig: value });
+			}
+		});
+		return () => subscription.unsubscribe();
+	}, [form, node.id, node.config, onNodeConfigUpdate]);
+
+	return form;
+}
+
+export { useFilterConfigForm };
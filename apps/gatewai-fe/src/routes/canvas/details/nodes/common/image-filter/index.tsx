@@ -0,0 +1,41 @@
+import { memo, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import type { NodeEntityType } from "@/store/nodes";
+import { useNodePreview } from "../../../hooks/node-preview";
+import { BaseNode } from "../../base";
+import { CanvasRenderer } from "../canvas-renderer";
+
+type ImageFilterNodeProps = {
+	selected: boolean;
+	id: string;
+	dragging: boolean;
+	// Controls of the filter, rendered below the preview
+	children?: (node: NodeEntityType) => ReactNode;
+};
+
+const ImageFilterNode = memo(
+	({ selected, id, dragging, children }: ImageFilterNodeProps) => {
+		const { imageUrl, node } = useNodePreview(id);
+
+		return (
+			<BaseNode selected={selected} id={id} dragging={dragging}>
+				<div className="flex flex-col gap-3">
+					<div
+						className={cn("w-full overflow-hidden rounded media-container", {
+							"min-h-32": !imageUrl,
+							"h-full": imageUrl,
+						})}
+					>
+						{imageUrl && <CanvasRenderer imageUrl={imageUrl} />}
+					</div>
+
+					{node && children?.(node)}
+				</div>
+			</BaseNode>
+		);
+	},
+);
+
+ImageFilterNode.displayName = "ImageFilterNode";
+
+export { ImageFilterNode };
@@ -0,0 +1,91 @@
+import type { CompareNodeConfig, CompareOperator } from "@gatewai/types";
+import type { NodeProps } from "@xyflow/react";
+import { memo, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAppSelector } from "@/store";
+import { makeSelectNodeById } from "@/store/nodes";
+import { useCanvasCtx } from "../../ctx/canvas-ctx";
+import { BaseNode } from "../base";
+import type { CompareNode } from "../node-props";
+
+const OPERATOR_LABELS: Record<CompareOperator, string> = {
+	contains: "Contains",
+	equals: "Equals",
+	regex: "Matches regex",
+	gt: "Greater than",
+	gte: "Greater than or equal",
+	lt: "Less than",
+	lte: "Less than or equal",
+};
+
+const TEXT_OPERATORS: CompareOperator[] = ["contains", "equals", "regex"];
+
+const CompareNodeComponent = memo((props: NodeProps<CompareNode>) => {
+	const { onNodeConfigUpdate } = useCanvasCtx();
+	const node = useAppSelector(makeSelectNodeById(props.id));
+	const config = node?.config as CompareNodeConfig;
+	const operator = config?.operator ?? "contains";
+
+	const updateConfig = useCallback(
+		(newConfig: Partial<CompareNodeConfig>, appendHistory = false) => {
+			onNodeConfigUpdate({ id: props.id, newConfig, appendHistory });
+		},
+		[onNodeConfigUpdate, props.id],
+	);
+
+	return (
+		<BaseNode {...props}>
+			<div className="flex flex-col gap-2 p-1">
+				<Select
+					value={operator}
+					onValueChange={(value) =>
+						updateConfig({ operator: value as CompareOperator }, true)
+					}
+				>
+					<SelectTrigger className="text-xs">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+							<SelectItem key={value} value={value}>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Input
+					value={config?.value ?? ""}
+					onChange={(e) => updateConfig({ value: e.target.value })}
+					className="text-xs"
+					placeholder={operator === "regex" ? "Pattern..." : "Value..."}
+				/>
+				{TEXT_OPERATORS.includes(operator) && (
+					<div className="flex items-center gap-2">
+						<Switch
+							id={`compare-case-${props.id}`}
+							checked={config?.caseSensitive ?? false}
+							onCheckedChange={(checked) =>
+								updateConfig({ caseSensitive: checked }, true)
+							}
+						/>
+						<Label htmlFor={`compare-case-${props.id}`} className="text-xs">
+							Case sensitive
+						</Label>
+					</div>
+				)}
+			</div>
+		</BaseNode>
+	);
+});
+CompareNodeComponent.displayName = "CompareNode";
+
+export { CompareNodeComponent };
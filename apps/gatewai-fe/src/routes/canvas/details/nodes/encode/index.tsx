@@ -0,0 +1,50 @@
+import type { EncodeNodeConfig, EncodeResult } from "@gatewai/types";
+import { memo } from "react";
+import { formatFileSize } from "@/lib/file";
+import { useNodeResult } from "../../graph-engine/processor-ctx";
+import { ImageFilterNode } from "../common/image-filter";
+
+const EncodeSizeReadout = memo(({ nodeId }: { nodeId: string }) => {
+	const { result } = useNodeResult<EncodeResult>(nodeId);
+	const processData = result?.outputs[0]?.items[0]?.data.processData;
+
+	if (!result?.inputSize || processData?.size == null) {
+		return (
+			<p className="text-xs text-muted-foreground">
+				Run the workflow to see the encoded size.
+			</p>
+		);
+	}
+
+	const change = Math.round((1 - processData.size / result.inputSize) * 100);
+	return (
+		<div className="flex items-center justify-between text-xs">
+			<span>
+				{formatFileSize(result.inputSize)} →{" "}
+				<span className="font-medium">{formatFileSize(processData.size)}</span>
+			</span>
+			<span className="text-muted-foreground">
+				{change >= 0 ? `${change}% smaller` : `${-change}% larger`}
+			</span>
+		</div>
+	);
+});
+
+const EncodeNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => (
+				<div className="flex flex-col gap-1">
+					<p className="text-xs text-muted-foreground uppercase">
+						{(node.config as EncodeNodeConfig).format}
+					</p>
+					<EncodeSizeReadout nodeId={node.id} />
+				</div>
+			)}
+		</ImageFilterNode>
+	),
+);
+
+EncodeNodeComponent.displayName = "EncodeNodeComponent";
+
+export { EncodeNodeComponent };
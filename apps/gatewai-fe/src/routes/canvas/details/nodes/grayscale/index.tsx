@@ -0,0 +1,47 @@
+import { GRAYSCALE_TONES, GrayscaleNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SelectField } from "../../components/fields/select";
+import { SliderField } from "../../components/fields/slider";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const GrayscaleConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, GrayscaleNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SelectField
+					control={form.control}
+					name="tone"
+					label="Tone"
+					placeholder="Select tone"
+					options={GRAYSCALE_TONES}
+				/>
+				<SliderField
+					control={form.control}
+					name="intensity"
+					label="Intensity"
+					min={0}
+					max={1}
+					step={0.01}
+					info="0 keeps the original colors."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const GrayscaleNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <GrayscaleConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+GrayscaleNodeComponent.displayName = "GrayscaleNodeComponent";
+
+export { GrayscaleNodeComponent };
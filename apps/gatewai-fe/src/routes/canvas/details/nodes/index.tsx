@@ -1,29 +1,49 @@
 import { BlurNodeComponent } from "./blur";
+import { ChromaKeyNodeComponent } from "./chroma-key";
+import { ColorBalanceNodeComponent } from "./color-balance";
+import { CompareNodeComponent } from "./compare";
 import { CompositorNodeComponent } from "./compose";
 import { CropNodeComponent } from "./crop";
+import { EncodeNodeComponent } from "./encode";
 import { ExportNodeComponent } from "./export";
 import { FileNodeComponent } from "./file";
+import { GrayscaleNodeComponent } from "./grayscale";
 import { ImageGenNodeComponent } from "./image-gen";
+import { InpaintNodeComponent } from "./inpaint";
+import { InvertNodeComponent } from "./invert";
+import { IteratorNodeComponent } from "./iterator";
+import { LevelsNodeComponent } from "./levels";
 import { LlmNodeComponent } from "./llm";
 import { ModulateNodeComponent } from "./modulate";
+import { NoiseNodeComponent } from "./noise";
+import { NumberNodeComponent } from "./number";
 import { PaintNodeComponent } from "./paint";
 import { PreviewNodeComponent } from "./preview";
+import { RemoveBackgroundNodeComponent } from "./remove-background";
 import { ResizeNodeComponent } from "./resize";
+import { RotateNodeComponent } from "./rotate";
+import { RouterNodeComponent } from "./router";
+import { SharpenNodeComponent } from "./sharpen";
 import { SpeechToTextNodeComponent } from "./speech-to-text";
 import { NoteNodeComponent } from "./sticky-note";
+import { SubCanvasNodeComponent } from "./sub-canvas";
 import { TextNodeComponent } from "./text";
 import { TextMergerNodeComponent } from "./text-merger";
 import { TextToSpeechNodeComponent } from "./text-to-speech";
+import { ToggleNodeComponent } from "./toggle";
+import { UpscaleNodeComponent } from "./upscale";
 import { VideoCompositorNodeComponent } from "./video-compose";
 import { VideoGenNodeComponent } from "./video-gen";
 import { VideoGenExtendNodeComponent } from "./video-gen-extend";
 import { VideoGenFirstLastFrameNodeComponent } from "./video-gen-first-last-frame";
+import { VignetteNodeComponent } from "./vignette";
 
 // Node types mapping
 const nodeTypes = {
 	LLM: LlmNodeComponent,
 	Text: TextNodeComponent,
 	ImageGen: ImageGenNodeComponent,
+	Inpaint: InpaintNodeComponent,
 	Blur: BlurNodeComponent,
 	Resize: ResizeNodeComponent,
 	File: FileNodeComponent,
@@ -32,6 +52,18 @@ const nodeTypes = {
 	Note: NoteNodeComponent,
 	Preview: PreviewNodeComponent,
 	Modulate: ModulateNodeComponent,
+	Sharpen: SharpenNodeComponent,
+	Levels: LevelsNodeComponent,
+	ColorBalance: ColorBalanceNodeComponent,
+	Invert: InvertNodeComponent,
+	Grayscale: GrayscaleNodeComponent,
+	Vignette: VignetteNodeComponent,
+	Noise: NoiseNodeComponent,
+	Rotate: RotateNodeComponent,
+	ChromaKey: ChromaKeyNodeComponent,
+	Encode: EncodeNodeComponent,
+	RemoveBackground: RemoveBackgroundNodeComponent,
+	Upscale: UpscaleNodeComponent,
 	Export: ExportNodeComponent,
 	Compositor: CompositorNodeComponent,
 	VideoGen: VideoGenNodeComponent,
@@ -41,6 +73,12 @@ const nodeTypes = {
 	TextToSpeech: TextToSpeechNodeComponent,
 	VideoCompositor: VideoCompositorNodeComponent,
 	TextMerger: TextMergerNodeComponent,
+	Number: NumberNodeComponent,
+	Toggle: ToggleNodeComponent,
+	Compare: CompareNodeComponent,
+	Router: RouterNodeComponent,
+	Iterator: IteratorNodeComponent,
+	SubCanvas: SubCanvasNodeComponent,
 };
 
 export {
@@ -49,6 +87,7 @@ export {
 	TextNodeComponent,
 	ResizeNodeComponent,
 	ImageGenNodeComponent,
+	InpaintNodeComponent,
 	NoteNodeComponent,
 	BlurNodeComponent,
 	CropNodeComponent,
@@ -56,6 +95,18 @@ export {
 	PaintNodeComponent,
 	PreviewNodeComponent,
 	ModulateNodeComponent,
+	SharpenNodeComponent,
+	LevelsNodeComponent,
+	ColorBalanceNodeComponent,
+	InvertNodeComponent,
+	GrayscaleNodeComponent,
+	VignetteNodeComponent,
+	NoiseNodeComponent,
+	RotateNodeComponent,
+	ChromaKeyNodeComponent,
+	EncodeNodeComponent,
+	RemoveBackgroundNodeComponent,
+	UpscaleNodeComponent,
 	ExportNodeComponent,
 	CompositorNodeComponent,
 	VideoGenNodeComponent,
@@ -64,4 +115,10 @@ export {
 	SpeechToTextNodeComponent,
 	TextToSpeechNodeComponent,
 	TextMergerNodeComponent,
+	NumberNodeComponent,
+	ToggleNodeComponent,
+	CompareNodeComponent,
+	RouterNodeComponent,
+	IteratorNodeComponent,
+	SubCanvasNodeComponent,
 };
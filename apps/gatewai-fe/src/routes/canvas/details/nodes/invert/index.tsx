@@ -0,0 +1,13 @@
+import { memo } from "react";
+import { ImageFilterNode } from "../common/image-filter";
+
+// Inverts every color channel, there is nothing to configure
+const InvertNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props} />
+	),
+);
+
+InvertNodeComponent.displayName = "InvertNodeComponent";
+
+export { InvertNodeComponent };
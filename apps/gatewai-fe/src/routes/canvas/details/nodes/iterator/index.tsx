@@ -0,0 +1,54 @@
+import type { NodeProps } from "@xyflow/react";
+import { memo } from "react";
+import { useAppSelector } from "@/store";
+import { makeSelectNodeById } from "@/store/nodes";
+import { AddCustomHandleButton } from "../../components/add-custom-handle";
+import { useNodeResult } from "../../graph-engine/processor-ctx";
+import { BaseNode } from "../base";
+import type { IteratorNode } from "../node-props";
+
+const MAX_VISIBLE_ITEMS = 5;
+
+const IteratorNodeComponent = memo((props: NodeProps<IteratorNode>) => {
+	const node = useAppSelector(makeSelectNodeById(props.id));
+	const { result } = useNodeResult(props.id);
+
+	const items = result?.outputs.map((output) => output.items[0]) ?? [];
+
+	return (
+		<BaseNode {...props}>
+			<div className="flex flex-col gap-1 p-1">
+				<p className="text-xs text-muted-foreground">
+					{items.length > 0
+						? `${items.length} item${items.length === 1 ? "" : "s"}, downstream nodes run once per item`
+						: "Connect text (one item per line) or images"}
+				</p>
+				{items.slice(0, MAX_VISIBLE_ITEMS).map((item, i) => (
+					<p
+						// biome-ignore lint/suspicious/noArrayIndexKey: Items have no id
+						key={i}
+						className="text-xs truncate border rounded px-1.5 py-0.5"
+					>
+						{item?.type === "Text" ? String(item.data) : `Image ${i + 1}`}
+					</p>
+				))}
+				{items.length > MAX_VISIBLE_ITEMS && (
+					<p className="text-xs text-muted-foreground">
+						+{items.length - MAX_VISIBLE_ITEMS} more
+					</p>
+				)}
+			</div>
+			<div className="flex justify-between mt-1 items-center">
+				<AddCustomHandleButton
+					dataTypes={node?.template.variableInputDataTypes}
+					nodeId={node?.id}
+					placeholder="E.g. More Prompts"
+					type="Input"
+				/>
+			</div>
+		</BaseNode>
+	);
+});
+IteratorNodeComponent.displayName = "IteratorNode";
+
+export { IteratorNodeComponent };
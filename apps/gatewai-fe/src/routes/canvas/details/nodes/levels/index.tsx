@@ -0,0 +1,73 @@
+import { LevelsNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const LevelsConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, LevelsNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SliderField
+					control={form.control}
+					name="inputBlack"
+					label="Input Black"
+					min={0}
+					max={255}
+					step={1}
+					info="Pixels at or below this level become black."
+				/>
+				<SliderField
+					control={form.control}
+					name="inputWhite"
+					label="Input White"
+					min={0}
+					max={255}
+					step={1}
+					info="Pixels at or above this level become white."
+				/>
+				<SliderField
+					control={form.control}
+					name="gamma"
+					label="Midtones"
+					min={0.1}
+					max={5}
+					step={0.01}
+					info="1.0 is original. Above brightens, below darkens the midtones."
+				/>
+				<SliderField
+					control={form.control}
+					name="outputBlack"
+					label="Output Black"
+					min={0}
+					max={255}
+					step={1}
+				/>
+				<SliderField
+					control={form.control}
+					name="outputWhite"
+					label="Output White"
+					min={0}
+					max={255}
+					step={1}
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const LevelsNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <LevelsConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+LevelsNodeComponent.displayName = "LevelsNodeComponent";
+
+export { LevelsNodeComponent };
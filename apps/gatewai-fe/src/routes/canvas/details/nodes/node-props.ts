@@ -1,6 +1,8 @@
 import type {
 	BlurNodeConfig,
 	BlurResult,
+	CompareNodeConfig,
+	CompareResult,
 	CompositorNodeConfig,
 	CompositorResult,
 	CropNodeConfig,
@@ -9,21 +11,33 @@ import type {
 	FileResult,
 	ImageGenConfig,
 	ImageGenResult,
+	InpaintNodeConfig,
+	InpaintResult,
+	IteratorNodeConfig,
+	IteratorResult,
 	LLMNodeConfig,
 	MaskNodeConfig,
 	MaskResult,
 	NodeResult,
 	NodeWithFileType,
 	NoteNodeConfig,
+	NumberNodeConfig,
+	NumberResult,
 	PaintNodeConfig,
 	PaintResult,
 	PreviewNodeConfig,
 	ResizeNodeConfig,
 	ResizeResult,
+	RouterNodeConfig,
+	RouterResult,
+	SubCanvasNodeConfig,
+	SubCanvasResult,
 	TextMergerNodeConfig,
 	TextMergerResult,
 	TextNodeConfig,
 	TextResult,
+	ToggleNodeConfig,
+	ToggleResult,
 	VideoCompositorNodeConfig,
 	VideoCompositorResult,
 } from "@gatewai/types";
@@ -50,6 +64,10 @@ export type ImageGenNode = Node<
 	NodeWithFileType<ImageGenConfig, ImageGenResult>,
 	"ImageGen"
 >;
+export type InpaintNode = Node<
+	NodeWithFileType<InpaintNodeConfig, InpaintResult>,
+	"Inpaint"
+>;
 export type FileNode = Node<
 	NodeWithFileType<FileNodeConfig, FileResult>,
 	"File"
@@ -89,10 +107,36 @@ export type SpeechToTextNode = Node<
 	"Note"
 >;
 
+export type NumberNode = Node<
+	NodeWithFileType<NumberNodeConfig, NumberResult>,
+	"Number"
+>;
+export type ToggleNode = Node<
+	NodeWithFileType<ToggleNodeConfig, ToggleResult>,
+	"Toggle"
+>;
+export type CompareNode = Node<
+	NodeWithFileType<CompareNodeConfig, CompareResult>,
+	"Compare"
+>;
+export type RouterNode = Node<
+	NodeWithFileType<RouterNodeConfig, RouterResult>,
+	"Router"
+>;
+export type IteratorNode = Node<
+	NodeWithFileType<IteratorNodeConfig, IteratorResult>,
+	"Iterator"
+>;
+export type SubCanvasNode = Node<
+	NodeWithFileType<SubCanvasNodeConfig, SubCanvasResult>,
+	"SubCanvas"
+>;
+
 export type AnyNode =
 	| TextNode
 	| LLMNode
 	| ImageGenNode
+	| InpaintNode
 	| FileNode
 	| MaskNode
 	| NoteNode
@@ -102,4 +146,10 @@ export type AnyNode =
 	| CompositorNode
 	| ResizeNode
 	| VideoCompositorNode
-	| TextMergerNode;
+	| TextMergerNode
+	| NumberNode
+	| ToggleNode
+	| CompareNode
+	| RouterNode
+	| IteratorNode
+	| SubCanvasNode;
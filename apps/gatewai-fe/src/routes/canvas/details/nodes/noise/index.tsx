@@ -0,0 +1,54 @@
+import { NoiseNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { NumberField } from "../../components/fields/number";
+import { SliderField } from "../../components/fields/slider";
+import { SwitchField } from "../../components/fields/switch";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const NoiseConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, NoiseNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SliderField
+					control={form.control}
+					name="grain"
+					label="Grain"
+					min={0}
+					max={1}
+					step={0.01}
+				/>
+				<SwitchField
+					control={form.control}
+					name="monochrome"
+					label="Monochrome"
+					info="Same grain on every color channel, like film grain."
+				/>
+				<NumberField
+					control={form.control}
+					name="seed"
+					label="Seed"
+					min={0}
+					step={1}
+					info="Change it for a different grain pattern."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const NoiseNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <NoiseConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+NoiseNodeComponent.displayName = "NoiseNodeComponent";
+
+export { NoiseNodeComponent };
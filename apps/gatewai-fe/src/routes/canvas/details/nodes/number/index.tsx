@@ -0,0 +1,50 @@
+import type { NumberNodeConfig } from "@gatewai/types";
+import type { NodeProps } from "@xyflow/react";
+import { memo, useCallback, useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { useAppSelector } from "@/store";
+import { makeSelectNodeById } from "@/store/nodes";
+import { useCanvasCtx } from "../../ctx/canvas-ctx";
+import { BaseNode } from "../base";
+import type { NumberNode } from "../node-props";
+
+const NumberNodeComponent = memo((props: NodeProps<NumberNode>) => {
+	const { onNodeConfigUpdate } = useCanvasCtx();
+	const node = useAppSelector(makeSelectNodeById(props.id));
+	const config = node?.config as NumberNodeConfig;
+	const value = config?.value ?? 0;
+
+	// Keeps partial input like "-" or "1." while typing
+	const [localValue, setLocalValue] = useState(String(value));
+
+	useEffect(() => {
+		setLocalValue((prev) => (Number(prev) === value ? prev : String(value)));
+	}, [value]);
+
+	const handleChange = useCallback(
+		(e: React.ChangeEvent<HTMLInputElement>) => {
+			setLocalValue(e.target.value);
+			const parsed = Number(e.target.value);
+			if (e.target.value.trim() === "" || !Number.isFinite(parsed)) return;
+
+			const newConfig: NumberNodeConfig = { value: parsed };
+			onNodeConfigUpdate({ id: props.id, newConfig });
+		},
+		[onNodeConfigUpdate, props.id],
+	);
+
+	return (
+		<BaseNode {...props}>
+			<Input
+				type="number"
+				value={localValue}
+				onChange={handleChange}
+				className="text-xs"
+				placeholder="Enter number..."
+			/>
+		</BaseNode>
+	);
+});
+NumberNodeComponent.displayName = "NumberNode";
+
+export { NumberNodeComponent };
@@ -0,0 +1,37 @@
+import { memo } from "react";
+import { RunNodeButton } from "../../components/run-node-button";
+import { useNodePreview } from "../../hooks/node-preview";
+import { MediaDimensions } from "../../misc/media-dimensions";
+import { BaseNode } from "../base";
+import { CanvasRenderer } from "../common/canvas-renderer";
+
+const RemoveBackgroundNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => {
+		const { imageUrl, node } = useNodePreview(props.id);
+
+		return (
+			<BaseNode
+				selected={props.selected}
+				id={props.id}
+				dragging={props.dragging}
+			>
+				<div className="flex flex-col gap-3">
+					<div className="media-container w-full overflow-hidden rounded min-h-32 relative">
+						{imageUrl && <CanvasRenderer imageUrl={imageUrl} />}
+						<div className="absolute bottom-1 left-1 z-10">
+							<MediaDimensions node={node} />
+						</div>
+					</div>
+
+					<div className="flex justify-end items-center w-full">
+						<RunNodeButton nodeId={props.id} />
+					</div>
+				</div>
+			</BaseNode>
+		);
+	},
+);
+
+RemoveBackgroundNodeComponent.displayName = "RemoveBackgroundNode";
+
+export { RemoveBackgroundNodeComponent };
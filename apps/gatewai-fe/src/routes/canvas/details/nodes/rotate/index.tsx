@@ -0,0 +1,50 @@
+import { RotateNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { SwitchField } from "../../components/fields/switch";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const RotateConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, RotateNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SliderField
+					control={form.control}
+					name="angle"
+					label="Angle"
+					min={-180}
+					max={180}
+					step={1}
+					info="Clockwise, in degrees. The image grows to fit the rotated corners."
+				/>
+				<SwitchField
+					control={form.control}
+					name="flipHorizontal"
+					label="Flip Horizontal"
+				/>
+				<SwitchField
+					control={form.control}
+					name="flipVertical"
+					label="Flip Vertical"
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const RotateNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <RotateConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+RotateNodeComponent.displayName = "RotateNodeComponent";
+
+export { RotateNodeComponent };
@@ -0,0 +1,29 @@
+import type { NodeProps } from "@xyflow/react";
+import { memo } from "react";
+import { useAppSelector } from "@/store";
+import { makeSelectHandlesByNodeId } from "@/store/handles";
+import { useNodeResult } from "../../graph-engine/processor-ctx";
+import { BaseNode } from "../base";
+import type { RouterNode } from "../node-props";
+
+const RouterNodeComponent = memo((props: NodeProps<RouterNode>) => {
+	const { result } = useNodeResult(props.id);
+	const handles = useAppSelector(makeSelectHandlesByNodeId(props.id));
+
+	const takenHandleId =
+		result?.outputs[result.selectedOutputIndex ?? 0]?.items[0]?.outputHandleId;
+	const takenBranch = handles.find((h) => h.id === takenHandleId)?.label;
+
+	return (
+		<BaseNode {...props}>
+			<p className="text-xs text-muted-foreground p-1">
+				{takenBranch
+					? `Forwarding to ${takenBranch} branch`
+					: "Waiting for condition"}
+			</p>
+		</BaseNode>
+	);
+});
+RouterNodeComponent.displayName = "RouterNode";
+
+export { RouterNodeComponent };
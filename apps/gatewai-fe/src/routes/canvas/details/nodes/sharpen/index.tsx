@@ -0,0 +1,48 @@
+import { SharpenNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const SharpenConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, SharpenNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SliderField
+					control={form.control}
+					name="amount"
+					label="Amount"
+					min={0}
+					max={5}
+					step={0.05}
+					info="0 keeps the original image."
+				/>
+				<SliderField
+					control={form.control}
+					name="radius"
+					label="Radius"
+					min={0.5}
+					max={10}
+					step={0.5}
+					info="Size in pixels of the details that get sharpened."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const SharpenNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <SharpenConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+SharpenNodeComponent.displayName = "SharpenNodeComponent";
+
+export { SharpenNodeComponent };
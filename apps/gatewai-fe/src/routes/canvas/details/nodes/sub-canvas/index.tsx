@@ -0,0 +1,61 @@
+import type { SubCanvasResult } from "@gatewai/types";
+import type { NodeProps } from "@xyflow/react";
+import { ExternalLink } from "lucide-react";
+import { memo } from "react";
+import { Link } from "react-router";
+import { useAppSelector } from "@/store";
+import { makeSelectHandlesByNodeId } from "@/store/handles";
+import { makeSelectNodeById } from "@/store/nodes";
+import { RunNodeButton } from "../../components/run-node-button";
+import { useNodeResult } from "../../graph-engine/processor-ctx";
+import { OutputSelector } from "../../misc/output-selector";
+import { BaseNode } from "../base";
+import type { SubCanvasNode } from "../node-props";
+
+const SubCanvasNodeComponent = memo((props: NodeProps<SubCanvasNode>) => {
+	const node = useAppSelector(makeSelectNodeById(props.id));
+	const handles = useAppSelector(makeSelectHandlesByNodeId(props.id));
+	const { result } = useNodeResult<SubCanvasResult>(props.id);
+
+	const canvasId = props.data.config?.canvasId;
+	const selectedOutput = result?.outputs[result.selectedOutputIndex ?? 0];
+	const hasMoreThanOneOutput = result?.outputs && result.outputs.length > 1;
+
+	return (
+		<BaseNode {...props}>
+			<div className="flex flex-col gap-2 p-1">
+				{canvasId && (
+					<Link
+						to={`/canvas/${canvasId}`}
+						className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+					>
+						<ExternalLink className="size-3" />
+						Open published canvas
+					</Link>
+				)}
+				{hasMoreThanOneOutput && <OutputSelector node={node} />}
+				{selectedOutput?.items.map((item) => (
+					<p
+						key={item.outputHandleId}
+						className="text-xs truncate border rounded px-1.5 py-0.5"
+					>
+						<span className="text-muted-foreground">
+							{handles.find((h) => h.id === item.outputHandleId)?.label}:{" "}
+						</span>
+						{item.type === "Text" ||
+						item.type === "Number" ||
+						item.type === "Boolean"
+							? String(item.data)
+							: item.type}
+					</p>
+				))}
+				<div className="flex justify-end">
+					<RunNodeButton nodeId={props.id} />
+				</div>
+			</div>
+		</BaseNode>
+	);
+});
+SubCanvasNodeComponent.displayName = "SubCanvasNode";
+
+export { SubCanvasNodeComponent };
@@ -0,0 +1,43 @@
+import type { ToggleNodeConfig } from "@gatewai/types";
+import type { NodeProps } from "@xyflow/react";
+import { memo, useCallback } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAppSelector } from "@/store";
+import { makeSelectNodeById } from "@/store/nodes";
+import { useCanvasCtx } from "../../ctx/canvas-ctx";
+import { BaseNode } from "../base";
+import type { ToggleNode } from "../node-props";
+
+const ToggleNodeComponent = memo((props: NodeProps<ToggleNode>) => {
+	const { onNodeConfigUpdate } = useCanvasCtx();
+	const node = useAppSelector(makeSelectNodeById(props.id));
+	const config = node?.config as ToggleNodeConfig;
+	const value = config?.value ?? false;
+
+	const handleChange = useCallback(
+		(checked: boolean) => {
+			const newConfig: ToggleNodeConfig = { value: checked };
+			onNodeConfigUpdate({ id: props.id, newConfig, appendHistory: true });
+		},
+		[onNodeConfigUpdate, props.id],
+	);
+
+	return (
+		<BaseNode {...props}>
+			<div className="flex items-center gap-2 p-1">
+				<Switch
+					id={`toggle-${props.id}`}
+					checked={value}
+					onCheckedChange={handleChange}
+				/>
+				<Label htmlFor={`toggle-${props.id}`} className="text-xs">
+					{value ? "True" : "False"}
+				</Label>
+			</div>
+		</BaseNode>
+	);
+});
+ToggleNodeComponent.displayName = "ToggleNode";
+
+export { ToggleNodeComponent };
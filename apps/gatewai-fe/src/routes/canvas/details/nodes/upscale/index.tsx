@@ -0,0 +1,71 @@
+import {
+	UPSCALE_ALGORITHMS,
+	UPSCALE_FACTORS,
+	UpscaleNodeConfigSchema,
+} from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SelectField } from "../../components/fields/select";
+import { useNodeTaskProgress } from "../../ctx/task-manager-ctx";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const UpscaleProgress = memo(({ nodeId }: { nodeId: string }) => {
+	const progress = useNodeTaskProgress(nodeId);
+	if (progress === null) return null;
+
+	const percentage = Math.round(progress * 100);
+	return (
+		<div className="flex items-center gap-2 text-xs text-muted-foreground">
+			<div className="h-1 flex-1 overflow-hidden rounded bg-secondary">
+				<div
+					className="h-full bg-primary transition-all"
+					style={{ width: `${percentage}%` }}
+				/>
+			</div>
+			<span className="tabular-nums">{percentage}%</span>
+		</div>
+	);
+});
+
+const UpscaleConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, UpscaleNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<div className="flex gap-4">
+					<SelectField
+						control={form.control}
+						name="factor"
+						label="Factor"
+						placeholder="Select factor"
+						options={UPSCALE_FACTORS}
+					/>
+					<SelectField
+						control={form.control}
+						name="algorithm"
+						label="Algorithm"
+						placeholder="Select algorithm"
+						options={UPSCALE_ALGORITHMS}
+						info="Lanczos is plain resampling, edge-directed keeps edges of graphics and text crisp, model adds the most detail with the upscaling model of the server but is the slowest."
+					/>
+				</div>
+				<UpscaleProgress nodeId={node.id} />
+			</form>
+		</Form>
+	);
+});
+
+const UpscaleNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <UpscaleConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+UpscaleNodeComponent.displayName = "UpscaleNodeComponent";
+
+export { UpscaleNodeComponent };
@@ -0,0 +1,56 @@
+import { VignetteNodeConfigSchema } from "@gatewai/types";
+import { memo } from "react";
+import { Form } from "@/components/ui/form";
+import type { NodeEntityType } from "@/store/nodes";
+import { SliderField } from "../../components/fields/slider";
+import { useFilterConfigForm } from "../common/hooks/use-filter-config-form";
+import { ImageFilterNode } from "../common/image-filter";
+
+const VignetteConfig = memo(({ node }: { node: NodeEntityType }) => {
+	const form = useFilterConfigForm(node, VignetteNodeConfigSchema);
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<SliderField
+					control={form.control}
+					name="radius"
+					label="Radius"
+					min={0}
+					max={1.5}
+					step={0.01}
+					info="Distance from the center where the edges are half darkened. 1 reaches the corners."
+				/>
+				<SliderField
+					control={form.control}
+					name="softness"
+					label="Softness"
+					min={0}
+					max={1}
+					step={0.01}
+				/>
+				<SliderField
+					control={form.control}
+					name="strength"
+					label="Strength"
+					min={0}
+					max={1}
+					step={0.01}
+					info="1 turns the edges black."
+				/>
+			</form>
+		</Form>
+	);
+});
+
+const VignetteNodeComponent = memo(
+	(props: { selected: boolean; id: string; dragging: boolean }) => (
+		<ImageFilterNode {...props}>
+			{(node) => <VignetteConfig node={node} />}
+		</ImageFilterNode>
+	),
+);
+
+VignetteNodeComponent.displayName = "VignetteNodeComponent";
+
+export { VignetteNodeComponent };
@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/menubar";
 import { Separator } from "@/components/ui/separator";
 import { useCanvasMode } from "../../ctx/canvas-mode-ctx";
+import { CanvasHistoryPanel, VersionPreviewBar } from "../history";
 import { CanvasTasksPanel } from "../tasks";
 import { RunWorkflowButton } from "./run-workflow-button";
 
@@ -23,6 +24,7 @@ const Toolbar = memo(() => {
 
 	return (
 		<div className="relative flex flex-col items-center gap-2">
+			<VersionPreviewBar />
 			<Menubar className="border border-border/50 bg-background/80 backdrop-blur-md shadow-2xl rounded-full px-2 py-1 h-12 ring-1 ring-white/5 flex items-center gap-1">
 				{/* Selection & Pan Tools */}
 				<Button
@@ -73,6 +75,7 @@ const Toolbar = memo(() => {
 
 				<RunWorkflowButton />
 				<CanvasTasksPanel />
+				<CanvasHistoryPanel />
 			</Menubar>
 		</div>
 	);
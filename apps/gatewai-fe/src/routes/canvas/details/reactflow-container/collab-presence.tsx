@@ -0,0 +1,141 @@
+import { Panel, useViewport, ViewportPortal } from "@xyflow/react";
+import { MousePointer2 } from "lucide-react";
+import { memo, useMemo } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useAppSelector } from "@/store";
+import { type CollabPeer, selectCollabPeers } from "@/store/collab";
+import { selectRFNodes } from "@/store/rfstate";
+
+const PEER_COLORS = [
+	"#f97316",
+	"#22c55e",
+	"#3b82f6",
+	"#ec4899",
+	"#a855f7",
+	"#eab308",
+	"#14b8a6",
+	"#ef4444",
+];
+
+// Same color for a user on every client
+function getPeerColor(peer: CollabPeer) {
+	let hash = 0;
+	for (const char of peer.user.id) {
+		hash = (hash * 31 + char.charCodeAt(0)) | 0;
+	}
+	return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+const getInitials = (name: string) =>
+	name
+		.split(/\s+/)
+		.map((part) => part[0])
+		.join("")
+		.slice(0, 2)
+		.toUpperCase();
+
+function PeerSelections({ peers }: { peers: CollabPeer[] }) {
+	const rfNodes = useAppSelector(selectRFNodes);
+
+	return peers.flatMap((peer) =>
+		peer.selectedNodeIds.map((nodeId) => {
+			const node = rfNodes.find((n) => n.id === nodeId);
+			if (!node) return null;
+			return (
+				<div
+					key={`${peer.clientId}_${nodeId}`}
+					className="absolute rounded-xl border-2 pointer-events-none"
+					style={{
+						borderColor: getPeerColor(peer),
+						transform: `translate(${node.position.x - 4}px, ${node.position.y - 4}px)`,
+						width: (node.measured?.width ?? node.width ?? 0) + 8,
+						height: (node.measured?.height ?? node.height ?? 0) + 8,
+					}}
+				/>
+			);
+		}),
+	);
+}
+
+function PeerCursors({ peers }: { peers: CollabPeer[] }) {
+	const { zoom } = useViewport();
+
+	return peers.map((peer) => {
+		if (!peer.cursor) return null;
+		const color = getPeerColor(peer);
+		return (
+			<div
+				key={peer.clientId}
+				className="absolute top-0 left-0 pointer-events-none transition-transform duration-75"
+				style={{
+					// Same size at any zoom
+					transform: `translate(${peer.cursor.x}px, ${peer.cursor.y}px) scale(${1 / zoom})`,
+					transformOrigin: "0 0",
+				}}
+			>
+				<MousePointer2 className="h-5 w-5" style={{ color }} fill={color} />
+				<span
+					className="ml-4 rounded px-1.5 py-0.5 text-xs font-medium text-white whitespace-nowrap"
+					style={{ backgroundColor: color }}
+				>
+					{peer.user.name}
+				</span>
+			</div>
+		);
+	});
+}
+
+/**
+ * Cursors, selections and avatars of the other people on the canvas.
+ */
+const CollabPresence = memo(() => {
+	const peers = useAppSelector(selectCollabPeers);
+
+	// A user with the canvas open in several tabs is shown once
+	const users = useMemo(
+		() => [...new Map(peers.map((peer) => [peer.user.id, peer])).values()],
+		[peers],
+	);
+
+	if (!peers.length) {
+		return null;
+	}
+
+	return (
+		<>
+			<ViewportPortal>
+				<PeerSelections peers={peers} />
+				<PeerCursors peers={peers} />
+			</ViewportPortal>
+			<Panel position="top-center">
+				<TooltipProvider>
+					<div className="flex -space-x-2">
+						{users.map((peer) => (
+							<Tooltip key={peer.user.id}>
+								<TooltipTrigger asChild>
+									<Avatar
+										className="border-2"
+										style={{ borderColor: getPeerColor(peer) }}
+									>
+										<AvatarFallback className="text-xs">
+											{getInitials(peer.user.name)}
+										</AvatarFallback>
+									</Avatar>
+								</TooltipTrigger>
+								<TooltipContent>{peer.user.name}</TooltipContent>
+							</Tooltip>
+						))}
+					</div>
+				</TooltipProvider>
+			</Panel>
+		</>
+	);
+});
+
+export { CollabPresence };
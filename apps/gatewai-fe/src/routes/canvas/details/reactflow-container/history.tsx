@@ -0,0 +1,270 @@
+import type { CanvasVersionReason } from "@gatewai/db";
+import type { BulkUpdatePayload } from "@gatewai/types";
+import { format, formatDistanceToNow } from "date-fns";
+import { isEqual } from "lodash";
+import { Eye, History, RotateCcw } from "lucide-react";
+import { memo, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { Spinner } from "@/components/ui/spinner";
+import { cn } from "@/lib/utils";
+import type { CanvasDetailsRPC } from "@/rpc/types";
+import { useAppSelector } from "@/store";
+import {
+	useGetCanvasDetailsQuery,
+	useGetCanvasVersionQuery,
+	useGetCanvasVersionsQuery,
+} from "@/store/canvas";
+import { selectCanEdit } from "@/store/collab";
+import { useCanvasCtx } from "../ctx/canvas-ctx";
+
+const REASON_LABELS: Record<CanvasVersionReason, string> = {
+	SAVE: "Saved",
+	PATCH: "Agent changes applied",
+	RESTORE: "Restored",
+};
+
+/**
+ * Nodes a restore of the snapshot adds, removes and changes on the saved canvas.
+ */
+function diffVersionNodes(
+	snapshot: BulkUpdatePayload,
+	canvas: CanvasDetailsRPC,
+) {
+	const currentNodes = new Map(canvas.nodes.map((node) => [node.id, node]));
+	const versionNodeIds = new Set(snapshot.nodes?.map((node) => node.id));
+
+	let added = 0;
+	let changed = 0;
+	for (const node of snapshot.nodes ?? []) {
+		const current = node.id ? currentNodes.get(node.id) : undefined;
+		if (!current) {
+			added++;
+		} else if (
+			current.name !== node.name ||
+			!isEqual(current.position, node.position) ||
+			!isEqual(current.config, node.config)
+		) {
+			changed++;
+		}
+	}
+	const removed = canvas.nodes.filter(
+		(node) => !versionNodeIds.has(node.id),
+	).length;
+
+	return { added, removed, changed };
+}
+
+/**
+ * Shown above the toolbar while a version is previewed on the canvas.
+ */
+const VersionPreviewBar = memo(() => {
+	const { canvas, previewVersionId, restoreVersion, cancelPreview } =
+		useCanvasCtx();
+	const canEdit = useAppSelector(selectCanEdit);
+	const [isRestoring, setIsRestoring] = useState(false);
+
+	const { data: version } = useGetCanvasVersionQuery(
+		{ param: { id: canvas?.id ?? "", versionId: previewVersionId ?? "" } },
+		{ skip: !canvas || !previewVersionId },
+	);
+	const { data: canvasDetails } = useGetCanvasDetailsQuery(
+		{ param: { id: canvas?.id ?? "" } },
+		{ skip: !canvas },
+	);
+
+	const diff = useMemo(() => {
+		if (!version || !canvasDetails) return null;
+		return diffVersionNodes(
+			version.snapshot as unknown as BulkUpdatePayload,
+			canvasDetails,
+		);
+	}, [version, canvasDetails]);
+
+	if (!previewVersionId || !version) {
+		return null;
+	}
+
+	const handleRestore = async () => {
+		setIsRestoring(true);
+		try {
+			await restoreVersion(previewVersionId);
+		} finally {
+			setIsRestoring(false);
+		}
+	};
+
+	return (
+		<div className="flex items-center gap-3 rounded-full border border-primary/30 bg-background/80 backdrop-blur-md shadow-2xl pl-4 pr-1.5 py-1.5">
+			<span className="relative flex h-2 w-2">
+				<span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
+				<span className="relative inline-flex rounded-full h-2 w-2 bg-primary"></span>
+			</span>
+			<span className="text-[11px] font-medium">
+				Version of {format(new Date(version.createdAt), "MMM d, HH:mm")}
+			</span>
+			{diff && (
+				<span className="flex items-center gap-2 text-[11px] tabular-nums">
+					<span className="text-emerald-500" title="Nodes added by restoring">
+						+{diff.added}
+					</span>
+					<span className="text-destructive" title="Nodes removed by restoring">
+						-{diff.removed}
+					</span>
+					<span className="text-amber-400" title="Nodes changed by restoring">
+						~{diff.changed}
+					</span>
+				</span>
+			)}
+			<div className="flex items-center gap-1">
+				{canEdit && (
+					<Button
+						size="sm"
+						className="h-7 rounded-full px-3 text-[11px]"
+						disabled={isRestoring}
+						onClick={handleRestore}
+					>
+						{isRestoring ? (
+							<Spinner className="size-3 mr-1.5" />
+						) : (
+							<RotateCcw className="size-3 mr-1.5" />
+						)}
+						Restore
+					</Button>
+				)}
+				<Button
+					size="sm"
+					variant="ghost"
+					className="h-7 rounded-full px-3 text-[11px] text-muted-foreground"
+					disabled={isRestoring}
+					onClick={cancelPreview}
+				>
+					Cancel
+				</Button>
+			</div>
+		</div>
+	);
+});
+
+const CanvasHistoryPanel = memo(() => {
+	const { canvas, previewVersionId, previewVersion, restoreVersion } =
+		useCanvasCtx();
+	const canEdit = useAppSelector(selectCanEdit);
+	const [open, setOpen] = useState(false);
+	const [restoringId, setRestoringId] = useState<string | null>(null);
+
+	// Saves add versions, load them again whenever the panel opens
+	const { data: versions, isLoading } = useGetCanvasVersionsQuery(
+		{ canvasId: canvas?.id ?? "" },
+		{ skip: !canvas || !open, refetchOnMountOrArgChange: true },
+	);
+
+	const handleRestore = async (versionId: string) => {
+		setRestoringId(versionId);
+		try {
+			await restoreVersion(versionId);
+		} finally {
+			setRestoringId(null);
+		}
+	};
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button
+					title="Version history"
+					variant={previewVersionId ? "secondary" : "ghost"}
+					size="icon"
+					className="rounded-full w-9 h-9"
+				>
+					<History className="w-4 h-4" />
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent
+				className="w-80 p-0 overflow-hidden border-border/50 shadow-xl"
+				align="end"
+			>
+				<div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30">
+					<h4 className="text-[11px] font-semibold uppercase tracking-tight text-muted-foreground">
+						Version History
+					</h4>
+				</div>
+
+				<div className="max-h-[400px] overflow-y-auto p-2">
+					{isLoading ? (
+						<div className="flex justify-center py-4">
+							<Spinner className="h-4 w-4" />
+						</div>
+					) : !versions?.length ? (
+						<div className="py-4 text-center">
+							<p className="text-xs text-muted-foreground/60">
+								Versions are recorded as the canvas is saved
+							</p>
+						</div>
+					) : (
+						<div className="grid gap-1">
+							{versions.map((version) => (
+								<div
+									key={version.id}
+									className={cn(
+										"flex items-center gap-2 p-1.5 rounded-md hover:bg-secondary/30",
+										{ "bg-primary/10": version.id === previewVersionId },
+									)}
+								>
+									<div className="flex flex-col min-w-0">
+										<span className="text-xs font-medium">
+											{REASON_LABELS[version.reason]}
+										</span>
+										<span
+											className="text-[10px] text-muted-foreground truncate"
+											title={format(new Date(version.createdAt), "PPpp")}
+										>
+											{formatDistanceToNow(new Date(version.createdAt), {
+												addSuffix: true,
+											})}
+											{version.user && ` · ${version.user.name}`} ·{" "}
+											{version.nodeCount} nodes
+										</span>
+									</div>
+									<div className="ml-auto flex items-center">
+										<Button
+											size="icon"
+											variant="ghost"
+											title="Preview on canvas"
+											className="size-6"
+											onClick={() => previewVersion(version.id)}
+										>
+											<Eye className="size-3" />
+										</Button>
+										{canEdit && (
+											<Button
+												size="icon"
+												variant="ghost"
+												title="Restore"
+												className="size-6"
+												disabled={restoringId !== null}
+												onClick={() => handleRestore(version.id)}
+											>
+												{restoringId === version.id ? (
+													<Spinner className="size-3" />
+												) : (
+													<RotateCcw className="size-3" />
+												)}
+											</Button>
+										)}
+									</div>
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+});
+
+export { CanvasHistoryPanel, VersionPreviewBar };
@@ -38,6 +38,7 @@ function ReactflowContainer({ children }: ReactFlowProps) {
 		isReviewing,
 		canvas,
 		isLoading,
+		updateCursor,
 	} = useCanvasCtx();
 	const { effectivePan, setIsMiddleMousePressed } = useCanvasMode();
 	const dispatch = useAppDispatch();
@@ -72,6 +73,17 @@ function ReactflowContainer({ children }: ReactFlowProps) {
 		}
 	};
 
+	// Shared with collaborators in flow coordinates
+	const onMouseMove: MouseEventHandler<HTMLDivElement> = (event) => {
+		if (!rfInstance.current) return;
+		updateCursor(
+			rfInstance.current.screenToFlowPosition({
+				x: event.clientX,
+				y: event.clientY,
+			}),
+		);
+	};
+
 	useEffect(() => {
 		const handleMouseUp = (event: MouseEvent) => {
 			if (event.button === 1) {
@@ -94,6 +106,8 @@ function ReactflowContainer({ children }: ReactFlowProps) {
 		<div
 			onAuxClick={handleAuxClick}
 			onMouseDown={onMouseDown}
+			onMouseMove={onMouseMove}
+			onMouseLeave={() => updateCursor(null)}
 			className="w-full h-screen bg-black relative"
 		>
 			<Helmet>
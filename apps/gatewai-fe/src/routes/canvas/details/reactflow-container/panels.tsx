@@ -1,9 +1,10 @@
-
 import { memo } from "react";
 import { AgentPanel } from "./agent-panel";
 import { BottomPanel } from "./bottom-panel";
+import { CollabPresence } from "./collab-presence";
 import { LeftPanel } from "./left-panel";
 import { NodeConfigPanel } from "./right-panel/node-config";
+
 // import { Panel } from "@xyflow/react";
 // import { DebugPanel } from "../graph-engine/debug-panel";
 
@@ -14,6 +15,7 @@ const ReactFlowPanels = memo(() => {
 			<BottomPanel />
 			<AgentPanel />
 			<NodeConfigPanel />
+			<CollabPresence />
 			{/* <Panel position="top-center">
 				<DebugPanel />
 			</Panel> */}
@@ -0,0 +1,176 @@
+import {
+	ENCODE_CHROMA_SUBSAMPLINGS,
+	ENCODE_COLOR_PROFILES,
+	ENCODE_FORMATS,
+	type EncodeNodeConfig,
+	EncodeNodeConfigSchema,
+} from "@gatewai/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { debounce, isEqual } from "lodash";
+import { memo, useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { NumberField } from "@/routes/canvas/details/components/fields/number";
+import { SliderField } from "@/routes/canvas/details/components/fields/slider";
+import { SwitchField } from "@/routes/canvas/details/components/fields/switch";
+import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
+import type { NodeEntityType } from "@/store/nodes";
+import { SelectField } from "../../../../components/fields/select";
+
+const EXIF_FIELDS = [
+	{ name: "exif.artist", label: "Artist" },
+	{ name: "exif.copyright", label: "Copyright" },
+	{ name: "exif.description", label: "Description" },
+] as const;
+
+const EncodeNodeConfigComponent = memo(({ node }: { node: NodeEntityType }) => {
+	const { onNodeConfigUpdate } = useCanvasCtx();
+	const updateConfig = useMemo(
+		() =>
+			debounce((cfg: EncodeNodeConfig) => {
+				onNodeConfigUpdate({ id: node.id, newConfig: cfg });
+			}, 500),
+		[node.id, onNodeConfigUpdate],
+	);
+	const nodeConfig = node.config as EncodeNodeConfig;
+	const form = useForm<EncodeNodeConfig>({
+		resolver: zodResolver(EncodeNodeConfigSchema),
+		// Fills in fields missing from configs saved by older versions
+		defaultValues:
+			EncodeNodeConfigSchema.safeParse(nodeConfig).data ??
+			EncodeNodeConfigSchema.parse({}),
+	});
+
+	useEffect(() => {
+		if (node?.config) {
+			const currentValues = form.getValues();
+			if (!isEqual(node.config, currentValues)) {
+				form.reset(node.config as EncodeNodeConfig);
+			}
+		}
+	}, [node, form]);
+
+	useEffect(() => {
+		const subscription = form.watch((value) => {
+			const val = value as EncodeNodeConfig;
+			if (!isEqual(val, nodeConfig)) {
+				updateConfig(val);
+			}
+		});
+		return () => subscription.unsubscribe();
+	}, [form, updateConfig, nodeConfig]);
+
+	const format = form.watch("format");
+
+	return (
+		<Form {...form}>
+			<form className="space-y-6">
+				<div className="flex gap-4">
+					<SelectField
+						control={form.control}
+						name="format"
+						label="Format"
+						placeholder="Select format"
+						options={ENCODE_FORMATS}
+					/>
+					{(format === "jpeg" || format === "avif") && (
+						<SelectField
+							control={form.control}
+							name="chromaSubsampling"
+							label="Chroma"
+							placeholder="Select subsampling"
+							options={ENCODE_CHROMA_SUBSAMPLINGS}
+							info="4:4:4 keeps full color resolution, 4:2:0 gives smaller files."
+						/>
+					)}
+				</div>
+				<SliderField
+					control={form.control}
+					name="quality"
+					label="Quality"
+					min={1}
+					max={100}
+					step={1}
+					info={
+						format === "png"
+							? "PNG is lossless, below 100 colors are reduced to a palette."
+							: undefined
+					}
+				/>
+				<NumberField
+					control={form.control}
+					name="maxFileSizeKb"
+					label="Max File Size (KB)"
+					placeholder="No limit"
+					info="Lowers the quality until the file fits."
+					min={1}
+					step={1}
+				/>
+				<SelectField
+					control={form.control}
+					name="colorProfile"
+					label="Color Profile"
+					placeholder="Select color profile"
+					options={ENCODE_COLOR_PROFILES}
+					info="Converts the colors to sRGB or Display P3 and embeds that profile, keep leaves the profile of the input."
+				/>
+				<SwitchField
+					control={form.control}
+					name="stripMetadata"
+					label="Strip Metadata"
+					info="Removes the EXIF and XMP of the input, like camera details and location."
+				/>
+				{EXIF_FIELDS.map(({ name, label }) => (
+					<FormField
+						key={name}
+						control={form.control}
+						name={name}
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>{label}</FormLabel>
+								<FormControl>
+									<Input
+										{...field}
+										value={field.value ?? ""}
+										onChange={(e) =>
+											field.onChange(e.target.value || undefined)
+										}
+										placeholder="Not set"
+									/>
+								</FormControl>
+							</FormItem>
+						)}
+					/>
+				))}
+				<FormField
+					control={form.control}
+					name="xmp"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>XMP</FormLabel>
+							<FormControl>
+								<Textarea
+									{...field}
+									value={field.value ?? ""}
+									onChange={(e) => field.onChange(e.target.value || undefined)}
+									placeholder="<x:xmpmeta>…</x:xmpmeta>"
+									className="min-h-20 font-mono text-xs"
+								/>
+							</FormControl>
+						</FormItem>
+					)}
+				/>
+			</form>
+		</Form>
+	);
+});
+
+export { EncodeNodeConfigComponent };
@@ -1,4 +1,5 @@
 import {
+	DEFAULT_MODEL_PROVIDER,
 	IMAGEGEN_ASPECT_RATIOS,
 	IMAGEGEN_IMAGE_SIZES,
 	IMAGEGEN_NODE_MODELS,
@@ -10,8 +11,10 @@ import { debounce, isEqual } from "lodash";
 import { memo, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { Form } from "@/components/ui/form";
+import { NumberField } from "@/routes/canvas/details/components/fields/number";
 import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
 import type { NodeEntityType } from "@/store/nodes";
+import { ModelSelectField } from "../../../../components/fields/model-select";
 import { SelectField } from "../../../../components/fields/select";
 
 const ImageGenNodeConfigComponent = memo(
@@ -28,9 +31,11 @@ const ImageGenNodeConfigComponent = memo(
 		const form = useForm<ImageGenConfig>({
 			resolver: zodResolver(ImageGenNodeConfigSchema),
 			defaultValues: {
+				provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
 				model: nodeConfig?.model ?? IMAGEGEN_NODE_MODELS[0],
 				aspectRatio: nodeConfig?.aspectRatio ?? "1:1",
 				imageSize: nodeConfig?.imageSize ?? "1K",
+				seed: nodeConfig?.seed,
 			},
 		});
 
@@ -47,9 +52,11 @@ const ImageGenNodeConfigComponent = memo(
 			const subscription = form.watch((value) => {
 				const val = value as ImageGenConfig;
 				if (
+					val.provider !== nodeConfig?.provider ||
 					val.model !== nodeConfig?.model ||
 					val.aspectRatio !== nodeConfig?.aspectRatio ||
-					val.imageSize !== nodeConfig?.imageSize
+					val.imageSize !== nodeConfig?.imageSize ||
+					val.seed !== nodeConfig?.seed
 				) {
 					updateConfig(val);
 				}
@@ -79,14 +86,8 @@ const ImageGenNodeConfigComponent = memo(
 		return (
 			<Form {...form}>
 				<form className="space-y-6">
-					<SelectField
-						control={form.control}
-						name="model"
-						label="Model"
-						placeholder="Select a model"
-						options={IMAGEGEN_NODE_MODELS}
-					/>
-					{form.watch("model") === "gemini-3-pro-image-preview" && (
+					<ModelSelectField form={form} capability="image" />
+					{form.watch("model") === "gemini-3-pro-image-preview" ? (
 						<div className="flex gap-4">
 							<SelectField
 								control={form.control}
@@ -103,7 +104,26 @@ const ImageGenNodeConfigComponent = memo(
 								options={IMAGEGEN_IMAGE_SIZES}
 							/>
 						</div>
+					) : (
+						// Other providers map the aspect ratio to the closest supported size
+						form.watch("provider") !== DEFAULT_MODEL_PROVIDER && (
+							<SelectField
+								control={form.control}
+								name="aspectRatio"
+								label="Aspect Ratio"
+								placeholder="Select aspect ratio"
+								options={IMAGEGEN_ASPECT_RATIOS}
+							/>
+						)
 					)}
+					<NumberField
+						control={form.control}
+						name="seed"
+						label="Seed"
+						placeholder="Random"
+						info="Setting a seed makes generations reproducible. Seeded runs reuse the previous result when prompt and inputs have not changed."
+						step={1}
+					/>
 				</form>
 			</Form>
 		);
@@ -6,8 +6,11 @@ import { cn } from "@/lib/utils";
 import { useAppSelector } from "@/store";
 import { type NodeEntityType, selectSelectedNodes } from "@/store/nodes";
 import { NODE_ICON_MAP } from "../../../node-templates/node-palette/icon-map";
+import { EncodeNodeConfigComponent } from "./encode";
 import { ImageGenNodeConfigComponent } from "./image-gen";
+import { InpaintNodeConfigComponent } from "./inpaint";
 import { LLMNodeConfigComponent } from "./llm/llm-config";
+import { RemoveBackgroundNodeConfigComponent } from "./remove-background";
 import { SpeechToTextNodeConfigComponent } from "./speech-to-text";
 import { TextToSpeechNodeConfigComponent } from "./text-to-speech";
 import { VideoGenNodeConfigComponent } from "./video-gen";
@@ -23,6 +26,9 @@ const NodeConfigFormMap: Partial<
 > = {
 	LLM: LLMNodeConfigComponent,
 	ImageGen: ImageGenNodeConfigComponent,
+	Inpaint: InpaintNodeConfigComponent,
+	Encode: EncodeNodeConfigComponent,
+	RemoveBackground: RemoveBackgroundNodeConfigComponent,
 	VideoGen: VideoGenNodeConfigComponent,
 	VideoGenExtend: VideoGenExtendNodeConfigComponent,
 	VideoGenFirstLastFrame: VideoGenFirstLastFrameNodeConfigComponent,
@@ -0,0 +1,139 @@
+import {
+	DEFAULT_MODEL_PROVIDER,
+	IMAGEGEN_IMAGE_SIZES,
+	IMAGEGEN_NODE_MODELS,
+	INPAINT_MODES,
+	type InpaintNodeConfig,
+	InpaintNodeConfigSchema,
+} from "@gatewai/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { debounce, isEqual } from "lodash";
+import { memo, useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { Form } from "@/components/ui/form";
+import { NumberField } from "@/routes/canvas/details/components/fields/number";
+import { SliderField } from "@/routes/canvas/details/components/fields/slider";
+import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
+import type { NodeEntityType } from "@/store/nodes";
+import { ModelSelectField } from "../../../../components/fields/model-select";
+import { SelectField } from "../../../../components/fields/select";
+
+const InpaintNodeConfigComponent = memo(
+	({ node }: { node: NodeEntityType }) => {
+		const { onNodeConfigUpdate } = useCanvasCtx();
+		const updateConfig = useMemo(
+			() =>
+				debounce((cfg: InpaintNodeConfig) => {
+					onNodeConfigUpdate({ id: node.id, newConfig: cfg });
+				}, 500),
+			[node.id, onNodeConfigUpdate],
+		);
+		const nodeConfig = node.config as InpaintNodeConfig;
+		const form = useForm<InpaintNodeConfig>({
+			resolver: zodResolver(InpaintNodeConfigSchema),
+			defaultValues: {
+				provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
+				model: nodeConfig?.model ?? IMAGEGEN_NODE_MODELS[0],
+				imageSize: nodeConfig?.imageSize ?? "1K",
+				mode: nodeConfig?.mode ?? "inpaint",
+				padding: nodeConfig?.padding ?? 256,
+				feather: nodeConfig?.feather ?? 8,
+				seed: nodeConfig?.seed,
+			},
+		});
+
+		useEffect(() => {
+			if (node?.config) {
+				const currentValues = form.getValues();
+				if (!isEqual(node.config, currentValues)) {
+					form.reset(node.config as InpaintNodeConfig);
+				}
+			}
+		}, [node, form]);
+
+		useEffect(() => {
+			const subscription = form.watch((value) => {
+				const val = value as InpaintNodeConfig;
+				if (!isEqual(val, nodeConfig)) {
+					updateConfig(val);
+				}
+			});
+			return () => subscription.unsubscribe();
+		}, [form, updateConfig, nodeConfig]);
+
+		// Flash model only generates 1K images
+		useEffect(() => {
+			const sub = form.watch((value, { name }) => {
+				if (name === "model" || name === "imageSize") {
+					const val = value as InpaintNodeConfig;
+					if (
+						val.model === "gemini-2.5-flash-image" &&
+						val.imageSize !== "1K"
+					) {
+						form.setValue("imageSize", "1K", {
+							shouldValidate: true,
+							shouldDirty: true,
+						});
+					}
+				}
+			});
+			return () => sub.unsubscribe();
+		}, [form]);
+
+		return (
+			<Form {...form}>
+				<form className="space-y-6">
+					<ModelSelectField form={form} capability="image" />
+					<div className="flex gap-4">
+						<SelectField
+							control={form.control}
+							name="mode"
+							label="Mode"
+							placeholder="Select mode"
+							options={INPAINT_MODES}
+						/>
+						{form.watch("model") === "gemini-3-pro-image-preview" && (
+							<SelectField
+								control={form.control}
+								name="imageSize"
+								label="Image Size"
+								placeholder="Select image size"
+								options={IMAGEGEN_IMAGE_SIZES}
+							/>
+						)}
+					</div>
+					{form.watch("mode") === "outpaint" && (
+						<NumberField
+							control={form.control}
+							name="padding"
+							label="Padding"
+							info="Pixels added on every side of the image. The mask is optional, when connected its painted area is regenerated too."
+							min={1}
+							max={2048}
+							step={1}
+						/>
+					)}
+					<SliderField
+						control={form.control}
+						name="feather"
+						label="Feather"
+						info="Softens the mask edge so generated pixels blend into the image."
+						min={0}
+						max={100}
+						step={1}
+					/>
+					<NumberField
+						control={form.control}
+						name="seed"
+						label="Seed"
+						placeholder="Random"
+						info="Setting a seed makes generations reproducible. Seeded runs reuse the previous result when prompt and inputs have not changed."
+						step={1}
+					/>
+				</form>
+			</Form>
+		);
+	},
+);
+
+export { InpaintNodeConfigComponent };
@@ -1,5 +1,5 @@
 import {
-	LLM_NODE_MODELS,
+	DEFAULT_MODEL_PROVIDER,
 	type LLMNodeConfig,
 	LLMNodeConfigSchema,
 } from "@gatewai/types";
@@ -8,10 +8,11 @@ import { debounce, isEqual } from "lodash";
 import { memo, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { Form } from "@/components/ui/form";
+import { NumberField } from "@/routes/canvas/details/components/fields/number";
 import { SliderField } from "@/routes/canvas/details/components/fields/slider";
 import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
 import type { NodeEntityType } from "@/store/nodes";
-import { SelectField } from "../../../../components/fields/select";
+import { ModelSelectField } from "../../../../components/fields/model-select";
 
 const LLMNodeConfigComponent = memo(({ node }: { node: NodeEntityType }) => {
 	const { onNodeConfigUpdate } = useCanvasCtx();
@@ -26,8 +27,10 @@ const LLMNodeConfigComponent = memo(({ node }: { node: NodeEntityType }) => {
 	const form = useForm<LLMNodeConfig>({
 		resolver: zodResolver(LLMNodeConfigSchema),
 		defaultValues: {
+			provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
 			model: nodeConfig?.model,
 			temperature: nodeConfig?.temperature ?? 0,
+			seed: nodeConfig?.seed,
 		},
 	});
 
@@ -45,25 +48,28 @@ const LLMNodeConfigComponent = memo(({ node }: { node: NodeEntityType }) => {
 		const subscription = form.watch((value) => {
 			const val = value as LLMNodeConfig;
 			if (
+				val.provider !== nodeConfig?.provider ||
 				val.model !== nodeConfig?.model ||
-				val.temperature !== nodeConfig?.temperature
+				val.temperature !== nodeConfig?.temperature ||
+				val.seed !== nodeConfig?.seed
 			) {
 				updateConfig(val);
 			}
 		});
 		return () => subscription.unsubscribe();
-	}, [form, updateConfig, nodeConfig?.model, nodeConfig?.temperature]);
+	}, [
+		form,
+		updateConfig,
+		nodeConfig?.provider,
+		nodeConfig?.model,
+		nodeConfig?.temperature,
+		nodeConfig?.seed,
+	]);
 
 	return (
 		<Form {...form}>
 			<form className="space-y-6">
-				<SelectField
-					control={form.control}
-					name="model"
-					label="Model"
-					placeholder="Select a model"
-					options={LLM_NODE_MODELS}
-				/>
+				<ModelSelectField form={form} capability="text" />
 				<SliderField
 					control={form.control}
 					name="temperature"
@@ -73,6 +79,14 @@ const LLMNodeConfigComponent = memo(({ node }: { node: NodeEntityType }) => {
 					max={2}
 					step={0.1}
 				/>
+				<NumberField
+					control={form.control}
+					name="seed"
+					label="Seed"
+					placeholder="Random"
+					info="Setting a seed makes generations reproducible. Seeded runs reuse the previous result when prompt and inputs have not changed."
+					step={1}
+				/>
 			</form>
 		</Form>
 	);
@@ -0,0 +1,83 @@
+import {
+	BACKGROUND_SEGMENTERS,
+	type RemoveBackgroundNodeConfig,
+	RemoveBackgroundNodeConfigSchema,
+} from "@gatewai/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { debounce, isEqual } from "lodash";
+import { memo, useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { Form } from "@/components/ui/form";
+import { SliderField } from "@/routes/canvas/details/components/fields/slider";
+import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
+import type { NodeEntityType } from "@/store/nodes";
+import { ModelSelectField } from "../../../../components/fields/model-select";
+import { SelectField } from "../../../../components/fields/select";
+
+const RemoveBackgroundNodeConfigComponent = memo(
+	({ node }: { node: NodeEntityType }) => {
+		const { onNodeConfigUpdate } = useCanvasCtx();
+		const updateConfig = useMemo(
+			() =>
+				debounce((cfg: RemoveBackgroundNodeConfig) => {
+					onNodeConfigUpdate({ id: node.id, newConfig: cfg });
+				}, 500),
+			[node.id, onNodeConfigUpdate],
+		);
+		const nodeConfig = node.config as RemoveBackgroundNodeConfig;
+		const form = useForm<RemoveBackgroundNodeConfig>({
+			resolver: zodResolver(RemoveBackgroundNodeConfigSchema),
+			defaultValues:
+				RemoveBackgroundNodeConfigSchema.safeParse(nodeConfig).data ??
+				RemoveBackgroundNodeConfigSchema.parse({}),
+		});
+
+		useEffect(() => {
+			if (node?.config) {
+				const currentValues = form.getValues();
+				if (!isEqual(node.config, currentValues)) {
+					form.reset(node.config as RemoveBackgroundNodeConfig);
+				}
+			}
+		}, [node, form]);
+
+		useEffect(() => {
+			const subscription = form.watch((value) => {
+				const val = value as RemoveBackgroundNodeConfig;
+				if (!isEqual(val, nodeConfig)) {
+					updateConfig(val);
+				}
+			});
+			return () => subscription.unsubscribe();
+		}, [form, updateConfig, nodeConfig]);
+
+		return (
+			<Form {...form}>
+				<form className="space-y-6">
+					<SelectField
+						control={form.control}
+						name="segmenter"
+						label="Segmenter"
+						placeholder="Select segmenter"
+						options={BACKGROUND_SEGMENTERS}
+						info="onnx runs the segmentation model of the server for free, model asks an image model for the mask and uses credits."
+					/>
+					{form.watch("segmenter") === "model" && (
+						<ModelSelectField form={form} capability="image" />
+					)}
+					<SliderField
+						control={form.control}
+						name="threshold"
+						label="Threshold"
+						min={0}
+						max={1}
+						step={0.01}
+						info="Makes the parts of the mask below it fully transparent. 0 keeps soft edges like hair."
+					/>
+				</form>
+			</Form>
+		);
+	},
+);
+
+export { RemoveBackgroundNodeConfigComponent };
@@ -1,7 +1,7 @@
 import {
+	DEFAULT_MODEL_PROVIDER,
 	type SpeechToTextNodeConfig,
 	SpeechToTextNodeConfigSchema,
-	STT_NODE_MODELS,
 } from "@gatewai/types";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { memo, useCallback, useEffect } from "react";
@@ -9,7 +9,7 @@ import { useForm } from "react-hook-form";
 import { Form } from "@/components/ui/form";
 import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
 import type { NodeEntityType } from "@/store/nodes";
-import { SelectField } from "../../../../components/fields/select";
+import { ModelSelectField } from "../../../../components/fields/model-select";
 
 const SpeechToTextNodeConfigComponent = memo(
 	({ node }: { node: NodeEntityType }) => {
@@ -24,6 +24,7 @@ const SpeechToTextNodeConfigComponent = memo(
 		const form = useForm<SpeechToTextNodeConfig>({
 			resolver: zodResolver(SpeechToTextNodeConfigSchema),
 			defaultValues: {
+				provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
 				model: nodeConfig?.model,
 			},
 		});
@@ -37,23 +38,20 @@ const SpeechToTextNodeConfigComponent = memo(
 		useEffect(() => {
 			const subscription = form.watch((value) => {
 				const val = value as SpeechToTextNodeConfig;
-				if (val.model !== nodeConfig?.model) {
+				if (
+					val.provider !== nodeConfig?.provider ||
+					val.model !== nodeConfig?.model
+				) {
 					updateConfig(val);
 				}
 			});
 			return () => subscription.unsubscribe();
-		}, [form, updateConfig, nodeConfig?.model]);
+		}, [form, updateConfig, nodeConfig?.provider, nodeConfig?.model]);
 
 		return (
 			<Form {...form}>
 				<form className="space-y-6">
-					<SelectField
-						control={form.control}
-						name="model"
-						label="Model"
-						placeholder="Select a model"
-						options={STT_NODE_MODELS}
-					/>
+					<ModelSelectField form={form} capability="transcription" />
 				</form>
 			</Form>
 		);
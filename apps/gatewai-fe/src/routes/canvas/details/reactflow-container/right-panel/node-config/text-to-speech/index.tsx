@@ -1,15 +1,15 @@
 import {
+	DEFAULT_MODEL_PROVIDER,
 	type TextToSpeechNodeConfig,
 	TextToSpeechNodeConfigSchema,
 	TTS_LANGUAGES,
-	TTS_NODE_MODELS,
 	TTS_VOICE_NAMES,
 } from "@gatewai/types";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { debounce, isEqual } from "lodash";
 import { Plus, Trash2 } from "lucide-react";
 import { memo, useEffect, useMemo } from "react";
-import { useFieldArray, useForm } from "react-hook-form";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { Button } from "@/components/ui/button";
 import {
 	Form,
@@ -23,7 +23,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
+import { useGetModelProvidersQuery } from "@/store/models";
 import type { NodeEntityType } from "@/store/nodes";
+import { ModelSelectField } from "../../../../components/fields/model-select";
 import { SelectField } from "../../../../components/fields/select";
 
 const TextToSpeechNodeConfigComponent = memo(
@@ -40,6 +42,7 @@ const TextToSpeechNodeConfigComponent = memo(
 
 		const defaultValue = useMemo(
 			() => ({
+				provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
 				model: nodeConfig?.model ?? "gemini-2.5-flash-preview-tts",
 				languageCode: nodeConfig?.languageCode,
 				speakerConfig: nodeConfig?.speakerConfig ?? [
@@ -60,6 +63,26 @@ const TextToSpeechNodeConfigComponent = memo(
 			name: "speakerConfig",
 		});
 
+		const provider = useWatch({ control: form.control, name: "provider" });
+		const { data: providers } = useGetModelProvidersQuery();
+		const voices = useMemo(
+			() => providers?.find((p) => p.id === provider)?.voices ?? [],
+			[providers, provider],
+		);
+
+		// Voices differ per provider, ones the selected provider lacks switch to its first voice
+		useEffect(() => {
+			if (voices.length === 0) return;
+			const speakerConfig = form.getValues("speakerConfig") ?? [];
+			speakerConfig.forEach(({ voiceName }, index) => {
+				if (!voices.includes(voiceName)) {
+					form.setValue(`speakerConfig.${index}.voiceName`, voices[0], {
+						shouldDirty: true,
+					});
+				}
+			});
+		}, [voices, form]);
+
 		useEffect(() => {
 			if (node?.config) {
 				const currentValues = form.getValues();
@@ -81,7 +104,7 @@ const TextToSpeechNodeConfigComponent = memo(
 
 		const handleAddSpeaker = () => {
 			if (fields.length < 2) {
-				append({ speaker: "", voiceName: TTS_VOICE_NAMES[0] });
+				append({ speaker: "", voiceName: voices[0] ?? TTS_VOICE_NAMES[0] });
 			}
 		};
 
@@ -96,13 +119,7 @@ const TextToSpeechNodeConfigComponent = memo(
 		return (
 			<Form {...form}>
 				<form className="space-y-6">
-					<SelectField
-						control={form.control}
-						name="model"
-						label="Model"
-						placeholder="Select a TTS model"
-						options={TTS_NODE_MODELS}
-					/>
+					<ModelSelectField form={form} capability="speech" />
 					<SelectField
 						control={form.control}
 						name="languageCode"
@@ -176,7 +193,7 @@ const TextToSpeechNodeConfigComponent = memo(
 									name={`speakerConfig.${index}.voiceName`}
 									label="Voice"
 									placeholder="Select a voice"
-									options={TTS_VOICE_NAMES}
+									options={voices}
 								/>
 							</div>
 						))}
@@ -1,4 +1,5 @@
 import {
+	DEFAULT_MODEL_PROVIDER,
 	VIDEOGEN_ASPECT_RATIOS,
 	VIDEOGEN_DURATIONS,
 	VIDEOGEN_NODE_MODELS,
@@ -21,6 +22,7 @@ import { useCanvasCtx } from "@/routes/canvas/details/ctx/canvas-ctx";
 import { useAppSelector } from "@/store";
 import { makeSelectHandlesByNodeId } from "@/store/handles";
 import type { NodeEntityType } from "@/store/nodes";
+import { ModelSelectField } from "../../../../components/fields/model-select";
 import { SelectField } from "../../../../components/fields/select";
 
 const VideoGenNodeConfigComponent = memo(
@@ -45,6 +47,7 @@ const VideoGenNodeConfigComponent = memo(
 		const form = useForm<VideoGenNodeConfig>({
 			resolver: zodResolver(VideoGenNodeConfigSchema),
 			defaultValues: {
+				provider: nodeConfig?.provider ?? DEFAULT_MODEL_PROVIDER,
 				model: nodeConfig?.model ?? VIDEOGEN_NODE_MODELS[0],
 				aspectRatio: nodeConfig?.aspectRatio ?? "16:9",
 				resolution: nodeConfig?.resolution ?? "1080p",
@@ -66,6 +69,7 @@ const VideoGenNodeConfigComponent = memo(
 			const subscription = form.watch((value) => {
 				const val = value as VideoGenNodeConfig;
 				if (
+					val.provider !== nodeConfig?.provider ||
 					val.model !== nodeConfig?.model ||
 					val.aspectRatio !== nodeConfig?.aspectRatio ||
 					val.resolution !== nodeConfig?.resolution ||
@@ -153,13 +157,10 @@ const VideoGenNodeConfigComponent = memo(
 		);
 
 		const modelSelectionField = (
-			<SelectField
-				control={form.control}
-				name="model"
-				label="Model"
-				placeholder="Select a model"
+			<ModelSelectField
+				form={form}
+				capability="video"
 				disabled={hasReferenceImageHandle}
-				options={VIDEOGEN_NODE_MODELS}
 			/>
 		);
 
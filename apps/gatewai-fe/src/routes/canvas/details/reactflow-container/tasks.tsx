@@ -1,6 +1,7 @@
 import { formatDistanceToNow } from "date-fns";
-import { AlertCircle } from "lucide-react";
-import { memo } from "react";
+import { AlertCircle, X } from "lucide-react";
+import { memo, useState } from "react";
+import { toast } from "sonner";
 import {
 	Accordion,
 	AccordionContent,
@@ -16,6 +17,37 @@ import {
 import { Spinner } from "@/components/ui/spinner";
 import { useTaskManagerCtx } from "../ctx/task-manager-ctx";
 
+const CancelBatchButton = memo(({ batchId }: { batchId: string }) => {
+	const { cancelBatch } = useTaskManagerCtx();
+	const [isCancelling, setIsCancelling] = useState(false);
+
+	const handleCancel = async () => {
+		setIsCancelling(true);
+		try {
+			await cancelBatch(batchId);
+			toast.success("Batch cancelled");
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to cancel batch");
+		} finally {
+			setIsCancelling(false);
+		}
+	};
+
+	return (
+		<Button
+			size="icon"
+			variant="ghost"
+			title="Cancel batch"
+			className="ml-auto size-6 text-muted-foreground hover:text-destructive"
+			disabled={isCancelling}
+			onClick={handleCancel}
+		>
+			{isCancelling ? <Spinner className="size-3" /> : <X className="size-3" />}
+		</Button>
+	);
+});
+
 const CanvasTasksPanel = memo(() => {
 	const { isLoading, taskBatches, latestTasksFetchTime } = useTaskManagerCtx();
 
@@ -135,6 +167,7 @@ const CanvasTasksPanel = memo(() => {
 															{queued} in queue
 														</span>
 													</div>
+													<CancelBatchButton batchId={tb.id} />
 												</div>
 											);
 										})}
@@ -167,6 +200,7 @@ const CanvasTasksPanel = memo(() => {
 															{taskCount} tasks waiting
 														</span>
 													</div>
+													<CancelBatchButton batchId={tb.id} />
 												</div>
 											);
 										})}
@@ -1,6 +1,7 @@
 import { formatDistanceToNow } from "date-fns";
 import {
 	Clock,
+	Download,
 	FileText,
 	LayoutGrid,
 	List,
@@ -9,6 +10,8 @@ import {
 	Search,
 	Sparkles,
 	Trash2,
+	Upload,
+	Users,
 } from "lucide-react";
 
 import { useEffect, useRef, useState } from "react";
@@ -27,21 +30,30 @@ import {
 	AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import type { CanvasListRPC } from "@/rpc/types";
+import type { CanvasListRPC, SharedCanvasListRPC } from "@/rpc/types";
 import { CanvasListProvider, useCanvasListCtx } from "../ctx/canvas-list.ctx";
 
 function CanvasHomeImpl() {
 	const {
 		canvasList: rawCanvasList,
+		sharedCanvasList,
 		isLoading,
 		isError,
 		searchQuery,
 		setSearchQuery,
 		createCanvas,
 		isCreating,
+		importCanvas,
+		isImporting,
 	} = useCanvasListCtx();
 
 	// Local state for immediate input updates
@@ -90,6 +102,23 @@ function CanvasHomeImpl() {
 		}
 	};
 
+	const importInputRef = useRef<HTMLInputElement>(null);
+
+	const handleImportCanvas = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		// Allow picking the same file again
+		e.target.value = "";
+		if (!file) return;
+		try {
+			const exported = JSON.parse(await file.text());
+			const result = await importCanvas(exported).unwrap();
+			nav(`/canvas/${result.id}`);
+		} catch (error) {
+			console.error("Failed to import canvas:", error);
+			toast.error("Failed to import canvas, is it a Gatewai export?");
+		}
+	};
+
 	const handleClearSearch = () => {
 		setLocalSearchQuery("");
 		setSearchQuery("");
@@ -133,6 +162,12 @@ function CanvasHomeImpl() {
 							Your creative engine, organized.
 						</p>
 					</div>
+					<Button variant="outline" className="rounded-xl" asChild>
+						<Link to="/canvas/templates">
+							<Sparkles className="h-4 w-4" />
+							Browse templates
+						</Link>
+					</Button>
 				</header>
 
 				{/* Controls: Glassmorphism Blur */}
@@ -151,25 +186,43 @@ function CanvasHomeImpl() {
 						/>
 					</div>
 
-					<fieldset
-						className="flex items-center gap-1.5 p-1 bg-zinc-100/50 dark:bg-zinc-800/50 rounded-xl"
-						aria-label="View options"
-					>
-						<ViewButton
-							active={view === "grid"}
-							onClick={() => setView("grid")}
-							label="Grid view"
+					<div className="flex items-center gap-2">
+						<input
+							ref={importInputRef}
+							type="file"
+							accept=".json,application/json"
+							className="hidden"
+							onChange={handleImportCanvas}
+						/>
+						<Button
+							variant="ghost"
+							className="rounded-xl"
+							disabled={isImporting}
+							onClick={() => importInputRef.current?.click()}
 						>
-							<LayoutGrid className="h-4 w-4" />
-						</ViewButton>
-						<ViewButton
-							active={view === "list"}
-							onClick={() => setView("list")}
-							label="List view"
+							<Upload className="h-4 w-4" />
+							{isImporting ? "Importing..." : "Import"}
+						</Button>
+						<fieldset
+							className="flex items-center gap-1.5 p-1 bg-zinc-100/50 dark:bg-zinc-800/50 rounded-xl"
+							aria-label="View options"
 						>
-							<List className="h-4 w-4" />
-						</ViewButton>
-					</fieldset>
+							<ViewButton
+								active={view === "grid"}
+								onClick={() => setView("grid")}
+								label="Grid view"
+							>
+								<LayoutGrid className="h-4 w-4" />
+							</ViewButton>
+							<ViewButton
+								active={view === "list"}
+								onClick={() => setView("list")}
+								label="List view"
+							>
+								<List className="h-4 w-4" />
+							</ViewButton>
+						</fieldset>
+					</div>
 				</div>
 
 				{/* Content Grid */}
@@ -230,6 +283,29 @@ function CanvasHomeImpl() {
 						onCreate={handleCreateCanvas}
 					/>
 				)}
+
+				{sharedCanvasList && sharedCanvasList.length > 0 && (
+					<section className="space-y-6" aria-labelledby="shared-canvases">
+						<h2
+							id="shared-canvases"
+							className="flex items-center gap-2 text-2xl font-semibold tracking-tight"
+						>
+							<Users className="h-5 w-5 text-muted-foreground" />
+							Shared with me
+						</h2>
+						<div
+							className={cn(
+								view === "grid"
+									? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
+									: "space-y-3",
+							)}
+						>
+							{sharedCanvasList.map((canvas) => (
+								<CanvasCard key={canvas.id} canvas={canvas} view={view} />
+							))}
+						</div>
+					</section>
+				)}
 			</div>
 		</div>
 	);
@@ -270,11 +346,13 @@ function CanvasCard({
 	canvas,
 	view,
 }: {
-	canvas: CanvasListRPC[number];
+	canvas: CanvasListRPC[number] | SharedCanvasListRPC[number];
 	view: "grid" | "list";
 }) {
 	const nodeCount = canvas._count?.nodes || 0;
 	const timeAgo = formatDistanceToNow(new Date(canvas.updatedAt));
+	// Shared canvases can't be deleted, they show the role instead
+	const shared = "role" in canvas ? canvas : null;
 
 	const { deleteCanvas } = useCanvasListCtx();
 	const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -311,6 +389,7 @@ function CanvasCard({
 							</h3>
 							<p className="text-xs text-muted-foreground">
 								Edited {timeAgo} ago
+								{shared?.ownerName && ` · Shared by ${shared.ownerName}`}
 							</p>
 						</div>
 					</div>
@@ -321,49 +400,59 @@ function CanvasCard({
 						</div>
 					</div>
 				</Link>
-				<div className="absolute right-4 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity">
-					<AlertDialog
-						open={isDeleteDialogOpen}
-						onOpenChange={setIsDeleteDialogOpen}
-					>
-						<AlertDialogTrigger asChild>
-							<Button
-								variant="ghost"
-								size="icon"
-								className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-								onClick={(e) => {
-									e.preventDefault();
-									e.stopPropagation();
-									setIsDeleteDialogOpen(true);
-								}}
-							>
-								<Trash2 className="h-4 w-4" />
-							</Button>
-						</AlertDialogTrigger>
-						<AlertDialogContent>
-							<AlertDialogHeader>
-								<AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-								<AlertDialogDescription>
-									This action cannot be undone. This will permanently delete the
-									canvas named{" "}
-									<span className="font-medium">"{canvas.name}"</span> and
-									remove all its data.
-								</AlertDialogDescription>
-							</AlertDialogHeader>
-							<AlertDialogFooter>
-								<AlertDialogCancel onClick={(e) => e.stopPropagation()}>
-									Cancel
-								</AlertDialogCancel>
-								<AlertDialogAction
-									onClick={handleDelete}
-									className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+				{shared ? (
+					<div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+						<div className="opacity-0 group-hover:opacity-100 transition-opacity">
+							<ExportCanvasMenu canvas={canvas} />
+						</div>
+						<RoleBadge role={shared.role} />
+					</div>
+				) : (
+					<div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+						<ExportCanvasMenu canvas={canvas} />
+						<AlertDialog
+							open={isDeleteDialogOpen}
+							onOpenChange={setIsDeleteDialogOpen}
+						>
+							<AlertDialogTrigger asChild>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+									onClick={(e) => {
+										e.preventDefault();
+										e.stopPropagation();
+										setIsDeleteDialogOpen(true);
+									}}
 								>
-									Delete
-								</AlertDialogAction>
-							</AlertDialogFooter>
-						</AlertDialogContent>
-					</AlertDialog>
-				</div>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</AlertDialogTrigger>
+							<AlertDialogContent>
+								<AlertDialogHeader>
+									<AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+									<AlertDialogDescription>
+										This action cannot be undone. This will permanently delete
+										the canvas named{" "}
+										<span className="font-medium">"{canvas.name}"</span> and
+										remove all its data.
+									</AlertDialogDescription>
+								</AlertDialogHeader>
+								<AlertDialogFooter>
+									<AlertDialogCancel onClick={(e) => e.stopPropagation()}>
+										Cancel
+									</AlertDialogCancel>
+									<AlertDialogAction
+										onClick={handleDelete}
+										className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+									>
+										Delete
+									</AlertDialogAction>
+								</AlertDialogFooter>
+							</AlertDialogContent>
+						</AlertDialog>
+					</div>
+				)}
 			</div>
 		);
 	}
@@ -385,6 +474,8 @@ function CanvasCard({
 							<Network className="h-6 w-6" />
 						</div>
 
+						{shared && <RoleBadge role={shared.role} />}
+
 						{/* Open badge (appears on hover) */}
 						<div className="opacity-0 group-hover:opacity-100 transition-all duration-300 px-3 py-1 bg-primary/10 text-primary text-[10px] font-bold tracking-wider uppercase rounded-full">
 							Open
@@ -409,6 +500,11 @@ function CanvasCard({
 								{nodeCount} nodes
 							</div>
 						</div>
+						{shared?.ownerName && (
+							<p className="text-[11px] font-medium text-muted-foreground truncate">
+								Shared by {shared.ownerName}
+							</p>
+						)}
 					</div>
 				</div>
 				{/* Subtle background glow on hover */}
@@ -417,53 +513,126 @@ function CanvasCard({
 					aria-hidden="true"
 				/>
 			</Link>
-			<div className="absolute top-4 right-4 z-20 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-				<AlertDialog
-					open={isDeleteDialogOpen}
-					onOpenChange={setIsDeleteDialogOpen}
-				>
-					<AlertDialogTrigger asChild>
-						<Button
-							variant="ghost"
-							size="icon"
-							className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10 bg-white/50 backdrop-blur-sm dark:bg-black/50"
-							onClick={(e) => {
-								e.preventDefault();
-								e.stopPropagation();
-								setIsDeleteDialogOpen(true);
-							}}
-						>
-							<Trash2 className="h-4 w-4" />
-						</Button>
-					</AlertDialogTrigger>
-					<AlertDialogContent>
-						<AlertDialogHeader>
-							<AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-							<AlertDialogDescription>
-								This action cannot be undone. This will permanently delete the
-								canvas named{" "}
-								<span className="font-medium">"{canvas.name}"</span> and remove
-								all its data.
-							</AlertDialogDescription>
-						</AlertDialogHeader>
-						<AlertDialogFooter>
-							<AlertDialogCancel onClick={(e) => e.stopPropagation()}>
-								Cancel
-							</AlertDialogCancel>
-							<AlertDialogAction
-								onClick={handleDelete}
-								className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+			<div className="absolute top-4 right-4 z-20 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+				<ExportCanvasMenu
+					canvas={canvas}
+					className="bg-white/50 backdrop-blur-sm dark:bg-black/50"
+				/>
+				{!shared && (
+					<AlertDialog
+						open={isDeleteDialogOpen}
+						onOpenChange={setIsDeleteDialogOpen}
+					>
+						<AlertDialogTrigger asChild>
+							<Button
+								variant="ghost"
+								size="icon"
+								className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10 bg-white/50 backdrop-blur-sm dark:bg-black/50"
+								onClick={(e) => {
+									e.preventDefault();
+									e.stopPropagation();
+									setIsDeleteDialogOpen(true);
+								}}
 							>
-								Delete
-							</AlertDialogAction>
-						</AlertDialogFooter>
-					</AlertDialogContent>
-				</AlertDialog>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</AlertDialogTrigger>
+						<AlertDialogContent>
+							<AlertDialogHeader>
+								<AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+								<AlertDialogDescription>
+									This action cannot be undone. This will permanently delete the
+									canvas named{" "}
+									<span className="font-medium">"{canvas.name}"</span> and
+									remove all its data.
+								</AlertDialogDescription>
+							</AlertDialogHeader>
+							<AlertDialogFooter>
+								<AlertDialogCancel onClick={(e) => e.stopPropagation()}>
+									Cancel
+								</AlertDialogCancel>
+								<AlertDialogAction
+									onClick={handleDelete}
+									className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+								>
+									Delete
+								</AlertDialogAction>
+							</AlertDialogFooter>
+						</AlertDialogContent>
+					</AlertDialog>
+				)}
 			</div>
 		</div>
 	);
 }
 
+/**
+ * Downloads the canvas as a file that can be imported again, see the import button.
+ */
+function ExportCanvasMenu({
+	canvas,
+	className,
+}: {
+	canvas: CanvasListRPC[number] | SharedCanvasListRPC[number];
+	className?: string;
+}) {
+	// The response is sent as an attachment, the browser downloads it
+	const handleExport = (includeAssets: boolean) => {
+		const link = document.createElement("a");
+		link.href = `/api/v1/canvas/${canvas.id}/export?assets=${includeAssets}`;
+		link.click();
+	};
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					variant="ghost"
+					size="icon"
+					title="Export"
+					className={cn("h-8 w-8 text-muted-foreground", className)}
+					onClick={(e) => e.stopPropagation()}
+				>
+					<Download className="h-4 w-4" />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				<DropdownMenuItem onClick={() => handleExport(false)}>
+					Export workflow
+				</DropdownMenuItem>
+				<DropdownMenuItem onClick={() => handleExport(true)}>
+					Export with assets
+				</DropdownMenuItem>
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+const ROLE_LABELS: Record<SharedCanvasListRPC[number]["role"], string> = {
+	VIEWER: "Viewer",
+	RUNNER: "Runner",
+	EDITOR: "Editor",
+};
+
+function RoleBadge({
+	role,
+	className,
+}: {
+	role: SharedCanvasListRPC[number]["role"];
+	className?: string;
+}) {
+	return (
+		<span
+			className={cn(
+				"px-3 py-1 bg-zinc-100 dark:bg-zinc-800 text-muted-foreground text-[10px] font-bold tracking-wider uppercase rounded-full",
+				className,
+			)}
+		>
+			{ROLE_LABELS[role]}
+		</span>
+	);
+}
+
 function EmptyState({
 	isSearch,
 	onClear,
@@ -502,9 +671,19 @@ function EmptyState({
 					Clear search query
 				</Button>
 			) : (
-				<Button size="lg" onClick={onCreate} className="rounded-full px-8">
-					Create your first canvas
-				</Button>
+				<div className="flex items-center gap-3">
+					<Button size="lg" onClick={onCreate} className="rounded-full px-8">
+						Create your first canvas
+					</Button>
+					<Button
+						size="lg"
+						variant="outline"
+						className="rounded-full px-8"
+						asChild
+					>
+						<Link to="/canvas/templates">Start from a template</Link>
+					</Button>
+				</div>
 			)}
 		</div>
 	);
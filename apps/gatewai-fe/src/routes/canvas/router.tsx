@@ -1,11 +1,13 @@
 import { Route, Routes } from "react-router";
 import { CanvasDetailsRouter } from "./details/Router";
 import { CanvasHome } from "./home";
+import { TemplateGallery } from "./templates";
 
 function CanvasRouter() {
 	return (
 		<Routes>
 			<Route index element={<CanvasHome />} />
+			<Route path="templates" element={<TemplateGallery />} />
 			<Route path=":canvasId/*" element={<CanvasDetailsRouter />} />
 		</Routes>
 	);
@@ -0,0 +1,286 @@
+import { ArrowLeft, Copy, Network, Search } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { Link, useNavigate } from "react-router";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GetAssetEndpoint } from "@/lib/file";
+import { cn } from "@/lib/utils";
+import type { CanvasTemplateRPC } from "@/rpc/types";
+import {
+	useGetTemplateGalleryQuery,
+	useUseTemplateMutation,
+} from "@/store/templates";
+
+function TemplateCover({
+	template,
+	className,
+}: {
+	template: CanvasTemplateRPC;
+	className?: string;
+}) {
+	return (
+		<div
+			className={cn(
+				"bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center overflow-hidden",
+				className,
+			)}
+		>
+			{template.coverAsset ? (
+				<img
+					src={GetAssetEndpoint(template.coverAsset)}
+					alt={template.title}
+					className="h-full w-full object-cover"
+				/>
+			) : (
+				<Network className="h-10 w-10 text-zinc-400" aria-hidden="true" />
+			)}
+		</div>
+	);
+}
+
+function UseTemplateDialog({
+	template,
+	onOpenChange,
+}: {
+	template: CanvasTemplateRPC | null;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const nav = useNavigate();
+	const [cloneTemplate, { isLoading }] = useUseTemplateMutation();
+	const [keepResults, setKeepResults] = useState(false);
+
+	const handleUse = async () => {
+		if (!template) return;
+		try {
+			const canvas = await cloneTemplate({
+				param: { id: template.id },
+				json: { keepResults },
+			}).unwrap();
+			nav(`/canvas/${canvas.id}`);
+		} catch (error) {
+			console.error(error);
+			toast.error("Failed to use template, please try again later.");
+		}
+	};
+
+	const latest = template?.versions[0];
+
+	return (
+		<Dialog open={!!template} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-lg">
+				{template && (
+					<>
+						<TemplateCover
+							template={template}
+							className="aspect-video rounded-xl"
+						/>
+						<DialogHeader>
+							<DialogTitle>{template.title}</DialogTitle>
+							<DialogDescription>
+								By {template.author.name}
+								{latest && ` · Version ${latest.version}`} · Used{" "}
+								{template.useCount} times
+							</DialogDescription>
+						</DialogHeader>
+						{template.description && (
+							<p className="text-sm text-muted-foreground whitespace-pre-wrap">
+								{template.description}
+							</p>
+						)}
+						<div className="flex items-center gap-2">
+							<Checkbox
+								id="keep-results"
+								checked={keepResults}
+								onCheckedChange={(checked) => setKeepResults(checked === true)}
+							/>
+							<Label htmlFor="keep-results" className="text-sm font-normal">
+								Keep the example results of the template
+							</Label>
+						</div>
+						<DialogFooter>
+							<Button disabled={isLoading} onClick={handleUse}>
+								<Copy className="h-4 w-4" />
+								{isLoading ? "Creating canvas..." : "Use template"}
+							</Button>
+						</DialogFooter>
+					</>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function TemplateGallery() {
+	const [localSearchQuery, setLocalSearchQuery] = useState("");
+	const [searchQuery, setSearchQuery] = useState("");
+	const [tag, setTag] = useState<string | null>(null);
+	const [selected, setSelected] = useState<CanvasTemplateRPC | null>(null);
+
+	// Search once typing pauses
+	useEffect(() => {
+		const timeout = setTimeout(() => setSearchQuery(localSearchQuery), 300);
+		return () => clearTimeout(timeout);
+	}, [localSearchQuery]);
+
+	const {
+		data: templates,
+		isLoading,
+		isError,
+	} = useGetTemplateGalleryQuery({
+		query: {
+			...(searchQuery ? { q: searchQuery } : {}),
+			...(tag ? { tag } : {}),
+		},
+	});
+
+	const tags = useMemo(() => {
+		const all = new Set(templates?.flatMap((template) => template.tags));
+		if (tag) all.add(tag);
+		return [...all].sort();
+	}, [templates, tag]);
+
+	return (
+		<div className="min-h-screen bg-[#FAFAFA] dark:bg-[#09090B] selection:bg-primary/10">
+			<Helmet>
+				<title>Templates - Gatewai</title>
+			</Helmet>
+			<UseTemplateDialog
+				template={selected}
+				onOpenChange={(open) => !open && setSelected(null)}
+			/>
+			<div className="max-w-7xl mx-auto px-6 py-12 lg:px-12 space-y-12">
+				<header className="space-y-4">
+					<Link
+						to="/canvas"
+						className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+					>
+						<ArrowLeft className="h-4 w-4" />
+						Canvases
+					</Link>
+					<div className="space-y-2">
+						<h1 className="text-4xl font-semibold tracking-tight text-foreground">
+							Templates
+						</h1>
+						<p className="text-lg text-muted-foreground font-medium">
+							Start from a workflow someone already built.
+						</p>
+					</div>
+				</header>
+
+				<div className="sticky top-6 z-20 flex flex-col sm:flex-row sm:items-center gap-4 p-2 bg-white/60 dark:bg-zinc-900/60 backdrop-blur-xl border border-white/20 dark:border-zinc-800/50 rounded-2xl shadow-sm">
+					<div className="relative w-full sm:w-80 group">
+						<Search
+							className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"
+							aria-hidden="true"
+						/>
+						<Input
+							placeholder="Search templates..."
+							value={localSearchQuery}
+							onChange={(e) => setLocalSearchQuery(e.target.value)}
+							className="pl-10 bg-transparent border-none focus-visible:ring-0 text-base"
+							aria-label="Search templates"
+						/>
+					</div>
+					<div className="flex flex-wrap items-center gap-1.5">
+						{tags.map((t) => (
+							<Button
+								key={t}
+								size="sm"
+								variant={t === tag ? "default" : "ghost"}
+								className="h-7 rounded-full px-3 text-xs"
+								aria-pressed={t === tag}
+								onClick={() => setTag(t === tag ? null : t)}
+							>
+								#{t}
+							</Button>
+						))}
+					</div>
+				</div>
+
+				{isError ? (
+					<p className="py-24 text-center text-muted-foreground">
+						We couldn't load the templates, please try again later.
+					</p>
+				) : isLoading ? (
+					<output
+						className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
+						aria-label="Loading templates"
+					>
+						{[...Array(6)].map((_, i) => (
+							<Skeleton
+								key={`skeleton-${
+									// biome-ignore lint/suspicious/noArrayIndexKey: No other props
+									i
+								}`}
+								className="h-72 rounded-3xl"
+							/>
+						))}
+					</output>
+				) : templates && templates.length > 0 ? (
+					<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+						{templates.map((template) => (
+							<button
+								type="button"
+								key={template.id}
+								onClick={() => setSelected(template)}
+								className="group text-left rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900/50 overflow-hidden hover:shadow-2xl hover:-translate-y-1 transition-all duration-300 outline-none focus-visible:ring-2 focus-visible:ring-primary"
+								aria-label={`Use template ${template.title}`}
+							>
+								<TemplateCover template={template} className="aspect-video" />
+								<div className="p-5 space-y-2">
+									<h3 className="text-lg font-semibold tracking-tight truncate group-hover:text-primary transition-colors">
+										{template.title}
+									</h3>
+									{template.description && (
+										<p className="text-sm text-muted-foreground line-clamp-2">
+											{template.description}
+										</p>
+									)}
+									<div className="flex items-center justify-between gap-2 text-[11px] font-medium text-muted-foreground">
+										<span className="truncate">By {template.author.name}</span>
+										<span className="shrink-0">
+											Used {template.useCount} times
+										</span>
+									</div>
+									{template.tags.length > 0 && (
+										<div className="flex flex-wrap gap-1">
+											{template.tags.map((t) => (
+												<span
+													key={t}
+													className="px-2 py-0.5 rounded-full bg-zinc-100 dark:bg-zinc-800 text-[10px] font-medium text-muted-foreground"
+												>
+													#{t}
+												</span>
+											))}
+										</div>
+									)}
+								</div>
+							</button>
+						))}
+					</div>
+				) : (
+					<p className="py-24 text-center text-muted-foreground">
+						{searchQuery || tag
+							? "No templates match your search."
+							: "No templates have been published yet."}
+					</p>
+				)}
+			</div>
+		</div>
+	);
+}
+
+export { TemplateGallery };
@@ -30,6 +30,13 @@ export type CreateCanvasRPCParams = InferRequestType<
 	typeof rpcClient.api.v1.canvas.$post
 >;
 
+export type ImportCanvasRPC = InferResponseType<
+	typeof rpcClient.api.v1.canvas.import.$post
+>;
+export type ImportCanvasRPCParams = InferRequestType<
+	typeof rpcClient.api.v1.canvas.import.$post
+>;
+
 export type PatchCanvasRPC = InferResponseType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["$patch"]
 >;
@@ -37,6 +44,13 @@ export type PatchCanvasRPCParams = InferRequestType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["$patch"]
 >;
 
+export type SaveCanvasOpsRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["ops"]["$post"]
+>;
+export type SaveCanvasOpsRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["ops"]["$post"]
+>;
+
 export type UpdateCanvasNameRPC = InferResponseType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["update-name"]["$patch"]
 >;
@@ -44,6 +58,18 @@ export type UpdateCanvasNameRPCParams = InferRequestType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["update-name"]["$patch"]
 >;
 
+export type PublishCanvasRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["publish"]["$patch"]
+>;
+export type PublishCanvasRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["publish"]["$patch"]
+>;
+
+export type PublishedCanvasListRPC = InferResponseType<
+	typeof rpcClient.api.v1.canvas.published.$get
+>;
+export type PublishedCanvasListItemRPC = PublishedCanvasListRPC[number];
+
 export type ProcessNodesRPC = InferResponseType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["process"]["$post"]
 >;
@@ -56,6 +82,10 @@ export type NodeTemplateListRPC = InferResponseType<
 >;
 export type NodeTemplateListItemRPC = NodeTemplateListRPC[number];
 
+export type ModelProviderListRPC = InferResponseType<
+	typeof rpcClient.api.v1.models.$get
+>;
+
 export type UserAssetsListRPC = InferResponseType<
 	typeof rpcClient.api.v1.assets.$get
 >;
@@ -88,6 +118,10 @@ export type BatchDetailsRPCParams = InferRequestType<
 	(typeof rpcClient.api.v1.tasks)["filterby-batch"]["$get"]
 >;
 
+export type CancelBatchRPC = InferResponseType<
+	(typeof rpcClient.api.v1.tasks)["batches"][":batchId"]["cancel"]["$post"]
+>;
+
 export type FontListRPC = InferResponseType<typeof rpcClient.api.v1.fonts.$get>;
 
 export type FontListRPCParams = InferRequestType<
@@ -127,3 +161,87 @@ export type RejectPatchRPC = InferResponseType<
 export type RejectPatchRPCParams = InferRequestType<
 	(typeof rpcClient.api.v1.canvas)[":id"]["patches"][":patchId"]["reject"]["$post"]
 >;
+
+export type CanvasVersionListRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["versions"]["$get"]
+>;
+
+export type GetCanvasVersionRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["versions"][":versionId"]["$get"]
+>;
+export type GetCanvasVersionRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["versions"][":versionId"]["$get"]
+>;
+
+export type RestoreCanvasVersionRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["versions"][":versionId"]["restore"]["$post"]
+>;
+export type RestoreCanvasVersionRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["versions"][":versionId"]["restore"]["$post"]
+>;
+
+export type CanvasScheduleListRPC = InferResponseType<
+	typeof rpcClient.api.v1.schedules.$get
+>;
+export type CanvasScheduleListItemRPC = CanvasScheduleListRPC[number];
+export type CreateCanvasScheduleRPCParams = InferRequestType<
+	typeof rpcClient.api.v1.schedules.$post
+>;
+export type UpdateCanvasScheduleRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.schedules)[":id"]["$patch"]
+>;
+
+export type ApiKeyListRPC = InferResponseType<
+	(typeof rpcClient.api.v1)["api-keys"]["$get"]
+>;
+export type CreateApiKeyRPC = InferResponseType<
+	(typeof rpcClient.api.v1)["api-keys"]["$post"]
+>;
+
+export type UsageSummaryRPC = InferResponseType<
+	typeof rpcClient.api.v1.usage.$get
+>;
+export type UsageSummaryRPCParams = InferRequestType<
+	typeof rpcClient.api.v1.usage.$get
+>;
+
+export type SharedCanvasListRPC = InferResponseType<
+	typeof rpcClient.api.v1.canvas.shared.$get
+>;
+
+export type CanvasMembersRPC = InferResponseType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["members"]["$get"]
+>;
+export type CanvasMemberRPC = CanvasMembersRPC["members"][number];
+export type InviteCanvasMemberRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["members"]["$post"]
+>;
+export type UpdateCanvasMemberRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.canvas)[":id"]["members"][":memberId"]["$patch"]
+>;
+
+export type TemplateGalleryRPC = InferResponseType<
+	typeof rpcClient.api.v1.templates.$get
+>;
+export type TemplateGalleryRPCParams = InferRequestType<
+	typeof rpcClient.api.v1.templates.$get
+>;
+export type CanvasTemplateRPC = TemplateGalleryRPC[number];
+export type MyTemplatesRPC = InferResponseType<
+	typeof rpcClient.api.v1.templates.mine.$get
+>;
+export type CreateTemplateRPCParams = InferRequestType<
+	typeof rpcClient.api.v1.templates.$post
+>;
+export type UpdateTemplateRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.templates)[":id"]["$patch"]
+>;
+export type PublishTemplateVersionRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.templates)[":id"]["versions"]["$post"]
+>;
+export type UseTemplateRPC = InferResponseType<
+	(typeof rpcClient.api.v1.templates)[":id"]["use"]["$post"]
+>;
+export type UseTemplateRPCParams = InferRequestType<
+	(typeof rpcClient.api.v1.templates)[":id"]["use"]["$post"]
+>;
@@ -1,26 +1,16 @@
+import type { ApiKeyScope } from "@gatewai/types";
 import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
 import { rpcClient } from "@/rpc/client";
+import type { ApiKeyListRPC, CreateApiKeyRPC } from "@/rpc/types";
 
 export const apiKeysAPI = createApi({
 	reducerPath: "apiKeysAPI",
-	tagTypes: ["getApiKeys"],
+	tagTypes: ["getApiKeys", "getRetention"],
 	baseQuery: fetchBaseQuery({
 		baseUrl: `/api/v1/api-keys`,
 	}),
 	endpoints: (build) => ({
-		getApiKeys: build.query<
-			{
-				keys: {
-					id: string;
-					name: string;
-					start: string;
-					createdAt: string;
-					lastUsedAt: string | null;
-					prefix: string;
-				}[];
-			},
-			void
-		>({
+		getApiKeys: build.query<ApiKeyListRPC, void>({
 			queryFn: async () => {
 				const response = await rpcClient.api.v1["api-keys"].$get();
 				if (!response.ok) {
@@ -32,12 +22,16 @@ export const apiKeysAPI = createApi({
 			providesTags: ["getApiKeys"],
 		}),
 		createApiKey: build.mutation<
-			{ key: { id: string; name: string }; fullKey: string },
-			{ name: string }
+			CreateApiKeyRPC,
+			{
+				name: string;
+				scopes?: ApiKeyScope[] | null;
+				expiresInDays?: number | null;
+			}
 		>({
-			queryFn: async ({ name }) => {
+			queryFn: async (json) => {
 				const response = await rpcClient.api.v1["api-keys"].$post({
-					json: { name },
+					json,
 				});
 				if (!response.ok) {
 					throw new Error("Failed to create API key");
@@ -47,6 +41,69 @@ export const apiKeysAPI = createApi({
 			},
 			invalidatesTags: ["getApiKeys"],
 		}),
+		updateApiKey: build.mutation<
+			void,
+			{ id: string; name?: string; apiRunRetentionDays?: number | null }
+		>({
+			queryFn: async ({ id, ...json }) => {
+				const response = await rpcClient.api.v1["api-keys"][":id"].$patch({
+					param: { id },
+					json,
+				});
+				if (!response.ok) {
+					throw new Error("Failed to update API key");
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getApiKeys"],
+		}),
+		getRetention: build.query<
+			{ apiRunRetentionDays: number | null; defaultRetentionDays: number },
+			void
+		>({
+			queryFn: async () => {
+				const response = await rpcClient.api.v1["api-keys"].retention.$get();
+				if (!response.ok) {
+					throw new Error("Failed to fetch retention");
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getRetention"],
+		}),
+		updateRetention: build.mutation<
+			void,
+			{ apiRunRetentionDays: number | null }
+		>({
+			queryFn: async (json) => {
+				const response = await rpcClient.api.v1["api-keys"].retention.$put({
+					json,
+				});
+				if (!response.ok) {
+					throw new Error("Failed to update retention");
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getRetention"],
+		}),
+		rotateApiKey: build.mutation<
+			{ key: { id: string; name: string | null }; fullKey: string },
+			string
+		>({
+			queryFn: async (id) => {
+				const response = await rpcClient.api.v1["api-keys"][":id"].rotate.$post(
+					{
+						param: { id },
+					},
+				);
+				if (!response.ok) {
+					throw new Error("Failed to rotate API key");
+				}
+				const data = await response.json();
+				return { data };
+			},
+			invalidatesTags: ["getApiKeys"],
+		}),
 		deleteApiKey: build.mutation<void, string>({
 			queryFn: async (id) => {
 				const response = await rpcClient.api.v1["api-keys"][":id"].$delete({
@@ -67,5 +124,9 @@ export const apiKeysAPI = createApi({
 export const {
 	useGetApiKeysQuery,
 	useCreateApiKeyMutation,
+	useUpdateApiKeyMutation,
+	useRotateApiKeyMutation,
+	useGetRetentionQuery,
+	useUpdateRetentionMutation,
 	useDeleteApiKeyMutation,
 } = apiKeysAPI;
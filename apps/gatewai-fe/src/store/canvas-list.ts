@@ -7,6 +7,9 @@ import type {
 	CreateCanvasRPCParams,
 	DeleteCanvasRPC,
 	DeleteCanvasRPCParams,
+	ImportCanvasRPC,
+	ImportCanvasRPCParams,
+	SharedCanvasListRPC,
 } from "@/rpc/types";
 
 export const canvasListAPI = createApi({
@@ -29,6 +32,19 @@ export const canvasListAPI = createApi({
 				return { data };
 			},
 		}),
+		getSharedCanvases: build.query<SharedCanvasListRPC, { q?: string }>({
+			providesTags: ["canvasList"],
+			queryFn: async (query) => {
+				const response = await rpcClient.api.v1.canvas.shared.$get({ query });
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
 		createCanvas: build.mutation<CreateCanvasRPC, CreateCanvasRPCParams>({
 			invalidatesTags: ["canvasList"],
 			queryFn: async (params) => {
@@ -42,6 +58,19 @@ export const canvasListAPI = createApi({
 				return { data };
 			},
 		}),
+		importCanvas: build.mutation<ImportCanvasRPC, ImportCanvasRPCParams>({
+			invalidatesTags: ["canvasList"],
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.canvas.import.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
 		deleteCanvas: build.mutation<DeleteCanvasRPC, DeleteCanvasRPCParams>({
 			invalidatesTags: ["canvasList"],
 			queryFn: async (param) => {
@@ -60,6 +89,8 @@ export const canvasListAPI = createApi({
 
 export const {
 	useGetCanvasListQuery,
+	useGetSharedCanvasesQuery,
 	useCreateCanvasMutation,
+	useImportCanvasMutation,
 	useDeleteCanvasMutation,
 } = canvasListAPI;
@@ -0,0 +1,86 @@
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { rpcClient } from "@/rpc/client";
+import type {
+	CanvasMembersRPC,
+	InviteCanvasMemberRPCParams,
+	UpdateCanvasMemberRPCParams,
+} from "@/rpc/types";
+
+export const canvasMembersAPI = createApi({
+	reducerPath: "canvasMembersAPI",
+	tagTypes: ["getCanvasMembers"],
+	baseQuery: fetchBaseQuery({
+		baseUrl: `/api/v1/canvas`,
+	}),
+	endpoints: (build) => ({
+		getCanvasMembers: build.query<CanvasMembersRPC, { canvasId: string }>({
+			queryFn: async ({ canvasId }) => {
+				const response = await rpcClient.api.v1.canvas[":id"].members.$get({
+					param: { id: canvasId },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getCanvasMembers"],
+		}),
+		inviteCanvasMember: build.mutation<void, InviteCanvasMemberRPCParams>({
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.canvas[":id"].members.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getCanvasMembers"],
+		}),
+		updateCanvasMember: build.mutation<void, UpdateCanvasMemberRPCParams>({
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.canvas[":id"].members[":memberId"].$patch(
+						params,
+					);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getCanvasMembers"],
+		}),
+		removeCanvasMember: build.mutation<
+			void,
+			{ canvasId: string; memberId: string }
+		>({
+			queryFn: async ({ canvasId, memberId }) => {
+				const response = await rpcClient.api.v1.canvas[":id"].members[
+					":memberId"
+				].$delete({
+					param: { id: canvasId, memberId },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getCanvasMembers"],
+		}),
+	}),
+});
+
+export const {
+	useGetCanvasMembersQuery,
+	useInviteCanvasMemberMutation,
+	useUpdateCanvasMemberMutation,
+	useRemoveCanvasMemberMutation,
+} = canvasMembersAPI;
@@ -5,14 +5,24 @@ import type {
 	ApplyPatchRPCParams,
 	CanvasDetailsRPC,
 	CanvasDetailsRPCParams,
+	CanvasVersionListRPC,
+	GetCanvasVersionRPC,
+	GetCanvasVersionRPCParams,
 	GetPatchRPC,
 	GetPatchRPCParams,
 	PatchCanvasRPC,
 	PatchCanvasRPCParams,
 	ProcessNodesRPC,
 	ProcessNodesRPCParams,
+	PublishCanvasRPC,
+	PublishCanvasRPCParams,
+	PublishedCanvasListRPC,
 	RejectPatchRPC,
 	RejectPatchRPCParams,
+	RestoreCanvasVersionRPC,
+	RestoreCanvasVersionRPCParams,
+	SaveCanvasOpsRPC,
+	SaveCanvasOpsRPCParams,
 	UpdateCanvasNameRPC,
 	UpdateCanvasNameRPCParams,
 } from "@/rpc/types";
@@ -22,7 +32,7 @@ export const canvasDetailsAPI = createApi({
 	baseQuery: fetchBaseQuery({
 		baseUrl: `/api/v1/canvas`,
 	}),
-	tagTypes: ["getCanvasDetails"],
+	tagTypes: ["getCanvasDetails", "getPublishedCanvases", "getCanvasVersions"],
 	endpoints: (build) => ({
 		getCanvasDetails: build.query<CanvasDetailsRPC, CanvasDetailsRPCParams>({
 			providesTags: ["getCanvasDetails"],
@@ -49,6 +59,18 @@ export const canvasDetailsAPI = createApi({
 				return { data };
 			},
 		}),
+		saveCanvasOps: build.mutation<SaveCanvasOpsRPC, SaveCanvasOpsRPCParams>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.canvas[":id"].ops.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
 		updateName: build.mutation<UpdateCanvasNameRPC, UpdateCanvasNameRPCParams>({
 			invalidatesTags: ["getCanvasDetails"],
 			queryFn: async (params) => {
@@ -63,6 +85,33 @@ export const canvasDetailsAPI = createApi({
 				return { data };
 			},
 		}),
+		publishCanvas: build.mutation<PublishCanvasRPC, PublishCanvasRPCParams>({
+			invalidatesTags: ["getCanvasDetails", "getPublishedCanvases"],
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.canvas[":id"].publish.$patch(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
+		getPublishedCanvases: build.query<PublishedCanvasListRPC, null>({
+			providesTags: ["getPublishedCanvases"],
+			queryFn: async () => {
+				const response = await rpcClient.api.v1.canvas.published.$get();
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
 		processNodes: build.mutation<ProcessNodesRPC, ProcessNodesRPCParams>({
 			queryFn: async (params) => {
 				const response =
@@ -121,16 +170,75 @@ export const canvasDetailsAPI = createApi({
 				return { data };
 			},
 		}),
+		getCanvasVersions: build.query<CanvasVersionListRPC, { canvasId: string }>({
+			providesTags: ["getCanvasVersions"],
+			queryFn: async ({ canvasId }) => {
+				const response = await rpcClient.api.v1.canvas[":id"].versions.$get({
+					param: { id: canvasId },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
+		getCanvasVersion: build.query<
+			GetCanvasVersionRPC,
+			GetCanvasVersionRPCParams
+		>({
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.canvas[":id"].versions[":versionId"].$get(
+						params,
+					);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
+		restoreCanvasVersion: build.mutation<
+			RestoreCanvasVersionRPC,
+			RestoreCanvasVersionRPCParams
+		>({
+			invalidatesTags: ["getCanvasDetails", "getCanvasVersions"],
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.canvas[":id"].versions[
+						":versionId"
+					].restore.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
 	}),
 });
 
 export const {
 	useGetCanvasDetailsQuery,
 	usePatchCanvasMutation,
+	useSaveCanvasOpsMutation,
 	useProcessNodesMutation,
 	useUpdateNameMutation,
+	usePublishCanvasMutation,
+	useGetPublishedCanvasesQuery,
 	useGetPatchQuery,
 	useApplyPatchMutation,
 	useRejectPatchMutation,
 	useLazyGetPatchQuery,
+	useGetCanvasVersionsQuery,
+	useGetCanvasVersionQuery,
+	useLazyGetCanvasVersionQuery,
+	useRestoreCanvasVersionMutation,
 } = canvasDetailsAPI;
@@ -0,0 +1,99 @@
+import type { CanvasOp, CollabPresence, CollabUser } from "@gatewai/types";
+import {
+	createAction,
+	createSelector,
+	createSlice,
+	type PayloadAction,
+} from "@reduxjs/toolkit";
+import type { RootState } from ".";
+
+export interface CollabPeer extends CollabPresence {
+	clientId: string;
+	user: CollabUser;
+	lastSeenAt: number;
+}
+
+export interface CollabState {
+	clientId: string | null;
+	// Until the server says otherwise edits are shared
+	canEdit: boolean;
+	peers: Record<CollabPeer["clientId"], CollabPeer>;
+}
+
+const initialState: CollabState = {
+	clientId: null,
+	canEdit: true,
+	peers: {},
+};
+
+/**
+ * Edits of other collaborators, applied by the nodes, edges, handles and reactFlow slices.
+ */
+export const canvasOpsReceived = createAction<CanvasOp[]>(
+	"collab/canvasOpsReceived",
+);
+
+const collabSlice = createSlice({
+	name: "collab",
+	initialState,
+	reducers: {
+		collabConnected: (
+			state,
+			action: PayloadAction<{ clientId: string; canEdit: boolean }>,
+		) => {
+			state.clientId = action.payload.clientId;
+			state.canEdit = action.payload.canEdit;
+			state.peers = {};
+		},
+		collabDisconnected: (state) => {
+			state.clientId = null;
+			state.peers = {};
+		},
+		peerPresenceReceived: (
+			state,
+			action: PayloadAction<
+				Omit<CollabPeer, "lastSeenAt"> & { receivedAt: number }
+			>,
+		) => {
+			const { receivedAt, ...peer } = action.payload;
+			state.peers[peer.clientId] = { ...peer, lastSeenAt: receivedAt };
+		},
+		peerLeft: (state, action: PayloadAction<CollabPeer["clientId"]>) => {
+			delete state.peers[action.payload];
+		},
+		// Peers of server instances that went away never send a leave
+		stalePeersRemoved: (state, action: PayloadAction<{ before: number }>) => {
+			for (const peer of Object.values(state.peers)) {
+				if (peer.lastSeenAt < action.payload.before) {
+					delete state.peers[peer.clientId];
+				}
+			}
+		},
+	},
+});
+
+export const selectCollabState = (state: RootState) => state.collab;
+
+export const selectCanEdit = createSelector(
+	selectCollabState,
+	(collab) => collab.canEdit,
+);
+
+export const selectIsCollabConnected = createSelector(
+	selectCollabState,
+	(collab) => collab.clientId !== null,
+);
+
+export const selectCollabPeers = createSelector(selectCollabState, (collab) =>
+	Object.values(collab.peers),
+);
+
+const { actions, reducer: collabReducer } = collabSlice;
+export const {
+	collabConnected,
+	collabDisconnected,
+	peerPresenceReceived,
+	peerLeft,
+	stalePeersRemoved,
+} = actions;
+export { collabReducer };
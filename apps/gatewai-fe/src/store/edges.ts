@@ -5,6 +5,7 @@ import {
 } from "@reduxjs/toolkit";
 import type { CanvasDetailsRPC } from "@/rpc/types";
 import type { RootState } from ".";
+import { canvasOpsReceived } from "./collab";
 import type { NodeEntityType } from "./nodes";
 
 export type EdgeEntityType = CanvasDetailsRPC["edges"][number];
@@ -20,6 +21,27 @@ const edgesSlice = createSlice({
 		deleteManyEdgeEntity: edgeAdapter.removeMany,
 		setAllEdgeEntities: edgeAdapter.setAll,
 	},
+	extraReducers(builder) {
+		builder.addCase(canvasOpsReceived, (state, action) => {
+			for (const op of action.payload) {
+				if (op.entity !== "edge") continue;
+				if (op.op === "delete") {
+					edgeAdapter.removeOne(state, op.id);
+				} else if (state.entities[op.id]) {
+					edgeAdapter.updateOne(state, {
+						id: op.id,
+						changes: op.fields as Partial<EdgeEntityType>,
+					});
+				} else if (op.fields.source) {
+					// Only creates carry every field
+					edgeAdapter.addOne(state, {
+						...op.fields,
+						id: op.id,
+					} as unknown as EdgeEntityType);
+				}
+			}
+		});
+	},
 });
 
 export type EdgesState = ReturnType<typeof edgesSlice.reducer>;
@@ -5,6 +5,7 @@ import {
 } from "@reduxjs/toolkit";
 import type { CanvasDetailsRPC } from "@/rpc/types";
 import type { RootState } from "./";
+import { canvasOpsReceived } from "./collab";
 
 export type HandleEntityType = CanvasDetailsRPC["handles"][number];
 
@@ -20,6 +21,27 @@ const handlesSlice = createSlice({
 		addManyHandleEntities: handleAdapter.addMany,
 		setAllHandleEntities: handleAdapter.setAll,
 	},
+	extraReducers(builder) {
+		builder.addCase(canvasOpsReceived, (state, action) => {
+			for (const op of action.payload) {
+				if (op.entity !== "handle") continue;
+				if (op.op === "delete") {
+					handleAdapter.removeOne(state, op.id);
+				} else if (state.entities[op.id]) {
+					handleAdapter.updateOne(state, {
+						id: op.id,
+						changes: op.fields as Partial<HandleEntityType>,
+					});
+				} else if (op.fields.nodeId) {
+					// Only creates carry every field
+					handleAdapter.addOne(state, {
+						...op.fields,
+						id: op.id,
+					} as unknown as HandleEntityType);
+				}
+			}
+		});
+	},
 });
 
 export type HandlesState = ReturnType<typeof handlesSlice.reducer>;
@@ -8,15 +8,21 @@ import { apiKeysAPI } from "./api-keys";
 import { assetsAPI } from "./assets";
 import { canvasDetailsAPI } from "./canvas";
 import { canvasListAPI } from "./canvas-list";
+import { canvasMembersAPI } from "./canvas-members";
 import { canvasPatchesReducer } from "./canvas-patches";
+import { collabReducer } from "./collab";
 import { edgesReducer } from "./edges";
 import { fontListAPI } from "./fonts";
 import { handlesReducer } from "./handles";
+import { modelsAPI } from "./models";
 import { nodeMetaReducer } from "./node-meta";
 import { nodeTemplatesAPI } from "./node-templates";
 import { nodesReducer } from "./nodes";
 import { reactFlowReducer } from "./rfstate";
+import { schedulesAPI } from "./schedules";
 import { tasksReducer } from "./tasks";
+import { templatesAPI } from "./templates";
+import { usageAPI } from "./usage";
 /**
  * Log a warning and show a toast!
  */
@@ -42,6 +48,7 @@ export const store = configureStore({
 		canvasPatches: canvasPatchesReducer,
 		tasks: tasksReducer,
 		nodeMeta: nodeMetaReducer,
+		collab: collabReducer,
 		[nodeTemplatesAPI.reducerPath]: nodeTemplatesAPI.reducer,
 		[assetsAPI.reducerPath]: assetsAPI.reducer,
 		[canvasListAPI.reducerPath]: canvasListAPI.reducer,
@@ -49,6 +56,11 @@ export const store = configureStore({
 		[fontListAPI.reducerPath]: fontListAPI.reducer,
 		[agentSessionsAPI.reducerPath]: agentSessionsAPI.reducer,
 		[apiKeysAPI.reducerPath]: apiKeysAPI.reducer,
+		[schedulesAPI.reducerPath]: schedulesAPI.reducer,
+		[modelsAPI.reducerPath]: modelsAPI.reducer,
+		[usageAPI.reducerPath]: usageAPI.reducer,
+		[canvasMembersAPI.reducerPath]: canvasMembersAPI.reducer,
+		[templatesAPI.reducerPath]: templatesAPI.reducer,
 	},
 	middleware: (getDefaultMiddleware) =>
 		getDefaultMiddleware()
@@ -59,7 +71,12 @@ export const store = configureStore({
 			.concat(canvasDetailsAPI.middleware)
 			.concat(rtkQueryErrorLogger)
 			.concat(agentSessionsAPI.middleware)
-			.concat(apiKeysAPI.middleware),
+			.concat(apiKeysAPI.middleware)
+			.concat(schedulesAPI.middleware)
+			.concat(modelsAPI.middleware)
+			.concat(usageAPI.middleware)
+			.concat(canvasMembersAPI.middleware)
+			.concat(templatesAPI.middleware),
 });
 
 setupListeners(store.dispatch);
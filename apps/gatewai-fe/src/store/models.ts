@@ -0,0 +1,26 @@
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { rpcClient } from "@/rpc/client";
+import type { ModelProviderListRPC } from "@/rpc/types";
+
+export const modelsAPI = createApi({
+	reducerPath: "modelsAPI",
+	baseQuery: fetchBaseQuery({
+		baseUrl: `/api/v1/models`,
+	}),
+	endpoints: (build) => ({
+		getModelProviders: build.query<ModelProviderListRPC, void>({
+			queryFn: async () => {
+				const response = await rpcClient.api.v1.models.$get();
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+		}),
+	}),
+});
+
+export const { useGetModelProvidersQuery } = modelsAPI;
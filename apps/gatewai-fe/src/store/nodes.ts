@@ -1,4 +1,8 @@
-import type { AllNodeConfig, NodeResult } from "@gatewai/types";
+import {
+	type AllNodeConfig,
+	mergeCanvasOpFields,
+	type NodeResult,
+} from "@gatewai/types";
 import {
 	createDraftSafeSelector,
 	createEntityAdapter,
@@ -7,8 +11,9 @@ import {
 import { isEqual } from "lodash";
 import type { CanvasDetailsRPC } from "@/rpc/types";
 import type { RootState } from "./";
+import { canvasOpsReceived } from "./collab";
 import { selectSelectedNodeIds } from "./node-meta";
-import { getBatchDetails } from "./tasks";
+import { getBatchDetails, taskEventReceived } from "./tasks";
 
 export type NodeEntityType = CanvasDetailsRPC["nodes"][number];
 
@@ -78,14 +83,17 @@ export const nodesSlice = createSlice({
 						// This prevents overwriting user's local selection when polling returns the same generation result
 						if (existing && existing.result && task.node.result) {
 							const { selectedOutputIndex: _e, ...existingRest } =
-								(existing.result as unknown) as NodeResult;
-							const { selectedOutputIndex: _n, ...newRest } =
-								(task.node.result as unknown) as NodeResult;
+								existing.result as unknown as NodeResult;
+							const { selectedOutputIndex: _n, ...newRest } = task.node
+								.result as unknown as NodeResult;
 
 							if (!isEqual(existingRest, newRest)) {
 								completedNodes.push(task.node);
 							}
-						} else if (!existing || !isEqual(existing.result, task.node.result)) {
+						} else if (
+							!existing ||
+							!isEqual(existing.result, task.node.result)
+						) {
 							// Fallback for when node doesn't exist or result is null/undefined
 							completedNodes.push(task.node);
 						}
@@ -94,6 +102,42 @@ export const nodesSlice = createSlice({
 			});
 			nodeAdapter.upsertMany(state, completedNodes);
 		});
+		builder.addCase(taskEventReceived, (state, action) => {
+			const event = action.payload;
+			if (event.type !== "task_updated" || !event.nodeResult) return;
+			if (!event.task.nodeId) return;
+
+			const existing = state.entities[event.task.nodeId];
+			if (!existing) return;
+
+			// Same as above, keep user's local selection if the generations didn't change
+			if (existing.result) {
+				const { selectedOutputIndex: _e, ...existingRest } =
+					existing.result as unknown as NodeResult;
+				const { selectedOutputIndex: _n, ...newRest } = event.nodeResult;
+				if (isEqual(existingRest, newRest)) return;
+			}
+			existing.result = event.nodeResult as unknown as typeof existing.result;
+		});
+		builder.addCase(canvasOpsReceived, (state, action) => {
+			for (const op of action.payload) {
+				if (op.entity !== "node") continue;
+				if (op.op === "delete") {
+					nodeAdapter.removeOne(state, op.id);
+					continue;
+				}
+				const existing = state.entities[op.id];
+				if (existing) {
+					Object.assign(existing, mergeCanvasOpFields(existing, op.fields));
+				} else if (op.fields.type) {
+					// Only creates carry every field
+					nodeAdapter.addOne(state, {
+						...op.fields,
+						id: op.id,
+					} as unknown as NodeEntityType);
+				}
+			}
+		});
 	},
 });
 
@@ -11,8 +11,10 @@ import {
 	type EdgeChange,
 	type Node,
 	type NodeChange,
+	type XYPosition,
 } from "@xyflow/react";
 import type { RootState } from ".";
+import { canvasOpsReceived } from "./collab";
 
 export interface RFState {
 	nodes: Node[];
@@ -53,6 +55,61 @@ const reactFlowSlice = createSlice({
 			state.edges = addEdge(action.payload, state.edges);
 		},
 	},
+	extraReducers(builder) {
+		builder.addCase(canvasOpsReceived, (state, action) => {
+			for (const op of action.payload) {
+				if (op.entity === "handle") continue;
+				const items: (Node | Edge)[] =
+					op.entity === "node" ? state.nodes : state.edges;
+				const index = items.findIndex((item) => item.id === op.id);
+
+				if (op.op === "delete") {
+					if (index !== -1) items.splice(index, 1);
+					continue;
+				}
+
+				const f = op.fields;
+				if (op.entity === "node") {
+					const node = state.nodes[index];
+					if (node) {
+						if (f.position) node.position = f.position as XYPosition;
+						if ("width" in f) node.width = (f.width as number) ?? undefined;
+						if ("height" in f) node.height = (f.height as number) ?? undefined;
+					} else if (f.type) {
+						state.nodes.push({
+							id: op.id,
+							position: f.position as XYPosition,
+							data: { ...f, id: op.id },
+							type: f.type as string,
+							width: (f.width as number) ?? undefined,
+							height: (f.height as number) ?? undefined,
+							draggable: true,
+							selectable: true,
+							deletable: true,
+						});
+					}
+				} else {
+					const edge = state.edges[index];
+					if (edge) {
+						if (f.source) edge.source = f.source as string;
+						if (f.target) edge.target = f.target as string;
+						if (f.sourceHandleId)
+							edge.sourceHandle = f.sourceHandleId as string;
+						if (f.targetHandleId)
+							edge.targetHandle = f.targetHandleId as string;
+					} else if (f.source) {
+						state.edges.push({
+							id: op.id,
+							source: f.source as string,
+							target: f.target as string,
+							sourceHandle: (f.sourceHandleId as string) || undefined,
+							targetHandle: (f.targetHandleId as string) || undefined,
+						});
+					}
+				}
+			}
+		});
+	},
 });
 
 export const {
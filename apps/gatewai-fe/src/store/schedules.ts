@@ -0,0 +1,86 @@
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { rpcClient } from "@/rpc/client";
+import type {
+	CanvasScheduleListItemRPC,
+	CanvasScheduleListRPC,
+	CreateCanvasScheduleRPCParams,
+	UpdateCanvasScheduleRPCParams,
+} from "@/rpc/types";
+
+export const schedulesAPI = createApi({
+	reducerPath: "schedulesAPI",
+	tagTypes: ["getSchedules"],
+	baseQuery: fetchBaseQuery({
+		baseUrl: `/api/v1/schedules`,
+	}),
+	endpoints: (build) => ({
+		getSchedules: build.query<CanvasScheduleListRPC, { canvasId: string }>({
+			queryFn: async ({ canvasId }) => {
+				const response = await rpcClient.api.v1.schedules.$get({
+					query: { canvasId },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getSchedules"],
+		}),
+		createSchedule: build.mutation<
+			CanvasScheduleListItemRPC,
+			CreateCanvasScheduleRPCParams
+		>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.schedules.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			invalidatesTags: ["getSchedules"],
+		}),
+		updateSchedule: build.mutation<
+			CanvasScheduleListItemRPC,
+			UpdateCanvasScheduleRPCParams
+		>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.schedules[":id"].$patch(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			invalidatesTags: ["getSchedules"],
+		}),
+		deleteSchedule: build.mutation<void, string>({
+			queryFn: async (id) => {
+				const response = await rpcClient.api.v1.schedules[":id"].$delete({
+					param: { id },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getSchedules"],
+		}),
+	}),
+});
+
+export const {
+	useGetSchedulesQuery,
+	useCreateScheduleMutation,
+	useUpdateScheduleMutation,
+	useDeleteScheduleMutation,
+} = schedulesAPI;
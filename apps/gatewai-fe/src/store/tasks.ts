@@ -1,3 +1,4 @@
+import type { GatewaiTaskEvent } from "@gatewai/types";
 import {
 	createAsyncThunk,
 	createEntityAdapter,
@@ -10,6 +11,7 @@ import type {
 	ActiveCanvasBatchListRPC,
 	BatchDetailsRPC,
 	BatchDetailsRPCParams,
+	CancelBatchRPC,
 } from "@/rpc/types";
 import type { RootState } from "@/store";
 
@@ -47,16 +49,27 @@ export const getInitialBatches = createAsyncThunk<
 	return await response.json();
 });
 
+export const cancelBatch = createAsyncThunk<
+	CancelBatchRPC,
+	{ batchId: string }
+>("tasks/cancelBatch", async ({ batchId }) => {
+	const response = await rpcClient.api.v1.tasks.batches[
+		":batchId"
+	].cancel.$post({
+		param: { batchId },
+	});
+	if (!response.ok) {
+		throw new Error(await response.text());
+	}
+	return await response.json();
+});
+
 type TasksState = ReturnType<typeof batchAdapter.getInitialState> & {
-	pollingInterval: number;
-	batchIdsToPoll: string[];
 	initialLoading: boolean;
 	latestTasksFetchTime: number | null;
 };
 
 const initialState: TasksState = batchAdapter.getInitialState<TasksState>({
-	pollingInterval: 0,
-	batchIdsToPoll: [],
 	ids: [],
 	entities: {},
 	initialLoading: false,
@@ -67,16 +80,29 @@ const tasksSlice = createSlice({
 	name: "tasks",
 	initialState,
 	reducers: {
-		setPollingInterval: (state, action: PayloadAction<number>) => {
-			state.pollingInterval = action.payload;
+		addBatch: (state, action: PayloadAction<BatchEntity>) => {
+			batchAdapter.upsertOne(state, action.payload);
 		},
-		addBatchToPoll: (state, action: PayloadAction<BatchEntity>) => {
-			const batch = action.payload;
-			batchAdapter.upsertOne(state, batch);
-			if (!state.batchIdsToPoll.includes(batch.id)) {
-				state.batchIdsToPoll.push(batch.id);
+		taskEventReceived: (state, action: PayloadAction<GatewaiTaskEvent>) => {
+			const event = action.payload;
+			const batch = state.entities[event.batchId];
+			if (!batch) return;
+
+			if (event.type === "batch_updated") {
+				batch.startedAt = event.startedAt;
+				batch.finishedAt = event.finishedAt;
+			} else {
+				const task = batch.tasks.find((t) => t.id === event.task.id);
+				if (task) {
+					task.status = event.task.status;
+					task.startedAt = event.task.startedAt;
+					task.finishedAt = event.task.finishedAt;
+					task.durationMs = event.task.durationMs;
+					task.progress = event.task.progress;
+					task.error = event.task.error;
+				}
 			}
-			state.pollingInterval = 3000;
+			state.latestTasksFetchTime = Date.now();
 		},
 	},
 	extraReducers: (builder) => {
@@ -91,19 +117,8 @@ const tasksSlice = createSlice({
 				const batches = action.payload;
 				batchAdapter.upsertMany(
 					state,
-					action.payload.filter((b): b is BatchEntity => b !== null),
+					batches.filter((b): b is BatchEntity => b !== null),
 				);
-				const runningBatchIds = batches
-					.filter((f) => f.finishedAt == null)
-					.map((b) => b.id);
-				state.batchIdsToPoll = [
-					...new Set([...state.batchIdsToPoll, ...runningBatchIds]),
-				];
-				if (runningBatchIds.length > 0) {
-					state.pollingInterval = 3000;
-				} else {
-					state.pollingInterval = 0;
-				}
 				state.initialLoading = false;
 				state.latestTasksFetchTime = Date.now();
 			})
@@ -113,37 +128,55 @@ const tasksSlice = createSlice({
 					state,
 					batches.filter((b): b is BatchEntity => b !== null),
 				);
-				const runningBatchIds = batches
-					.filter((f) => f.finishedAt == null)
-					.map((b) => b.id);
-				state.batchIdsToPoll = [
-					...new Set([...state.batchIdsToPoll, ...runningBatchIds]),
-				];
-				if (runningBatchIds.length > 0) {
-					state.pollingInterval = 3000;
-				} else {
-					state.pollingInterval = 0;
-				}
 				state.initialLoading = false;
 				state.latestTasksFetchTime = Date.now();
 			});
 	},
 });
 
-export const { setPollingInterval, addBatchToPoll } = tasksSlice.actions;
+export const { addBatch, taskEventReceived } = tasksSlice.actions;
+
+/**
+ * Applies a streamed task event.
+ * Batches that weren't started from this client (e.g. API runs) are fetched on their first event.
+ */
+export const receiveTaskEvent = createAsyncThunk<
+	void,
+	GatewaiTaskEvent,
+	{ state: RootState }
+>("tasks/receiveTaskEvent", async (event, { dispatch, getState }) => {
+	const isKnownBatch = event.batchId in getState().tasks.entities;
+	dispatch(taskEventReceived(event));
+	if (!isKnownBatch) {
+		await dispatch(getBatchDetails({ query: { batchId: event.batchId } }));
+	}
+});
 
 export const tasksReducer = tasksSlice.reducer;
 
+/**
+ * Refetches running batches of the canvas, and the ones this client still sees as unfinished.
+ * Catches up on events missed while the task stream was disconnected.
+ */
+export const syncBatches = createAsyncThunk<
+	void,
+	{ canvasId: string },
+	{ state: RootState }
+>("tasks/syncBatches", async ({ canvasId }, { dispatch, getState }) => {
+	const unfinishedBatchIds = Object.values(getState().tasks.entities)
+		.filter((b) => b.finishedAt == null)
+		.map((b) => b.id);
+
+	await dispatch(getInitialBatches({ canvasId }));
+	if (unfinishedBatchIds.length > 0) {
+		await dispatch(getBatchDetails({ query: { batchId: unfinishedBatchIds } }));
+	}
+});
+
 export const selectTasksState = (state: RootState) => state.tasks;
 
 const batchSelectors = batchAdapter.getSelectors<RootState>(selectTasksState);
 
-export const selectPollingInterval: (state: RootState) => number =
-	createSelector(selectTasksState, (tasks) => tasks.pollingInterval);
-
-export const selectBatchIdsToPoll: (state: RootState) => string[] =
-	createSelector(selectTasksState, (t) => t.batchIdsToPoll);
-
 export const selectLatestTasksFetchTime: (state: RootState) => number | null =
 	createSelector(selectTasksState, (tasks) => tasks.latestTasksFetchTime);
 
@@ -0,0 +1,139 @@
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { rpcClient } from "@/rpc/client";
+import type {
+	CreateTemplateRPCParams,
+	MyTemplatesRPC,
+	PublishTemplateVersionRPCParams,
+	TemplateGalleryRPC,
+	TemplateGalleryRPCParams,
+	UpdateTemplateRPCParams,
+	UseTemplateRPC,
+	UseTemplateRPCParams,
+} from "@/rpc/types";
+import { canvasListAPI } from "./canvas-list";
+
+export const templatesAPI = createApi({
+	reducerPath: "templatesAPI",
+	tagTypes: ["getTemplates"],
+	baseQuery: fetchBaseQuery({
+		baseUrl: `/api/v1/templates`,
+	}),
+	endpoints: (build) => ({
+		getTemplateGallery: build.query<
+			TemplateGalleryRPC,
+			TemplateGalleryRPCParams
+		>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.templates.$get(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getTemplates"],
+		}),
+		getMyTemplates: build.query<MyTemplatesRPC, null>({
+			queryFn: async () => {
+				const response = await rpcClient.api.v1.templates.mine.$get();
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getTemplates"],
+		}),
+		createTemplate: build.mutation<void, CreateTemplateRPCParams>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.templates.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getTemplates"],
+		}),
+		updateTemplate: build.mutation<void, UpdateTemplateRPCParams>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.templates[":id"].$patch(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getTemplates"],
+		}),
+		publishTemplateVersion: build.mutation<
+			void,
+			PublishTemplateVersionRPCParams
+		>({
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.templates[":id"].versions.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getTemplates"],
+		}),
+		deleteTemplate: build.mutation<void, string>({
+			queryFn: async (id) => {
+				const response = await rpcClient.api.v1.templates[":id"].$delete({
+					param: { id },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getTemplates"],
+		}),
+		useTemplate: build.mutation<UseTemplateRPC, UseTemplateRPCParams>({
+			queryFn: async (params) => {
+				const response =
+					await rpcClient.api.v1.templates[":id"].use.$post(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			invalidatesTags: ["getTemplates"],
+			// The new canvas shows up in the canvas list
+			onQueryStarted: async (_arg, { dispatch, queryFulfilled }) => {
+				try {
+					await queryFulfilled;
+					dispatch(canvasListAPI.util.invalidateTags(["canvasList"]));
+				} catch {
+					// Ignore errors
+				}
+			},
+		}),
+	}),
+});
+
+export const {
+	useGetTemplateGalleryQuery,
+	useGetMyTemplatesQuery,
+	useCreateTemplateMutation,
+	useUpdateTemplateMutation,
+	usePublishTemplateVersionMutation,
+	useDeleteTemplateMutation,
+	useUseTemplateMutation,
+} = templatesAPI;
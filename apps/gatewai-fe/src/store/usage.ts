@@ -0,0 +1,46 @@
+import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import { rpcClient } from "@/rpc/client";
+import type { UsageSummaryRPC, UsageSummaryRPCParams } from "@/rpc/types";
+
+export const usageAPI = createApi({
+	reducerPath: "usageAPI",
+	tagTypes: ["getUsage"],
+	baseQuery: fetchBaseQuery({
+		baseUrl: `/api/v1/usage`,
+	}),
+	endpoints: (build) => ({
+		getUsage: build.query<UsageSummaryRPC, UsageSummaryRPCParams>({
+			queryFn: async (params) => {
+				const response = await rpcClient.api.v1.usage.$get(params);
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				const data = await response.json();
+				return { data };
+			},
+			providesTags: ["getUsage"],
+		}),
+		updateApiKeyQuota: build.mutation<
+			void,
+			{ id: string; usageQuota: number | null }
+		>({
+			queryFn: async ({ id, usageQuota }) => {
+				const response = await rpcClient.api.v1["api-keys"][":id"].$patch({
+					param: { id },
+					json: { usageQuota },
+				});
+				if (!response.ok) {
+					return {
+						error: { status: response.status, data: await response.text() },
+					};
+				}
+				return { data: undefined };
+			},
+			invalidatesTags: ["getUsage"],
+		}),
+	}),
+});
+
+export const { useGetUsageQuery, useUpdateApiKeyQuotaMutation } = usageAPI;
@@ -27,6 +27,8 @@ export default defineConfig({
 			"/api": {
 				target: "http://localhost:8081",
 				changeOrigin: true,
+				// Canvas collaboration WebSocket
+				ws: true,
 			},
 			"/env.js": {
 				target: "http://localhost:8081",
@@ -1,4 +1,4 @@
-import type { BulkUpdatePayload } from "@gatewai/types";
+import type { BulkUpdatePayload, GatewaiTaskEvent } from "@gatewai/types";
 import type { InferRequestType, InferResponseType } from "hono/client";
 import { hc } from "hono/client";
 import type { AppType } from "../../../apps/gatewai-fe/backend/src/index";
@@ -15,6 +15,11 @@ export type RunStatusResponse = InferResponseType<
 	ApiRunRoute[":batchId"]["status"]["$get"]
 >;
 
+type TasksRoute = typeof client.api.v1.tasks;
+export type CancelRunResponse = InferResponseType<
+	TasksRoute["batches"][":batchId"]["cancel"]["$post"]
+>;
+
 // File input types for better DX
 export type FileInputBase64 = {
 	type: "base64";
@@ -82,6 +87,9 @@ export type DeleteAssetResponse = InferResponseType<
 	AssetsRoute[":id"]["$delete"]
 >;
 
+// Delay before re-subscribing when a run event stream drops before the run finished
+const STREAM_RECONNECT_DELAY_MS = 1000;
+
 export interface APIClientConfig {
 	baseUrl: string;
 	/**
@@ -288,14 +296,64 @@ export class GatewaiApiClient {
 	}
 
 	/**
-	 * Convenience method: Triggers a run and polls until completion.
+	 * Cancels a running or queued execution batch.
+	 * Unfinished tasks are marked as CANCELLED.
+	 */
+	async cancelRun(batchHandleId: string): Promise<CancelRunResponse> {
+		const res = await this.rpc.api.v1.tasks.batches[":batchId"].cancel.$post({
+			param: { batchId: batchHandleId },
+		});
+		return this.handleResponse(res);
+	}
+
+	/**
+	 * Streams task and batch events of an execution batch.
+	 * Ends once the batch is finished.
+	 */
+	async *streamRunEvents(
+		batchHandleId: string,
+		signal?: AbortSignal,
+	): AsyncGenerator<GatewaiTaskEvent, void, unknown> {
+		const res = await this.rpc.api.v1["api-run"][":batchId"].events.$get(
+			{ param: { batchId: batchHandleId } },
+			{ init: { signal } },
+		);
+		if (!res.ok || !res.body) {
+			throw new Error(`Could not subscribe to run events: ${res.status}`);
+		}
+
+		const reader = res.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+
+				for (const line of lines) {
+					if (line.startsWith("data: ")) {
+						yield JSON.parse(line.slice(6)) as GatewaiTaskEvent;
+					}
+				}
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	}
+
+	/**
+	 * Convenience method: Triggers a run and waits until completion.
+	 * Progress is received through the run's event stream, `onEvent` is called for every task/batch update.
 	 */
 	async run(
 		request: StartRunRequest,
-		pollingIntervalMs = 1000,
+		onEvent?: (event: GatewaiTaskEvent) => void,
 	): Promise<StartRunResponse | RunStatusResponse> {
-		let status: StartRunResponse | RunStatusResponse =
-			await this.startRun(request);
+		const status = await this.startRun(request);
 
 		// If immediate failure or immediate success (though startRun usually returns pending)
 		if (!status.success && "error" in status && status.error) {
@@ -303,10 +361,14 @@ export class GatewaiApiClient {
 		}
 
 		while (true) {
-			await new Promise((resolve) => setTimeout(resolve, pollingIntervalMs));
+			try {
+				for await (const event of this.streamRunEvents(status.batchHandleId)) {
+					onEvent?.(event);
+				}
+			} catch {
+				// Connection dropped, the status check below decides whether to re-subscribe
+			}
 
-			// We cast here because checkStatus returns a slightly different shape
-			// (includes 'result') but shares the base success/error structure.
 			const nextStatus = await this.checkStatus(status.batchHandleId);
 
 			// If we have a result (finished) or explicit failure
@@ -317,8 +379,9 @@ export class GatewaiApiClient {
 				return nextStatus;
 			}
 
-			// Update status for the next loop (mainly for the handle ID)
-			status = nextStatus;
+			await new Promise((resolve) =>
+				setTimeout(resolve, STREAM_RECONNECT_DELAY_MS),
+			);
 		}
 	}
 
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "task" ADD COLUMN     "signature" TEXT;
+
+-- CreateIndex
+CREATE INDEX "task_nodeId_signature_idx" ON "task"("nodeId", "signature");
@@ -0,0 +1,9 @@
+-- VideoCompositor renders on the backend, so its video can be connected to other nodes
+INSERT INTO "nodeTemplateHandle" ("id", "templateId", "type", "dataTypes", "label", "required", "order", "updatedAt")
+SELECT md5(random()::text || clock_timestamp()::text), t."id", 'Output', ARRAY['Video']::"DataType"[], 'Result', false, 0, CURRENT_TIMESTAMP
+FROM "nodeTemplate" t
+WHERE t."type" = 'VideoCompositor'
+  AND NOT EXISTS (
+    SELECT 1 FROM "nodeTemplateHandle" h
+    WHERE h."templateId" = t."id" AND h."type" = 'Output'
+  );
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'Number';
+ALTER TYPE "NodeType" ADD VALUE 'Toggle';
+ALTER TYPE "NodeType" ADD VALUE 'Compare';
+ALTER TYPE "NodeType" ADD VALUE 'Router';
+
+-- AlterEnum
+ALTER TYPE "TaskStatus" ADD VALUE 'SKIPPED';
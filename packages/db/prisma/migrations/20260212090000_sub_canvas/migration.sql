@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'SubCanvas';
+
+-- AlterTable
+ALTER TABLE "canvas" ADD COLUMN     "isPublished" BOOLEAN NOT NULL DEFAULT false;
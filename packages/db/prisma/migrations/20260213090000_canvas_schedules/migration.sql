@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "taskBatch" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "canvasSchedule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "cron" TEXT NOT NULL,
+    "payload" JSONB,
+    "duplicate" BOOLEAN NOT NULL DEFAULT true,
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "canvasId" TEXT NOT NULL,
+
+    CONSTRAINT "canvasSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "canvasSchedule_canvasId_idx" ON "canvasSchedule"("canvasId");
+
+-- AddForeignKey
+ALTER TABLE "canvasSchedule" ADD CONSTRAINT "canvasSchedule_canvasId_fkey" FOREIGN KEY ("canvasId") REFERENCES "canvas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "taskBatch" ADD CONSTRAINT "taskBatch_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "canvasSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
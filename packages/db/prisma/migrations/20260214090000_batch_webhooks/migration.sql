@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "canvas" ADD COLUMN     "webhookSecret" TEXT,
+ADD COLUMN     "webhookUrl" TEXT;
+
+-- AlterTable
+ALTER TABLE "taskBatch" ADD COLUMN     "webhookSecret" TEXT,
+ADD COLUMN     "webhookUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "webhookDelivery" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "url" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "durationMs" INTEGER,
+    "batchId" TEXT NOT NULL,
+
+    CONSTRAINT "webhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhookDelivery_batchId_idx" ON "webhookDelivery"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "webhookDelivery" ADD CONSTRAINT "webhookDelivery_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "taskBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "apiRunRetentionDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "apikey" ADD COLUMN     "apiRunRetentionDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "canvas" ADD COLUMN     "apiKeyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "garbageCollectionRun" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "canvasesDeleted" INTEGER NOT NULL DEFAULT 0,
+    "assetsDeleted" INTEGER NOT NULL DEFAULT 0,
+    "tempObjectsDeleted" INTEGER NOT NULL DEFAULT 0,
+    "bytesReclaimed" BIGINT NOT NULL DEFAULT 0,
+    "error" TEXT,
+
+    CONSTRAINT "garbageCollectionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "canvas_isAPICanvas_createdAt_idx" ON "canvas"("isAPICanvas", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "canvas" ADD CONSTRAINT "canvas_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "apikey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
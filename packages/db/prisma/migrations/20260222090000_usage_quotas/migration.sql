@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "UsageUnit" AS ENUM ('TOKENS', 'IMAGES', 'VIDEO_SECONDS', 'CHARACTERS');
+
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "usageQuota" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "apikey" ADD COLUMN     "usageQuota" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "taskBatch" ADD COLUMN     "apiKeyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "usageRecord" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT,
+    "apiKeyId" TEXT,
+    "canvasId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "nodeType" "NodeType" NOT NULL,
+    "unit" "UsageUnit" NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "usageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "usageRecord_userId_createdAt_idx" ON "usageRecord"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "usageRecord_apiKeyId_createdAt_idx" ON "usageRecord"("apiKeyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "taskBatch" ADD CONSTRAINT "taskBatch_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "apikey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usageRecord" ADD CONSTRAINT "usageRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usageRecord" ADD CONSTRAINT "usageRecord_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "apikey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "CanvasRole" AS ENUM ('VIEWER', 'RUNNER', 'EDITOR');
+
+-- CreateTable
+CREATE TABLE "canvasMember" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "canvasId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" "CanvasRole" NOT NULL DEFAULT 'VIEWER',
+
+    CONSTRAINT "canvasMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "canvasMember_userId_idx" ON "canvasMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "canvasMember_email_idx" ON "canvasMember"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "canvasMember_canvasId_email_key" ON "canvasMember"("canvasId", "email");
+
+-- AddForeignKey
+ALTER TABLE "canvasMember" ADD CONSTRAINT "canvasMember_canvasId_fkey" FOREIGN KEY ("canvasId") REFERENCES "canvas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasMember" ADD CONSTRAINT "canvasMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
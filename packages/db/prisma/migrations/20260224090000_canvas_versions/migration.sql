@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "CanvasVersionReason" AS ENUM ('SAVE', 'PATCH', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "canvasVersion" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "canvasId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "reason" "CanvasVersionReason" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "nodeCount" INTEGER NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "canvasVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "canvasVersion_canvasId_createdAt_idx" ON "canvasVersion"("canvasId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "canvasVersion" ADD CONSTRAINT "canvasVersion_canvasId_fkey" FOREIGN KEY ("canvasId") REFERENCES "canvas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasVersion" ADD CONSTRAINT "canvasVersion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "canvasTemplate" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "tags" TEXT[],
+    "coverAssetId" TEXT,
+    "isPublished" BOOLEAN NOT NULL DEFAULT true,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "authorId" TEXT NOT NULL,
+    "sourceCanvasId" TEXT,
+
+    CONSTRAINT "canvasTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "canvasTemplateVersion" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "version" INTEGER NOT NULL,
+    "notes" TEXT,
+    "templateId" TEXT NOT NULL,
+    "canvasId" TEXT NOT NULL,
+
+    CONSTRAINT "canvasTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "canvasTemplate_sourceCanvasId_key" ON "canvasTemplate"("sourceCanvasId");
+
+-- CreateIndex
+CREATE INDEX "canvasTemplate_isPublished_updatedAt_idx" ON "canvasTemplate"("isPublished", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "canvasTemplate_authorId_idx" ON "canvasTemplate"("authorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "canvasTemplateVersion_canvasId_key" ON "canvasTemplateVersion"("canvasId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "canvasTemplateVersion_templateId_version_key" ON "canvasTemplateVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "canvasTemplate" ADD CONSTRAINT "canvasTemplate_coverAssetId_fkey" FOREIGN KEY ("coverAssetId") REFERENCES "fileAsset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasTemplate" ADD CONSTRAINT "canvasTemplate_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasTemplate" ADD CONSTRAINT "canvasTemplate_sourceCanvasId_fkey" FOREIGN KEY ("sourceCanvasId") REFERENCES "canvas"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasTemplateVersion" ADD CONSTRAINT "canvasTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "canvasTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "canvasTemplateVersion" ADD CONSTRAINT "canvasTemplateVersion_canvasId_fkey" FOREIGN KEY ("canvasId") REFERENCES "canvas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
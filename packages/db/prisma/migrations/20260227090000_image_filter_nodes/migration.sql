@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'Sharpen';
+ALTER TYPE "NodeType" ADD VALUE 'Levels';
+ALTER TYPE "NodeType" ADD VALUE 'ColorBalance';
+ALTER TYPE "NodeType" ADD VALUE 'Invert';
+ALTER TYPE "NodeType" ADD VALUE 'Grayscale';
+ALTER TYPE "NodeType" ADD VALUE 'Vignette';
+ALTER TYPE "NodeType" ADD VALUE 'Noise';
+ALTER TYPE "NodeType" ADD VALUE 'Rotate';
+ALTER TYPE "NodeType" ADD VALUE 'ChromaKey';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NodeType" ADD VALUE 'Upscale';
+
+-- AlterTable
+ALTER TABLE "task" ADD COLUMN     "progress" DOUBLE PRECISION;
@@ -0,0 +1,10 @@
+-- VideoCompositor nodes created before the template had an Output handle get it too
+INSERT INTO "handle" ("id", "type", "dataTypes", "label", "description", "order", "required", "templateHandleId", "nodeId", "updatedAt")
+SELECT md5(random()::text || clock_timestamp()::text || n."id"), th."type", th."dataTypes", th."label", th."description", th."order", th."required", th."id", n."id", CURRENT_TIMESTAMP
+FROM "node" n
+JOIN "nodeTemplateHandle" th ON th."templateId" = n."templateId" AND th."type" = 'Output'
+WHERE n."type" = 'VideoCompositor'
+  AND NOT EXISTS (
+    SELECT 1 FROM "handle" h
+    WHERE h."nodeId" = n."id" AND h."type" = 'Output'
+  );
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "taskBatch" ADD COLUMN     "parentIteration" INTEGER,
+ADD COLUMN     "parentJobData" JSONB,
+ADD COLUMN     "parentTaskId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "taskBatch_parentTaskId_idx" ON "taskBatch"("parentTaskId");
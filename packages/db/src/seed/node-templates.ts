@@ -2,6 +2,45 @@ import type { NodeTemplateCreateInput } from "../../generated/client/models/Node
 import { DataType, HandleType, NodeType, type PrismaClient } from "../client";
 
 export async function SEED_createNodeTemplates(prisma: PrismaClient) {
+	// Pixel filters run in the browser and on the server with the same shaders
+	const imageFilterNode = (
+		type: NodeType,
+		displayName: string,
+		description: string,
+		defaultConfig: NodeTemplateCreateInput["defaultConfig"],
+	): NodeTemplateCreateInput => ({
+		type,
+		displayName,
+		description,
+		category: "Image",
+		subcategory: null,
+		tokenPrice: 0.0,
+		variableInputs: false,
+		variableOutputs: false,
+		isTerminalNode: false,
+		isTransient: true,
+		templateHandles: {
+			create: [
+				{
+					type: HandleType.Input,
+					dataTypes: [DataType.Image],
+					required: true,
+					label: "Image",
+					order: 0,
+				},
+				{
+					type: HandleType.Output,
+					dataTypes: [DataType.Image],
+					label: "Result",
+					order: 0,
+				},
+			],
+		},
+		defaultConfig,
+	});
+
+	// tokenPrice is credits per billable unit of AI nodes:
+	// a token for LLM and Speech To Text, an image, a second of video or a character of speech
 	const nodes: NodeTemplateCreateInput[] = [
 		{
 			type: NodeType.VideoCompositor,
@@ -15,6 +54,16 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			variableOutputs: false,
 			isTerminalNode: false,
 			isTransient: true,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Video],
+						label: "Result",
+						order: 0,
+					},
+				],
+			},
 			defaultConfig: {
 				width: 1080,
 				height: 1080,
@@ -28,7 +77,7 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			category: "AI",
 			description: "Generate videos using first and last frame images",
 			subcategory: "Video",
-			tokenPrice: 0.0,
+			tokenPrice: 40,
 			variableInputs: false,
 			variableOutputs: false,
 			isTerminalNode: true,
@@ -85,7 +134,7 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			category: "AI",
 			description: "A video generation node.",
 			subcategory: "Video",
-			tokenPrice: 0.0,
+			tokenPrice: 40,
 			variableInputs: true,
 			variableInputDataTypes: ["Image"],
 			variableOutputs: false,
@@ -147,6 +196,195 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			},
 			defaultConfig: { content: "" },
 		},
+		{
+			type: NodeType.Number,
+			displayName: "Number",
+			description: "A number input",
+			category: "Inputs",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: false,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Number],
+						label: "Number",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: { value: 0 },
+		},
+		{
+			type: NodeType.Toggle,
+			displayName: "Toggle",
+			description: "A true / false input",
+			category: "Inputs",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: false,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Boolean],
+						label: "Value",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: { value: false },
+		},
+		{
+			type: NodeType.Compare,
+			displayName: "Compare",
+			description: "Checks a text or number against a value",
+			category: "Logic",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: false,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Text, DataType.Number],
+						label: "Input",
+						required: true,
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Boolean],
+						label: "Result",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: { operator: "contains", value: "", caseSensitive: false },
+		},
+		{
+			type: NodeType.Iterator,
+			displayName: "Iterator",
+			description:
+				"Runs the connected nodes once per line of text or imported image",
+			category: "Logic",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: true,
+			variableInputDataTypes: ["Text", "Image"],
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: true,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Text, DataType.Image],
+						label: "Items",
+						required: true,
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Text, DataType.Image],
+						label: "Item",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: {},
+		},
+		{
+			type: NodeType.SubCanvas,
+			displayName: "Sub-Canvas",
+			description: "Runs a published canvas as a single node",
+			category: "Workflows",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: true,
+			isTransient: false,
+			// Handles are created from the Text/File and Export nodes of the published canvas
+			templateHandles: {
+				create: [],
+			},
+			defaultConfig: {},
+		},
+		{
+			type: NodeType.Router,
+			displayName: "Router",
+			description: "Forwards its value to the True or False branch",
+			category: "Logic",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: false,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Boolean],
+						label: "Condition",
+						required: true,
+						order: 0,
+					},
+					{
+						type: HandleType.Input,
+						dataTypes: [
+							DataType.Text,
+							DataType.Number,
+							DataType.Boolean,
+							DataType.Image,
+							DataType.Video,
+							DataType.Audio,
+						],
+						label: "Value",
+						required: true,
+						order: 1,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [
+							DataType.Text,
+							DataType.Number,
+							DataType.Boolean,
+							DataType.Image,
+							DataType.Video,
+							DataType.Audio,
+						],
+						label: "True",
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [
+							DataType.Text,
+							DataType.Number,
+							DataType.Boolean,
+							DataType.Image,
+							DataType.Video,
+							DataType.Audio,
+						],
+						label: "False",
+						order: 1,
+					},
+				],
+			},
+			defaultConfig: {},
+		},
 		{
 			type: NodeType.TextMerger,
 			displayName: "Text Merger",
@@ -399,6 +637,181 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			},
 			defaultConfig: { hue: 0, saturation: 1, lightness: 1, brightness: 1 },
 		},
+		imageFilterNode(
+			NodeType.Sharpen,
+			"Sharpen",
+			"Sharpen the details of an image",
+			{
+				amount: 1,
+				radius: 1,
+			},
+		),
+		imageFilterNode(
+			NodeType.Levels,
+			"Levels",
+			"Adjust the black point, white point and midtones of an image",
+			{
+				inputBlack: 0,
+				inputWhite: 255,
+				gamma: 1,
+				outputBlack: 0,
+				outputWhite: 255,
+			},
+		),
+		imageFilterNode(
+			NodeType.ColorBalance,
+			"Color Balance",
+			"Shift the colors of the shadows, midtones and highlights",
+			{
+				shadows: { red: 0, green: 0, blue: 0 },
+				midtones: { red: 0, green: 0, blue: 0 },
+				highlights: { red: 0, green: 0, blue: 0 },
+				preserveLuminosity: true,
+			},
+		),
+		imageFilterNode(
+			NodeType.Invert,
+			"Invert",
+			"Invert the colors of an image",
+			{},
+		),
+		imageFilterNode(
+			NodeType.Grayscale,
+			"Grayscale",
+			"Turn an image grayscale or sepia",
+			{ tone: "grayscale", intensity: 1 },
+		),
+		imageFilterNode(
+			NodeType.Vignette,
+			"Vignette",
+			"Darken the edges of an image",
+			{ radius: 0.75, softness: 0.5, strength: 0.5 },
+		),
+		imageFilterNode(NodeType.Noise, "Noise", "Add film grain to an image", {
+			grain: 0.1,
+			monochrome: true,
+			seed: 0,
+		}),
+		imageFilterNode(NodeType.Rotate, "Rotate", "Rotate or flip an image", {
+			angle: 0,
+			flipHorizontal: false,
+			flipVertical: false,
+		}),
+		imageFilterNode(
+			NodeType.ChromaKey,
+			"Chroma Key",
+			"Make the green screen (or any key color) of an image transparent",
+			{ keyColor: "#00FF00", similarity: 0.4, smoothness: 0.08, spill: 0.1 },
+		),
+		{
+			type: NodeType.Encode,
+			displayName: "Encode",
+			description:
+				"Convert an image to WebP, AVIF, JPEG or PNG, compress it and strip or add metadata",
+			category: "Image",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: true,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Image],
+						required: true,
+						label: "Image",
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Image],
+						label: "Result",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: {
+				format: "webp",
+				quality: 80,
+				chromaSubsampling: "4:2:0",
+				colorProfile: "keep",
+				stripMetadata: true,
+				exif: {},
+			},
+		},
+		{
+			type: NodeType.RemoveBackground,
+			displayName: "Remove Background",
+			description: "Cut out the subject of an image, with its mask",
+			category: "Image",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: true,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Image],
+						required: true,
+						label: "Image",
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Image],
+						label: "Image",
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Image],
+						label: "Mask",
+						order: 1,
+					},
+				],
+			},
+			defaultConfig: {
+				segmenter: "onnx",
+				model: "gemini-2.5-flash-image",
+				threshold: 0,
+			},
+		},
+		{
+			type: NodeType.Upscale,
+			displayName: "Upscale",
+			description:
+				"Enlarge an image 2x or 4x, with resampling or an upscaling model",
+			category: "Image",
+			subcategory: null,
+			tokenPrice: 0.0,
+			variableInputs: false,
+			variableOutputs: false,
+			isTerminalNode: false,
+			isTransient: true,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Image],
+						required: true,
+						label: "Image",
+						order: 0,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Image],
+						label: "Result",
+						order: 0,
+					},
+				],
+			},
+			defaultConfig: { factor: "2x", algorithm: "lanczos" },
+		},
 		{
 			type: NodeType.Crop,
 			displayName: "Crop",
@@ -484,7 +897,7 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			description: "Generate images using prompt and reference image(s)",
 			category: "AI",
 			subcategory: null,
-			tokenPrice: 0.0,
+			tokenPrice: 4,
 			variableInputs: true,
 			variableInputDataTypes: ["Image"],
 			variableOutputs: false,
@@ -517,13 +930,65 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			},
 			defaultConfig: { model: "gemini-3-pro-image-preview" },
 		},
+		{
+			type: NodeType.Inpaint,
+			displayName: "Inpaint",
+			description:
+				"Regenerate the masked area of an image, or extend it by outpainting",
+			category: "AI",
+			subcategory: null,
+			tokenPrice: 4,
+			variableInputs: false,
+			variableOutputs: false,
+			showInQuickAccess: false,
+			isTerminalNode: true,
+			isTransient: false,
+			templateHandles: {
+				create: [
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Image],
+						required: true,
+						label: "Image",
+						order: 0,
+					},
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Image],
+						required: false,
+						label: "Mask",
+						order: 1,
+					},
+					{
+						type: HandleType.Input,
+						dataTypes: [DataType.Text],
+						required: true,
+						label: "Prompt",
+						order: 2,
+					},
+					{
+						type: HandleType.Output,
+						dataTypes: [DataType.Image],
+						label: "Image",
+						order: 0,
+					},
+				],
+			},
+			// The mode keeps the config apart from ImageGen configs
+			defaultConfig: {
+				model: "gemini-3-pro-image-preview",
+				mode: "inpaint",
+				padding: 256,
+				feather: 8,
+			},
+		},
 		{
 			type: NodeType.LLM,
 			displayName: "LLM",
 			description: "Run a LLM model",
 			category: "AI",
 			subcategory: null,
-			tokenPrice: 0.0,
+			tokenPrice: 0.0001,
 			variableInputs: true,
 			variableInputDataTypes: ["Image"],
 			variableOutputs: false,
@@ -569,7 +1034,7 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			description: "Create audio using text",
 			category: "AI",
 			subcategory: "Audio",
-			tokenPrice: 0.0,
+			tokenPrice: 0.002,
 			variableInputs: false,
 			variableOutputs: false,
 			isTerminalNode: true,
@@ -603,7 +1068,7 @@ export async function SEED_createNodeTemplates(prisma: PrismaClient) {
 			description: "Create text transcript of or extract context from an audio",
 			category: "AI",
 			subcategory: "Audio",
-			tokenPrice: 0.0,
+			tokenPrice: 0.0001,
 			variableInputs: false,
 			variableOutputs: false,
 			isTerminalNode: true,
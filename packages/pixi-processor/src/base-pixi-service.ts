@@ -1,4 +1,15 @@
-import type { ModulateNodeConfig, PaintNodeConfig } from "@gatewai/types";
+import type {
+	ChromaKeyNodeConfig,
+	ColorBalanceNodeConfig,
+	GrayscaleNodeConfig,
+	LevelsNodeConfig,
+	ModulateNodeConfig,
+	NoiseNodeConfig,
+	PaintNodeConfig,
+	RotateNodeConfig,
+	SharpenNodeConfig,
+	VignetteNodeConfig,
+} from "@gatewai/types";
 import { createPool, type Pool } from "generic-pool";
 import pLimit from "p-limit";
 import type {
@@ -12,7 +23,17 @@ import type {
 	Sprite,
 	Texture,
 } from "pixi.js";
-import { BuildModulateFilter } from "./filters/modulate";
+import {
+	BuildChromaKeyFilter,
+	BuildColorBalanceFilter,
+	BuildGrayscaleFilter,
+	BuildInvertFilter,
+	BuildLevelsFilter,
+	BuildModulateFilter,
+	BuildNoiseFilter,
+	BuildSharpenFilter,
+	BuildVignetteFilter,
+} from "./filters";
 import type { IPixiProcessor } from "./interface";
 
 export class ServiceAbortError extends Error {
@@ -444,4 +465,206 @@ export abstract class BasePixiService implements IPixiProcessor {
 			};
 		}, signal);
 	}
+
+	/**
+	 * Renders the image at its own size through a single filter.
+	 * Shared by the per-pixel adjustments, which only differ in their shader.
+	 */
+	private async processFilter(
+		imageUrl: string,
+		// biome-ignore lint/suspicious/noExplicitAny: Filter classes are built at runtime
+		buildFilter: (FilterBase: typeof Filter) => any,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.useApp(async (app) => {
+			this.ensureNotAborted(signal);
+
+			const texture = await this.loadTexture(imageUrl, apiKey);
+			this.ensureNotAborted(signal);
+
+			const { Sprite, Filter } = await this.getPixiModules();
+			const sprite = new Sprite(texture);
+
+			app.renderer.resize(texture.width, texture.height);
+
+			sprite.filters = [buildFilter(Filter)];
+			app.stage.addChild(sprite);
+
+			this.ensureNotAborted(signal);
+			app.render();
+
+			const dataUrl = await Promise.resolve(
+				this.extractBlob(app.renderer, app.stage),
+			);
+
+			return {
+				dataUrl,
+				width: app.renderer.width,
+				height: app.renderer.height,
+			};
+		}, signal);
+	}
+
+	public async processSharpen(
+		imageUrl: string,
+		config: SharpenNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildSharpenFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processLevels(
+		imageUrl: string,
+		config: LevelsNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildLevelsFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processColorBalance(
+		imageUrl: string,
+		config: ColorBalanceNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildColorBalanceFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processInvert(
+		imageUrl: string,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildInvertFilter(Filter))(),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processGrayscale(
+		imageUrl: string,
+		config: GrayscaleNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildGrayscaleFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processVignette(
+		imageUrl: string,
+		config: VignetteNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildVignetteFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processNoise(
+		imageUrl: string,
+		config: NoiseNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildNoiseFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processChromaKey(
+		imageUrl: string,
+		config: ChromaKeyNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.processFilter(
+			imageUrl,
+			(Filter) => new (BuildChromaKeyFilter(Filter))(config),
+			signal,
+			apiKey,
+		);
+	}
+
+	public async processRotate(
+		imageUrl: string,
+		config: RotateNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }> {
+		return this.useApp(async (app) => {
+			this.ensureNotAborted(signal);
+
+			const texture = await this.loadTexture(imageUrl, apiKey);
+			this.ensureNotAborted(signal);
+
+			const { Sprite } = await this.getPixiModules();
+			const sprite = new Sprite(texture);
+
+			// The output grows to the bounding box of the rotated image
+			const radians = ((config.angle ?? 0) * Math.PI) / 180;
+			const cos = Math.abs(Math.cos(radians));
+			const sin = Math.abs(Math.sin(radians));
+			const width = Math.max(
+				1,
+				Math.round(texture.width * cos + texture.height * sin),
+			);
+			const height = Math.max(
+				1,
+				Math.round(texture.width * sin + texture.height * cos),
+			);
+
+			// Flips apply before the rotation, around the center of the image
+			sprite.anchor.set(0.5);
+			sprite.position.set(width / 2, height / 2);
+			sprite.scale.set(
+				config.flipHorizontal ? -1 : 1,
+				config.flipVertical ? -1 : 1,
+			);
+			sprite.rotation = radians;
+
+			app.renderer.resize(width, height);
+			app.stage.addChild(sprite);
+
+			this.ensureNotAborted(signal);
+			app.render();
+
+			const dataUrl = await Promise.resolve(
+				this.extractBlob(app.renderer, app.stage),
+			);
+
+			return { dataUrl, width, height };
+		}, signal);
+	}
 }
@@ -0,0 +1,67 @@
+// @ts-nocheck
+import type { ChromaKeyNodeConfig } from "@gatewai/types";
+
+// "#RRGGBB" or "#RRGGBBAA" to 0-1 channels, alpha is ignored
+const hexToRgb = (hex: string) => {
+	const value = hex.replace("#", "");
+	return [0, 2, 4].map(
+		(offset) => Number.parseInt(value.slice(offset, offset + 2), 16) / 255 || 0,
+	);
+};
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildChromaKeyFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class ChromaKeyFilter extends (fClass as any) {
+		constructor(config: ChromaKeyNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+
+                uniform vec3 uKeyColor;
+                uniform float uSimilarity;
+                uniform float uSmoothness;
+                uniform float uSpill;
+
+                // Chroma (CbCr) of the color, brightness doesn't affect the key
+                vec2 rgb2uv(vec3 c) {
+                    return vec2(
+                        c.r * -0.100644 + c.g * -0.338572 + c.b * 0.439216 + 0.501961,
+                        c.r * 0.439216 + c.g * -0.398942 + c.b * -0.040274 + 0.501961
+                    );
+                }
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    if (color.a == 0.0) {
+                        gl_FragColor = color;
+                        return;
+                    }
+                    vec3 rgb = color.rgb / color.a;
+
+                    float dist = distance(rgb2uv(rgb), rgb2uv(uKeyColor)) - uSimilarity;
+                    float mask = pow(clamp(dist / max(uSmoothness, 0.0001), 0.0, 1.0), 1.5);
+
+                    // Pixels close to the key color lose its tint
+                    float spill = pow(clamp(dist / max(uSpill, 0.0001), 0.0, 1.0), 1.5);
+                    float gray = dot(rgb, vec3(0.2126, 0.7152, 0.0722));
+                    rgb = mix(vec3(gray), rgb, spill);
+
+                    float alpha = color.a * mask;
+                    gl_FragColor = vec4(rgb * alpha, alpha);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uKeyColor: new Float32Array(hexToRgb(config.keyColor ?? "#00FF00")),
+				uSimilarity: config.similarity ?? 0.4,
+				uSmoothness: config.smoothness ?? 0.08,
+				uSpill: config.spill ?? 0.1,
+			});
+		}
+	};
+};
+
+export { BuildChromaKeyFilter };
@@ -0,0 +1,65 @@
+// @ts-nocheck
+import type { ColorBalanceNodeConfig } from "@gatewai/types";
+
+const toShift = (shift?: { red: number; green: number; blue: number }) => [
+	(shift?.red ?? 0) / 100,
+	(shift?.green ?? 0) / 100,
+	(shift?.blue ?? 0) / 100,
+];
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildColorBalanceFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class ColorBalanceFilter extends (fClass as any) {
+		constructor(config: ColorBalanceNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+
+                // Shifts per tonal range (-1 to 1)
+                uniform vec3 uShadows;
+                uniform vec3 uMidtones;
+                uniform vec3 uHighlights;
+                uniform float uPreserveLuminosity;
+
+                float luma(vec3 c) {
+                    return dot(c, vec3(0.2126, 0.7152, 0.0722));
+                }
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    if (color.a == 0.0) {
+                        gl_FragColor = color;
+                        return;
+                    }
+                    vec3 rgb = color.rgb / color.a;
+
+                    // Weights of the tonal ranges add up to 1
+                    float l = luma(rgb);
+                    float shadows = 1.0 - smoothstep(0.0, 0.5, l);
+                    float highlights = smoothstep(0.5, 1.0, l);
+                    float midtones = 1.0 - shadows - highlights;
+
+                    vec3 shift = uShadows * shadows + uMidtones * midtones + uHighlights * highlights;
+                    vec3 balanced = clamp(rgb + shift * 0.25, 0.0, 1.0);
+                    if (uPreserveLuminosity > 0.5) {
+                        balanced = clamp(balanced + (l - luma(balanced)), 0.0, 1.0);
+                    }
+
+                    gl_FragColor = vec4(balanced * color.a, color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uShadows: new Float32Array(toShift(config.shadows)),
+				uMidtones: new Float32Array(toShift(config.midtones)),
+				uHighlights: new Float32Array(toShift(config.highlights)),
+				uPreserveLuminosity: config.preserveLuminosity === false ? 0.0 : 1.0,
+			});
+		}
+	};
+};
+
+export { BuildColorBalanceFilter };
@@ -0,0 +1,47 @@
+// @ts-nocheck
+import type { GrayscaleNodeConfig } from "@gatewai/types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildGrayscaleFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class GrayscaleFilter extends (fClass as any) {
+		constructor(config: GrayscaleNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+
+                uniform float uSepia;
+                uniform float uIntensity;
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    if (color.a == 0.0) {
+                        gl_FragColor = color;
+                        return;
+                    }
+                    vec3 rgb = color.rgb / color.a;
+
+                    vec3 gray = vec3(dot(rgb, vec3(0.2126, 0.7152, 0.0722)));
+                    vec3 sepia = vec3(
+                        dot(rgb, vec3(0.393, 0.769, 0.189)),
+                        dot(rgb, vec3(0.349, 0.686, 0.168)),
+                        dot(rgb, vec3(0.272, 0.534, 0.131))
+                    );
+                    vec3 toned = clamp(mix(gray, sepia, uSepia), 0.0, 1.0);
+                    rgb = mix(rgb, toned, uIntensity);
+
+                    gl_FragColor = vec4(rgb * color.a, color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uSepia: config.tone === "sepia" ? 1.0 : 0.0,
+				uIntensity: config.intensity ?? 1.0,
+			});
+		}
+	};
+};
+
+export { BuildGrayscaleFilter };
@@ -1 +1,9 @@
+export * from "./chroma-key";
+export * from "./color-balance";
+export * from "./grayscale";
+export * from "./invert";
+export * from "./levels";
 export * from "./modulate";
+export * from "./noise";
+export * from "./sharpen";
+export * from "./vignette";
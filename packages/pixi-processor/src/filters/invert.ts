@@ -0,0 +1,26 @@
+// @ts-nocheck
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildInvertFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class InvertFilter extends (fClass as any) {
+		constructor() {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    // Premultiplied, so 1 - color becomes alpha - color
+                    gl_FragColor = vec4(color.a - color.rgb, color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader);
+		}
+	};
+};
+
+export { BuildInvertFilter };
@@ -0,0 +1,49 @@
+// @ts-nocheck
+import type { LevelsNodeConfig } from "@gatewai/types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildLevelsFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class LevelsFilter extends (fClass as any) {
+		constructor(config: LevelsNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+
+                // Levels normalized to 0-1
+                uniform float uInputBlack;
+                uniform float uInputWhite;
+                uniform float uGamma;
+                uniform float uOutputBlack;
+                uniform float uOutputWhite;
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    if (color.a == 0.0) {
+                        gl_FragColor = color;
+                        return;
+                    }
+                    vec3 rgb = color.rgb / color.a;
+
+                    rgb = clamp((rgb - uInputBlack) / (uInputWhite - uInputBlack), 0.0, 1.0);
+                    rgb = pow(rgb, vec3(1.0 / uGamma));
+                    rgb = mix(vec3(uOutputBlack), vec3(uOutputWhite), rgb);
+
+                    gl_FragColor = vec4(rgb * color.a, color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uInputBlack: (config.inputBlack ?? 0) / 255,
+				uInputWhite: (config.inputWhite ?? 255) / 255,
+				uGamma: config.gamma ?? 1.0,
+				uOutputBlack: (config.outputBlack ?? 0) / 255,
+				uOutputWhite: (config.outputWhite ?? 255) / 255,
+			});
+		}
+	};
+};
+
+export { BuildLevelsFilter };
@@ -0,0 +1,56 @@
+// @ts-nocheck
+import type { NoiseNodeConfig } from "@gatewai/types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildNoiseFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class NoiseFilter extends (fClass as any) {
+		constructor(config: NoiseNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+                uniform vec4 inputSize;
+
+                uniform float uGrain;
+                uniform float uMonochrome;
+                uniform float uSeed;
+
+                // Hash without sine, sin() precision differs between GPUs
+                float hash(vec2 p) {
+                    vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+                    p3 += dot(p3, p3.yzx + 33.33);
+                    return fract((p3.x + p3.y) * p3.z);
+                }
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    if (color.a == 0.0) {
+                        gl_FragColor = color;
+                        return;
+                    }
+                    vec3 rgb = color.rgb / color.a;
+
+                    vec2 pixel = floor(vTextureCoord * inputSize.xy) + uSeed;
+                    float mono = hash(pixel);
+                    vec3 noise = uMonochrome > 0.5
+                        ? vec3(mono)
+                        : vec3(mono, hash(pixel + 101.0), hash(pixel + 211.0));
+                    rgb = clamp(rgb + (noise - 0.5) * uGrain, 0.0, 1.0);
+
+                    gl_FragColor = vec4(rgb * color.a, color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uGrain: config.grain ?? 0.1,
+				uMonochrome: config.monochrome === false ? 0.0 : 1.0,
+				// Kept small, large floats lose the precision the hash needs
+				uSeed: (config.seed ?? 0) % 4096,
+			});
+		}
+	};
+};
+
+export { BuildNoiseFilter };
@@ -0,0 +1,46 @@
+// @ts-nocheck
+import type { SharpenNodeConfig } from "@gatewai/types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildSharpenFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class SharpenFilter extends (fClass as any) {
+		constructor(config: SharpenNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+                uniform vec4 inputSize;
+                uniform vec4 inputClamp;
+
+                uniform float uAmount;
+                uniform float uRadius;
+
+                vec4 sampleAt(vec2 offset) {
+                    return texture2D(uSampler, clamp(vTextureCoord + offset, inputClamp.xy, inputClamp.zw));
+                }
+
+                void main() {
+                    vec2 texel = inputSize.zw * uRadius;
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+                    vec4 neighbours = sampleAt(vec2(texel.x, 0.0))
+                        + sampleAt(vec2(-texel.x, 0.0))
+                        + sampleAt(vec2(0.0, texel.y))
+                        + sampleAt(vec2(0.0, -texel.y));
+
+                    // Unsharp mask, premultiplied colors can't exceed alpha
+                    vec3 rgb = color.rgb + uAmount * (4.0 * color.rgb - neighbours.rgb);
+                    gl_FragColor = vec4(clamp(rgb, 0.0, color.a), color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uAmount: config.amount ?? 1.0,
+				uRadius: config.radius ?? 1.0,
+			});
+		}
+	};
+};
+
+export { BuildSharpenFilter };
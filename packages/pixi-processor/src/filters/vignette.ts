@@ -0,0 +1,44 @@
+// @ts-nocheck
+import type { VignetteNodeConfig } from "@gatewai/types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+const BuildVignetteFilter = (fClass: any) => {
+	// biome-ignore lint/suspicious/noExplicitAny: Supress warning / it works
+	return class VignetteFilter extends (fClass as any) {
+		constructor(config: VignetteNodeConfig) {
+			const fragmentShader = `
+                precision highp float;
+
+                varying vec2 vTextureCoord;
+                uniform sampler2D uSampler;
+                uniform vec4 inputSize;
+                uniform vec4 outputFrame;
+
+                uniform float uRadius;
+                uniform float uSoftness;
+                uniform float uStrength;
+
+                void main() {
+                    vec4 color = texture2D(uSampler, vTextureCoord);
+
+                    // Position in the image, 0 at the center and 1 at the corners
+                    vec2 uv = vTextureCoord * inputSize.xy / outputFrame.zw;
+                    float dist = length(uv - 0.5) * 1.41421356;
+
+                    float edge = uSoftness * 0.5 + 0.0001;
+                    float falloff = smoothstep(uRadius - edge, uRadius + edge, dist);
+
+                    gl_FragColor = vec4(color.rgb * (1.0 - falloff * uStrength), color.a);
+                }
+            `;
+
+			super(undefined, fragmentShader, {
+				uRadius: config.radius ?? 0.75,
+				uSoftness: config.softness ?? 0.5,
+				uStrength: config.strength ?? 0.5,
+			});
+		}
+	};
+};
+
+export { BuildVignetteFilter };
@@ -1,4 +1,15 @@
-import type { ModulateNodeConfig, PaintNodeConfig } from "@gatewai/types";
+import type {
+	ChromaKeyNodeConfig,
+	ColorBalanceNodeConfig,
+	GrayscaleNodeConfig,
+	LevelsNodeConfig,
+	ModulateNodeConfig,
+	NoiseNodeConfig,
+	PaintNodeConfig,
+	RotateNodeConfig,
+	SharpenNodeConfig,
+	VignetteNodeConfig,
+} from "@gatewai/types";
 
 export interface IPixiProcessor {
 	processModulate(
@@ -44,4 +55,66 @@ export interface IPixiProcessor {
 		imageWithMask: { dataUrl: Blob; width: number; height: number };
 		onlyMask: { dataUrl: Blob; width: number; height: number };
 	}>;
+
+	processSharpen(
+		imageUrl: string,
+		config: SharpenNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processLevels(
+		imageUrl: string,
+		config: LevelsNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processColorBalance(
+		imageUrl: string,
+		config: ColorBalanceNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processInvert(
+		imageUrl: string,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processGrayscale(
+		imageUrl: string,
+		config: GrayscaleNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processVignette(
+		imageUrl: string,
+		config: VignetteNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processNoise(
+		imageUrl: string,
+		config: NoiseNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processRotate(
+		imageUrl: string,
+		config: RotateNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
+
+	processChromaKey(
+		imageUrl: string,
+		config: ChromaKeyNodeConfig,
+		signal?: AbortSignal,
+		apiKey?: string,
+	): Promise<{ dataUrl: Blob; width: number; height: number }>;
 }
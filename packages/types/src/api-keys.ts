@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+/**
+ * Scopes an API key can be granted, keys without scopes have full access.
+ * `run:<canvasId>` allows running a single canvas, `run:*` every canvas.
+ */
+export const API_KEY_SCOPES = [
+	"canvas:read",
+	"canvas:write",
+	"run:*",
+	"assets:read",
+	"assets:write",
+	"agent",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number] | `run:${string}`;
+
+export const ApiKeyScopeSchema = z.union([
+	z.enum(API_KEY_SCOPES),
+	z
+		.string()
+		.regex(/^run:[^*\s]+$/)
+		.transform((scope) => scope as `run:${string}`),
+]);
+
+/**
+ * Scopes stored in `ApiKey.permissions`, null when the key has full access.
+ * Permissions that don't parse grant nothing.
+ */
+export function parseApiKeyScopes(permissions: unknown): ApiKeyScope[] | null {
+	if (permissions === null || permissions === undefined) return null;
+	const result = z.array(ApiKeyScopeSchema).safeParse(permissions);
+	return result.success ? result.data : [];
+}
+
+/**
+ * Whether the scopes grant `scope`, `<resource>:*` grants every scope of the resource.
+ */
+export function hasApiKeyScope(scopes: ApiKeyScope[], scope: ApiKeyScope) {
+	const [resource] = scope.split(":");
+	return (
+		scopes.includes(scope) || scopes.includes(`${resource}:*` as ApiKeyScope)
+	);
+}
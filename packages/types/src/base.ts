@@ -21,6 +21,25 @@ export const NodeTypes = [
 	"TextToSpeech",
 	"SpeechToText",
 	"VideoCompositor",
+	"Number",
+	"Toggle",
+	"Compare",
+	"Router",
+	"Iterator",
+	"SubCanvas",
+	"Inpaint",
+	"Sharpen",
+	"Levels",
+	"ColorBalance",
+	"Invert",
+	"Grayscale",
+	"Vignette",
+	"Noise",
+	"Rotate",
+	"ChromaKey",
+	"Encode",
+	"RemoveBackground",
+	"Upscale",
 ] as const;
 
 export const DataTypes = [
@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+// Messages of the canvas collaboration WebSocket, `GET /canvas/:id/collab`.
+
+export const CANVAS_ENTITY_KINDS = ["node", "edge", "handle"] as const;
+
+export type CanvasEntityKind = (typeof CANVAS_ENTITY_KINDS)[number];
+
+// Object fields whose keys are merged, ops only carry the changed keys
+const MERGED_FIELDS = ["config", "result"];
+
+/**
+ * Change to a single node, edge or handle. Upserts only carry the changed fields,
+ * so concurrent edits of an entity are merged instead of overwriting each other.
+ */
+export const CanvasOpSchema = z.discriminatedUnion("op", [
+	z.object({
+		op: z.literal("upsert"),
+		entity: z.enum(CANVAS_ENTITY_KINDS),
+		id: z.string(),
+		fields: z.record(z.unknown()),
+	}),
+	z.object({
+		op: z.literal("delete"),
+		entity: z.enum(CANVAS_ENTITY_KINDS),
+		id: z.string(),
+	}),
+]);
+
+export type CanvasOp = z.infer<typeof CanvasOpSchema>;
+
+export const CanvasOpsSchema = z.object({
+	ops: z.array(CanvasOpSchema).max(2000),
+});
+
+const CollabPresenceSchema = z.object({
+	// Flow coordinates, null when the pointer left the canvas
+	cursor: z.object({ x: z.number(), y: z.number() }).nullable(),
+	selectedNodeIds: z.array(z.string()).max(500),
+});
+
+export type CollabPresence = z.infer<typeof CollabPresenceSchema>;
+
+export const CollabClientMessageSchema = z.discriminatedUnion("type", [
+	CanvasOpsSchema.extend({ type: z.literal("ops") }),
+	CollabPresenceSchema.extend({ type: z.literal("presence") }),
+]);
+
+export type CollabClientMessage = z.infer<typeof CollabClientMessageSchema>;
+
+export interface CollabUser {
+	id: string;
+	name: string;
+}
+
+export type CollabServerMessage =
+	| { type: "welcome"; clientId: string; canEdit: boolean }
+	// Peers answer a join with their presence
+	| { type: "join"; clientId: string; user: CollabUser }
+	| ({
+			type: "presence";
+			clientId: string;
+			user: CollabUser;
+	  } & CollabPresence)
+	| { type: "ops"; clientId: string; ops: CanvasOp[] }
+	| { type: "leave"; clientId: string }
+	// The canvas was replaced by a bulk update or an agent patch
+	| { type: "reload" };
+
+/**
+ * Merges the fields of a later upsert into an earlier one, `config` and `result` key by key.
+ */
+export function mergeCanvasOpFields<T extends Record<string, unknown>>(
+	fields: T,
+	update: Record<string, unknown>,
+): T {
+	const merged: Record<string, unknown> = { ...fields, ...update };
+	for (const field of MERGED_FIELDS) {
+		if (isPlainObject(fields[field]) && isPlainObject(update[field])) {
+			merged[field] = { ...fields[field], ...update[field] };
+		}
+	}
+	return merged as T;
+}
+
+/**
+ * Collapses ops to at most one per entity, e.g. to send what changed since the last save.
+ */
+export function coalesceCanvasOps(ops: CanvasOp[]): CanvasOp[] {
+	const byEntity = new Map<string, CanvasOp>();
+	for (const op of ops) {
+		const key = `${op.entity}:${op.id}`;
+		const previous = byEntity.get(key);
+		// Re-insert so entities keep the order of their latest change
+		byEntity.delete(key);
+		if (op.op === "upsert" && previous?.op === "upsert") {
+			byEntity.set(key, {
+				...op,
+				fields: mergeCanvasOpFields(previous.fields, op.fields),
+			});
+		} else {
+			byEntity.set(key, op);
+		}
+	}
+	return Array.from(byEntity.values());
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,5 +1,6 @@
 // schemas.ts
 import { z } from "zod";
+import { DEFAULT_MODEL_PROVIDER } from "../models.js";
 
 // Shared Enums and Constants
 export const IMAGEGEN_ASPECT_RATIOS = [
@@ -17,6 +18,8 @@ export const IMAGEGEN_ASPECT_RATIOS = [
 
 export const IMAGEGEN_IMAGE_SIZES = ["1K", "2K", "4K"] as const;
 
+// Model lists below are the models of the default (Google) provider
+
 export const IMAGEGEN_NODE_MODELS = [
 	"gemini-3-pro-image-preview",
 	"gemini-2.5-flash-image",
@@ -120,6 +123,16 @@ export const TTS_LANGUAGES = [
 	"te-IN",
 ] as const;
 
+export const COMPARE_OPERATORS = [
+	"contains",
+	"equals",
+	"regex",
+	"gt",
+	"gte",
+	"lt",
+	"lte",
+] as const;
+
 export const COMPOSITE_OPERATIONS = [
 	// Basic Compositing
 	"source-over",
@@ -325,10 +338,14 @@ const SpeakerVoiceConfigSchema = z
 			.string()
 			.describe("The name of the speaker as it appears in the text prompt")
 			.optional(),
-		voiceName: z.enum(TTS_VOICE_NAMES),
+		// Voices differ per provider, checked against the provider's voices when the node runs
+		voiceName: z.string().min(1),
 	})
 	.strict();
 
+// Registered provider of the model, models are validated by the provider when the node runs
+const ModelProviderSchema = z.string().min(1).default(DEFAULT_MODEL_PROVIDER);
+
 // Node-Specific Schemas (grouped by category for easier navigation/addition)
 
 // Text-Related Nodes
@@ -352,6 +369,44 @@ export const NoteNodeConfigSchema = z
 	})
 	.strict();
 
+// Logic Nodes
+export const NumberNodeConfigSchema = z
+	.object({
+		value: z.number().default(0),
+	})
+	.strict();
+
+export const ToggleNodeConfigSchema = z
+	.object({
+		value: z.boolean().default(false),
+	})
+	.strict();
+
+export const CompareNodeConfigSchema = z
+	.object({
+		operator: z.enum(COMPARE_OPERATORS).default("contains"),
+		// Text, number or regex pattern the input is compared against
+		value: z.string().default(""),
+		caseSensitive: z.boolean().default(false),
+	})
+	.strict();
+
+export const RouterNodeConfigSchema = z.object({}).strict();
+
+export const IteratorNodeConfigSchema = z.object({}).strict();
+
+// Composition Nodes
+export const SubCanvasNodeConfigSchema = z
+	.object({
+		// Published canvas that runs when this node runs
+		canvasId: z.string(),
+		// Text/File node of the published canvas behind each input handle, by handle order
+		inputNodeIds: z.array(z.string()).default([]),
+		// Export node of the published canvas behind each output handle, by handle order
+		outputNodeIds: z.array(z.string()).default([]),
+	})
+	.strict();
+
 // File/Preview Nodes
 export const FileNodeConfigSchema = z.object({}).strict();
 
@@ -360,9 +415,36 @@ export const PreviewNodeConfigSchema = z.object({}).strict();
 // Image-Related Nodes
 export const ImageGenNodeConfigSchema = z
 	.object({
-		model: z.enum(IMAGEGEN_NODE_MODELS),
+		provider: ModelProviderSchema,
+		model: z.string().min(1),
 		aspectRatio: z.enum(IMAGEGEN_ASPECT_RATIOS).default("1:1"),
 		imageSize: z.enum(IMAGEGEN_IMAGE_SIZES).default("1K"),
+		// Seeded runs are reproducible, so their results are cached
+		seed: z.number().int().optional(),
+	})
+	.strict()
+	.refine(
+		(data) =>
+			!(data.model === "gemini-2.5-flash-image" && data.imageSize !== "1K"),
+		{
+			message: "Higher resolutions only supported by pro model",
+			path: ["imageSize"],
+		},
+	);
+
+export const INPAINT_MODES = ["inpaint", "outpaint"] as const;
+
+export const InpaintNodeConfigSchema = z
+	.object({
+		provider: ModelProviderSchema,
+		model: z.string().min(1),
+		imageSize: z.enum(IMAGEGEN_IMAGE_SIZES).default("1K"),
+		// Outpaint extends the image by `padding` pixels on every side and fills it
+		mode: z.enum(INPAINT_MODES).default("inpaint"),
+		padding: z.number().int().min(1).max(2048).default(256),
+		// Blur radius of the mask edge, so generated pixels blend into the source
+		feather: z.number().int().min(0).max(100).default(8),
+		seed: z.number().int().optional(),
 	})
 	.strict()
 	.refine(
@@ -400,6 +482,152 @@ export const ModulateNodeConfigSchema = z
 	})
 	.strict();
 
+export const SharpenNodeConfigSchema = z
+	.object({
+		amount: z.number().min(0).max(5).default(1),
+		// Distance in pixels of the neighbours each pixel is compared to
+		radius: z.number().min(0.5).max(10).default(1),
+	})
+	.strict();
+
+const LevelSchema = z.number().int().min(0).max(255);
+
+export const LevelsNodeConfigSchema = z
+	.object({
+		inputBlack: LevelSchema.default(0),
+		inputWhite: LevelSchema.default(255),
+		// Midtone curve, above 1 brightens and below 1 darkens
+		gamma: z.number().min(0.1).max(10).default(1),
+		outputBlack: LevelSchema.default(0),
+		outputWhite: LevelSchema.default(255),
+	})
+	.strict()
+	.refine((data) => data.inputBlack < data.inputWhite, {
+		message: "Input white must be above input black",
+		path: ["inputWhite"],
+	});
+
+// Shift towards red, green and blue, negative values shift towards the complement
+const ColorShiftSchema = z
+	.object({
+		red: z.number().min(-100).max(100).default(0),
+		green: z.number().min(-100).max(100).default(0),
+		blue: z.number().min(-100).max(100).default(0),
+	})
+	.strict();
+
+export const ColorBalanceNodeConfigSchema = z
+	.object({
+		shadows: ColorShiftSchema.default({}),
+		midtones: ColorShiftSchema.default({}),
+		highlights: ColorShiftSchema.default({}),
+		preserveLuminosity: z.boolean().default(true),
+	})
+	.strict();
+
+export const InvertNodeConfigSchema = z.object({}).strict();
+
+export const GRAYSCALE_TONES = ["grayscale", "sepia"] as const;
+
+export const GrayscaleNodeConfigSchema = z
+	.object({
+		tone: z.enum(GRAYSCALE_TONES).default("grayscale"),
+		intensity: z.number().min(0).max(1).default(1),
+	})
+	.strict();
+
+export const VignetteNodeConfigSchema = z
+	.object({
+		// Distance from the center where edges are half darkened, 1 reaches the corners
+		radius: z.number().min(0).max(1.5).default(0.75),
+		softness: z.number().min(0).max(1).default(0.5),
+		strength: z.number().min(0).max(1).default(0.5),
+	})
+	.strict();
+
+export const NoiseNodeConfigSchema = z
+	.object({
+		grain: z.number().min(0).max(1).default(0.1),
+		monochrome: z.boolean().default(true),
+		// Same seed gives the same grain, in the browser and on the server
+		seed: z.number().int().min(0).default(0),
+	})
+	.strict();
+
+export const RotateNodeConfigSchema = z
+	.object({
+		// Clockwise, the output grows to fit the rotated image
+		angle: z.number().min(-360).max(360).default(0),
+		flipHorizontal: z.boolean().default(false),
+		flipVertical: z.boolean().default(false),
+	})
+	.strict();
+
+export const ChromaKeyNodeConfigSchema = z
+	.object({
+		keyColor: z.string().default("#00FF00"),
+		// How close to the key color pixels become transparent
+		similarity: z.number().min(0).max(1).default(0.4),
+		smoothness: z.number().min(0).max(1).default(0.08),
+		// Desaturates the key color reflected on the subject
+		spill: z.number().min(0).max(1).default(0.1),
+	})
+	.strict();
+
+export const ENCODE_FORMATS = ["webp", "avif", "jpeg", "png"] as const;
+export const ENCODE_CHROMA_SUBSAMPLINGS = ["4:2:0", "4:4:4"] as const;
+export const ENCODE_COLOR_PROFILES = ["keep", "srgb", "p3"] as const;
+
+export const EncodeNodeConfigSchema = z
+	.object({
+		format: z.enum(ENCODE_FORMATS).default("webp"),
+		quality: z.number().int().min(1).max(100).default(80),
+		chromaSubsampling: z.enum(ENCODE_CHROMA_SUBSAMPLINGS).default("4:2:0"),
+		// Quality is lowered until the file fits, when set
+		maxFileSizeKb: z.number().int().min(1).optional(),
+		colorProfile: z.enum(ENCODE_COLOR_PROFILES).default("keep"),
+		// Drops the EXIF and XMP of the input, the color profile follows colorProfile
+		stripMetadata: z.boolean().default(true),
+		exif: z
+			.object({
+				artist: z.string().optional(),
+				copyright: z.string().optional(),
+				description: z.string().optional(),
+			})
+			.strict()
+			.default({}),
+		xmp: z.string().optional(),
+	})
+	.strict();
+
+export const BACKGROUND_SEGMENTERS = ["onnx", "model"] as const;
+
+export const RemoveBackgroundNodeConfigSchema = z
+	.object({
+		// onnx runs the segmentation model of the server on CPU, model asks an image model for the mask
+		segmenter: z.enum(BACKGROUND_SEGMENTERS).default("onnx"),
+		provider: ModelProviderSchema,
+		model: z.string().min(1).default(IMAGEGEN_NODE_MODELS[1]),
+		// Mask values below it become fully transparent, 0 keeps soft edges like hair
+		threshold: z.number().min(0).max(1).default(0),
+	})
+	.strict();
+
+export const UPSCALE_FACTORS = ["2x", "4x"] as const;
+export const UPSCALE_ALGORITHMS = [
+	"lanczos",
+	"edge-directed",
+	"model",
+] as const;
+
+export const UpscaleNodeConfigSchema = z
+	.object({
+		factor: z.enum(UPSCALE_FACTORS).default("2x"),
+		// model runs the upscaling model of the server on CPU
+		algorithm: z.enum(UPSCALE_ALGORITHMS).default("lanczos"),
+	})
+	.strict();
+
 export const CropNodeConfigSchema = z
 	.object({
 		leftPercentage: PercentageSchema,
@@ -449,13 +677,18 @@ export const VideoCompositorNodeConfigSchema = z
 // AI/LLM Nodes
 export const LLMNodeConfigSchema = z
 	.object({
-		model: z.enum(LLM_NODE_MODELS),
+		provider: ModelProviderSchema,
+		model: z.string().min(1),
 		temperature: z.number().min(0).max(2).optional().default(0),
+		// Seeded runs are reproducible, so their results are cached
+		seed: z.number().int().optional(),
 	})
 	.strict();
 
 // Video-Related Nodes
 export const VideoGenNodeConfigSchema = VideoGenBaseSchema.extend({
+	provider: ModelProviderSchema,
+	model: z.string().min(1),
 	durationSeconds: z.enum(VIDEOGEN_DURATIONS).default("8"),
 })
 	.strict()
@@ -481,13 +714,15 @@ export const VideoGenFirstLastFrameNodeConfigSchema = VideoGenBaseSchema.extend(
 // Audio/Speech Nodes
 export const SpeechToTextNodeConfigSchema = z
 	.object({
-		model: z.enum(STT_NODE_MODELS).default("gemini-2.5-flash"),
+		provider: ModelProviderSchema,
+		model: z.string().min(1).default("gemini-2.5-flash"),
 	})
 	.strict();
 
 export const TextToSpeechNodeConfigSchema = z
 	.object({
-		model: z.enum(TTS_NODE_MODELS).default("gemini-2.5-flash-preview-tts"),
+		provider: ModelProviderSchema,
+		model: z.string().min(1).default("gemini-2.5-flash-preview-tts"),
 		languageCode: z.enum(TTS_LANGUAGES).optional(),
 		voiceName: z.string().optional(),
 		// Make the base schema's speaker field optional so it doesn't
@@ -554,6 +789,26 @@ const allNodeConfigSchemas = [
 	SpeechToTextNodeConfigSchema,
 	TextToSpeechNodeConfigSchema,
 	VideoCompositorNodeConfigSchema,
+	NumberNodeConfigSchema,
+	ToggleNodeConfigSchema,
+	CompareNodeConfigSchema,
+	RouterNodeConfigSchema,
+	IteratorNodeConfigSchema,
+	SubCanvasNodeConfigSchema,
+	// After ImageGen, configs without a mode are taken as ImageGen configs
+	InpaintNodeConfigSchema,
+	SharpenNodeConfigSchema,
+	LevelsNodeConfigSchema,
+	ColorBalanceNodeConfigSchema,
+	InvertNodeConfigSchema,
+	GrayscaleNodeConfigSchema,
+	VignetteNodeConfigSchema,
+	NoiseNodeConfigSchema,
+	RotateNodeConfigSchema,
+	ChromaKeyNodeConfigSchema,
+	EncodeNodeConfigSchema,
+	RemoveBackgroundNodeConfigSchema,
+	UpscaleNodeConfigSchema,
 ] as const;
 
 export const NodeConfigSchema = z.union(allNodeConfigSchemas);
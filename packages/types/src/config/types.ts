@@ -3,29 +3,48 @@ import type { z } from "zod";
 
 import type {
 	BlurNodeConfigSchema,
+	ChromaKeyNodeConfigSchema,
+	ColorBalanceNodeConfigSchema,
+	CompareNodeConfigSchema,
 	CompositorLayerSchema,
 	CompositorNodeConfigSchema,
 	CropNodeConfigSchema,
+	EncodeNodeConfigSchema,
 	FileNodeConfigSchema,
 	GlobalCompositeOperation,
+	GrayscaleNodeConfigSchema,
 	ImageGenNodeConfigSchema,
+	InpaintNodeConfigSchema,
+	InvertNodeConfigSchema,
+	IteratorNodeConfigSchema,
+	LevelsNodeConfigSchema,
 	LLMNodeConfigSchema,
 	MaskNodeConfigSchema,
 	ModulateNodeConfigSchema,
 	NodeConfigSchema,
+	NoiseNodeConfigSchema,
 	NoteNodeConfigSchema,
+	NumberNodeConfigSchema,
 	PaintNodeConfigSchema,
 	PreviewNodeConfigSchema,
+	RemoveBackgroundNodeConfigSchema,
 	ResizeNodeConfigSchema,
+	RotateNodeConfigSchema,
+	RouterNodeConfigSchema,
+	SharpenNodeConfigSchema,
 	SpeechToTextNodeConfigSchema,
+	SubCanvasNodeConfigSchema,
 	TextMergerNodeConfigSchema,
 	TextNodeConfigSchema,
 	TextToSpeechNodeConfigSchema,
+	ToggleNodeConfigSchema,
+	UpscaleNodeConfigSchema,
 	VideoCompositorLayerSchema,
 	VideoCompositorNodeConfigSchema,
 	VideoGenExtendNodeConfigSchema,
 	VideoGenFirstLastFrameNodeConfigSchema,
 	VideoGenNodeConfigSchema,
+	VignetteNodeConfigSchema,
 } from "./schemas.js";
 
 // Extract the TypeScript type from the schema
@@ -42,6 +61,26 @@ export type MaskNodeConfig = z.infer<typeof MaskNodeConfigSchema>;
 export type PaintNodeConfig = z.infer<typeof PaintNodeConfigSchema>;
 export type BlurNodeConfig = z.infer<typeof BlurNodeConfigSchema>;
 export type ModulateNodeConfig = z.infer<typeof ModulateNodeConfigSchema>;
+export type SharpenNodeConfig = z.infer<typeof SharpenNodeConfigSchema>;
+export type LevelsNodeConfig = z.infer<typeof LevelsNodeConfigSchema>;
+export type ColorBalanceNodeConfig = z.infer<
+	typeof ColorBalanceNodeConfigSchema
+>;
+export type InvertNodeConfig = z.infer<typeof InvertNodeConfigSchema>;
+export type GrayscaleNodeConfig = z.infer<typeof GrayscaleNodeConfigSchema>;
+export type GrayscaleTone = GrayscaleNodeConfig["tone"];
+export type VignetteNodeConfig = z.infer<typeof VignetteNodeConfigSchema>;
+export type NoiseNodeConfig = z.infer<typeof NoiseNodeConfigSchema>;
+export type RotateNodeConfig = z.infer<typeof RotateNodeConfigSchema>;
+export type ChromaKeyNodeConfig = z.infer<typeof ChromaKeyNodeConfigSchema>;
+export type EncodeNodeConfig = z.infer<typeof EncodeNodeConfigSchema>;
+export type EncodeFormat = EncodeNodeConfig["format"];
+export type RemoveBackgroundNodeConfig = z.infer<
+	typeof RemoveBackgroundNodeConfigSchema
+>;
+export type BackgroundSegmenter = RemoveBackgroundNodeConfig["segmenter"];
+export type UpscaleNodeConfig = z.infer<typeof UpscaleNodeConfigSchema>;
+export type UpscaleAlgorithm = UpscaleNodeConfig["algorithm"];
 export type NoteNodeConfig = z.infer<typeof NoteNodeConfigSchema>;
 export type CropNodeConfig = z.infer<typeof CropNodeConfigSchema>;
 export type CompositorNodeConfig = z.infer<typeof CompositorNodeConfigSchema>;
@@ -65,6 +104,15 @@ export type VideoCompositorNodeConfig = z.infer<
 	typeof VideoCompositorNodeConfigSchema
 >;
 export type VideoCompositorLayer = z.infer<typeof VideoCompositorLayerSchema>;
+export type NumberNodeConfig = z.infer<typeof NumberNodeConfigSchema>;
+export type ToggleNodeConfig = z.infer<typeof ToggleNodeConfigSchema>;
+export type CompareNodeConfig = z.infer<typeof CompareNodeConfigSchema>;
+export type CompareOperator = CompareNodeConfig["operator"];
+export type RouterNodeConfig = z.infer<typeof RouterNodeConfigSchema>;
+export type IteratorNodeConfig = z.infer<typeof IteratorNodeConfigSchema>;
+export type SubCanvasNodeConfig = z.infer<typeof SubCanvasNodeConfigSchema>;
+export type InpaintNodeConfig = z.infer<typeof InpaintNodeConfigSchema>;
+export type InpaintMode = InpaintNodeConfig["mode"];
 
 // Union Type for All Node Configs
 export type AllNodeConfig = z.infer<typeof NodeConfigSchema>;
@@ -1,7 +1,11 @@
 export * from "./agent.js";
+export * from "./api-keys.js";
 export * from "./base.js";
+export * from "./collab.js";
 export * from "./config/index.js";
 export * from "./constants.js";
+export * from "./models.js";
 export * from "./node.js";
 export * from "./node-result.js";
 export * from "./ops/index.js";
+export * from "./task-events.js";
@@ -0,0 +1,28 @@
+/**
+ * What a model provider can generate, each AI node uses one capability.
+ */
+export const MODEL_CAPABILITIES = [
+	"text",
+	"image",
+	"video",
+	"speech",
+	"transcription",
+] as const;
+
+export type ModelCapability = (typeof MODEL_CAPABILITIES)[number];
+
+/**
+ * Provider of nodes created before providers existed.
+ */
+export const DEFAULT_MODEL_PROVIDER = "google";
+
+/**
+ * A registered model provider and the models it offers per capability.
+ */
+export interface ModelProviderInfo {
+	id: string;
+	label: string;
+	models: Partial<Record<ModelCapability, string[]>>;
+	// Voices its speech models accept
+	voices?: string[];
+}
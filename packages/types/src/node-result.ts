@@ -18,6 +18,9 @@ export type ProcessData = {
 	// For the Audio, Video media types
 	duration?: number;
 	fps?: number;
+
+	// File size in bytes, when known
+	size?: number;
 };
 
 export type FileData = {
@@ -69,18 +72,37 @@ export type ImagesResult = MultiOutputGeneric<"Image">;
 
 export type ImageGenResult = ImagesResult;
 
+export type InpaintResult = ImagesResult;
+
 export type MaskResult = {
 	selectedOutputIndex: 0;
 	outputs: { items: [OutputItem<"Image">, OutputItem<"Image">] }[];
 };
 
 export type NumberResult = SingleOutputGeneric<"Number">;
+export type CompareResult = SingleOutputGeneric<"Boolean">;
 
 export type LLMResult = MultiOutputGeneric<"Text">;
 
 export type ResizeResult = SingleOutputGeneric<"Image">;
 
 export type ModulateResult = SingleOutputGeneric<"Image">;
+export type SharpenResult = SingleOutputGeneric<"Image">;
+export type LevelsResult = SingleOutputGeneric<"Image">;
+export type ColorBalanceResult = SingleOutputGeneric<"Image">;
+export type InvertResult = SingleOutputGeneric<"Image">;
+export type GrayscaleResult = SingleOutputGeneric<"Image">;
+export type VignetteResult = SingleOutputGeneric<"Image">;
+export type NoiseResult = SingleOutputGeneric<"Image">;
+export type RotateResult = SingleOutputGeneric<"Image">;
+export type ChromaKeyResult = SingleOutputGeneric<"Image">;
+
+export type UpscaleResult = SingleOutputGeneric<"Image">;
+
+export type EncodeResult = SingleOutputGeneric<"Image"> & {
+	// Bytes of the image before encoding, for the size readout
+	inputSize: number;
+};
 
 export type PaintResult = {
 	selectedOutputIndex: 0;
@@ -91,6 +113,9 @@ export type PaintResult = {
 	];
 };
 
+// Foreground with alpha, then the mask, like Paint
+export type RemoveBackgroundResult = PaintResult;
+
 export type BlurResult = SingleOutputGeneric<"Image">;
 export type CropResult = SingleOutputGeneric<"Image">;
 
@@ -115,6 +140,35 @@ export type AnyOutputUnion =
 	| OutputItem<"Number">
 	| OutputItem<"Boolean">;
 
+/**
+ * Router only has an item on the handle of the taken branch
+ */
+export type RouterResult = {
+	selectedOutputIndex: 0;
+	outputs: [{ items: [AnyOutputUnion] }];
+};
+
+/**
+ * A list of items, one output per item.
+ * Nodes downstream of an Iterator run once per item and store their results the same way,
+ * so `outputs[i]` always belongs to item `i`.
+ */
+export type ListResult = {
+	selectedOutputIndex: number;
+	outputs: { items: AnyOutputUnion[] }[];
+};
+
+export type IteratorResult = ListResult;
+
+/**
+ * Every run of the published canvas adds an output,
+ * with an item for each output handle that got a value from its Export node.
+ */
+export type SubCanvasResult = {
+	selectedOutputIndex: number;
+	outputs: { items: AnyOutputUnion[] }[];
+};
+
 /**
  * Export result may have
  */
@@ -138,15 +192,32 @@ export type NodeResult =
 	| FileResult
 	| ImagesResult
 	| ImageGenResult
+	| InpaintResult
 	| CropResult
 	| MaskResult
 	| NumberResult
+	| CompareResult
+	| RouterResult
+	| IteratorResult
+	| SubCanvasResult
 	| LLMResult
 	| ResizeResult
 	| PaintResult
 	| BlurResult
 	| CompositorResult
 	| ModulateResult
+	| SharpenResult
+	| LevelsResult
+	| ColorBalanceResult
+	| InvertResult
+	| GrayscaleResult
+	| VignetteResult
+	| NoiseResult
+	| RotateResult
+	| ChromaKeyResult
+	| EncodeResult
+	| RemoveBackgroundResult
+	| UpscaleResult
 	| VideoGenResult
 	| VideoGenExtendResult
 	| VideoGenFirstLastFrameResult
@@ -0,0 +1,39 @@
+import z from "zod";
+import { bulkUpdateSchema } from "./bulk-update.js";
+
+export const CANVAS_EXPORT_FORMAT = "gatewai.canvas";
+export const CANVAS_EXPORT_VERSION = 1;
+
+const canvasExportAssetSchema = z.object({
+	// ID of the asset in the exporting instance, as referenced by node configs and results
+	id: z.string(),
+	name: z.string(),
+	mimeType: z.string(),
+	width: z.number().nullable().optional(),
+	height: z.number().nullable().optional(),
+	duration: z.number().nullable().optional(),
+	fps: z.number().nullable().optional(),
+	// Base64 encoded file
+	data: z.string(),
+});
+
+/**
+ * Portable canvas document of `GET /canvas/:id/export` and `POST /canvas/import`.
+ * Templates differ between instances, so in the graph a node's `templateId` holds its
+ * NodeType and a handle's `templateHandleId` the label of its template handle.
+ */
+export const canvasExportSchema = z.object({
+	format: z.literal(CANVAS_EXPORT_FORMAT),
+	version: z.literal(CANVAS_EXPORT_VERSION),
+	exportedAt: z.string(),
+	canvas: z.object({
+		name: z.string(),
+		description: z.string().nullable().optional(),
+	}),
+	graph: bulkUpdateSchema,
+	// Only when exported with its assets
+	assets: z.array(canvasExportAssetSchema).optional(),
+});
+
+export type CanvasExport = z.infer<typeof canvasExportSchema>;
+export type CanvasExportAsset = z.infer<typeof canvasExportAssetSchema>;
@@ -1 +1,2 @@
 export * from "./bulk-update.js";
+export * from "./canvas-export.js";
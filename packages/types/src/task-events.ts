@@ -0,0 +1,39 @@
+import type { TaskStatus } from "@gatewai/db";
+import type { NodeResult } from "./node-result.js";
+
+// Events published by the workflow worker while a batch is processed.
+// Streamed by `GET /tasks/:canvasId/stream` and `GET /api-run/:batchId/events`.
+
+export interface GatewaiTaskUpdatedEvent {
+	type: "task_updated";
+	canvasId: string;
+	batchId: string;
+	task: {
+		id: string;
+		nodeId: string | null;
+		status: TaskStatus | null;
+		startedAt: string | null;
+		finishedAt: string | null;
+		durationMs: number | null;
+		// Share of the work done from 0 to 1, for nodes that report it
+		progress: number | null;
+		error: { message: string } | null;
+	};
+	/**
+	 * New result of the node, only set when a terminal node is completed.
+	 * Transient node results live in the task and are never sent.
+	 */
+	nodeResult?: NodeResult;
+}
+
+export interface GatewaiBatchUpdatedEvent {
+	type: "batch_updated";
+	canvasId: string;
+	batchId: string;
+	startedAt: string | null;
+	finishedAt: string | null;
+}
+
+export type GatewaiTaskEvent =
+	| GatewaiTaskUpdatedEvent
+	| GatewaiBatchUpdatedEvent;